@@ -30,9 +30,15 @@ CREATE TABLE IF NOT EXISTS event_log (
   correlation_id UUID NOT NULL,
   causation_id UUID,
   actor_id UUID NOT NULL,
-  actor_type VARCHAR(20) NOT NULL
+  actor_type VARCHAR(20) NOT NULL,
+
+  -- event_data shape version (see src/event-schemas.ts); older rows are upcast on read
+  schema_version SMALLINT NOT NULL DEFAULT 1
 );
 
+ALTER TABLE event_log
+  ADD COLUMN IF NOT EXISTS schema_version SMALLINT NOT NULL DEFAULT 1;
+
 -- LAW 0.7: Tuple ordering index
 CREATE INDEX IF NOT EXISTS idx_event_log_order
   ON event_log(ingested_at ASC, event_id ASC);
@@ -43,6 +49,14 @@ CREATE INDEX IF NOT EXISTS idx_event_log_aggregate
 CREATE INDEX IF NOT EXISTS idx_event_log_correlation
   ON event_log(correlation_id);
 
+-- Causal trace: children by causation, and events naming another aggregate in event_data
+CREATE INDEX IF NOT EXISTS idx_event_log_causation
+  ON event_log(causation_id)
+  WHERE causation_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_event_log_event_data_refs
+  ON event_log USING GIN (event_data jsonb_path_ops);
+
 -- Token lookups
 CREATE INDEX IF NOT EXISTS idx_event_log_token_consumed
   ON event_log((event_data->>'submissionTokenId'))
@@ -96,6 +110,102 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- ============================================
+-- TAMPER EVIDENCE: Hash chain per grant cycle
+-- ============================================
+-- event_hash = sha256(canonical event content | chain_seq | prev_hash).
+-- Links are written by a DEFERRED trigger at COMMIT, after every other lock the
+-- transaction takes, so chaining cannot deadlock with projection row locks and
+-- chain_seq follows commit order. Events written before the chain existed have
+-- no event_chain row.
+CREATE TABLE IF NOT EXISTS event_chain (
+  event_id UUID PRIMARY KEY REFERENCES event_log(event_id),
+  grant_cycle_id VARCHAR(20) NOT NULL,
+  chain_seq BIGINT NOT NULL,
+  prev_hash CHAR(64) NOT NULL,
+  event_hash CHAR(64) NOT NULL,
+  UNIQUE (grant_cycle_id, chain_seq)
+);
+
+CREATE TABLE IF NOT EXISTS event_chain_heads (
+  grant_cycle_id VARCHAR(20) PRIMARY KEY,
+  chain_seq BIGINT NOT NULL,
+  head_event_id UUID,
+  head_hash CHAR(64) NOT NULL
+);
+
+CREATE OR REPLACE FUNCTION compute_event_hash(e event_log, seq BIGINT, prev CHAR(64))
+RETURNS CHAR(64) AS $$
+  SELECT encode(digest(concat_ws('|',
+    e.event_id::text,
+    e.aggregate_type,
+    e.aggregate_id::text,
+    e.event_type,
+    e.event_data::text,
+    to_char(e.occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US'),
+    to_char(e.ingested_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US'),
+    e.grant_cycle_id,
+    e.correlation_id::text,
+    COALESCE(e.causation_id::text, ''),
+    e.actor_id::text,
+    e.actor_type,
+    e.schema_version::text,
+    seq::text,
+    prev
+  ), 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION chain_event_hash()
+RETURNS trigger AS $$
+DECLARE
+  last_seq BIGINT := 0;
+  last_hash CHAR(64) := repeat('0', 64);
+  next_hash CHAR(64);
+BEGIN
+  INSERT INTO event_chain_heads (grant_cycle_id, chain_seq, head_event_id, head_hash)
+  VALUES (NEW.grant_cycle_id, 0, NULL, repeat('0', 64))
+  ON CONFLICT (grant_cycle_id) DO NOTHING;
+
+  -- The heads row only serializes writers. The link itself follows the last row in
+  -- event_chain, so a head left behind by TRUNCATE event_log CASCADE cannot open a gap.
+  PERFORM 1 FROM event_chain_heads
+  WHERE grant_cycle_id = NEW.grant_cycle_id
+  FOR UPDATE;
+
+  SELECT chain_seq, event_hash INTO last_seq, last_hash
+  FROM event_chain
+  WHERE grant_cycle_id = NEW.grant_cycle_id
+  ORDER BY chain_seq DESC
+  LIMIT 1;
+  IF NOT FOUND THEN
+    last_seq := 0;
+    last_hash := repeat('0', 64);
+  END IF;
+
+  next_hash := compute_event_hash(NEW, last_seq + 1, last_hash);
+
+  INSERT INTO event_chain (event_id, grant_cycle_id, chain_seq, prev_hash, event_hash)
+  VALUES (NEW.event_id, NEW.grant_cycle_id, last_seq + 1, last_hash, next_hash);
+
+  UPDATE event_chain_heads
+  SET chain_seq = last_seq + 1, head_event_id = NEW.event_id, head_hash = next_hash
+  WHERE grant_cycle_id = NEW.grant_cycle_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS event_chain_immutable ON event_chain;
+CREATE TRIGGER event_chain_immutable
+BEFORE UPDATE OR DELETE ON event_chain
+FOR EACH ROW EXECUTE FUNCTION prevent_artifact_mutation();
+
+DROP TRIGGER IF EXISTS event_log_chain_hash ON event_log;
+CREATE CONSTRAINT TRIGGER event_log_chain_hash
+AFTER INSERT ON event_log
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION chain_event_hash();
+
 -- ============================================
 -- ARTIFACT LOG
 -- ============================================
@@ -227,6 +337,7 @@ CREATE TABLE IF NOT EXISTS vouchers_projection (
   status VARCHAR(20) NOT NULL,
   max_reimbursement_cents BIGINT NOT NULL,
   is_lirp BOOLEAN NOT NULL DEFAULT FALSE,
+  lirp_fallback_cents BIGINT NOT NULL DEFAULT 0,
   tentative_expires_at TIMESTAMPTZ,
   expires_at TIMESTAMPTZ NOT NULL,
   issued_at TIMESTAMPTZ,
@@ -242,6 +353,8 @@ CREATE INDEX IF NOT EXISTS idx_vouchers_tentative_expiry
   ON vouchers_projection(tentative_expires_at)
   WHERE status = 'TENTATIVE';
 
+ALTER TABLE vouchers_projection ADD COLUMN IF NOT EXISTS lirp_fallback_cents BIGINT NOT NULL DEFAULT 0;
+
 CREATE TABLE IF NOT EXISTS allocators_projection (
   allocator_id UUID PRIMARY KEY,  -- Hash-derived UUID (see IDENTITY_EXCEPTIONS.md)
   grant_cycle_id VARCHAR(20) NOT NULL,
@@ -323,6 +436,13 @@ CREATE TABLE IF NOT EXISTS marketplace_webhook_deliveries (
 CREATE INDEX IF NOT EXISTS idx_marketplace_webhook_deliveries_partner
   ON marketplace_webhook_deliveries(partner_id, delivered_at DESC);
 
+-- One row per delivery attempt; outbox_message_id groups the retries of a single notification
+ALTER TABLE marketplace_webhook_deliveries ADD COLUMN IF NOT EXISTS outbox_message_id UUID;
+ALTER TABLE marketplace_webhook_deliveries ADD COLUMN IF NOT EXISTS attempt_number INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_webhook_deliveries_outbox
+  ON marketplace_webhook_deliveries(outbox_message_id);
+
 -- ============================================
 -- PHASE 3 PROJECTIONS (SETTLEMENT)
 -- ============================================
@@ -528,3 +648,107 @@ ALTER TABLE invoices_projection
   ADD COLUMN IF NOT EXISTS oasis_export_batch_id UUID,
   ADD COLUMN IF NOT EXISTS last_event_ingested_at TIMESTAMPTZ,
   ADD COLUMN IF NOT EXISTS last_event_id UUID;
+
+-- ============================================
+-- AGGREGATE SNAPSHOTS (Operational, derived from event_log)
+-- ============================================
+-- Replay accelerator only: every row can be discarded and regenerated.
+-- stream_version = number of events folded into snapshot_state.
+CREATE TABLE IF NOT EXISTS aggregate_snapshots (
+  aggregate_type VARCHAR(50) NOT NULL,
+  aggregate_id UUID NOT NULL,
+  stream_version INTEGER NOT NULL,
+  snapshot_state JSONB NOT NULL,
+  watermark_ingested_at TIMESTAMPTZ NOT NULL,
+  watermark_event_id UUID NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  PRIMARY KEY (aggregate_type, aggregate_id, stream_version)
+);
+
+-- reducer_version = AggregateReducer.stateVersion that produced snapshot_state; rows from
+-- before versioning (0) or from an older reducer are never loaded.
+ALTER TABLE aggregate_snapshots
+  ADD COLUMN IF NOT EXISTS reducer_version INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_aggregate_snapshots_watermark
+  ON aggregate_snapshots(aggregate_type, aggregate_id, watermark_ingested_at DESC, watermark_event_id DESC);
+
+-- ============================================
+-- EVENT SUBSCRIPTIONS (Operational, UPDATE allowed)
+-- ============================================
+-- Wake-up signal only; subscribers read events via watermark fetch, never from the payload.
+-- NOTIFY is delivered on COMMIT and duplicate notifications within a transaction collapse.
+CREATE OR REPLACE FUNCTION notify_event_log_appended()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM pg_notify('event_log_appended', '');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS event_log_notify_appended ON event_log;
+CREATE TRIGGER event_log_notify_appended
+AFTER INSERT ON event_log
+FOR EACH STATEMENT EXECUTE FUNCTION notify_event_log_appended();
+
+-- Durable per-subscriber checkpoint: last event the handler completed (exclusive watermark)
+CREATE TABLE IF NOT EXISTS event_subscription_checkpoints (
+  subscriber_id VARCHAR(100) PRIMARY KEY,
+  watermark_ingested_at TIMESTAMPTZ NOT NULL,
+  watermark_event_id UUID NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+-- ============================================
+-- PROJECTION CHECKPOINTS (Operational, UPDATE allowed)
+-- ============================================
+-- Per-projection watermark for the incremental projection engine (src/projections/engine.ts).
+-- Advanced in the same transaction as the projection rows it covers.
+CREATE TABLE IF NOT EXISTS projection_checkpoints (
+  projection_name VARCHAR(100) PRIMARY KEY,
+  watermark_ingested_at TIMESTAMPTZ NOT NULL,
+  watermark_event_id UUID NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+-- ============================================
+-- TRANSACTIONAL OUTBOX (Operational, UPDATE allowed)
+-- ============================================
+-- Outbound side effects are enqueued in the same transaction as the event that causes them
+-- and delivered afterwards by OutboxDispatcher (src/outbox.ts) with retries and back-off.
+CREATE TABLE IF NOT EXISTS outbox_messages (
+  message_id UUID PRIMARY KEY,
+  topic VARCHAR(80) NOT NULL,
+  source_event_id UUID REFERENCES event_log(event_id),
+  correlation_id UUID,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  lease_id UUID,               -- set while a dispatcher holds the message; next_attempt_at is then the lease expiry
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT outbox_status_valid CHECK (status IN ('PENDING', 'DELIVERED', 'DEAD'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_due
+  ON outbox_messages(next_attempt_at, created_at)
+  WHERE status = 'PENDING';
+
+-- ============================================
+-- PII SUBJECT KEYS (Crypto-shredding, UPDATE allowed)
+-- ============================================
+-- Designated personal fields are AES-256-GCM encrypted inside event_data with a per-subject
+-- key (src/pii-vault.ts). Forgetting a subject nulls key_material: the events stay byte-for-byte
+-- unchanged (hash chain intact) but those fields can no longer be decrypted.
+CREATE TABLE IF NOT EXISTS pii_subject_keys (
+  subject_id VARCHAR(100) PRIMARY KEY,
+  key_material BYTEA,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  forgotten_at TIMESTAMPTZ,
+  forgotten_by UUID,
+  forget_reason TEXT,
+  CONSTRAINT pii_key_present_or_forgotten CHECK ((key_material IS NULL) = (forgotten_at IS NOT NULL))
+);
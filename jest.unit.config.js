@@ -0,0 +1,7 @@
+module.exports = {
+  testEnvironment: 'node',
+  testMatch: ['**/tests/unit/**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': require.resolve('ts-jest'),
+  },
+};
@@ -27,17 +27,68 @@ export function errorHandler(err: any, req: Request, res: Response, next: NextFu
   const errorMap: Record<string, { status: number; code: string; message: string }> = {
     'VOUCHER_EXPIRED': { status: 422, code: 'VOUCHER_EXPIRED', message: 'Voucher has expired' },
     'VOUCHER_ALREADY_REDEEMED': { status: 422, code: 'VOUCHER_ALREADY_REDEEMED', message: 'Voucher has already been redeemed' },
+    'VOUCHER_NOT_FOUND': { status: 404, code: 'VOUCHER_NOT_FOUND', message: 'Voucher not found' },
+    'VOUCHER_ALREADY_VOIDED': { status: 409, code: 'VOUCHER_ALREADY_VOIDED', message: 'Voucher has already been voided' },
+    'VOUCHER_HAS_CLAIMS': { status: 409, code: 'VOUCHER_HAS_CLAIMS', message: 'Voucher has claims that are not denied' },
+    'VOUCHER_CODE_INVALID': { status: 400, code: 'VOUCHER_CODE_INVALID', message: 'Voucher code contains characters outside 0-9 and A-Z' },
+    'VOUCHER_VOID_REASON_CODE_INVALID': { status: 400, code: 'VOUCHER_VOID_REASON_CODE_INVALID', message: 'reasonCode is not a valid voucher void reason' },
     'CLINIC_NOT_ACTIVE': { status: 403, code: 'CLINIC_NOT_ACTIVE', message: 'Clinic is not active' },
     'GRANT_PERIOD_ENDED': { status: 422, code: 'GRANT_PERIOD_ENDED', message: 'Grant period has ended' },
     'GRANT_CLAIMS_DEADLINE_PASSED': { status: 422, code: 'GRANT_CLAIMS_DEADLINE_PASSED', message: 'Claims deadline has passed' },
     'GRANT_CYCLE_CLOSED': { status: 422, code: 'GRANT_CYCLE_CLOSED', message: 'Grant cycle is closed' },
+    'GRANT_CYCLE_CALENDAR_NOT_FOUND': { status: 404, code: 'GRANT_CYCLE_CALENDAR_NOT_FOUND', message: 'Grant cycle calendar not found' },
+    'GRANT_CYCLE_CALENDAR_INVALID': { status: 400, code: 'GRANT_CYCLE_CALENDAR_INVALID', message: 'Calendar dates must be valid and ordered periodStart <= periodEnd <= claimsDeadline' },
+    'GRANT_CYCLE_ID_INVALID': { status: 400, code: 'GRANT_CYCLE_ID_INVALID', message: 'grantCycleId must be 1-20 characters' },
+    'GRANT_CYCLE_ALREADY_EXISTS': { status: 409, code: 'GRANT_CYCLE_ALREADY_EXISTS', message: 'Grant cycle calendar already exists' },
     'INSUFFICIENT_FUNDS': { status: 422, code: 'INSUFFICIENT_FUNDS', message: 'Insufficient grant funds' },
+    'GRANT_NOT_FOUND': { status: 404, code: 'GRANT_NOT_FOUND', message: 'Grant not found' },
+    'GRANT_NOT_ACTIVE': { status: 422, code: 'GRANT_NOT_ACTIVE', message: 'Grant is not active' },
+    'GRANT_SUSPENDED': { status: 422, code: 'GRANT_SUSPENDED', message: 'Grant is suspended' },
+    'GRANT_CLOSED': { status: 422, code: 'GRANT_CLOSED', message: 'Grant is closed' },
+    'GRANT_TRANSITION_INVALID': { status: 409, code: 'GRANT_TRANSITION_INVALID', message: 'Transition is not allowed from the grant\'s current status' },
+    'GRANT_REASON_CODE_INVALID': { status: 400, code: 'GRANT_REASON_CODE_INVALID', message: 'reasonCode is missing or not valid for this transition' },
+    'GRANT_HAS_OPEN_ENCUMBRANCES': { status: 409, code: 'GRANT_HAS_OPEN_ENCUMBRANCES', message: 'Grant has encumbered funds; settle or release vouchers first' },
+    'GRANT_LIRP_ALLOCATION_INVALID': { status: 400, code: 'GRANT_LIRP_ALLOCATION_INVALID', message: 'lirpAllocationCents is required exactly for LIRP grants and may not exceed the award' },
+    'GRANT_AMENDMENT_BELOW_COMMITTED': { status: 422, code: 'GRANT_AMENDMENT_BELOW_COMMITTED', message: 'Amended bucket award is below its encumbered and liquidated funds' },
+    'GRANT_AMENDMENT_NO_CHANGE': { status: 409, code: 'GRANT_AMENDMENT_NO_CHANGE', message: 'Amendment does not change the award' },
+    'GRANT_REALLOCATION_INVALID': { status: 400, code: 'GRANT_REALLOCATION_INVALID', message: 'Reallocation needs two existing, different buckets and a positive amount' },
+    'GRANT_REALLOCATION_EXCEEDS_AVAILABLE': { status: 422, code: 'GRANT_REALLOCATION_EXCEEDS_AVAILABLE', message: 'Reallocation exceeds the source bucket\'s available funds' },
+    'MATCHING_FUNDS_AMOUNT_INVALID': { status: 400, code: 'MATCHING_FUNDS_AMOUNT_INVALID', message: 'Matching funds amount must be positive' },
+    'MATCHING_FUNDS_PERIOD_INVALID': { status: 400, code: 'MATCHING_FUNDS_PERIOD_INVALID', message: 'Matching funds period is not a valid date range' },
+    'MATCHING_FUNDS_EVIDENCE_REQUIRED': { status: 400, code: 'MATCHING_FUNDS_EVIDENCE_REQUIRED', message: 'Matching funds report requires evidence artifacts' },
+    'MATCHING_FUNDS_EVIDENCE_NOT_FOUND': { status: 422, code: 'MATCHING_FUNDS_EVIDENCE_NOT_FOUND', message: 'Matching funds evidence references an unknown artifact' },
+    'MATCHING_FUNDS_REPORT_EXISTS': { status: 409, code: 'MATCHING_FUNDS_REPORT_EXISTS', message: 'Matching funds report already exists' },
+    'MATCHING_FUNDS_REPORT_NOT_FOUND': { status: 404, code: 'MATCHING_FUNDS_REPORT_NOT_FOUND', message: 'Matching funds report not found' },
+    'MATCHING_FUNDS_ADJUSTMENT_NO_CHANGE': { status: 409, code: 'MATCHING_FUNDS_ADJUSTMENT_NO_CHANGE', message: 'Adjustment does not change the reported amount' },
     'CLAIM_NOT_SUBMITTED': { status: 422, code: 'CLAIM_NOT_SUBMITTED', message: 'Claim is not in submitted status' },
     'LIRP_COPAY_FORBIDDEN': { status: 422, code: 'LIRP_COPAY_FORBIDDEN', message: 'LIRP vouchers cannot have co-pay' },
+    'COUNTY_CODE_INVALID': { status: 400, code: 'COUNTY_CODE_INVALID', message: 'Not a West Virginia county code' },
+    'LIRP_NOT_ENABLED': { status: 422, code: 'LIRP_NOT_ENABLED', message: 'Grant has no LIRP bucket' },
+    'LIRP_MUST_HONOR_ALREADY_ENFORCED': { status: 409, code: 'LIRP_MUST_HONOR_ALREADY_ENFORCED', message: 'LIRP must-honor is already enforced' },
+    'LIRP_MUST_HONOR_DENIAL_FORBIDDEN': { status: 422, code: 'LIRP_MUST_HONOR_DENIAL_FORBIDDEN', message: 'LIRP claims cannot be denied under must-honor' },
+    'LIRP_MUST_HONOR_UNDERPAYMENT': { status: 422, code: 'LIRP_MUST_HONOR_UNDERPAYMENT', message: 'LIRP claims must be paid in full under must-honor' },
+    'APPLICATION_NOT_FOUND': { status: 404, code: 'APPLICATION_NOT_FOUND', message: 'Application not found' },
+    'APPLICATION_NOT_AWARDABLE': { status: 409, code: 'APPLICATION_NOT_AWARDABLE', message: 'Only a scored application that has no decision yet can be awarded' },
+    'IDEMPOTENCY_KEY_REUSED': { status: 409, code: 'IDEMPOTENCY_KEY_REUSED', message: 'Idempotency-Key already used with a different payload' },
     'OPERATION_IN_PROGRESS': { status: 409, code: 'OPERATION_IN_PROGRESS', message: 'Operation already in progress' },
+    'CONCURRENCY_CONFLICT': { status: 409, code: 'CONCURRENCY_CONFLICT', message: 'Aggregate was modified by another writer; reload and retry' },
+    'EXPECTED_VERSION_INVALID': { status: 400, code: 'EXPECTED_VERSION_INVALID', message: 'expectedVersion must be a non-negative integer' },
+    'PII_SUBJECT_NOT_FOUND': { status: 404, code: 'PII_SUBJECT_NOT_FOUND', message: 'No personal data is held for this subject' },
+    'PII_SUBJECT_FORGOTTEN': { status: 409, code: 'PII_SUBJECT_FORGOTTEN', message: 'Subject has been forgotten; new personal data cannot be recorded' },
   };
 
-  const mapped = errorMap[err.message];
+  // Codes raised as '<CODE>:<detail>'; the detail (event type, version) stays in the log,
+  // except for domain validation, whose detail is the message
+  const prefixMap: Record<string, { status: number; code: string; message?: string }> = {
+    'VALIDATION_ERROR': { status: 400, code: 'VALIDATION_ERROR' },
+    'EVENT_DATA_SCHEMA_INVALID': { status: 400, code: 'EVENT_DATA_SCHEMA_INVALID', message: 'Request produced event data that does not match its schema' },
+    'PII_SUBJECT_MISSING': { status: 400, code: 'PII_SUBJECT_MISSING', message: 'Personal data was submitted without the subject it belongs to' },
+    'EVENT_UPCASTER_MISSING': { status: 500, code: 'EVENT_UPCASTER_MISSING', message: 'Stored events use a schema version this release cannot read' },
+  };
+
+  const [prefix, ...detail] = typeof err.message === 'string' ? err.message.split(':') : [];
+  const prefixed = detail.length > 0 ? prefixMap[prefix] : undefined;
+  const mapped = errorMap[err.message] ?? (prefixed && { ...prefixed, message: prefixed.message ?? detail.join(':').trim() });
   if (mapped) {
     return res.status(mapped.status).json({
       error: {
@@ -2,9 +2,7 @@ import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { FraudDetectionService } from '../../domain/application/fraud-detection';
 import { FraudSeverity } from '../../domain/application/application-types';
-
-// Fixed admin org for WVSNP program administration
-const ADMIN_ORG_ID = '550e8400-e29b-41d4-a716-446655440000'; // WVSNP Program Org
+import { revealPii } from '../../pii-vault';
 
 export function createAdminApplicationRouter(pool: Pool): Router {
   const router = Router();
@@ -137,6 +135,7 @@ export function createAdminApplicationRouter(pool: Pool): Router {
         // Get event history for audit trail
         const eventResult = await client.query(`
           SELECT
+            event_id,
             event_type,
             event_data,
             occurred_at,
@@ -146,6 +145,14 @@ export function createAdminApplicationRouter(pool: Pool): Router {
           WHERE aggregate_id = $1 AND aggregate_type = 'APPLICATION'
           ORDER BY occurred_at ASC
         `, [applicationId]);
+        const eventHistory = await revealPii(client, eventResult.rows.map(row => ({
+          eventId: row.event_id,
+          eventType: row.event_type,
+          eventData: row.event_data,
+          occurredAt: row.occurred_at,
+          actorId: row.actor_id,
+          actorType: row.actor_type
+        })));
 
         const detailedApplication = {
           applicationId: application.application_id,
@@ -171,13 +178,7 @@ export function createAdminApplicationRouter(pool: Pool): Router {
             uploadedAt: row.uploaded_at
           })),
           fraudSignals: Array.isArray(application.fraud_signals) ? application.fraud_signals : [],
-          eventHistory: eventResult.rows.map(row => ({
-            eventType: row.event_type,
-            eventData: row.event_data,
-            occurredAt: row.occurred_at,
-            actorId: row.actor_id,
-            actorType: row.actor_type
-          }))
+          eventHistory: eventHistory.map(({ eventId, ...entry }) => entry)
         };
 
         res.status(200).json({
@@ -1,11 +1,19 @@
 import { Router } from 'express';
 import { Pool } from 'pg';
-import { EventStore } from '../../event-store';
+import { EventStore, Watermark } from '../../event-store';
 import { IdempotencyService } from '../../application/idempotency-service';
 import { ClaimService } from '../../application/claim-service';
 import { InvoiceService } from '../../application/invoice-service';
 import { OasisService } from '../../application/oasis-service';
 import { CloseoutService } from '../../application/closeout-service';
+import { GrantService } from '../../application/grant-service';
+import { GrantCycleService } from '../../application/grant-cycle-service';
+import { MatchingFundsService } from '../../application/matching-funds-service';
+import { GrantBudgetService } from '../../application/grant-budget-service';
+import { ApplicationService } from '../../application/application-service';
+import { GrantTransitionEvent } from '../../domain/grant/grant-logic';
+import { AggregateLoader, registeredAggregateTypes } from '../../application/aggregate-loader';
+import { traceCausalTree, TraceSeed } from '../../application/event-trace';
 import { validate, validateQuery } from '../middleware/validator';
 import { requirePermission } from '../middleware/auth';
 import {
@@ -21,10 +29,29 @@ import {
   closeoutAuditHoldSchema,
   closeoutAuditResolveSchema,
   listClaimsAdminQuerySchema,
+  projectionDriftQuerySchema,
+  aggregateAsOfQuerySchema,
+  eventTraceQuerySchema,
+  forgetPiiSubjectSchema,
+  grantTransitionSchema,
+  createGrantCycleSchema,
+  amendGrantAwardSchema,
+  reallocateGrantBucketsSchema,
+  adjustMatchingFundsSchema,
+  enforceLirpMustHonorSchema,
+  voidVoucherSchema,
+  awardApplicationSchema,
 } from '../schemas/admin-schemas';
 import { ExportBatchId, OasisRefId } from '../../domain/oasis/batch-logic';
+import { ApplicationId } from '../../domain/application/application-types';
 import { ApiError } from '../middleware/auth';
-import { Money } from '../../domain-types';
+import { EventId, GrantId, Money, VoucherId } from '../../domain-types';
+import { ALL_PROJECTION_TABLES } from '../../projections/rebuild';
+import { detectProjectionDrift } from '../../projections/drift';
+import { forgetPiiSubject } from '../../pii-vault';
+
+// Fixed admin org for WVSNP program administration
+const ADMIN_ORG_ID = '550e8400-e29b-41d4-a716-446655440000'; // WVSNP Program Org
 
 export function createAdminRoutes(pool: Pool, eventStore: EventStore, idempotency: IdempotencyService) {
   const router = Router();
@@ -32,6 +59,12 @@ export function createAdminRoutes(pool: Pool, eventStore: EventStore, idempotenc
   const invoiceService = new InvoiceService(pool, eventStore, idempotency);
   const oasisService = new OasisService(pool, eventStore, idempotency);
   const closeoutService = new CloseoutService(pool, eventStore, idempotency);
+  const grantService = new GrantService(pool, eventStore, idempotency);
+  const grantCycleService = new GrantCycleService(pool, eventStore, idempotency);
+  const matchingFundsService = new MatchingFundsService(pool, eventStore, idempotency);
+  const grantBudgetService = new GrantBudgetService(pool, eventStore);
+  const applicationService = new ApplicationService(pool, eventStore, idempotency);
+  const aggregateLoader = new AggregateLoader(eventStore);
 
   // Get latest event watermark for invoice generation
   router.get('/watermark', requirePermission('invoices:generate'), async (req, res, next) => {
@@ -517,8 +550,403 @@ export function createAdminRoutes(pool: Pool, eventStore: EventStore, idempotenc
     }
   });
 
+  // ─── PROJECTION DRIFT ───────────────────────────────────────────────
+
+  // Dry-run rebuild diffed against the live projections (read-only)
+  router.get('/projections/drift', requirePermission('projections:verify'), validateQuery(projectionDriftQuerySchema), async (req, res, next) => {
+    try {
+      const { tables, sampleLimit } = req.query as any;
+      const unknown = (tables ?? []).filter((table: string) => !ALL_PROJECTION_TABLES.includes(table));
+      if (unknown.length > 0) {
+        throw new ApiError(400, 'UNKNOWN_PROJECTION_TABLE', `Unknown projection table: ${unknown.join(', ')}`);
+      }
+
+      const report = await detectProjectionDrift(pool, { tables, sampleLimit });
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ─── POINT-IN-TIME AGGREGATE STATE ──────────────────────────────────
+
+  // Aggregate state as of a timestamp or watermark, replayed from event_log (projections untouched).
+  // Designated PII fields are redacted, in the events and the state, unless the caller also holds pii:view.
+  router.get('/aggregates/:aggregateType/:aggregateId/as-of', requirePermission('audit:view'), validateQuery(aggregateAsOfQuerySchema), async (req, res, next) => {
+    try {
+      const { aggregateType, aggregateId } = req.params;
+      const { asOf, watermarkIngestedAt, watermarkEventId } = req.query as any;
+
+      if (!registeredAggregateTypes().includes(aggregateType)) {
+        throw new ApiError(400, 'UNKNOWN_AGGREGATE_TYPE', `Unknown aggregate type: ${aggregateType}`);
+      }
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(aggregateId)) {
+        throw new ApiError(400, 'INVALID_AGGREGATE_ID', 'aggregateId must be a UUID');
+      }
+
+      // A bare timestamp includes every event ingested at that instant
+      const through: Watermark = asOf
+        ? { ingestedAt: new Date(asOf), eventId: 'ffffffff-ffff-ffff-ffff-ffffffffffff' as EventId }
+        : { ingestedAt: new Date(watermarkIngestedAt), eventId: watermarkEventId as EventId };
+
+      const redactPii = !req.auth?.permissions?.includes('pii:view');
+      const loaded = await aggregateLoader.loadAsOf(aggregateType, aggregateId, through, { redactPii });
+      if (!loaded) {
+        throw new ApiError(404, 'AGGREGATE_NOT_FOUND', `No ${aggregateType} events for ${aggregateId} as of ${through.ingestedAt.toISOString()}`);
+      }
+
+      res.json({
+        aggregateType,
+        aggregateId,
+        asOf: {
+          ingestedAt: through.ingestedAt.toISOString(),
+          eventId: asOf ? null : through.eventId,
+        },
+        version: loaded.version,
+        watermark: {
+          ingestedAt: loaded.watermark.ingestedAt.toISOString(),
+          eventId: loaded.watermark.eventId,
+        },
+        state: toJsonValue(loaded.state),
+        events: loaded.events.map((event) => ({
+          eventId: event.eventId,
+          eventType: event.eventType,
+          occurredAt: event.occurredAt.toISOString(),
+          ingestedAt: event.ingestedAt.toISOString(),
+          correlationId: event.correlationId,
+          causationId: event.causationId,
+          actorId: event.actorId,
+          eventData: event.eventData,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ─── CAUSAL TRACE ───────────────────────────────────────────────────
+
+  // Causal tree around a correlation ID, event ID or aggregate (read-only, event_log only).
+  // Designated PII fields are redacted unless the caller also holds pii:view.
+  router.get('/trace', requirePermission('audit:view'), validateQuery(eventTraceQuerySchema), async (req, res, next) => {
+    try {
+      const { correlationId, eventId, aggregateType, aggregateId, maxEvents } = req.query as any;
+      const seed: TraceSeed = correlationId
+        ? { correlationId }
+        : eventId
+          ? { eventId }
+          : { aggregateType, aggregateId };
+
+      const revealPii = req.auth?.permissions?.includes('pii:view') ?? false;
+      const report = await traceCausalTree(pool, seed, { maxEvents, revealPii });
+      if (report.eventCount === 0) {
+        throw new ApiError(404, 'TRACE_SEED_NOT_FOUND', 'No events match the trace seed');
+      }
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ─── PII CRYPTO-SHREDDING ───────────────────────────────────────────
+
+  // Forget a data subject: destroys its key so replays of its events show redacted fields
+  router.post('/pii/subjects/:subjectId/forget', requirePermission('pii:forget'), validate(forgetPiiSubjectSchema), async (req, res, next) => {
+    try {
+      const userId = req.auth!.userId!;
+      const result = await forgetPiiSubject(pool, req.params.subjectId, {
+        actorId: userId,
+        reason: req.body.reason,
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // ─── GRANT CYCLE CLOSEOUT LIFECYCLE ─────────────────────────────────
 
+  // Create Grant Cycle Calendar
+  router.post('/grant-cycles', requirePermission('grant-cycles:manage'), validate(createGrantCycleSchema), async (req, res, next) => {
+    try {
+      const userId = req.auth!.userId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await grantCycleService.createGrantCycle({
+        idempotencyKey,
+        ...req.body,
+        actorId: userId,
+        actorType: 'ADMIN',
+        correlationId: req.correlationId!,
+      });
+
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get Grant Cycle Calendar
+  router.get('/grant-cycles/:grantCycleId', requirePermission('grant-cycles:manage'), async (req, res, next) => {
+    try {
+      const result = await grantCycleService.getGrantCycle(req.params.grantCycleId);
+      if (!result) {
+        throw new ApiError(404, 'GRANT_CYCLE_CALENDAR_NOT_FOUND', 'Grant cycle calendar not found');
+      }
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Award Application (creates the grant)
+  router.post('/applications/:applicationId/award', requirePermission('grants:manage'), validate(awardApplicationSchema), async (req, res, next) => {
+    try {
+      const userId = req.auth!.userId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await applicationService.awardApplication({
+        commandId: idempotencyKey,
+        applicationId: req.params.applicationId as ApplicationId,
+        awardedAmountCents: Money.fromBigInt(BigInt(req.body.awardedAmountCents)),
+        matchCommitmentCents: Money.fromBigInt(BigInt(req.body.matchCommitmentCents)),
+        lirpAllocationCents: req.body.lirpAllocationCents !== undefined ? Money.fromBigInt(BigInt(req.body.lirpAllocationCents)) : null,
+        policySnapshotId: req.body.policySnapshotId,
+        reason: req.body.reason,
+        orgId: ADMIN_ORG_ID,
+        actorId: userId,
+        correlationId: req.correlationId!,
+        causationId: null,
+        occurredAt: new Date(),
+      });
+
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Grant Lifecycle: one route per transition, guarded by the grant's current status
+  const grantTransitions: Array<[string, GrantTransitionEvent]> = [
+    ['agreement', 'GRANT_AGREEMENT_SIGNED'],
+    ['activate', 'GRANT_ACTIVATED'],
+    ['suspend', 'GRANT_SUSPENDED'],
+    ['reinstate', 'GRANT_REINSTATED'],
+    ['close', 'GRANT_CLOSED'],
+  ];
+  for (const [action, eventType] of grantTransitions) {
+    router.post(`/grants/:grantId/${action}`, requirePermission('grants:manage'), validate(grantTransitionSchema), async (req, res, next) => {
+      try {
+        const userId = req.auth!.userId!;
+        const idempotencyKey = req.headers['idempotency-key'] as string;
+
+        if (!idempotencyKey) {
+          throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+        }
+
+        const result = await grantService.transitionGrant({
+          idempotencyKey,
+          grantId: req.params.grantId as GrantId,
+          eventType,
+          reasonCode: req.body.reasonCode ?? null,
+          reason: req.body.reason,
+          actorId: userId,
+          actorType: 'ADMIN',
+          correlationId: req.correlationId!,
+        });
+
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  // Amend Grant Award
+  router.post('/grants/:grantId/amendments', requirePermission('grants:manage'), validate(amendGrantAwardSchema), async (req, res, next) => {
+    try {
+      const userId = req.auth!.userId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await grantService.amendAward({
+        idempotencyKey,
+        grantId: req.params.grantId as GrantId,
+        awardedAmountCents: Money.fromBigInt(BigInt(req.body.awardedAmountCents)),
+        matchCommitmentCents: Money.fromBigInt(BigInt(req.body.matchCommitmentCents)),
+        lirpAllocationCents: req.body.lirpAllocationCents !== undefined ? Money.fromBigInt(BigInt(req.body.lirpAllocationCents)) : null,
+        approvalReason: req.body.approvalReason,
+        actorId: userId,
+        actorType: 'ADMIN',
+        correlationId: req.correlationId!,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Reallocate Grant Buckets
+  router.post('/grants/:grantId/reallocations', requirePermission('grants:manage'), validate(reallocateGrantBucketsSchema), async (req, res, next) => {
+    try {
+      const userId = req.auth!.userId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await grantService.reallocateBuckets({
+        idempotencyKey,
+        grantId: req.params.grantId as GrantId,
+        fromBucket: req.body.fromBucket,
+        toBucket: req.body.toBucket,
+        amountCents: Money.fromBigInt(BigInt(req.body.amountCents)),
+        approvalReason: req.body.approvalReason,
+        actorId: userId,
+        actorType: 'ADMIN',
+        correlationId: req.correlationId!,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Enforce LIRP Must-Honor
+  router.post('/grants/:grantId/lirp-must-honor', requirePermission('grants:manage'), validate(enforceLirpMustHonorSchema), async (req, res, next) => {
+    try {
+      const userId = req.auth!.userId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await grantService.enforceLirpMustHonor({
+        idempotencyKey,
+        grantId: req.params.grantId as GrantId,
+        reason: req.body.reason,
+        actorId: userId,
+        actorType: 'ADMIN',
+        correlationId: req.correlationId!,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // LIRP Must-Honor Report
+  router.get('/grants/:grantId/lirp-must-honor', requirePermission('grants:manage'), async (req, res, next) => {
+    try {
+      const result = await grantService.getLirpMustHonorReport(req.params.grantId as GrantId);
+      if (!result) {
+        throw new ApiError(404, 'GRANT_NOT_FOUND', 'Grant not found');
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Grant Budget
+  router.get('/grants/:grantId/budget', requirePermission('grants:manage'), async (req, res, next) => {
+    try {
+      const result = await grantBudgetService.getGrantBudget(req.params.grantId as GrantId);
+      if (!result) {
+        throw new ApiError(404, 'GRANT_NOT_FOUND', 'Grant not found');
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Match To Date
+  router.get('/grants/:grantId/matching-funds', requirePermission('grants:manage'), async (req, res, next) => {
+    try {
+      const result = await matchingFundsService.getMatchToDate(req.params.grantId as GrantId);
+      if (!result) {
+        throw new ApiError(404, 'GRANT_NOT_FOUND', 'Grant not found');
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Adjust Matching Funds Report
+  router.post('/grants/:grantId/matching-funds/:reportId/adjustments', requirePermission('grants:manage'), validate(adjustMatchingFundsSchema), async (req, res, next) => {
+    try {
+      const userId = req.auth!.userId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await matchingFundsService.adjustMatchingFunds({
+        idempotencyKey,
+        grantId: req.params.grantId as GrantId,
+        reportId: req.params.reportId,
+        adjustedAmountCents: Money.fromBigInt(BigInt(req.body.adjustedAmountCents)),
+        evidenceArtifactIds: req.body.evidenceArtifactIds,
+        reason: req.body.reason,
+        actorId: userId,
+        actorType: 'ADMIN',
+        correlationId: req.correlationId!,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Void Voucher
+  router.post('/vouchers/:voucherId/void', requirePermission('grants:manage'), validate(voidVoucherSchema), async (req, res, next) => {
+    try {
+      const userId = req.auth!.userId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await grantService.voidVoucher({
+        idempotencyKey,
+        voucherId: req.params.voucherId as VoucherId,
+        reasonCode: req.body.reasonCode,
+        reason: req.body.reason,
+        actorId: userId,
+        actorType: 'ADMIN',
+        correlationId: req.correlationId!,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Get Closeout Status
   router.get('/closeout/:grantCycleId', requirePermission('closeout:manage'), async (req, res, next) => {
     try {
@@ -725,3 +1153,25 @@ export function createAdminRoutes(pool: Pool, eventStore: EventStore, idempotenc
 
   return router;
 }
+
+// Reducer states hold bigint cents, Dates, Maps and Sets; render them as plain JSON
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Map) {
+    return {
+      ...(toJsonValue({ ...value }) as Record<string, unknown>),
+      entries: [...value.entries()].map(([key, child]) => ({ key: toJsonValue(key), value: toJsonValue(child) })),
+    };
+  }
+  if (value instanceof Set) return [...value].map(toJsonValue);
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      if (child !== undefined) out[key] = toJsonValue(child);
+    }
+    return out;
+  }
+  return value;
+}
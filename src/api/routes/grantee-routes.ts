@@ -4,14 +4,19 @@ import crypto from 'crypto';
 import { EventStore } from '../../event-store';
 import { IdempotencyService } from '../../application/idempotency-service';
 import { GrantService } from '../../application/grant-service';
+import { MatchingFundsService } from '../../application/matching-funds-service';
+import { GrantBudgetService } from '../../application/grant-budget-service';
 import { validate, validateQuery } from '../middleware/validator';
-import { issueVoucherSchema, issueTentativeVoucherSchema, confirmTentativeVoucherSchema, listVouchersQuerySchema } from '../schemas/grantee-schemas';
+import { issueVoucherSchema, issueTentativeVoucherSchema, confirmTentativeVoucherSchema, voidVoucherSchema, listVouchersQuerySchema, reportMatchingFundsSchema } from '../schemas/grantee-schemas';
 import { ApiError } from '../middleware/auth';
-import { Money } from '../../domain-types';
+import { GrantId, Money, VoucherId } from '../../domain-types';
+import { toWvCountyCode } from '../../domain/county/county-registry';
 
 export function createGranteeRoutes(pool: Pool, eventStore: EventStore, idempotency: IdempotencyService) {
   const router = Router();
   const grantService = new GrantService(pool, eventStore, idempotency);
+  const matchingFundsService = new MatchingFundsService(pool, eventStore, idempotency);
+  const grantBudgetService = new GrantBudgetService(pool, eventStore);
 
   // Issue Voucher
   router.post('/vouchers', validate(issueVoucherSchema), async (req, res, next) => {
@@ -30,6 +35,7 @@ export function createGranteeRoutes(pool: Pool, eventStore: EventStore, idempote
         voucherId,
         maxReimbursementCents: Money.fromBigInt(BigInt(req.body.maxReimbursementCents)),
         isLIRP: req.body.isLIRP,
+        countyCode: req.body.countyCode,
         recipientType: 'SHELTER',
         recipientName: granteeId,
         animalType: req.body.procedureType.includes('DOG') ? 'DOG' : 'CAT',
@@ -70,6 +76,7 @@ export function createGranteeRoutes(pool: Pool, eventStore: EventStore, idempote
         voucherId,
         maxReimbursementCents: Money.fromBigInt(BigInt(req.body.maxReimbursementCents)),
         isLIRP: false,
+        countyCode: req.body.countyCode,
         recipientType: 'SHELTER',
         recipientName: granteeId,
         animalType: req.body.procedureType.includes('DOG') ? 'DOG' : 'CAT',
@@ -132,17 +139,47 @@ export function createGranteeRoutes(pool: Pool, eventStore: EventStore, idempote
     }
   });
 
+  // Void Voucher
+  router.post('/vouchers/:voucherId/void', validate(voidVoucherSchema), async (req, res, next) => {
+    try {
+      const granteeId = req.auth!.entityId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await grantService.voidVoucher({
+        idempotencyKey,
+        voucherId: req.params.voucherId as VoucherId,
+        granteeId,
+        reasonCode: req.body.reasonCode,
+        reason: req.body.reason,
+        actorId: granteeId,
+        actorType: 'APPLICANT',
+        correlationId: req.correlationId!
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // List Vouchers
   router.get('/vouchers', validateQuery(listVouchersQuerySchema), async (req, res, next) => {
     try {
       const granteeId = req.auth!.entityId!;
       const { status, countyCode, limit } = req.query as any;
 
+      // Grants belong to the grantee named on their GRANT_CREATED event
       let query = `
-        SELECT v.voucher_id, v.voucher_code, v.status, v.issued_at, v.redeemed_at, v.expired_at
+        SELECT v.voucher_id, v.voucher_code, v.county_code, v.status, v.issued_at, v.redeemed_at, v.expired_at
         FROM vouchers_projection v
-        JOIN grants_projection g ON g.grant_id = v.grant_id
-        WHERE g.grantee_id = $1
+        WHERE v.grant_id IN (
+          SELECT aggregate_id FROM event_log
+          WHERE aggregate_type = 'GRANT' AND event_type = 'GRANT_CREATED' AND event_data->>'granteeId' = $1
+        )
       `;
       const params: any[] = [granteeId];
       let paramIndex = 2;
@@ -155,7 +192,7 @@ export function createGranteeRoutes(pool: Pool, eventStore: EventStore, idempote
 
       if (countyCode) {
         query += ` AND v.county_code = $${paramIndex}`;
-        params.push(countyCode);
+        params.push(toWvCountyCode(countyCode));
         paramIndex++;
       }
 
@@ -168,6 +205,7 @@ export function createGranteeRoutes(pool: Pool, eventStore: EventStore, idempote
         vouchers: result.rows.map(row => ({
           voucherId: row.voucher_id,
           voucherCode: row.voucher_code,
+          countyCode: row.county_code,
           status: row.status,
           issuedAt: row.issued_at?.toISOString(),
           redeemedAt: row.redeemed_at?.toISOString(),
@@ -180,5 +218,66 @@ export function createGranteeRoutes(pool: Pool, eventStore: EventStore, idempote
     }
   });
 
+  // Grant Budget
+  router.get('/grants/:grantId/budget', async (req, res, next) => {
+    try {
+      const granteeId = req.auth!.entityId!;
+      const result = await grantBudgetService.getGrantBudget(req.params.grantId as GrantId, new Date(), granteeId);
+      if (!result) {
+        throw new ApiError(404, 'GRANT_NOT_FOUND', 'Grant not found');
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Report Matching Funds
+  router.post('/grants/:grantId/matching-funds', validate(reportMatchingFundsSchema), async (req, res, next) => {
+    try {
+      const granteeId = req.auth!.entityId!;
+      const idempotencyKey = req.headers['idempotency-key'] as string;
+
+      if (!idempotencyKey) {
+        throw new ApiError(400, 'MISSING_IDEMPOTENCY_KEY', 'Idempotency-Key header is required');
+      }
+
+      const result = await matchingFundsService.reportMatchingFunds({
+        idempotencyKey,
+        grantId: req.params.grantId as GrantId,
+        granteeId,
+        matchType: req.body.matchType,
+        periodStart: req.body.periodStart,
+        periodEnd: req.body.periodEnd,
+        amountCents: Money.fromBigInt(BigInt(req.body.amountCents)),
+        evidenceArtifactIds: req.body.evidenceArtifactIds,
+        description: req.body.description,
+        actorId: granteeId,
+        actorType: 'APPLICANT',
+        correlationId: req.correlationId!
+      });
+
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Match To Date
+  router.get('/grants/:grantId/matching-funds', async (req, res, next) => {
+    try {
+      const granteeId = req.auth!.entityId!;
+      const result = await matchingFundsService.getMatchToDate(req.params.grantId as GrantId, undefined, granteeId);
+      if (!result) {
+        throw new ApiError(404, 'GRANT_NOT_FOUND', 'Grant not found');
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   return router;
 }
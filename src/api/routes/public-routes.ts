@@ -1,11 +1,14 @@
 import { Router } from 'express';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import crypto from 'crypto';
 import rateLimit from 'express-rate-limit';
 import { EventStore } from '../../event-store';
 import { IdempotencyService } from '../../application/idempotency-service';
+import { listChainHeads } from '../../projections/verify-chain';
+import { OutboxDeliveryOutcome, OutboxDispatcher, OutboxHandler, OutboxMessage, enqueueOutboxMessage } from '../../outbox';
 import { validate, validateQuery } from '../middleware/validator';
 import { ApiError } from '../middleware/auth';
+import { checkVoucherCode } from '../../domain/voucher/voucher-code-allocator';
 import {
   accidentalLitterRegistrationAmendSchema,
   accidentalLitterRegistrationSchema,
@@ -61,6 +64,7 @@ const MARKETPLACE_ASSERTION_SECRET = process.env.BARK_MARKETPLACE_ASSERTION_SECR
 const MARKETPLACE_ASSERTION_TTL_SECONDS = Math.min(Math.max(Number(process.env.BARK_MARKETPLACE_ASSERTION_TTL_SECONDS ?? 300), 60), 3600);
 const MARKETPLACE_RATE_LIMIT_FALLBACK = Math.min(Math.max(Number(process.env.BARK_MARKETPLACE_RATE_LIMIT_PER_MINUTE ?? 120), 10), 1000);
 const MARKETPLACE_IDEMPOTENCY_TTL_SECONDS = Math.min(Math.max(Number(process.env.BARK_MARKETPLACE_IDEMPOTENCY_TTL_SECONDS ?? 86400), 600), 172800);
+const MARKETPLACE_WEBHOOK_OUTBOX_TOPIC = 'MARKETPLACE_WEBHOOK';
 const MARKETPLACE_WEBHOOK_TIMEOUT_MS = Math.min(Math.max(Number(process.env.BARK_MARKETPLACE_WEBHOOK_TIMEOUT_MS ?? 5000), 1000), 15000);
 
 const marketplaceRateWindow = new Map<string, { windowStartMs: number; count: number }>();
@@ -980,8 +984,7 @@ function verifySignedToken(licenseId: string, token: string): boolean {
   return crypto.timingSafeEqual(Buffer.from(signature, 'utf8'), Buffer.from(expected, 'utf8'));
 }
 
-async function appendPublicEvent(
-  store: EventStore,
+function buildPublicEvent(
   eventType: string,
   aggregateType: string,
   aggregateId: string,
@@ -989,10 +992,9 @@ async function appendPublicEvent(
   correlationId: string,
   causationId: string | null = null,
   occurredAt: Date = new Date(),
-): Promise<string> {
-  const eventId = EventStore.newEventId();
-  await store.append({
-    eventId,
+) {
+  return {
+    eventId: EventStore.newEventId(),
     aggregateType,
     aggregateId,
     eventType,
@@ -1002,9 +1004,39 @@ async function appendPublicEvent(
     correlationId,
     causationId,
     actorId: crypto.randomUUID() as any,
-    actorType: 'SYSTEM',
-  });
-  return eventId;
+    actorType: 'SYSTEM' as const,
+  };
+}
+
+async function appendPublicEvent(
+  store: EventStore,
+  eventType: string,
+  aggregateType: string,
+  aggregateId: string,
+  eventData: Record<string, unknown>,
+  correlationId: string,
+  causationId: string | null = null,
+  occurredAt: Date = new Date(),
+): Promise<string> {
+  const event = buildPublicEvent(eventType, aggregateType, aggregateId, eventData, correlationId, causationId, occurredAt);
+  await store.append(event);
+  return event.eventId;
+}
+
+async function appendPublicEventWithClient(
+  client: PoolClient,
+  store: EventStore,
+  eventType: string,
+  aggregateType: string,
+  aggregateId: string,
+  eventData: Record<string, unknown>,
+  correlationId: string,
+  causationId: string | null = null,
+  occurredAt: Date = new Date(),
+): Promise<string> {
+  const event = buildPublicEvent(eventType, aggregateType, aggregateId, eventData, correlationId, causationId, occurredAt);
+  await store.appendWithClient(client, event);
+  return event.eventId;
 }
 
 async function getLicenseProjection(pool: Pool, licenseId: string): Promise<PublicLicenseProjection | null> {
@@ -1097,51 +1129,89 @@ async function getActiveMarketplaceWebhookSubscriptions(
     .filter((item) => item.eventTypes.length === 0 || item.eventTypes.includes('MARKETPLACE_LICENSE_STATUS_DRIFT_DETECTED'));
 }
 
-async function dispatchMarketplaceStatusDriftWebhooks(
-  pool: Pool,
-  store: EventStore,
+async function enqueueMarketplaceStatusDriftWebhooks(
+  client: PoolClient,
   correlationId: string,
   driftEventId: string,
   subscriptions: MarketplaceWebhookSubscription[],
   payload: Record<string, unknown>,
 ): Promise<void> {
-  const body = JSON.stringify(payload);
-  await Promise.all(subscriptions.map(async (subscription) => {
-    const deliveryId = crypto.randomUUID();
-    const timestamp = new Date().toISOString();
-    const signature = signMarketplaceWebhookPayload(subscription.webhookSecret, timestamp, body);
-    let deliveryStatus: 'DELIVERED' | 'FAILED' = 'FAILED';
-    let responseCode: number | null = null;
-    let responseBody: string | null = null;
+  for (const subscription of subscriptions) {
+    await enqueueOutboxMessage(client, {
+      topic: MARKETPLACE_WEBHOOK_OUTBOX_TOPIC,
+      sourceEventId: driftEventId,
+      correlationId,
+      payload: {
+        subscriptionId: subscription.subscriptionId,
+        partnerId: subscription.partnerId,
+        eventType: 'MARKETPLACE_LICENSE_STATUS_DRIFT_DETECTED',
+        body: payload,
+      },
+    });
+  }
+}
+
+async function deliverMarketplaceWebhook(
+  pool: Pool,
+  store: EventStore,
+  message: OutboxMessage,
+): Promise<OutboxDeliveryOutcome> {
+  const subscriptionId = String(message.payload.subscriptionId);
+  const partnerId = String(message.payload.partnerId);
+  const eventType = String(message.payload.eventType);
+  const attemptNumber = message.attempts + 1;
+
+  // Callback URL and secret are read at delivery time so rotations apply to pending retries
+  const subscriptionRow = await pool.query(
+    `SELECT callback_url, webhook_secret
+       FROM marketplace_partner_webhooks
+      WHERE subscription_id = $1::uuid`,
+    [subscriptionId],
+  );
+  if (subscriptionRow.rows.length === 0) {
+    return { delivered: false, error: 'WEBHOOK_SUBSCRIPTION_NOT_FOUND' };
+  }
+
+  const deliveryId = crypto.randomUUID();
+  const body = JSON.stringify(message.payload.body);
+  const timestamp = new Date().toISOString();
+  const signature = signMarketplaceWebhookPayload(subscriptionRow.rows[0].webhook_secret, timestamp, body);
+  let deliveryStatus: 'DELIVERED' | 'FAILED' = 'FAILED';
+  let responseCode: number | null = null;
+  let responseBody: string | null = null;
 
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), MARKETPLACE_WEBHOOK_TIMEOUT_MS);
     try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), MARKETPLACE_WEBHOOK_TIMEOUT_MS);
-      try {
-        const response = await (globalThis.fetch as any)(subscription.callbackUrl, {
-          method: 'POST',
-          headers: {
-            'content-type': 'application/json',
-            'x-marketplace-webhook-event': 'MARKETPLACE_LICENSE_STATUS_DRIFT_DETECTED',
-            'x-marketplace-webhook-delivery-id': deliveryId,
-            'x-marketplace-webhook-subscription-id': subscription.subscriptionId,
-            'x-marketplace-webhook-timestamp': timestamp,
-            'x-marketplace-webhook-signature': signature,
-          },
-          body,
-          signal: controller.signal,
-        });
-        responseCode = Number(response.status);
-        responseBody = await response.text();
-        deliveryStatus = response.ok ? 'DELIVERED' : 'FAILED';
-      } finally {
-        clearTimeout(timeout);
-      }
-    } catch (error) {
-      responseBody = error instanceof Error ? error.message : 'WEBHOOK_DELIVERY_FAILED';
+      const response = await (globalThis.fetch as any)(subscriptionRow.rows[0].callback_url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-marketplace-webhook-event': eventType,
+          // Stable across retries so partners can dedupe
+          'x-marketplace-webhook-delivery-id': message.messageId,
+          'x-marketplace-webhook-attempt': String(attemptNumber),
+          'x-marketplace-webhook-subscription-id': subscriptionId,
+          'x-marketplace-webhook-timestamp': timestamp,
+          'x-marketplace-webhook-signature': signature,
+        },
+        body,
+        signal: controller.signal,
+      });
+      responseCode = Number(response.status);
+      responseBody = await response.text();
+      deliveryStatus = response.ok ? 'DELIVERED' : 'FAILED';
+    } finally {
+      clearTimeout(timeout);
     }
+  } catch (error) {
+    responseBody = error instanceof Error ? error.message : 'WEBHOOK_DELIVERY_FAILED';
+  }
 
-    await pool.query(
+  // Recorded by the dispatcher in the transaction that settles the outbox message
+  const record = async (client: PoolClient): Promise<void> => {
+    await client.query(
       `INSERT INTO marketplace_webhook_deliveries (
          delivery_id,
          subscription_id,
@@ -1152,38 +1222,55 @@ async function dispatchMarketplaceStatusDriftWebhooks(
          delivered_at,
          status,
          response_code,
-         response_body
-       ) VALUES ($1::uuid, $2::uuid, $3, $4, $5::jsonb, $6, clock_timestamp(), $7, $8, $9)`,
+         response_body,
+         outbox_message_id,
+         attempt_number
+       ) VALUES ($1::uuid, $2::uuid, $3, $4, $5::jsonb, $6, clock_timestamp(), $7, $8, $9, $10::uuid, $11)`,
       [
         deliveryId,
-        subscription.subscriptionId,
-        subscription.partnerId,
-        'MARKETPLACE_LICENSE_STATUS_DRIFT_DETECTED',
+        subscriptionId,
+        partnerId,
+        eventType,
         body,
         signature,
         deliveryStatus,
         responseCode,
         responseBody,
+        message.messageId,
+        attemptNumber,
       ],
     );
 
-    await appendPublicEvent(
+    await appendPublicEventWithClient(
+      client,
       store,
       'MARKETPLACE_WEBHOOK_DELIVERY_RECORDED',
       'MARKETPLACE_WEBHOOK',
       deliveryId,
       {
         deliveryId,
-        subscriptionId: subscription.subscriptionId,
-        partnerId: subscription.partnerId,
-        eventType: 'MARKETPLACE_LICENSE_STATUS_DRIFT_DETECTED',
+        outboxMessageId: message.messageId,
+        attemptNumber,
+        subscriptionId,
+        partnerId,
+        eventType,
         status: deliveryStatus,
         responseCode,
       },
-      correlationId,
-      driftEventId,
+      message.correlationId ?? crypto.randomUUID(),
+      message.sourceEventId,
     );
-  }));
+  };
+
+  return deliveryStatus === 'DELIVERED'
+    ? { delivered: true, record }
+    : { delivered: false, error: responseCode === null ? (responseBody ?? 'WEBHOOK_DELIVERY_FAILED') : `HTTP_${responseCode}`, record };
+}
+
+export function createMarketplaceOutboxHandlers(store: EventStore): Record<string, OutboxHandler> {
+  return {
+    [MARKETPLACE_WEBHOOK_OUTBOX_TOPIC]: (pool, message) => deliverMarketplaceWebhook(pool, store, message),
+  };
 }
 
 async function resolveMarketplaceVerification(
@@ -1463,6 +1550,8 @@ async function buildSnapshot(pool: Pool, snapshotPeriod: string): Promise<Transp
 
 export function createPublicRoutes(pool: Pool, store: EventStore, idempotency: IdempotencyService) {
   const router = Router();
+  // Immediate best-effort delivery after a request commits; retries are left to the background dispatcher
+  const outbox = new OutboxDispatcher(pool, createMarketplaceOutboxHandlers(store));
 
   const verifyLimiter = rateLimit({
     windowMs: 60 * 1000,
@@ -1488,13 +1577,22 @@ export function createPublicRoutes(pool: Pool, store: EventStore, idempotency: I
   // Lookup Voucher by Code (for found pet scenarios)
   router.get('/vouchers/:voucherCode', async (req, res, next) => {
     try {
-      const { voucherCode } = req.params;
+      const checked = checkVoucherCode(req.params.voucherCode);
+      if (checked.status === 'CHECK_FAILED') {
+        const existing = await pool.query(
+          'SELECT voucher_code FROM vouchers_projection WHERE voucher_code = ANY($1) ORDER BY voucher_code',
+          [checked.candidates]
+        );
+        throw new ApiError(422, 'VOUCHER_CODE_CHECK_FAILED', 'Voucher code check character does not match', {
+          suggestions: existing.rows.map((row) => row.voucher_code),
+        });
+      }
 
       const result = await pool.query(
         `SELECT voucher_id, voucher_code, status, issued_at, redeemed_at, expired_at, voided_at
          FROM vouchers_projection
          WHERE voucher_code = $1`,
-        [voucherCode]
+        [checked.voucherCode]
       );
 
       if (result.rows.length === 0) {
@@ -2396,29 +2494,33 @@ export function createPublicRoutes(pool: Pool, store: EventStore, idempotency: I
           }
 
           if (prior && prior.status !== resolved.status) {
-            const driftEventId = await appendPublicEvent(
-              store,
-              'MARKETPLACE_LICENSE_STATUS_DRIFT_DETECTED',
-              'MARKETPLACE_LISTING',
-              aggregateId,
-              {
-                partnerId: partner.partnerId,
-                listingId,
-                previousStatus: prior.status,
-                previousDecision: prior.decision,
-                nextStatus: resolved.status,
-                nextDecision: decision,
-              },
-              correlationId,
-              verificationEventId,
-              occurredAt,
-            );
-
             const subscriptions = await getActiveMarketplaceWebhookSubscriptions(pool, partner.partnerId);
-            if (subscriptions.length > 0) {
-              await dispatchMarketplaceStatusDriftWebhooks(
-                pool,
+
+            // Drift event and its webhook notifications commit together; delivery happens after COMMIT
+            const client = await pool.connect();
+            try {
+              await client.query('BEGIN');
+              const driftEventId = await appendPublicEventWithClient(
+                client,
                 store,
+                'MARKETPLACE_LICENSE_STATUS_DRIFT_DETECTED',
+                'MARKETPLACE_LISTING',
+                aggregateId,
+                {
+                  partnerId: partner.partnerId,
+                  listingId,
+                  previousStatus: prior.status,
+                  previousDecision: prior.decision,
+                  nextStatus: resolved.status,
+                  nextDecision: decision,
+                },
+                correlationId,
+                verificationEventId,
+                occurredAt,
+              );
+
+              await enqueueMarketplaceStatusDriftWebhooks(
+                client,
                 correlationId,
                 driftEventId,
                 subscriptions,
@@ -2434,6 +2536,16 @@ export function createPublicRoutes(pool: Pool, store: EventStore, idempotency: I
                   occurredAt: occurredAt.toISOString(),
                 },
               );
+              await client.query('COMMIT');
+            } catch (error) {
+              await client.query('ROLLBACK');
+              throw error;
+            } finally {
+              client.release();
+            }
+
+            if (subscriptions.length > 0) {
+              outbox.wake();
             }
           }
 
@@ -2747,7 +2859,11 @@ export function createPublicRoutes(pool: Pool, store: EventStore, idempotency: I
       const correlationId = typeof req.body?.correlationId === 'string' && isUuid(req.body.correlationId)
         ? req.body.correlationId
         : crypto.randomUUID();
-      const snapshot = await buildSnapshot(pool, snapshotPeriod);
+      const snapshot = {
+        ...(await buildSnapshot(pool, snapshotPeriod)),
+        // Event log hash chain heads at publish time, so the artifact anchors history
+        eventChainHeads: await listChainHeads(pool),
+      };
       const serialized = JSON.stringify(snapshot);
       const contentHash = crypto.createHash('sha256').update(serialized, 'utf8').digest('hex');
       const artifactId = crypto.randomUUID();
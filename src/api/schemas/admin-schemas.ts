@@ -77,3 +77,106 @@ export const listClaimsAdminQuerySchema = z.object({
   limit: z.string().regex(/^\d+$/).transform(Number).default('50'),
   cursor: z.string().optional()
 });
+
+export const projectionDriftQuerySchema = z.object({
+  tables: z.string().optional().transform((value) => value ? value.split(',').map((table) => table.trim()).filter(Boolean) : undefined),
+  sampleLimit: z.string().regex(/^\d+$/).transform(Number).default('100')
+});
+
+// Point-in-time aggregate state: either a timestamp or an exact watermark
+export const aggregateAsOfQuerySchema = z.object({
+  asOf: z.string().datetime().optional(),
+  watermarkIngestedAt: z.string().datetime().optional(),
+  watermarkEventId: z.string().uuid().optional(),
+}).refine(
+  (query) => query.asOf
+    ? !query.watermarkIngestedAt && !query.watermarkEventId
+    : !!query.watermarkIngestedAt && !!query.watermarkEventId,
+  { message: 'Provide either asOf, or watermarkIngestedAt with watermarkEventId' }
+);
+
+// Causal trace seed: exactly one of correlationId, eventId, or aggregateType + aggregateId
+export const eventTraceQuerySchema = z.object({
+  correlationId: z.string().uuid().optional(),
+  eventId: z.string().uuid().optional(),
+  aggregateType: z.string().min(1).optional(),
+  aggregateId: z.string().uuid().optional(),
+  maxEvents: z.string().regex(/^\d+$/).transform(Number)
+    .refine((maxEvents) => maxEvents >= 1 && maxEvents <= 10000, { message: 'maxEvents must be between 1 and 10000' })
+    .default('500'),
+}).refine(
+  (query) => [
+    !!query.correlationId,
+    !!query.eventId,
+    !!query.aggregateType || !!query.aggregateId,
+  ].filter(Boolean).length === 1 && !!query.aggregateType === !!query.aggregateId,
+  { message: 'Provide exactly one of correlationId, eventId, or aggregateType with aggregateId' }
+);
+
+// Forget PII Subject Schema
+export const forgetPiiSubjectSchema = z.object({
+  reason: z.string().min(1),
+});
+
+// Grant Lifecycle Transition Schema (reason codes are checked per transition by the domain)
+export const grantTransitionSchema = z.object({
+  reasonCode: z.string().min(1).optional(),
+  reason: z.string().min(1).optional(),
+});
+
+// LIRP Must-Honor Schema
+export const enforceLirpMustHonorSchema = z.object({
+  reason: z.string().min(1),
+});
+
+// Award Application Schema (lirpAllocationCents: carved out of the award for a LIRP bucket)
+export const awardApplicationSchema = z.object({
+  awardedAmountCents: z.string().regex(/^\d+$/),
+  matchCommitmentCents: z.string().regex(/^\d+$/),
+  lirpAllocationCents: z.string().regex(/^\d+$/).optional(),
+  policySnapshotId: z.string().min(1),
+  reason: z.string().min(1).optional(),
+});
+
+// Grant Award Amendment Schema (lirpAllocationCents: required for grants with a LIRP bucket)
+export const amendGrantAwardSchema = z.object({
+  awardedAmountCents: z.string().regex(/^\d+$/),
+  matchCommitmentCents: z.string().regex(/^\d+$/),
+  lirpAllocationCents: z.string().regex(/^\d+$/).optional(),
+  approvalReason: z.string().min(1),
+});
+
+// Grant Bucket Reallocation Schema
+export const reallocateGrantBucketsSchema = z.object({
+  fromBucket: z.enum(['GENERAL', 'LIRP']),
+  toBucket: z.enum(['GENERAL', 'LIRP']),
+  amountCents: z.string().regex(/^\d+$/),
+  approvalReason: z.string().min(1),
+});
+
+// Void Voucher Schema (reason codes are checked by the domain)
+export const voidVoucherSchema = z.object({
+  reasonCode: z.string().min(1),
+  reason: z.string().min(1).optional(),
+});
+
+// Matching Funds Adjustment Schema
+export const adjustMatchingFundsSchema = z.object({
+  adjustedAmountCents: z.string().regex(/^\d+$/),
+  evidenceArtifactIds: z.array(z.string().uuid()).min(1).optional(),
+  reason: z.string().min(1),
+});
+
+// Grant Cycle Calendar Schema
+export const createGrantCycleSchema = z.object({
+  grantCycleId: z.string().min(1).max(20),
+  periodStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  periodEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  claimsDeadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  invoiceSchedule: z.object({
+    frequency: z.literal('MONTHLY'),
+    dayOfMonth: z.number().int().min(1).max(28),
+  }),
+  fundCodes: z.array(z.string().min(1)).min(1),
+  timeZone: z.string().min(1).optional(),
+});
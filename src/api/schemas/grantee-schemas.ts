@@ -24,6 +24,22 @@ export const confirmTentativeVoucherSchema = z.object({
   expiresAt: z.string().datetime()
 });
 
+// Void Voucher Schema (reason codes are checked by the domain)
+export const voidVoucherSchema = z.object({
+  reasonCode: z.string().min(1),
+  reason: z.string().min(1).optional()
+});
+
+// Report Matching Funds Schema
+export const reportMatchingFundsSchema = z.object({
+  matchType: z.enum(['CASH', 'IN_KIND']),
+  periodStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  periodEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  amountCents: z.string().regex(/^\d+$/),
+  evidenceArtifactIds: z.array(z.string().uuid()).min(1),
+  description: z.string().min(1).optional()
+});
+
 // List Vouchers Query Schema
 export const listVouchersQuerySchema = z.object({
   status: z.enum(['TENTATIVE', 'ISSUED', 'REDEEMED', 'EXPIRED', 'VOIDED']).optional(),
@@ -4,7 +4,7 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import { Pool } from 'pg';
-import { EventStore } from '../event-store';
+import { PostgresEventStore } from '../event-store';
 import { IdempotencyService } from '../application/idempotency-service';
 import { createAuthMiddleware } from './middleware/auth';
 import { errorHandler, notFoundHandler } from './middleware/error-handler';
@@ -12,7 +12,9 @@ import { requestLogger } from './middleware/request-logger';
 import { createClinicRoutes } from './routes/clinic-routes';
 import { createGranteeRoutes } from './routes/grantee-routes';
 import { createAdminRoutes } from './routes/admin-routes';
-import { createPublicRoutes } from './routes/public-routes';
+import { createPublicRoutes, createMarketplaceOutboxHandlers } from './routes/public-routes';
+import { OutboxDispatcher } from '../outbox';
+import { GrantCycleDeadlineScheduler } from '../jobs/grant-cycle-deadlines';
 
 // Environment configuration
 const PORT = process.env.API_PORT || 4000;
@@ -22,9 +24,16 @@ const DATABASE_URL = process.env.DATABASE_URL || 'postgresql://postgres:postgres
 // Initialize database and services
 export const apiPool = new Pool({ connectionString: DATABASE_URL });
 const pool = apiPool;
-const eventStore = new EventStore(pool);
+const eventStore = new PostgresEventStore(pool);
 const idempotency = new IdempotencyService(pool);
 
+// Background jobs, started only when run as a server; /health reports their last failure.
+// The dispatcher retries outbound side effects that the request-time delivery attempt did
+// not complete; the scheduler emits GRANT_PERIOD_ENDED / GRANT_CLAIMS_DEADLINE_PASSED once
+// each cycle's boundary passes.
+const outboxDispatcher = new OutboxDispatcher(pool, createMarketplaceOutboxHandlers(eventStore));
+const deadlineScheduler = new GrantCycleDeadlineScheduler(pool, eventStore);
+
 // Create Express app
 const app = express();
 
@@ -64,7 +73,14 @@ app.use(requestLogger);
 
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    jobs: {
+      outbox: { lastError: outboxDispatcher.error?.message ?? null },
+      grantCycleDeadlines: { lastError: deadlineScheduler.error?.message ?? null },
+    },
+  });
 });
 
 // API documentation placeholder
@@ -101,6 +117,9 @@ if (require.main === module) {
     console.log(`[API Server] Environment: ${process.env.NODE_ENV || 'development'}`);
     console.log(`[API Server] Database: ${DATABASE_URL.replace(/:[^:@]+@/, ':****@')}`);
   });
+
+  outboxDispatcher.start();
+  deadlineScheduler.start();
 }
 
 export default app;
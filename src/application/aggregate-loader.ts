@@ -0,0 +1,344 @@
+import { PoolClient } from 'pg';
+import { EventStore, DomainEvent, Watermark } from '../event-store';
+import { redactPii } from '../pii-vault';
+import { AllocatorId, ClaimId, ClaimFingerprint, VoucherId } from '../domain-types';
+import { createInitialGrantState, applyGrantEvent, checkGrantInvariant } from '../domain/grant/grant-logic';
+import { createInitialVoucherState, applyVoucherEvent, checkVoucherInvariant } from '../domain/voucher/voucher-logic';
+import { createInitialAllocatorState, applyAllocatorEvent, checkAllocatorInvariant } from '../domain/voucher/voucher-code-allocator';
+import { createInitialClaimState, applyClaimEvent, checkClaimInvariant } from '../domain/claim/claim-logic';
+import { createInitialClinicState, applyClinicEvent, checkClinicInvariant } from '../domain/clinic/clinic-logic';
+import {
+  createInitialInvoiceState,
+  applyInvoiceEvent,
+  checkInvoiceInvariant,
+  createInitialAdjustmentState,
+  applyAdjustmentEvent,
+} from '../domain/invoice/invoice-logic';
+import { ExportBatchId, BatchFingerprint, createInitialBatchState, applyBatchEvent, checkBatchInvariant } from '../domain/oasis/batch-logic';
+import { createInitialCycleCloseoutState, applyCycleCloseoutEvent, checkCycleCloseoutInvariant } from '../domain/closeout/cycle-logic';
+import { createInitialGrantCycleState, applyGrantCycleEvent, checkGrantCycleInvariant } from '../domain/grant-cycle/calendar-logic';
+import { createInitialApplicationState, applyApplicationEvent, checkApplicationInvariant } from '../domain/application/application-logic';
+import { ApplicationEvent, ApplicationId } from '../domain/application/application-types';
+import {
+  SnapshotRepository,
+  SnapshotPolicy,
+  AggregateSnapshot,
+  DEFAULT_SNAPSHOT_POLICY,
+  canonicalStateJson,
+} from './aggregate-snapshots';
+
+// === REDUCER REGISTRY ===
+// Binds each aggregate type to its domain createInitial*/apply*/check* triple.
+// Domain apply functions mutate in place (except APPLICATION, which returns the next state),
+// so every reducer here returns the state it was given or produced.
+export interface AggregateReducer<S> {
+  stateVersion: number;   // bump when the state shape or apply semantics change; older snapshots are discarded
+  create(aggregateId: string, firstEvent: DomainEvent): S;
+  apply(state: S, event: DomainEvent): S;
+  check(state: S): void;
+}
+
+const reducers = new Map<string, AggregateReducer<unknown>>();
+
+export function registerReducer<S>(aggregateType: string, reducer: AggregateReducer<S>): void {
+  reducers.set(aggregateType, reducer);
+}
+
+export function getReducer<S = unknown>(aggregateType: string): AggregateReducer<S> {
+  const reducer = reducers.get(aggregateType);
+  if (!reducer) {
+    throw new Error(`REDUCER_NOT_REGISTERED:${aggregateType}`);
+  }
+  return reducer as AggregateReducer<S>;
+}
+
+export function registeredAggregateTypes(): string[] {
+  return [...reducers.keys()];
+}
+
+registerReducer('GRANT', {
+  stateVersion: 2,        // 2: amendments leave bucket rates alone
+  create: () => createInitialGrantState(),
+  apply: (state, event) => { applyGrantEvent(state, event); return state; },
+  check: checkGrantInvariant,
+});
+
+registerReducer('VOUCHER', {
+  stateVersion: 1,
+  // Voucher events do not all carry grantId; rebuild uses the same '' fallback
+  create: (voucherId, first) => createInitialVoucherState(voucherId, (first.eventData.grantId as string) || ''),
+  apply: (state, event) => { applyVoucherEvent(state, event); return state; },
+  check: checkVoucherInvariant,
+});
+
+registerReducer('ALLOCATOR', {
+  stateVersion: 1,
+  create: (allocatorId) => createInitialAllocatorState(allocatorId as AllocatorId),
+  apply: (state, event) => { applyAllocatorEvent(state, event); return state; },
+  check: checkAllocatorInvariant,
+});
+
+registerReducer('CLAIM', {
+  stateVersion: 1,
+  create: (claimId, first) => createInitialClaimState(
+    claimId as ClaimId,
+    first.eventData.claimFingerprint as ClaimFingerprint,
+    first.eventData.grantCycleId as string,
+    first.eventData.voucherId as VoucherId,
+    first.eventData.clinicId as string,
+    first.eventData.procedureCode as string,
+    new Date(first.eventData.dateOfService as string)
+  ),
+  apply: (state, event) => { applyClaimEvent(state, event); return state; },
+  check: checkClaimInvariant,
+});
+
+registerReducer('VET_CLINIC', {
+  stateVersion: 1,
+  create: (clinicId, first) => createInitialClinicState(clinicId, (first.eventData.clinicName as string) || ''),
+  apply: (state, event) => { applyClinicEvent(state, event); return state; },
+  check: checkClinicInvariant,
+});
+
+registerReducer('INVOICE', {
+  stateVersion: 1,
+  create: (invoiceId, first) => createInitialInvoiceState(
+    invoiceId,
+    first.eventData.clinicId as string,
+    new Date(first.eventData.periodStart as string),
+    new Date(first.eventData.periodEnd as string)
+  ),
+  apply: (state, event) => { applyInvoiceEvent(state, event); return state; },
+  check: checkInvoiceInvariant,
+});
+
+registerReducer('ADJUSTMENT', {
+  stateVersion: 1,
+  create: (adjustmentId, first) => createInitialAdjustmentState(adjustmentId, first.eventData.sourceInvoiceId as string),
+  apply: (state, event) => { applyAdjustmentEvent(state, event); return state; },
+  check: () => {},
+});
+
+registerReducer('OASIS_EXPORT_BATCH', {
+  stateVersion: 1,
+  create: (exportBatchId, first) => createInitialBatchState(
+    exportBatchId as ExportBatchId,
+    first.eventData.grantCycleId as string,
+    first.eventData.batchCode as string,
+    first.eventData.batchFingerprint as BatchFingerprint,
+    new Date(first.eventData.periodStart as string),
+    new Date(first.eventData.periodEnd as string),
+    new Date(first.eventData.watermarkIngestedAt as string),
+    first.eventData.watermarkEventId as string
+  ),
+  apply: (state, event) => { applyBatchEvent(state, event); return state; },
+  check: checkBatchInvariant,
+});
+
+registerReducer('GRANT_CYCLE_CLOSEOUT', {
+  stateVersion: 1,
+  create: (_aggregateId, first) => createInitialCycleCloseoutState(first.grantCycleId),
+  apply: (state, event) => { applyCycleCloseoutEvent(state, event); return state; },
+  check: checkCycleCloseoutInvariant,
+});
+
+registerReducer('GRANT_CYCLE', {
+  stateVersion: 1,
+  create: (_aggregateId, first) => createInitialGrantCycleState(first.grantCycleId),
+  apply: (state, event) => { applyGrantCycleEvent(state, event); return state; },
+  check: checkGrantCycleInvariant,
+});
+
+// The application reducer takes its own event union; the envelope maps field for field,
+// except that event_log records applicants as APPLICANT
+function toApplicationEvent(event: DomainEvent): ApplicationEvent {
+  return {
+    eventType: event.eventType as ApplicationEvent['eventType'],
+    aggregateId: event.aggregateId as ApplicationId,
+    aggregateType: 'APPLICATION',
+    eventData: event.eventData as ApplicationEvent['eventData'],
+    occurredAt: event.occurredAt,
+    grantCycleId: event.grantCycleId,
+    correlationId: event.correlationId,
+    causationId: event.causationId,
+    actorId: event.actorId,
+    actorType: event.actorType === 'APPLICANT' ? 'PUBLIC_APPLICANT' : event.actorType,
+  } as ApplicationEvent;
+}
+
+registerReducer('APPLICATION', {
+  stateVersion: 1,
+  create: (applicationId) => createInitialApplicationState(applicationId as ApplicationId),
+  apply: (state, event) => applyApplicationEvent(state, toApplicationEvent(event)),
+  check: checkApplicationInvariant,
+});
+
+// === AGGREGATE LOADER ===
+export interface LoadedAggregate<S> {
+  state: S;
+  version: number;        // stream length; pass as expectedVersion when appending
+  watermark: Watermark;   // last applied event
+}
+
+export interface PointInTimeAggregate<S> extends LoadedAggregate<S> {
+  events: DomainEvent[];  // every event applied, in watermark order
+}
+
+export interface PointInTimeOptions {
+  client?: PoolClient;
+  redactPii?: boolean;    // fold and return events with designated PII fields redacted
+}
+
+export interface SnapshotVerification {
+  aggregateType: string;
+  aggregateId: string;
+  snapshotVersion: number | null;
+  version: number;
+  matches: boolean;
+}
+
+export class AggregateLoader {
+  constructor(
+    private store: EventStore,
+    private snapshots?: SnapshotRepository,
+    private policy: SnapshotPolicy = DEFAULT_SNAPSHOT_POLICY
+  ) {}
+
+  /**
+   * Rebuilds aggregate state from the event log (not projections), starting from the
+   * latest snapshot when a SnapshotStore is configured and replaying only the tail.
+   * Returns null when the stream is empty. New snapshots cover only events ingested before
+   * the store's commit horizon; a later-committing writer can still insert below anything past it.
+   */
+  async load<S>(aggregateType: string, aggregateId: string, client?: PoolClient): Promise<LoadedAggregate<S> | null> {
+    const reducer = getReducer<S>(aggregateType);
+    const snapshot = this.snapshots ? await this.snapshots.latest(aggregateType, aggregateId, reducer.stateVersion, client) : null;
+    const horizon = this.snapshots ? await this.store.commitHorizon() : null;
+    const tail = await this.loadTail(aggregateType, aggregateId, snapshot, client);
+    if (!snapshot && tail.length === 0) return null;
+
+    const settled = horizon ? tail.filter((event) => event.ingestedAt < horizon) : [];
+    const baseVersion = snapshot?.streamVersion ?? 0;
+    let state = snapshot ? snapshot.state as S : reducer.create(aggregateId, tail[0]);
+    for (const event of settled) {
+      state = reducer.apply(state, event);
+    }
+
+    // Saved before the unsettled events are applied: apply functions mutate the state in place
+    if (this.snapshots && settled.length >= this.policy.everyNEvents) {
+      reducer.check(state);
+      await this.snapshots.save({
+        aggregateType,
+        aggregateId,
+        streamVersion: baseVersion + settled.length,
+        reducerVersion: reducer.stateVersion,
+        state,
+        watermark: Watermark.from(settled[settled.length - 1]),
+      }, client);
+    }
+
+    for (const event of tail.slice(settled.length)) {
+      state = reducer.apply(state, event);
+    }
+    reducer.check(state);
+
+    return {
+      state,
+      version: baseVersion + tail.length,
+      watermark: tail.length > 0 ? Watermark.from(tail[tail.length - 1]) : snapshot!.watermark,
+    };
+  }
+
+  /**
+   * Verification mode: proves latest snapshot + tail equals a full replay from genesis.
+   * Snapshots written by an older reducer version are ignored, as load() ignores them.
+   */
+  async verify(aggregateType: string, aggregateId: string, client?: PoolClient): Promise<SnapshotVerification> {
+    const reducerVersion = getReducer(aggregateType).stateVersion;
+    const snapshot = this.snapshots ? await this.snapshots.latest(aggregateType, aggregateId, reducerVersion, client) : null;
+    const fromSnapshot = await this.replay(aggregateType, aggregateId, snapshot, client);
+    const fromGenesis = await this.replay(aggregateType, aggregateId, null, client);
+
+    return {
+      aggregateType,
+      aggregateId,
+      snapshotVersion: snapshot?.streamVersion ?? null,
+      version: fromGenesis?.version ?? 0,
+      matches: fromSnapshot?.version === fromGenesis?.version
+        && canonicalStateJson(fromSnapshot?.state) === canonicalStateJson(fromGenesis?.state),
+    };
+  }
+
+  /**
+   * State as of a watermark (inclusive), replayed from genesis; snapshots are never read or
+   * written. Returns null when the stream had no events by then.
+   */
+  async loadAsOf<S>(
+    aggregateType: string,
+    aggregateId: string,
+    through: Watermark,
+    options: PointInTimeOptions = {}
+  ): Promise<PointInTimeAggregate<S> | null> {
+    const reducer = getReducer<S>(aggregateType);
+    const loaded = await this.store.loadStream(aggregateType, aggregateId, { client: options.client, through });
+    if (loaded.length === 0) return null;
+    const events = options.redactPii ? redactPii(loaded) : loaded;
+
+    let state = reducer.create(aggregateId, events[0]);
+    for (const event of events) {
+      state = reducer.apply(state, event);
+    }
+    reducer.check(state);
+
+    return {
+      state,
+      version: events.length,
+      watermark: Watermark.from(events[events.length - 1]),
+      events,
+    };
+  }
+
+  private async replay<S>(
+    aggregateType: string,
+    aggregateId: string,
+    snapshot: AggregateSnapshot | null,
+    client?: PoolClient
+  ): Promise<LoadedAggregate<S> | null> {
+    const reducer = getReducer<S>(aggregateType);
+    const events = await this.loadTail(aggregateType, aggregateId, snapshot, client);
+
+    if (!snapshot && events.length === 0) return null;
+
+    let state = snapshot ? snapshot.state as S : reducer.create(aggregateId, events[0]);
+    for (const event of events) {
+      state = reducer.apply(state, event);
+    }
+    reducer.check(state);
+
+    return {
+      state,
+      version: (snapshot?.streamVersion ?? 0) + events.length,
+      watermark: events.length > 0 ? Watermark.from(events[events.length - 1]) : snapshot!.watermark,
+    };
+  }
+
+  /**
+   * Events past the snapshot's stream version. The count is read first, so an append landing
+   * between the two reads only lengthens the tail; a tail short of it means the snapshot no
+   * longer lines up with the stream.
+   */
+  private async loadTail(
+    aggregateType: string,
+    aggregateId: string,
+    snapshot: AggregateSnapshot | null,
+    client?: PoolClient
+  ): Promise<DomainEvent[]> {
+    const fromVersion = snapshot?.streamVersion ?? 0;
+    const streamVersion = await this.store.getStreamVersion(aggregateType, aggregateId, client);
+    const tail = await this.store.loadStream(aggregateType, aggregateId, { client, fromVersion });
+    if (fromVersion > streamVersion || fromVersion + tail.length < streamVersion) {
+      throw new Error('SNAPSHOT_STREAM_MISMATCH');
+    }
+    return tail;
+  }
+}
@@ -0,0 +1,180 @@
+import { Pool, PoolClient } from 'pg';
+import { Watermark } from '../event-store';
+import { EventId } from '../domain-types';
+
+// === SNAPSHOT POLICY ===
+export interface SnapshotPolicy {
+  everyNEvents: number;   // write a new snapshot once the unsnapshotted tail reaches this length
+}
+
+export const DEFAULT_SNAPSHOT_POLICY: SnapshotPolicy = { everyNEvents: 100 };
+
+export interface AggregateSnapshot {
+  aggregateType: string;
+  aggregateId: string;
+  streamVersion: number;
+  reducerVersion: number;   // AggregateReducer.stateVersion that produced the state
+  state: unknown;
+  watermark: Watermark;
+}
+
+// === STATE ENCODING ===
+// Aggregate states hold bigint (MoneyCents), Date, Map (GrantState, with metadata attached
+// as an own property) and Set (allocator codes). JSON alone loses all four, so they are tagged.
+export function encodeSnapshotState(value: unknown): unknown {
+  if (typeof value === 'bigint') return { $bigint: value.toString() };
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value instanceof Map) {
+    return {
+      $map: [...value.entries()].map(([k, v]) => [encodeSnapshotState(k), encodeSnapshotState(v)]),
+      $props: encodeSnapshotState({ ...value }),
+    };
+  }
+  if (value instanceof Set) return { $set: [...value].map(encodeSnapshotState) };
+  if (Array.isArray(value)) return value.map(encodeSnapshotState);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      if (child !== undefined) out[key] = encodeSnapshotState(child);
+    }
+    return out;
+  }
+  return value;
+}
+
+export function decodeSnapshotState(value: unknown): any {
+  if (Array.isArray(value)) return value.map(decodeSnapshotState);
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, any>;
+    if ('$bigint' in obj) return BigInt(obj.$bigint);
+    if ('$date' in obj) return new Date(obj.$date);
+    if ('$set' in obj) return new Set(obj.$set.map(decodeSnapshotState));
+    if ('$map' in obj) {
+      const map = new Map(obj.$map.map(([k, v]: [unknown, unknown]) => [decodeSnapshotState(k), decodeSnapshotState(v)]));
+      return Object.assign(map, decodeSnapshotState(obj.$props));
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(obj)) {
+      out[key] = decodeSnapshotState(child);
+    }
+    return out;
+  }
+  return value;
+}
+
+/**
+ * Key-order independent serialization of an aggregate state (JSONB reorders keys),
+ * used to prove two replays produced the same state.
+ */
+export function canonicalStateJson(state: unknown): string {
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+      const obj = value as Record<string, unknown>;
+      return Object.keys(obj).sort().reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = sortKeys(obj[key]);
+        return acc;
+      }, {});
+    }
+    return value;
+  };
+  return JSON.stringify(sortKeys(encodeSnapshotState(state)));
+}
+
+// === SNAPSHOT STORE ===
+export interface SnapshotRepository {
+  /** Latest snapshot written by this reducer version; snapshots from other versions are skipped. */
+  latest(aggregateType: string, aggregateId: string, reducerVersion: number, client?: PoolClient): Promise<AggregateSnapshot | null>;
+  save(snapshot: AggregateSnapshot, client?: PoolClient): Promise<void>;
+}
+
+export class SnapshotStore implements SnapshotRepository {
+  constructor(private pool: Pool) {}
+
+  async latest(aggregateType: string, aggregateId: string, reducerVersion: number, client?: PoolClient): Promise<AggregateSnapshot | null> {
+    const executor = client ?? this.pool;
+    const result = await executor.query(`
+      SELECT stream_version, snapshot_state, watermark_ingested_at, watermark_event_id
+      FROM aggregate_snapshots
+      WHERE aggregate_type = $1 AND aggregate_id = $2 AND reducer_version = $3
+      ORDER BY stream_version DESC
+      LIMIT 1
+    `, [aggregateType, aggregateId, reducerVersion]);
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      aggregateType,
+      aggregateId,
+      streamVersion: row.stream_version,
+      reducerVersion,
+      state: decodeSnapshotState(row.snapshot_state),
+      watermark: {
+        ingestedAt: new Date(row.watermark_ingested_at),
+        eventId: row.watermark_event_id as EventId,
+      },
+    };
+  }
+
+  async save(snapshot: AggregateSnapshot, client?: PoolClient): Promise<void> {
+    const executor = client ?? this.pool;
+    await executor.query(`
+      INSERT INTO aggregate_snapshots (
+        aggregate_type, aggregate_id, stream_version, reducer_version, snapshot_state,
+        watermark_ingested_at, watermark_event_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (aggregate_type, aggregate_id, stream_version) DO UPDATE SET
+        reducer_version = EXCLUDED.reducer_version,
+        snapshot_state = EXCLUDED.snapshot_state,
+        recorded_at = clock_timestamp()
+      WHERE aggregate_snapshots.reducer_version <> EXCLUDED.reducer_version
+    `, [
+      snapshot.aggregateType,
+      snapshot.aggregateId,
+      snapshot.streamVersion,
+      snapshot.reducerVersion,
+      JSON.stringify(encodeSnapshotState(snapshot.state)),
+      snapshot.watermark.ingestedAt.toISOString(),
+      snapshot.watermark.eventId,
+    ]);
+  }
+
+  /**
+   * Aggregates that have at least one snapshot, for verification sweeps.
+   */
+  async snapshotted(aggregateType?: string): Promise<Array<{ aggregateType: string; aggregateId: string }>> {
+    const result = await this.pool.query(`
+      SELECT DISTINCT aggregate_type, aggregate_id
+      FROM aggregate_snapshots
+      WHERE $1::text IS NULL OR aggregate_type = $1
+      ORDER BY aggregate_type, aggregate_id
+    `, [aggregateType ?? null]);
+    return result.rows.map((row) => ({ aggregateType: row.aggregate_type, aggregateId: row.aggregate_id }));
+  }
+}
+
+/**
+ * Snapshot store for unit tests. States round-trip through the same JSON encoding as the
+ * aggregate_snapshots JSONB column.
+ */
+export class InMemorySnapshotStore implements SnapshotRepository {
+  private rows: Array<Omit<AggregateSnapshot, 'state'> & { encoded: string }> = [];
+
+  async latest(aggregateType: string, aggregateId: string, reducerVersion: number): Promise<AggregateSnapshot | null> {
+    const row = this.rows
+      .filter((r) => r.aggregateType === aggregateType && r.aggregateId === aggregateId && r.reducerVersion === reducerVersion)
+      .sort((a, b) => b.streamVersion - a.streamVersion)[0];
+    if (!row) return null;
+    const { encoded, ...rest } = row;
+    return { ...rest, state: decodeSnapshotState(JSON.parse(encoded)) };
+  }
+
+  async save(snapshot: AggregateSnapshot): Promise<void> {
+    this.rows = this.rows.filter((r) => !(
+      r.aggregateType === snapshot.aggregateType && r.aggregateId === snapshot.aggregateId && r.streamVersion === snapshot.streamVersion
+    ));
+    const { state, ...rest } = snapshot;
+    this.rows.push({ ...rest, encoded: JSON.stringify(encodeSnapshotState(state)) });
+  }
+}
@@ -1,7 +1,11 @@
 import { Pool } from 'pg';
+import * as crypto from 'crypto';
 import { EventStore, DomainEvent } from '../event-store';
-import { ActorId } from '../domain-types';
+import { ActorId, GrantId, RateEngine } from '../domain-types';
 import { IdempotencyService } from './idempotency-service';
+import { AggregateLoader } from './aggregate-loader';
+import { AggregateProjector } from '../projections/aggregate-projector';
+import { revealPii } from '../pii-vault';
 import {
   ApplicationId,
   GranteeId,
@@ -9,6 +13,8 @@ import {
   StartApplicationCommand,
   SubmitApplicationCommand,
   AttachEvidenceCommand,
+  AwardApplicationCommand,
+  ApplicationState,
   ApplicationEvent,
   ApplicationStartedEvent,
   ApplicationSubmittedEvent,
@@ -26,15 +32,31 @@ import {
 import {
   validateStartApplicationCommand,
   validateSubmitApplicationCommand,
-  validateAttachEvidenceCommand
+  validateAttachEvidenceCommand,
+  validateAwardApplicationCommand
 } from '../domain/application/application-validators';
 
+export interface AwardApplicationResult {
+  applicationId: ApplicationId;
+  grantId: GrantId;
+  awardedAmountCents: string;
+  matchCommitmentCents: string;
+  lirpAllocationCents: string | null;
+  rate: { numerator: string; denominator: string };
+}
+
 export class ApplicationService {
+  private readonly loader: AggregateLoader;
+  private readonly projector: AggregateProjector;
+
   constructor(
     private pool: Pool,
     private store: EventStore,
     private idempotency: IdempotencyService
-  ) {}
+  ) {
+    this.loader = new AggregateLoader(store);
+    this.projector = new AggregateProjector(pool, store);
+  }
 
   /**
    * Starts a new application
@@ -206,26 +228,168 @@ export class ApplicationService {
     }
   }
 
+  /**
+   * Awards a scored application: APPLICATION_AWARDED and the GRANT_CREATED it causes are
+   * appended, and the new grant's balance rows projected, in one transaction. The command id
+   * is the idempotency key; replaying it with different award terms is IDEMPOTENCY_KEY_REUSED.
+   */
+  async awardApplication(command: AwardApplicationCommand): Promise<AwardApplicationResult> {
+    validateAwardApplicationCommand(command);
+
+    const idempotencyKey = command.commandId;
+    const requestHash = crypto.createHash('sha256').update(JSON.stringify({
+      applicationId: command.applicationId,
+      awardedAmountCents: command.awardedAmountCents.toString(),
+      matchCommitmentCents: command.matchCommitmentCents.toString(),
+      lirpAllocationCents: command.lirpAllocationCents?.toString() ?? null,
+      policySnapshotId: command.policySnapshotId,
+      reason: command.reason ?? null
+    })).digest('hex');
+    let reserved = false;
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // A command id replayed with different award terms is a client bug, not a retry
+      const existing = await client.query(
+        'SELECT operation_type, request_hash FROM idempotency_cache WHERE idempotency_key = $1 FOR UPDATE',
+        [idempotencyKey]
+      );
+      if (existing.rows.length > 0 && (existing.rows[0].operation_type !== 'AWARD_APPLICATION' || existing.rows[0].request_hash !== requestHash)) {
+        throw new Error('IDEMPOTENCY_KEY_REUSED');
+      }
+
+      const status = await this.idempotency.checkAndReserve(client, idempotencyKey, 'AWARD_APPLICATION', requestHash, 86400);
+      if (status === 'COMPLETED') {
+        const result = await client.query('SELECT response_json FROM idempotency_cache WHERE idempotency_key = $1', [idempotencyKey]);
+        await client.query('COMMIT');
+        return result.rows[0].response_json;
+      }
+      if (status === 'PROCESSING') {
+        throw new Error('OPERATION_IN_PROGRESS');
+      }
+      reserved = true;
+
+      const application = await this.loader.load<ApplicationState>('APPLICATION', command.applicationId, client);
+      if (!application) {
+        throw new Error('APPLICATION_NOT_FOUND');
+      }
+      if (application.state.status !== 'SCORED') {
+        throw new Error('APPLICATION_NOT_AWARDABLE');
+      }
+
+      const grantId = crypto.randomUUID() as GrantId;
+      const grantCycleId = application.state.grantCycleId;
+      const rate = RateEngine.create(command.awardedAmountCents, command.matchCommitmentCents);
+      const lirpAllocationCents = command.lirpAllocationCents?.toString();
+      const decisionBasis = {
+        policySnapshotId: command.policySnapshotId,
+        decidedBy: command.actorId,
+        decidedAt: command.occurredAt.toISOString(),
+        ...(command.reason ? { reason: command.reason } : {})
+      };
+
+      const awarded: Omit<DomainEvent, 'ingestedAt'> = {
+        eventId: EventStore.newEventId(),
+        aggregateType: 'APPLICATION',
+        aggregateId: command.applicationId,
+        eventType: 'APPLICATION_AWARDED',
+        eventData: {
+          grantId,
+          awardedAmountCents: command.awardedAmountCents.toString(),
+          matchCommitmentCents: command.matchCommitmentCents.toString(),
+          ...(lirpAllocationCents ? { lirpAllocationCents } : {}),
+          decisionBasis
+        },
+        occurredAt: command.occurredAt,
+        grantCycleId,
+        correlationId: command.correlationId,
+        causationId: command.causationId,
+        actorId: command.actorId as ActorId,
+        actorType: 'ADMIN'
+      };
+      // A concurrent decision on the same application fails here rather than awarding twice
+      await this.store.appendWithClient(client, awarded, { expectedVersion: application.version });
+
+      await this.store.appendWithClient(client, {
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: grantId,
+        eventType: 'GRANT_CREATED',
+        eventData: {
+          grantId,
+          grantCycleId,
+          applicationId: command.applicationId,
+          granteeId: application.state.granteeId,
+          awardedAmountCents: command.awardedAmountCents.toString(),
+          matchCommitmentCents: command.matchCommitmentCents.toString(),
+          rateNumeratorCents: rate.numeratorCents.toString(),
+          rateDenominatorCents: rate.denominatorCents.toString(),
+          lirpEnabled: lirpAllocationCents !== undefined,
+          ...(lirpAllocationCents ? { lirpAllocationCents } : {})
+        },
+        occurredAt: command.occurredAt,
+        grantCycleId,
+        correlationId: command.correlationId,
+        causationId: awarded.eventId,
+        actorId: command.actorId as ActorId,
+        actorType: 'ADMIN'
+      }, { expectedVersion: 0 });
+
+      await this.projector.projectGrantBalances(client, grantId);
+      await this.projector.projectApplication(client, command.applicationId);
+
+      const response: AwardApplicationResult = {
+        applicationId: command.applicationId,
+        grantId,
+        awardedAmountCents: command.awardedAmountCents.toString(),
+        matchCommitmentCents: command.matchCommitmentCents.toString(),
+        lirpAllocationCents: lirpAllocationCents ?? null,
+        rate: RateEngine.toJSON(rate)
+      };
+      await this.idempotency.recordResult(client, idempotencyKey, response);
+
+      await client.query('COMMIT');
+      return response;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      // Only fail a reservation this call made; a rejected replay leaves the original record alone
+      if (reserved) {
+        try { await this.idempotency.recordFailure(client, idempotencyKey); } catch { /* swallow */ }
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Gets current application state by replaying events
    */
   private async getApplicationState(applicationId: ApplicationId) {
     const client = await this.pool.connect();
     try {
-      const eventRows = await client.query(`
-        SELECT event_type, event_data, occurred_at, ingested_at
+      const eventResult = await client.query(`
+        SELECT event_id, event_type, event_data, occurred_at, ingested_at
         FROM event_log
         WHERE aggregate_id = $1 AND aggregate_type = 'APPLICATION'
         ORDER BY ingested_at ASC, event_id ASC
       `, [applicationId]);
-
-      if (eventRows.rows.length === 0) {
+      const revealed = await revealPii(client, eventResult.rows.map((row) => ({
+        eventId: row.event_id,
+        eventType: row.event_type,
+        eventData: row.event_data,
+        row,
+      })));
+      const eventRows = revealed.map(({ row, eventData }) => ({ ...row, event_data: eventData }));
+
+      if (eventRows.length === 0) {
         throw new Error('APPLICATION_NOT_FOUND');
       }
 
       let state = createInitialApplicationState(applicationId);
 
-      for (const row of eventRows.rows) {
+      for (const row of eventRows) {
         const event: ApplicationEvent = {
           eventType: row.event_type,
           aggregateId: applicationId,
@@ -287,8 +451,8 @@ export class ApplicationService {
           signalId: crypto.randomUUID(),
           signalCode: 'SUSPICIOUSLY_SHORT_ORG_NAME',
           severity: 'MEDIUM' as FraudSeverity,
+          // The name itself is personal data and FRAUD_SIGNAL_DETECTED is not sealed; the length is the signal
           evidence: {
-            organizationName: context.organizationName,
             length: context.organizationName.length
           },
           recommendedAction: 'Verify organization legitimacy and contact information'
@@ -1,15 +1,26 @@
-import { Pool, PoolClient } from 'pg';
+import { Pool } from 'pg';
 import * as crypto from 'crypto';
 import { EventStore, DomainEvent } from '../event-store';
 import { IdempotencyService } from './idempotency-service';
-import { ClaimId, ClaimFingerprint, VoucherId, MoneyCents, Claim, ActorId } from '../domain-types';
-import { applyClaimEvent, ClaimState, checkClaimInvariant, createInitialClaimState, validateClaimSubmission, DecisionBasis } from '../domain/claim/claim-logic';
+import { AggregateLoader } from './aggregate-loader';
+import { AggregateProjector } from '../projections/aggregate-projector';
+import { ClaimId, VoucherId, MoneyCents, Money, Claim, ActorId, GrantCycle, RateEngine } from '../domain-types';
+import { ClaimState, validateClaimSubmission, DecisionBasis } from '../domain/claim/claim-logic';
+import { GrantState, assertLirpMustHonorDecision, rateForClaimSubmittedAt, splitLirpLiquidation } from '../domain/grant/grant-logic';
+import { VoucherState } from '../domain/voucher/voucher-logic';
+import { GrantCycleState, deadlineBoundary, fiscalYearCalendar } from '../domain/grant-cycle/calendar-logic';
 import { applyClinicEvent, ClinicState, checkClinicInvariant, createInitialClinicState, canClinicSubmitClaim } from '../domain/clinic/clinic-logic';
 
 const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
 export class ClaimService {
-  constructor(private pool: Pool, private store: EventStore, private idempotency: IdempotencyService) {}
+  private readonly loader: AggregateLoader;
+  private readonly projector: AggregateProjector;
+
+  constructor(private pool: Pool, private store: EventStore, private idempotency: IdempotencyService) {
+    this.loader = new AggregateLoader(store);
+    this.projector = new AggregateProjector(pool, store);
+  }
 
   async submitClaim(request: {
     idempotencyKey: string;
@@ -152,10 +163,17 @@ export class ClaimService {
         throw new Error('LIRP_COPAY_FORBIDDEN');
       }
 
-      // Get grant period and submission deadline (hardcoded for FY2026, should come from grant record)
-      const grantPeriodStart = new Date('2025-07-01');
-      const grantPeriodEnd = new Date('2026-06-30');
-      const submissionDeadline = new Date('2026-11-15');
+      // Grant period and submission deadline come from the cycle calendar. Dates of service are
+      // calendar dates; the submission deadline is the end of its day in the cycle's time zone.
+      // Cycles created before GRANT_CYCLE_CREATED existed fall back to the fiscal-year calendar.
+      const cycle = await this.loader.load<GrantCycleState>('GRANT_CYCLE', GrantCycle.createAggregateId(request.grantCycleId), client);
+      const calendar = cycle?.state.calendar ?? fiscalYearCalendar(request.grantCycleId);
+      if (!calendar) {
+        throw new Error('GRANT_CYCLE_CALENDAR_NOT_FOUND');
+      }
+      const grantPeriodStart = new Date(calendar.periodStart);
+      const grantPeriodEnd = new Date(calendar.periodEnd);
+      const submissionDeadline = deadlineBoundary(calendar, 'GRANT_CLAIMS_DEADLINE_PASSED').boundaryAt;
       const voucherIssuedAt = new Date(voucherRow.rows[0].issued_at);
       const voucherExpiresAt = new Date(voucherRow.rows[0].expires_at);
 
@@ -201,7 +219,7 @@ export class ClaimService {
       await this.store.appendWithClient(client, event);
 
       // Update projection
-      await this.updateClaimProjection(client, claimId);
+      await this.projector.projectClaim(client, claimId);
 
       const response = { claimId };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -251,8 +269,14 @@ export class ClaimService {
         throw new Error('CLAIM_NOT_FOUND');
       }
 
+      // Decide against event-derived state; its version guards the appends below
+      const claim = await this.loader.load<ClaimState>('CLAIM', request.claimId, client);
+      if (!claim) {
+        throw new Error('CLAIM_NOT_FOUND');
+      }
+
       const claimGrantCycleId = claimRow.rows[0].grant_cycle_id;
-      const currentStatus = claimRow.rows[0].status;
+      const currentStatus = claim.state.status;
       if (currentStatus !== 'SUBMITTED' && currentStatus !== 'ADJUSTED') {
         // Check if already decided - this is a conflict
         const conflictEvent: Omit<DomainEvent, 'ingestedAt'> = {
@@ -278,7 +302,7 @@ export class ClaimService {
           actorType: request.actorType,
         };
 
-        await this.store.appendWithClient(client, conflictEvent);
+        await this.store.appendWithClient(client, conflictEvent, { expectedVersion: claim.version });
 
         const response = { success: false, conflictDetected: true };
         await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -286,6 +310,27 @@ export class ClaimService {
         return response;
       }
 
+      // LIRP must-honor: once enforced on the grant, LIRP claims are paid in full
+      const voucherId = claimRow.rows[0].voucher_id;
+      const voucherRow = await client.query('SELECT grant_id, is_lirp, max_reimbursement_cents FROM vouchers_projection WHERE voucher_id = $1', [voucherId]);
+      const grantId = voucherRow.rows[0].grant_id;
+      const isLIRP: boolean = voucherRow.rows[0].is_lirp;
+      const grant = await this.loader.load<GrantState>('GRANT', grantId, client);
+      if (isLIRP && grant) {
+        assertLirpMustHonorDecision(
+          grant.state,
+          request.decision,
+          claim.state.submittedAmountCents,
+          Money.fromBigInt(BigInt(voucherRow.rows[0].max_reimbursement_cents)),
+          request.approvedAmountCents
+        );
+      }
+
+      // The rate in force when the claim was submitted; an award amendment after that never reprices it
+      const reimbursementRate = grant && claim.state.submittedAt
+        ? RateEngine.toJSON(rateForClaimSubmittedAt(grant.state, claim.state.submittedAt))
+        : null;
+
       // Emit decision event
       const eventType = request.decision === 'APPROVE' ? 'CLAIM_APPROVED' : 'CLAIM_DENIED';
       const eventData: any = {
@@ -302,6 +347,9 @@ export class ClaimService {
           throw new Error('APPROVED_AMOUNT_REQUIRED');
         }
         eventData.approvedAmountCents = request.approvedAmountCents.toString();
+        if (reimbursementRate) {
+          eventData.reimbursementRate = reimbursementRate;
+        }
       }
 
       const event: Omit<DomainEvent, 'ingestedAt'> = {
@@ -318,37 +366,49 @@ export class ClaimService {
         actorType: request.actorType,
       };
 
-      await this.store.appendWithClient(client, event);
+      await this.store.appendWithClient(client, event, { expectedVersion: claim.version });
 
-      // If approved, emit GRANT_FUNDS_LIQUIDATED
+      // If approved, emit GRANT_FUNDS_LIQUIDATED. A LIRP voucher that fell back to GENERAL
+      // under must-honor liquidates its LIRP encumbrance first, then the GENERAL fallback.
       if (request.decision === 'APPROVE' && request.approvedAmountCents) {
-        const voucherId = claimRow.rows[0].voucher_id;
-        const voucherRow = await client.query('SELECT grant_id, is_lirp FROM vouchers_projection WHERE voucher_id = $1', [voucherId]);
-        const grantId = voucherRow.rows[0].grant_id;
-
-        const liquidationEvent: Omit<DomainEvent, 'ingestedAt'> = {
-          eventId: EventStore.newEventId(),
-          aggregateType: 'GRANT',
-          aggregateId: grantId,
-          eventType: 'GRANT_FUNDS_LIQUIDATED',
-          eventData: {
-            claimId: request.claimId,
-            amountCents: request.approvedAmountCents.toString(),
-            isLIRP: voucherRow.rows[0].is_lirp,
-          },
-          occurredAt: new Date(),
-          grantCycleId: claimGrantCycleId,
-          correlationId: request.correlationId,
-          causationId: event.eventId,
-          actorId: request.actorId as ActorId,
-          actorType: request.actorType,
-        };
+        const parts = [{ isLIRP, amountCents: request.approvedAmountCents, lirpFallback: false }];
+        if (isLIRP) {
+          const voucher = await this.loader.load<VoucherState>('VOUCHER', voucherId, client);
+          if (voucher && voucher.state.lirpFallbackCents > 0n) {
+            const split = splitLirpLiquidation(voucher.state.maxReimbursementCents, voucher.state.lirpFallbackCents, request.approvedAmountCents);
+            parts.splice(0, 1,
+              { isLIRP: true, amountCents: split.lirpCents, lirpFallback: false },
+              { isLIRP: false, amountCents: split.generalFallbackCents, lirpFallback: true });
+          }
+        }
 
-        await this.store.appendWithClient(client, liquidationEvent);
+        for (const part of parts.filter((candidate) => candidate.amountCents > 0n)) {
+          const liquidationEvent: Omit<DomainEvent, 'ingestedAt'> = {
+            eventId: EventStore.newEventId(),
+            aggregateType: 'GRANT',
+            aggregateId: grantId,
+            eventType: 'GRANT_FUNDS_LIQUIDATED',
+            eventData: {
+              claimId: request.claimId,
+              amountCents: part.amountCents.toString(),
+              isLIRP: part.isLIRP,
+              ...(part.lirpFallback ? { lirpFallback: true } : {}),
+              ...(reimbursementRate ? { reimbursementRate } : {}),
+            },
+            occurredAt: new Date(),
+            grantCycleId: claimGrantCycleId,
+            correlationId: request.correlationId,
+            causationId: event.eventId,
+            actorId: request.actorId as ActorId,
+            actorType: request.actorType,
+          };
+
+          await this.store.appendWithClient(client, liquidationEvent);
+        }
       }
 
       // Update projections
-      await this.updateClaimProjection(client, request.claimId);
+      await this.projector.projectClaim(client, request.claimId);
 
       const response = { success: true, conflictDetected: false };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -381,71 +441,4 @@ export class ClaimService {
     state.reinstatedAt = row.reinstated_at ? new Date(row.reinstated_at) : null;
     return state;
   }
-
-  private async updateClaimProjection(client: PoolClient, claimId: ClaimId): Promise<void> {
-    const eventRows = await client.query(`
-      SELECT event_id, event_type, event_data, ingested_at
-      FROM event_log
-      WHERE aggregate_id = $1
-      ORDER BY ingested_at ASC, event_id ASC
-    `, [claimId]);
-
-    if (eventRows.rows.length === 0) return;
-
-    const firstEvent = eventRows.rows[0].event_data;
-    const state = createInitialClaimState(
-      claimId,
-      firstEvent.claimFingerprint as ClaimFingerprint,
-      firstEvent.grantCycleId as string,
-      firstEvent.voucherId as VoucherId,
-      firstEvent.clinicId as string,
-      firstEvent.procedureCode as string,
-      new Date(firstEvent.dateOfService as string)
-    );
-
-    for (const row of eventRows.rows) {
-      const event = {
-        eventType: row.event_type,
-        eventData: row.event_data,
-        ingestedAt: row.ingested_at,
-        eventId: row.event_id,
-      };
-      applyClaimEvent(state, event);
-    }
-    checkClaimInvariant(state);
-
-    // HAZARD 2: Atomic de-dupe via unique constraint + ON CONFLICT
-    // If fingerprint collision occurs, the unique constraint will catch it
-    const result = await client.query(`
-      INSERT INTO claims_projection (
-        claim_id, claim_fingerprint, grant_cycle_id, voucher_id, clinic_id, procedure_code, date_of_service, status,
-        submitted_amount_cents, approved_amount_cents, decision_basis, invoice_id,
-        submitted_at, approved_at, approved_event_id, denied_at, adjusted_at, invoiced_at,
-        rebuilt_at, watermark_ingested_at, watermark_event_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
-      ON CONFLICT (claim_id) DO UPDATE SET
-        status = EXCLUDED.status,
-        approved_amount_cents = EXCLUDED.approved_amount_cents,
-        decision_basis = EXCLUDED.decision_basis,
-        invoice_id = EXCLUDED.invoice_id,
-        approved_at = EXCLUDED.approved_at,
-        approved_event_id = EXCLUDED.approved_event_id,
-        denied_at = EXCLUDED.denied_at,
-        adjusted_at = EXCLUDED.adjusted_at,
-        invoiced_at = EXCLUDED.invoiced_at,
-        rebuilt_at = EXCLUDED.rebuilt_at,
-        watermark_ingested_at = EXCLUDED.watermark_ingested_at,
-        watermark_event_id = EXCLUDED.watermark_event_id
-      RETURNING claim_id
-    `, [
-      state.claimId, state.claimFingerprint, state.grantCycleId, state.voucherId, state.clinicId, state.procedureCode, state.dateOfService,
-      state.status, state.submittedAmountCents.toString(), state.approvedAmountCents ? state.approvedAmountCents.toString() : null,
-      state.decisionBasis ? JSON.stringify(state.decisionBasis) : null, state.invoiceId,
-      state.submittedAt, state.approvedAt, state.approvedEventId, state.deniedAt, state.adjustedAt, state.invoicedAt,
-      new Date(), eventRows.rows[eventRows.rows.length - 1]?.ingested_at || new Date(), eventRows.rows[eventRows.rows.length - 1]?.event_id || EventStore.newEventId()
-    ]);
-    
-    // If fingerprint constraint violated, this will throw and rollback transaction
-    return result.rows[0].claim_id;
-  }
 }
@@ -1,12 +1,13 @@
-import { Pool, PoolClient } from 'pg';
-import * as crypto from 'crypto';
+import { Pool } from 'pg';
 import { EventStore, DomainEvent } from '../event-store';
 import { IdempotencyService } from './idempotency-service';
+import { MatchingFundsService } from './matching-funds-service';
+import { AggregateProjector } from '../projections/aggregate-projector';
+import { getChainHead } from '../projections/verify-chain';
 import { ActorId, MoneyCents, Money, GrantCycleCloseout } from '../domain-types';
 import {
   createInitialCycleCloseoutState,
   applyCycleCloseoutEvent,
-  checkCycleCloseoutInvariant,
   canStartCloseout,
   canCloseout,
   PreflightCheck,
@@ -16,11 +17,17 @@ import {
 } from '../domain/closeout/cycle-logic';
 
 export class CloseoutService {
+  private readonly projector: AggregateProjector;
+  private readonly matchingFunds: MatchingFundsService;
+
   constructor(
     private pool: Pool,
     private store: EventStore,
     private idempotency: IdempotencyService
-  ) {}
+  ) {
+    this.projector = new AggregateProjector(pool, store);
+    this.matchingFunds = new MatchingFundsService(pool, store, idempotency);
+  }
 
   async runPreflight(request: {
     idempotencyKey: string;
@@ -144,7 +151,7 @@ export class CloseoutService {
       };
       await this.store.appendWithClient(client, preflightEvent);
 
-      await this.updateCloseoutProjection(client, request.grantCycleId);
+      await this.projector.projectCycleCloseout(client, request.grantCycleId);
 
       await client.query('COMMIT');
       return { status, checks };
@@ -202,7 +209,7 @@ export class CloseoutService {
       };
       await this.store.appendWithClient(client, startedEvent);
 
-      await this.updateCloseoutProjection(client, request.grantCycleId);
+      await this.projector.projectCycleCloseout(client, request.grantCycleId);
 
       await client.query('COMMIT');
       return { status: 'STARTED' };
@@ -271,7 +278,7 @@ export class CloseoutService {
         reportedCents: Money.fromBigInt(reported),
         shortfallCents: Money.fromBigInt(shortfall > 0n ? shortfall : 0n),
         surplusCents: Money.fromBigInt(shortfall < 0n ? -shortfall : 0n),
-        evidenceArtifactIds: [],
+        evidenceArtifactIds: await this.matchingFunds.cycleEvidenceArtifactIds(client, request.grantCycleId),
       };
 
       // Calculate activity summary
@@ -324,6 +331,9 @@ export class CloseoutService {
         countiesCovered: [],
       };
 
+      // Anchor the tamper-evident chain head as of reconciliation for auditors
+      const chainHead = await getChainHead(client, request.grantCycleId);
+
       // Emit GRANT_CYCLE_CLOSEOUT_RECONCILED
       const closeoutAggregateId = GrantCycleCloseout.createAggregateId(request.grantCycleId);
 
@@ -351,6 +361,9 @@ export class CloseoutService {
             evidenceArtifactIds: matchingFunds.evidenceArtifactIds,
           },
           activitySummary,
+          eventChainHead: chainHead
+            ? { chainSeq: chainHead.chainSeq, headEventId: chainHead.headEventId, headHash: chainHead.headHash }
+            : null,
         },
         occurredAt: new Date(),
         grantCycleId: request.grantCycleId,
@@ -361,7 +374,7 @@ export class CloseoutService {
       };
       await this.store.appendWithClient(client, reconciledEvent);
 
-      await this.updateCloseoutProjection(client, request.grantCycleId);
+      await this.projector.projectCycleCloseout(client, request.grantCycleId);
 
       await client.query('COMMIT');
       return { status: 'RECONCILED' };
@@ -432,7 +445,7 @@ export class CloseoutService {
       };
       await this.store.appendWithClient(client, closedEvent);
 
-      await this.updateCloseoutProjection(client, request.grantCycleId);
+      await this.projector.projectCycleCloseout(client, request.grantCycleId);
 
       await client.query('COMMIT');
       return { status: 'CLOSED' };
@@ -477,7 +490,7 @@ export class CloseoutService {
       };
       await this.store.appendWithClient(client, holdEvent);
 
-      await this.updateCloseoutProjection(client, request.grantCycleId);
+      await this.projector.projectCycleCloseout(client, request.grantCycleId);
 
       await client.query('COMMIT');
       return { status: 'AUDIT_HOLD' };
@@ -522,7 +535,7 @@ export class CloseoutService {
       };
       await this.store.appendWithClient(client, resolvedEvent);
 
-      await this.updateCloseoutProjection(client, request.grantCycleId);
+      await this.projector.projectCycleCloseout(client, request.grantCycleId);
 
       await client.query('COMMIT');
       return { status: 'RECONCILED' };
@@ -534,81 +547,6 @@ export class CloseoutService {
     }
   }
 
-  private async updateCloseoutProjection(client: PoolClient, grantCycleId: string): Promise<void> {
-    const closeoutAggId = GrantCycleCloseout.createAggregateId(grantCycleId);
-    const eventRows = await client.query(`
-      SELECT event_id, event_type, event_data, ingested_at
-      FROM event_log
-      WHERE aggregate_id = $1 AND aggregate_type = 'GRANT_CYCLE_CLOSEOUT'
-      ORDER BY ingested_at ASC, event_id ASC
-    `, [closeoutAggId]);
-
-    const state = createInitialCycleCloseoutState(grantCycleId);
-    for (const row of eventRows.rows) {
-      const event = {
-        eventType: row.event_type,
-        eventData: row.event_data,
-        ingestedAt: row.ingested_at,
-      };
-      applyCycleCloseoutEvent(state, event);
-    }
-    checkCycleCloseoutInvariant(state);
-
-    await client.query(`
-      INSERT INTO grant_cycle_closeout_projection (
-        grant_cycle_id, closeout_status, preflight_status, preflight_checks,
-        started_at, reconciled_at, financial_summary, matching_funds, activity_summary,
-        reconciliation_watermark_ingested_at, reconciliation_watermark_event_id,
-        closed_at, closed_by_actor_id, final_balance_cents,
-        audit_hold_reason, audit_hold_at, audit_resolved_at, audit_resolution,
-        rebuilt_at, watermark_ingested_at, watermark_event_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
-      ON CONFLICT (grant_cycle_id) DO UPDATE SET
-        closeout_status = EXCLUDED.closeout_status,
-        preflight_status = EXCLUDED.preflight_status,
-        preflight_checks = EXCLUDED.preflight_checks,
-        started_at = EXCLUDED.started_at,
-        reconciled_at = EXCLUDED.reconciled_at,
-        financial_summary = EXCLUDED.financial_summary,
-        matching_funds = EXCLUDED.matching_funds,
-        activity_summary = EXCLUDED.activity_summary,
-        reconciliation_watermark_ingested_at = EXCLUDED.reconciliation_watermark_ingested_at,
-        reconciliation_watermark_event_id = EXCLUDED.reconciliation_watermark_event_id,
-        closed_at = EXCLUDED.closed_at,
-        closed_by_actor_id = EXCLUDED.closed_by_actor_id,
-        final_balance_cents = EXCLUDED.final_balance_cents,
-        audit_hold_reason = EXCLUDED.audit_hold_reason,
-        audit_hold_at = EXCLUDED.audit_hold_at,
-        audit_resolved_at = EXCLUDED.audit_resolved_at,
-        audit_resolution = EXCLUDED.audit_resolution,
-        rebuilt_at = EXCLUDED.rebuilt_at,
-        watermark_ingested_at = EXCLUDED.watermark_ingested_at,
-        watermark_event_id = EXCLUDED.watermark_event_id
-    `, [
-      state.grantCycleId, state.closeoutStatus, state.preflightStatus, JSON.stringify(state.preflightChecks),
-      state.startedAt, state.reconciledAt,
-      state.financialSummary ? JSON.stringify({
-        awardedCents: state.financialSummary.awardedCents.toString(),
-        encumberedCents: state.financialSummary.encumberedCents.toString(),
-        liquidatedCents: state.financialSummary.liquidatedCents.toString(),
-        releasedCents: state.financialSummary.releasedCents.toString(),
-        unspentCents: state.financialSummary.unspentCents.toString(),
-      }) : null,
-      state.matchingFunds ? JSON.stringify({
-        committedCents: state.matchingFunds.committedCents.toString(),
-        reportedCents: state.matchingFunds.reportedCents.toString(),
-        shortfallCents: state.matchingFunds.shortfallCents.toString(),
-        surplusCents: state.matchingFunds.surplusCents.toString(),
-        evidenceArtifactIds: state.matchingFunds.evidenceArtifactIds,
-      }) : null,
-      state.activitySummary ? JSON.stringify(state.activitySummary) : null,
-      state.reconciliationWatermarkIngestedAt, state.reconciliationWatermarkEventId,
-      state.closedAt, state.closedByActorId, state.finalBalanceCents ? state.finalBalanceCents.toString() : null,
-      state.auditHoldReason, state.auditHoldAt, state.auditResolvedAt, state.auditResolution,
-      new Date(), eventRows.rows[eventRows.rows.length - 1]?.ingested_at || new Date(), eventRows.rows[eventRows.rows.length - 1]?.event_id || crypto.randomUUID()
-    ]);
-  }
-
   async isCycleClosed(grantCycleId: string): Promise<boolean> {
     const client = await this.pool.connect();
     try {
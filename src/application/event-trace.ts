@@ -0,0 +1,311 @@
+import { Pool } from 'pg';
+import { PostgresEventStore, DomainEvent } from '../event-store';
+import { redactPii, revealPii } from '../pii-vault';
+
+// === CAUSAL TRACE ===
+// Reconstructs how events led to one another, for explaining a dollar flow end to end
+// (voucher -> encumbrance -> claim -> approval -> invoice -> OASIS batch). Four kinds of link:
+//   CAUSATION    causation_id points at the parent event
+//   REFERENCE    event_data names another aggregate (voucherId, claimIds, ...)
+//   CORRELATION  same command (correlation_id)
+//   STREAM       earlier event on the same aggregate
+// From the seed the walk goes upstream (what led here) and downstream (what followed).
+// Shared aggregates (a grant, an allocator) are only entered through explicit links, or
+// every voucher drawn on a grant would end up in every trace.
+
+// eventData key -> aggregate type it names. grantId is deliberately absent (see above).
+const REFERENCE_KEYS: Record<string, string> = {
+  voucherId: 'VOUCHER',
+  claimId: 'CLAIM',
+  invoiceId: 'INVOICE',
+  sourceInvoiceId: 'INVOICE',
+  adjustmentId: 'ADJUSTMENT',
+  exportBatchId: 'OASIS_EXPORT_BATCH',
+};
+const REFERENCE_LIST_KEYS: Record<string, string> = {
+  claimIds: 'CLAIM',
+  invoiceIds: 'INVOICE',
+  adjustmentIds: 'ADJUSTMENT',
+};
+const SHARED_AGGREGATE_TYPES = new Set(['GRANT', 'ALLOCATOR', 'GRANT_CYCLE_CLOSEOUT']);
+
+const DEFAULT_MAX_EVENTS = 500;
+export const MAX_TRACE_EVENTS = 10_000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const EVENT_COLUMNS = `
+  event_id, aggregate_type, aggregate_id, event_type, event_data, occurred_at, ingested_at,
+  grant_cycle_id, correlation_id, causation_id, actor_id, actor_type, schema_version
+`;
+
+export type TraceSeed =
+  | { correlationId: string }
+  | { eventId: string }
+  | { aggregateType: string; aggregateId: string };
+
+export type TraceLink = 'CAUSATION' | 'REFERENCE' | 'CORRELATION' | 'STREAM';
+
+export interface TraceNode {
+  eventId: string;
+  eventType: string;
+  aggregateType: string;
+  aggregateId: string;
+  grantCycleId: string;
+  occurredAt: string;
+  ingestedAt: string;
+  correlationId: string;
+  causationId: string | null;
+  actorId: string;
+  actorType: string;
+  eventData: Record<string, unknown>;
+  link: TraceLink | null;   // how this event hangs off its parent; null for roots
+  children: TraceNode[];
+}
+
+export interface TraceReport {
+  eventCount: number;
+  truncated: boolean;       // maxEvents reached before the walk finished
+  roots: TraceNode[];
+}
+
+export interface TraceOptions {
+  maxEvents?: number;        // capped at MAX_TRACE_EVENTS
+  revealPii?: boolean;       // open designated PII fields; otherwise they come back redacted
+}
+
+const UPSTREAM = 1;
+const DOWNSTREAM = 2;
+
+interface AggregateRef {
+  aggregateType: string;
+  aggregateId: string;
+}
+
+export async function traceCausalTree(pool: Pool, seed: TraceSeed, options: TraceOptions = {}): Promise<TraceReport> {
+  const walk = new TraceWalk(pool, Math.min(options.maxEvents ?? DEFAULT_MAX_EVENTS, MAX_TRACE_EVENTS));
+  await walk.seed(seed);
+  await walk.run();
+  // The walk only follows non-PII keys, so designated fields are opened or redacted once at the end
+  const events = options.revealPii ? await revealPii(pool, walk.collected()) : redactPii(walk.collected());
+  return buildTree(events, walk.truncated);
+}
+
+class TraceWalk {
+  truncated = false;
+  private events = new Map<string, DomainEvent>();
+  private directions = new Map<string, number>();
+  private queue: Array<{ event: DomainEvent; direction: number }> = [];
+  private streams = new Map<string, DomainEvent[]>();
+  private correlations = new Map<string, DomainEvent[]>();
+  private referencersLoaded = new Set<string>();
+
+  constructor(private pool: Pool, private maxEvents: number) {}
+
+  async seed(seed: TraceSeed): Promise<void> {
+    if ('correlationId' in seed) {
+      this.add(await this.correlation(seed.correlationId), UPSTREAM | DOWNSTREAM);
+    } else if ('eventId' in seed) {
+      const result = await this.pool.query(`SELECT ${EVENT_COLUMNS} FROM event_log WHERE event_id = $1`, [seed.eventId]);
+      this.add(result.rows.map(PostgresEventStore.rowToEvent), UPSTREAM | DOWNSTREAM);
+    } else {
+      this.add(await this.stream(seed), UPSTREAM | DOWNSTREAM);
+    }
+  }
+
+  async run(): Promise<void> {
+    while (this.queue.length > 0) {
+      const { event, direction } = this.queue.shift()!;
+      this.add(await this.correlation(event.correlationId), direction);
+      if (direction & UPSTREAM) await this.walkUpstream(event);
+      if (direction & DOWNSTREAM) await this.walkDownstream(event);
+    }
+  }
+
+  collected(): DomainEvent[] {
+    return [...this.events.values()].sort(compareWatermark);
+  }
+
+  private async walkUpstream(event: DomainEvent): Promise<void> {
+    if (event.causationId) {
+      const result = await this.pool.query(`SELECT ${EVENT_COLUMNS} FROM event_log WHERE event_id = $1`, [event.causationId]);
+      this.add(result.rows.map(PostgresEventStore.rowToEvent), UPSTREAM);
+    }
+    for (const ref of referencedAggregates(event)) {
+      this.add((await this.stream(ref)).filter((candidate) => compareWatermark(candidate, event) <= 0), UPSTREAM);
+    }
+    if (!SHARED_AGGREGATE_TYPES.has(event.aggregateType)) {
+      this.add((await this.stream(event)).filter((candidate) => compareWatermark(candidate, event) < 0), UPSTREAM);
+    }
+  }
+
+  private async walkDownstream(event: DomainEvent): Promise<void> {
+    const children = await this.pool.query(`
+      SELECT ${EVENT_COLUMNS}
+      FROM event_log
+      WHERE causation_id = $1
+      ORDER BY ingested_at ASC, event_id ASC
+    `, [event.eventId]);
+    this.add(children.rows.map(PostgresEventStore.rowToEvent), DOWNSTREAM);
+
+    if (!SHARED_AGGREGATE_TYPES.has(event.aggregateType)) {
+      this.add((await this.stream(event)).filter((candidate) => compareWatermark(candidate, event) > 0), DOWNSTREAM);
+      this.add(await this.referencers(event), DOWNSTREAM);
+    }
+  }
+
+  private add(events: DomainEvent[], direction: number): void {
+    for (const event of events) {
+      const seen = this.directions.get(event.eventId) ?? 0;
+      const added = direction & ~seen;
+      if (added === 0) continue;
+      if (!this.events.has(event.eventId)) {
+        if (this.events.size >= this.maxEvents) {
+          this.truncated = true;
+          continue;
+        }
+        this.events.set(event.eventId, event);
+      }
+      this.directions.set(event.eventId, seen | added);
+      this.queue.push({ event: this.events.get(event.eventId)!, direction: added });
+    }
+  }
+
+  private async correlation(correlationId: string): Promise<DomainEvent[]> {
+    let events = this.correlations.get(correlationId);
+    if (!events) {
+      const result = await this.pool.query(`
+        SELECT ${EVENT_COLUMNS}
+        FROM event_log
+        WHERE correlation_id = $1
+        ORDER BY ingested_at ASC, event_id ASC
+      `, [correlationId]);
+      events = result.rows.map(PostgresEventStore.rowToEvent);
+      this.correlations.set(correlationId, events);
+    }
+    return events;
+  }
+
+  private async stream(ref: AggregateRef): Promise<DomainEvent[]> {
+    const key = `${ref.aggregateType}:${ref.aggregateId}`;
+    let events = this.streams.get(key);
+    if (!events) {
+      const result = await this.pool.query(`
+        SELECT ${EVENT_COLUMNS}
+        FROM event_log
+        WHERE aggregate_type = $1 AND aggregate_id = $2
+        ORDER BY ingested_at ASC, event_id ASC
+      `, [ref.aggregateType, ref.aggregateId]);
+      events = result.rows.map(PostgresEventStore.rowToEvent);
+      this.streams.set(key, events);
+    }
+    return events;
+  }
+
+  // Events elsewhere whose event_data names this aggregate (GIN jsonb_path_ops containment)
+  private async referencers(ref: AggregateRef): Promise<DomainEvent[]> {
+    const key = `${ref.aggregateType}:${ref.aggregateId}`;
+    if (this.referencersLoaded.has(key)) return [];
+    this.referencersLoaded.add(key);
+
+    const patterns = [
+      ...Object.entries(REFERENCE_KEYS)
+        .filter(([, type]) => type === ref.aggregateType)
+        .map(([field]) => JSON.stringify({ [field]: ref.aggregateId })),
+      ...Object.entries(REFERENCE_LIST_KEYS)
+        .filter(([, type]) => type === ref.aggregateType)
+        .map(([field]) => JSON.stringify({ [field]: [ref.aggregateId] })),
+    ];
+    if (patterns.length === 0) return [];
+
+    const result = await this.pool.query(`
+      SELECT ${EVENT_COLUMNS}
+      FROM event_log
+      WHERE event_data @> ANY($1::jsonb[])
+      ORDER BY ingested_at ASC, event_id ASC
+    `, [patterns]);
+    return result.rows.map(PostgresEventStore.rowToEvent);
+  }
+}
+
+function referencedAggregates(event: DomainEvent): AggregateRef[] {
+  const refs: AggregateRef[] = [];
+  const push = (aggregateType: string, value: unknown) => {
+    if (typeof value === 'string' && UUID_PATTERN.test(value) && value !== event.aggregateId) {
+      refs.push({ aggregateType, aggregateId: value });
+    }
+  };
+  for (const [field, aggregateType] of Object.entries(REFERENCE_KEYS)) {
+    push(aggregateType, event.eventData[field]);
+  }
+  for (const [field, aggregateType] of Object.entries(REFERENCE_LIST_KEYS)) {
+    const values = event.eventData[field];
+    if (Array.isArray(values)) values.forEach((value) => push(aggregateType, value));
+  }
+  return refs;
+}
+
+function compareWatermark(a: DomainEvent, b: DomainEvent): number {
+  const byTime = a.ingestedAt.getTime() - b.ingestedAt.getTime();
+  if (byTime !== 0) return byTime;
+  return a.eventId < b.eventId ? -1 : a.eventId > b.eventId ? 1 : 0;
+}
+
+/**
+ * Hangs every event off the strongest earlier link in the set, so the result is always a
+ * forest in watermark order.
+ */
+function buildTree(events: DomainEvent[], truncated: boolean): TraceReport {
+  const nodes = new Map<string, TraceNode>();
+  const position = new Map<TraceNode, number>();
+  const latestByAggregate = new Map<string, TraceNode>();
+  const firstByCorrelation = new Map<string, TraceNode>();
+  const roots: TraceNode[] = [];
+
+  for (const event of events) {
+    const node = toNode(event);
+    const referenced = referencedAggregates(event)
+      .map((ref) => latestByAggregate.get(ref.aggregateId))
+      .filter((candidate): candidate is TraceNode => !!candidate)
+      .sort((a, b) => position.get(b)! - position.get(a)!)[0];
+
+    const parent: [TraceNode | undefined, TraceLink][] = [
+      [event.causationId ? nodes.get(event.causationId) : undefined, 'CAUSATION'],
+      [referenced, 'REFERENCE'],
+      [firstByCorrelation.get(event.correlationId), 'CORRELATION'],
+      [latestByAggregate.get(event.aggregateId), 'STREAM'],
+    ];
+    const [parentNode, link] = parent.find(([candidate]) => !!candidate) ?? [undefined, null];
+    if (parentNode) {
+      node.link = link;
+      parentNode.children.push(node);
+    } else {
+      roots.push(node);
+    }
+
+    nodes.set(event.eventId, node);
+    position.set(node, position.size);
+    latestByAggregate.set(event.aggregateId, node);
+    if (!firstByCorrelation.has(event.correlationId)) firstByCorrelation.set(event.correlationId, node);
+  }
+
+  return { eventCount: events.length, truncated, roots };
+}
+
+function toNode(event: DomainEvent): TraceNode {
+  return {
+    eventId: event.eventId,
+    eventType: event.eventType,
+    aggregateType: event.aggregateType,
+    aggregateId: event.aggregateId,
+    grantCycleId: event.grantCycleId,
+    occurredAt: event.occurredAt.toISOString(),
+    ingestedAt: event.ingestedAt.toISOString(),
+    correlationId: event.correlationId,
+    causationId: event.causationId,
+    actorId: event.actorId,
+    actorType: event.actorType,
+    eventData: event.eventData,
+    link: null,
+    children: [],
+  };
+}
@@ -0,0 +1,160 @@
+import { Pool } from 'pg';
+import { EventStore } from '../event-store';
+import { AggregateLoader } from './aggregate-loader';
+import { GrantCycle, GrantId, Money } from '../domain-types';
+import { GrantBucketType, GrantState } from '../domain/grant/grant-logic';
+import { GrantCycleState, deadlineBoundary } from '../domain/grant-cycle/calendar-logic';
+import {
+  BudgetMovement,
+  BudgetMovementKind,
+  ExpiringEncumbrance,
+  FORECAST_WINDOW_WEEKS,
+  WEEK_MS,
+  expiringVoucherEncumbrances,
+  forecastBucket,
+  forecastWindowStart,
+} from '../domain/grant/forecast-logic';
+
+const MOVEMENT_KINDS: Record<string, BudgetMovementKind> = {
+  GRANT_FUNDS_ENCUMBERED: 'ENCUMBERED',
+  GRANT_FUNDS_RELEASED: 'RELEASED',
+  GRANT_FUNDS_LIQUIDATED: 'LIQUIDATED',
+};
+
+export interface GrantBudgetBucketView {
+  bucketType: GrantBucketType;
+  awardedCents: string;
+  availableCents: string;
+  encumberedCents: string;
+  liquidatedCents: string;
+  releasedCents: string;
+  forecast: {
+    encumbranceCentsPerWeek: string;
+    releaseCentsPerWeek: string;
+    liquidationCentsPerWeek: string;
+    expiringBeforePeriodEndCents: string;
+    projectedExhaustionAt: string | null;
+    atRiskOfLapsing: boolean;
+  };
+}
+
+export interface GrantBudgetView {
+  grantId: GrantId;
+  grantCycleId: string;
+  asOf: string;
+  velocityWindowWeeks: number;
+  periodEndsAt: string | null;
+  buckets: GrantBudgetBucketView[];
+  expiringEncumbrances: Array<{ weekStarting: string; voucherCount: number; amountCents: string }>;
+  atRiskOfLapsing: boolean;
+}
+
+export class GrantBudgetService {
+  private readonly loader: AggregateLoader;
+
+  constructor(private pool: Pool, store: EventStore) {
+    this.loader = new AggregateLoader(store);
+  }
+
+  /**
+   * Bucket balances from grant_balances_projection plus a forecast from the trailing velocity.
+   * Pass granteeId to scope the read to that grantee.
+   */
+  async getGrantBudget(grantId: GrantId, now: Date = new Date(), granteeId?: string): Promise<GrantBudgetView | null> {
+    const grant = await this.loader.load<GrantState>('GRANT', grantId);
+    if (!grant?.state.metadata || (granteeId !== undefined && grant.state.metadata.granteeId !== granteeId)) {
+      return null;
+    }
+    const grantCycleId = grant.state.metadata.grantCycleId;
+
+    const cycle = await this.loader.load<GrantCycleState>('GRANT_CYCLE', GrantCycle.createAggregateId(grantCycleId));
+    const periodEndsAt = cycle?.state.calendar
+      ? deadlineBoundary(cycle.state.calendar, 'GRANT_PERIOD_ENDED').boundaryAt
+      : null;
+
+    const balances = await this.pool.query(`
+      SELECT bucket_type, awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents
+      FROM grant_balances_projection
+      WHERE grant_id = $1
+      ORDER BY bucket_type
+    `, [grantId]);
+
+    const movementRows = await this.pool.query(`
+      SELECT event_type, event_data, occurred_at
+      FROM event_log
+      WHERE aggregate_type = 'GRANT'
+        AND aggregate_id = $1
+        AND event_type IN ('GRANT_FUNDS_ENCUMBERED', 'GRANT_FUNDS_RELEASED', 'GRANT_FUNDS_LIQUIDATED')
+        AND occurred_at >= $2
+        AND occurred_at < $3
+    `, [grantId, forecastWindowStart(now), now]);
+    const movements: BudgetMovement[] = movementRows.rows.map((row) => ({
+      bucketType: row.event_data.isLIRP ? 'LIRP' : 'GENERAL',
+      kind: MOVEMENT_KINDS[row.event_type],
+      amountCents: Money.fromJSON(row.event_data.amountCents),
+      occurredAt: row.occurred_at,
+    }));
+
+    // Issued vouchers hold encumbrances; the ones that expire unredeemed release them
+    const voucherRows = await this.pool.query(`
+      SELECT is_lirp, max_reimbursement_cents, lirp_fallback_cents, expires_at
+      FROM vouchers_projection
+      WHERE grant_id = $1 AND status = 'ISSUED' AND expires_at >= $2
+      ORDER BY expires_at
+    `, [grantId, now]);
+    const expiring: ExpiringEncumbrance[] = voucherRows.rows.flatMap((row) => expiringVoucherEncumbrances(
+      row.is_lirp,
+      Money.fromBigInt(BigInt(row.max_reimbursement_cents)),
+      Money.fromBigInt(BigInt(row.lirp_fallback_cents)),
+      row.expires_at
+    ));
+
+    const buckets: GrantBudgetBucketView[] = balances.rows.map((row) => {
+      const bucketType = row.bucket_type as GrantBucketType;
+      const forecast = forecastBucket(bucketType, Money.fromBigInt(BigInt(row.available_cents)), movements, expiring, now, periodEndsAt);
+      return {
+        bucketType,
+        awardedCents: row.awarded_cents,
+        availableCents: row.available_cents,
+        encumberedCents: row.encumbered_cents,
+        liquidatedCents: row.liquidated_cents,
+        releasedCents: row.released_cents,
+        forecast: {
+          encumbranceCentsPerWeek: Money.toJSON(forecast.encumbranceCentsPerWeek),
+          releaseCentsPerWeek: Money.toJSON(forecast.releaseCentsPerWeek),
+          liquidationCentsPerWeek: Money.toJSON(forecast.liquidationCentsPerWeek),
+          expiringBeforePeriodEndCents: Money.toJSON(forecast.expiringBeforePeriodEndCents),
+          projectedExhaustionAt: forecast.projectedExhaustionAt?.toISOString() ?? null,
+          atRiskOfLapsing: forecast.atRiskOfLapsing,
+        },
+      };
+    });
+
+    // Weeks counted from asOf, so the first bucket is the next seven days
+    const weeks = new Map<number, { voucherCount: number; amountCents: bigint }>();
+    for (const row of voucherRows.rows) {
+      const expiresAt: Date = row.expires_at;
+      if (periodEndsAt && expiresAt >= periodEndsAt) continue;
+      const week = Math.floor((expiresAt.getTime() - now.getTime()) / WEEK_MS);
+      const totals = weeks.get(week) ?? { voucherCount: 0, amountCents: 0n };
+      totals.voucherCount += 1;
+      totals.amountCents += BigInt(row.max_reimbursement_cents);
+      weeks.set(week, totals);
+    }
+
+    return {
+      grantId,
+      grantCycleId,
+      asOf: now.toISOString(),
+      velocityWindowWeeks: FORECAST_WINDOW_WEEKS,
+      periodEndsAt: periodEndsAt?.toISOString() ?? null,
+      buckets,
+      expiringEncumbrances: [...weeks.entries()].map(([week, totals]) => ({
+        weekStarting: new Date(now.getTime() + week * WEEK_MS).toISOString(),
+        voucherCount: totals.voucherCount,
+        amountCents: totals.amountCents.toString(),
+      })),
+      atRiskOfLapsing: buckets.some((bucket) => bucket.forecast.atRiskOfLapsing),
+    };
+  }
+}
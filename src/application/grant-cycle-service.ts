@@ -0,0 +1,125 @@
+import { Pool, PoolClient } from 'pg';
+import { EventStore, ConcurrencyConflictError } from '../event-store';
+import { IdempotencyService } from './idempotency-service';
+import { AggregateLoader } from './aggregate-loader';
+import { ActorId, GrantCycle } from '../domain-types';
+import {
+  GRANT_CYCLE_TIME_ZONE,
+  GrantCycleCalendar,
+  GrantCycleState,
+  InvoiceSchedule,
+  assertGrantCycleCalendarValid,
+  deadlineBoundary,
+} from '../domain/grant-cycle/calendar-logic';
+
+// event_log.grant_cycle_id is VARCHAR(20)
+const MAX_GRANT_CYCLE_ID_LENGTH = 20;
+
+export interface GrantCycleView {
+  grantCycleId: string;
+  calendar: GrantCycleCalendar;
+  periodEndsAt: string;
+  claimsDeadlinePassesAt: string;
+  periodEndedAt: string | null;
+  claimsDeadlinePassedAt: string | null;
+}
+
+export class GrantCycleService {
+  private readonly loader: AggregateLoader;
+
+  constructor(private pool: Pool, private store: EventStore, private idempotency: IdempotencyService) {
+    this.loader = new AggregateLoader(store);
+  }
+
+  async createGrantCycle(request: {
+    idempotencyKey: string;
+    grantCycleId: string;
+    periodStart: string;
+    periodEnd: string;
+    claimsDeadline: string;
+    invoiceSchedule: InvoiceSchedule;
+    fundCodes: string[];
+    timeZone?: string;
+    actorId: string;
+    actorType: 'ADMIN' | 'SYSTEM';
+    correlationId: string;
+  }): Promise<GrantCycleView> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const status = await this.idempotency.checkAndReserve(client, request.idempotencyKey, 'CREATE_GRANT_CYCLE', 'hash', 86400);
+      if (status === 'COMPLETED') {
+        const result = await client.query('SELECT response_json FROM idempotency_cache WHERE idempotency_key = $1', [request.idempotencyKey]);
+        await client.query('COMMIT');
+        return result.rows[0].response_json;
+      }
+      if (status === 'PROCESSING') {
+        throw new Error('OPERATION_IN_PROGRESS');
+      }
+
+      if (!request.grantCycleId || request.grantCycleId.length > MAX_GRANT_CYCLE_ID_LENGTH) {
+        throw new Error('GRANT_CYCLE_ID_INVALID');
+      }
+      const calendar: GrantCycleCalendar = {
+        periodStart: request.periodStart,
+        periodEnd: request.periodEnd,
+        claimsDeadline: request.claimsDeadline,
+        invoiceSchedule: request.invoiceSchedule,
+        fundCodes: request.fundCodes,
+        timeZone: request.timeZone ?? GRANT_CYCLE_TIME_ZONE,
+      };
+      assertGrantCycleCalendarValid(calendar);
+
+      try {
+        await this.store.appendWithClient(client, {
+          eventId: EventStore.newEventId(),
+          aggregateType: 'GRANT_CYCLE',
+          aggregateId: GrantCycle.createAggregateId(request.grantCycleId),
+          eventType: 'GRANT_CYCLE_CREATED',
+          eventData: { grantCycleId: request.grantCycleId, ...calendar },
+          occurredAt: new Date(),
+          grantCycleId: request.grantCycleId,
+          correlationId: request.correlationId,
+          causationId: null,
+          actorId: request.actorId as ActorId,
+          actorType: request.actorType,
+        }, { expectedVersion: 0 });
+      } catch (error) {
+        if (error instanceof ConcurrencyConflictError) {
+          throw new Error('GRANT_CYCLE_ALREADY_EXISTS');
+        }
+        throw error;
+      }
+
+      const response = (await this.getGrantCycle(request.grantCycleId, client))!;
+      await this.idempotency.recordResult(client, request.idempotencyKey, response);
+
+      await client.query('COMMIT');
+      return response;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      try { await this.idempotency.recordFailure(client, request.idempotencyKey); } catch { /* swallow */ }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getGrantCycle(grantCycleId: string, client?: PoolClient): Promise<GrantCycleView | null> {
+    const loaded = await this.loader.load<GrantCycleState>('GRANT_CYCLE', GrantCycle.createAggregateId(grantCycleId), client);
+    if (!loaded?.state.calendar) {
+      return null;
+    }
+    const { state } = loaded;
+    const calendar = state.calendar!;
+    return {
+      grantCycleId,
+      calendar,
+      periodEndsAt: deadlineBoundary(calendar, 'GRANT_PERIOD_ENDED').boundaryAt.toISOString(),
+      claimsDeadlinePassesAt: deadlineBoundary(calendar, 'GRANT_CLAIMS_DEADLINE_PASSED').boundaryAt.toISOString(),
+      periodEndedAt: state.periodEndedAt?.toISOString() ?? null,
+      claimsDeadlinePassedAt: state.claimsDeadlinePassedAt?.toISOString() ?? null,
+    };
+  }
+}
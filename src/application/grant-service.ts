@@ -1,13 +1,61 @@
 import { Pool, PoolClient } from 'pg';
-import { EventStore, DomainEvent } from '../event-store';
+import { EventStore, DomainEvent, ConcurrencyConflictError } from '../event-store';
 import { IdempotencyService } from './idempotency-service';
-import { GrantId, VoucherId, MoneyCents, Allocator, ActorId } from '../domain-types';
-import { applyGrantEvent, GrantState, checkGrantInvariant, createInitialGrantState } from '../domain/grant/grant-logic';
-import { applyVoucherEvent, VoucherState, checkVoucherInvariant, createInitialVoucherState } from '../domain/voucher/voucher-logic';
-import { applyAllocatorEvent, AllocatorState, checkAllocatorInvariant, generateVoucherCode, createInitialAllocatorState } from '../domain/voucher/voucher-code-allocator';
+import { AggregateProjector } from '../projections/aggregate-projector';
+import { AggregateLoader } from './aggregate-loader';
+import { GrantId, VoucherId, MoneyCents, Money, Allocator, AllocatorId, ActorId, RateEngine, GrantCycle } from '../domain-types';
+import {
+  GrantState,
+  GrantStatus,
+  GrantBucketType,
+  GrantTransitionEvent,
+  assertGrantTransition,
+  assertGrantIssuing,
+  assertAwardAmendment,
+  assertBucketReallocation,
+  assertLirpMustHonorEnforceable,
+  planLirpEncumbrance,
+  rateForClaimSubmittedAt,
+} from '../domain/grant/grant-logic';
+import { VoucherState, VoucherVoidReasonCode, assertVoucherVoidable, planVoucherRelease } from '../domain/voucher/voucher-logic';
+import { AllocatorState, generateVoucherCode, LEGACY_ALLOCATOR_COUNTY } from '../domain/voucher/voucher-code-allocator';
+import { WvCountyCode, toWvCountyCode } from '../domain/county/county-registry';
+import { GrantCycleState, fiscalYearCalendar } from '../domain/grant-cycle/calendar-logic';
+
+export interface GrantBudgetResult {
+  grantId: GrantId;
+  eventId: string;
+  buckets: Array<{ bucketType: GrantBucketType; awardedCents: string; availableCents: string }>;
+  rate: { numerator: string; denominator: string };
+}
+
+export interface LirpMustHonorReport {
+  grantId: GrantId;
+  lirpEnabled: boolean;
+  mustHonor: boolean;
+  enforcedAt: string | null;
+  fallbackVoucherCount: number;
+  fallbackEncumberedCents: string;
+  fallbackClaimCount: number;
+  fallbackLiquidatedCents: string;
+  fallbackReleasedCents: string;
+}
+
+export interface VoidVoucherResult {
+  voucherId: VoucherId;
+  status: 'VOIDED';
+  reasonCode: VoucherVoidReasonCode;
+  releasedCents: string;
+}
 
 export class GrantService {
-  constructor(private pool: Pool, private store: EventStore, private idempotency: IdempotencyService) {}
+  private readonly projector: AggregateProjector;
+  private readonly loader: AggregateLoader;
+
+  constructor(private pool: Pool, private store: EventStore, private idempotency: IdempotencyService) {
+    this.projector = new AggregateProjector(pool, store);
+    this.loader = new AggregateLoader(store);
+  }
 
   async issueVoucherOnline(request: {
     idempotencyKey: string;
@@ -15,6 +63,7 @@ export class GrantService {
     voucherId: VoucherId;
     maxReimbursementCents: MoneyCents;
     isLIRP: boolean;
+    countyCode: string;
     recipientType: string;
     recipientName: string;
     animalType: string;
@@ -66,28 +115,19 @@ export class GrantService {
       if (request.isLIRP && (request.coPayRequired || (request.coPayAmountCents && request.coPayAmountCents > 0n))) {
         throw new Error('LIRP_COPAY_FORBIDDEN');
       }
+      const countyCode = toWvCountyCode(request.countyCode);
+      const fiscalYear = await this.voucherCodeYear(client, grantCycleId);
 
       // Lock order: Voucher (new), Grant Bucket, Allocator
       // Since voucher is new, lock grant first
-      const bucket = request.isLIRP ? 'LIRP' : 'GENERAL';
-      await client.query('SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = $2 FOR UPDATE', [request.grantId, bucket]);
-
-      // Check funds
-      const grantRow = await client.query('SELECT available_cents FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = $2', [request.grantId, bucket]);
-      const availableCents = BigInt(grantRow.rows[0].available_cents);
-      if (availableCents < request.maxReimbursementCents) {
-        throw new Error('INSUFFICIENT_FUNDS');
-      }
+      const encumbrances = await this.planEncumbrances(client, request.grantId, request.isLIRP, request.maxReimbursementCents);
+      const lirpFallbackCents = encumbrances.find((part) => part.lirpFallback)?.amountCents;
 
       // Get allocator
-      const allocatorId = Allocator.createId(grantCycleId, 'COUNTY'); // Assume county from somewhere
-      await client.query('SELECT 1 FROM allocators_projection WHERE allocator_id = $1 FOR UPDATE', [allocatorId]);
+      const { allocatorId, sequence } = await this.lockAllocator(client, grantCycleId, countyCode, request);
 
       // Allocate code
-      const allocatorRow = await client.query('SELECT next_sequence FROM allocators_projection WHERE allocator_id = $1', [allocatorId]);
-      const sequence = allocatorRow.rows[0].next_sequence;
-      const fiscalYear = grantCycleId.replace('FY', '');
-      const voucherCode = generateVoucherCode(grantCycleId, 'COUNTY', sequence, fiscalYear);
+      const voucherCode = generateVoucherCode(grantCycleId, countyCode, sequence, fiscalYear);
 
       // Emit events
       const events: Omit<DomainEvent, 'ingestedAt'>[] = [
@@ -98,6 +138,7 @@ export class GrantService {
           eventType: 'VOUCHER_ISSUED',
           eventData: {
             voucherCode,
+            countyCode,
             recipientType: request.recipientType,
             recipientName: request.recipientName,
             animalType: request.animalType,
@@ -107,6 +148,7 @@ export class GrantService {
             isLIRP: request.isLIRP,
             coPayRequired: request.coPayRequired,
             coPayAmountCents: request.coPayAmountCents?.toString(),
+            ...(lirpFallbackCents ? { lirpFallbackCents: lirpFallbackCents.toString() } : {}),
           },
           occurredAt: new Date(),
           grantCycleId,
@@ -115,15 +157,16 @@ export class GrantService {
           actorId: request.actorId as ActorId,
           actorType: request.actorType,
         },
-        {
+        ...encumbrances.map((part): Omit<DomainEvent, 'ingestedAt'> => ({
           eventId: EventStore.newEventId(),
           aggregateType: 'GRANT',
           aggregateId: request.grantId,
           eventType: 'GRANT_FUNDS_ENCUMBERED',
           eventData: {
             voucherId: request.voucherId,
-            amountCents: request.maxReimbursementCents.toString(),
-            isLIRP: request.isLIRP,
+            amountCents: part.amountCents.toString(),
+            isLIRP: part.bucket === 'LIRP',
+            ...(part.lirpFallback ? { lirpFallback: true } : {}),
           },
           occurredAt: new Date(),
           grantCycleId,
@@ -131,7 +174,7 @@ export class GrantService {
           causationId: request.causationId ?? null,
           actorId: request.actorId as ActorId,
           actorType: request.actorType,
-        },
+        })),
         {
           eventId: EventStore.newEventId(),
           aggregateType: 'ALLOCATOR',
@@ -154,9 +197,11 @@ export class GrantService {
       }
 
       // Update projections
-      await this.updateGrantProjection(client, request.grantId, bucket);
-      await this.updateVoucherProjection(client, request.voucherId, request.grantId);
-      await this.updateAllocatorProjection(client, allocatorId);
+      for (const part of encumbrances) {
+        await this.projector.projectGrantBalances(client, request.grantId, part.bucket);
+      }
+      await this.projector.projectVoucher(client, request.voucherId, request.grantId);
+      await this.projector.projectAllocator(client, allocatorId);
 
       const response = { voucherCode };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -199,7 +244,7 @@ export class GrantService {
 
       // Lock order: Voucher, Grant Bucket, Allocator
       await client.query('SELECT 1 FROM vouchers_projection WHERE voucher_id = $1 FOR UPDATE', [request.voucherId]);
-      const voucherRow = await client.query('SELECT status, max_reimbursement_cents, tentative_expires_at, expires_at, is_lirp FROM vouchers_projection WHERE voucher_id = $1', [request.voucherId]);
+      const voucherRow = await client.query('SELECT status, max_reimbursement_cents, tentative_expires_at, expires_at, is_lirp, county_code FROM vouchers_projection WHERE voucher_id = $1', [request.voucherId]);
       if (voucherRow.rows[0].status !== 'TENTATIVE') {
         throw new Error('VOUCHER_NOT_TENTATIVE');
       }
@@ -207,27 +252,19 @@ export class GrantService {
         throw new Error('TENTATIVE_EXPIRED');
       }
       const maxReimbursementCents = BigInt(voucherRow.rows[0].max_reimbursement_cents);
+      // Tentative vouchers issued before per-county allocation have no county and keep the legacy allocator
+      const countyCode = voucherRow.rows[0].county_code ? toWvCountyCode(voucherRow.rows[0].county_code) : LEGACY_ALLOCATOR_COUNTY;
       const expiresAt = voucherRow.rows[0].expires_at ?? voucherRow.rows[0].tentative_expires_at;
+      const fiscalYear = await this.voucherCodeYear(client, grantCycleId);
 
       // Determine bucket from voucher
-      const bucket = voucherRow.rows[0].is_lirp ? 'LIRP' : 'GENERAL';
-      await client.query('SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = $2 FOR UPDATE', [request.grantId, bucket]);
-
-      // Check funds
-      const grantRow = await client.query('SELECT available_cents FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = $2', [request.grantId, bucket]);
-      const availableCents = BigInt(grantRow.rows[0].available_cents);
-      if (availableCents < maxReimbursementCents) {
-        throw new Error('INSUFFICIENT_FUNDS');
-      }
+      const encumbrances = await this.planEncumbrances(client, request.grantId, voucherRow.rows[0].is_lirp, Money.fromBigInt(maxReimbursementCents));
+      const lirpFallbackCents = encumbrances.find((part) => part.lirpFallback)?.amountCents;
 
       // Get allocator
-      const allocatorId = Allocator.createId(grantCycleId, 'COUNTY');
-      await client.query('SELECT 1 FROM allocators_projection WHERE allocator_id = $1 FOR UPDATE', [allocatorId]);
+      const { allocatorId, sequence } = await this.lockAllocator(client, grantCycleId, countyCode, request);
 
-      const allocatorRow = await client.query('SELECT next_sequence FROM allocators_projection WHERE allocator_id = $1', [allocatorId]);
-      const sequence = allocatorRow.rows[0].next_sequence;
-      const fiscalYear = grantCycleId.replace('FY', '');
-      const voucherCode = generateVoucherCode(grantCycleId, 'COUNTY', sequence, fiscalYear);
+      const voucherCode = generateVoucherCode(grantCycleId, countyCode, sequence, fiscalYear);
 
       // Emit events
       const events: Omit<DomainEvent, 'ingestedAt'>[] = [
@@ -240,6 +277,7 @@ export class GrantService {
             voucherCode,
             confirmedAt: request.confirmedAt.toISOString(),
             expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+            ...(lirpFallbackCents ? { lirpFallbackCents: lirpFallbackCents.toString() } : {}),
           },
           occurredAt: new Date(),
           grantCycleId,
@@ -248,15 +286,16 @@ export class GrantService {
           actorId: request.actorId as ActorId,
           actorType: request.actorType,
         },
-        {
+        ...encumbrances.map((part): Omit<DomainEvent, 'ingestedAt'> => ({
           eventId: EventStore.newEventId(),
           aggregateType: 'GRANT',
           aggregateId: request.grantId,
           eventType: 'GRANT_FUNDS_ENCUMBERED',
           eventData: {
             voucherId: request.voucherId,
-            amountCents: maxReimbursementCents.toString(),
-            isLIRP: voucherRow.rows[0].is_lirp,
+            amountCents: part.amountCents.toString(),
+            isLIRP: part.bucket === 'LIRP',
+            ...(part.lirpFallback ? { lirpFallback: true } : {}),
           },
           occurredAt: new Date(),
           grantCycleId,
@@ -264,7 +303,7 @@ export class GrantService {
           causationId: request.causationId ?? null,
           actorId: request.actorId as ActorId,
           actorType: request.actorType,
-        },
+        })),
         {
           eventId: EventStore.newEventId(),
           aggregateType: 'ALLOCATOR',
@@ -287,9 +326,11 @@ export class GrantService {
       }
 
       // Update projections
-      await this.updateGrantProjection(client, request.grantId, bucket);
-      await this.updateVoucherProjection(client, request.voucherId, request.grantId);
-      await this.updateAllocatorProjection(client, allocatorId);
+      for (const part of encumbrances) {
+        await this.projector.projectGrantBalances(client, request.grantId, part.bucket);
+      }
+      await this.projector.projectVoucher(client, request.voucherId, request.grantId);
+      await this.projector.projectAllocator(client, allocatorId);
 
       const response = { voucherCode };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -305,145 +346,532 @@ export class GrantService {
     }
   }
 
-  private async updateGrantProjection(client: PoolClient, grantId: GrantId, bucket: string): Promise<void> {
-    const eventRows = await client.query(`
-      SELECT event_type, event_data, ingested_at, grant_cycle_id
-      FROM event_log
-      WHERE aggregate_id = $1
-      ORDER BY ingested_at ASC, event_id ASC
-    `, [grantId]);
-
-    const grantCycleId = eventRows.rows[0]?.grant_cycle_id;
-    const state = createInitialGrantState();
-    for (const row of eventRows.rows) {
-      const event = {
-        eventType: row.event_type,
-        eventData: row.event_data,
-        ingestedAt: row.ingested_at,
+  /**
+   * Cancels a voucher issued in error and returns its encumbrance to the grant in the same
+   * transaction. granteeId scopes the voucher: one on another grantee's grant is not found.
+   */
+  async voidVoucher(request: {
+    idempotencyKey: string;
+    voucherId: VoucherId;
+    granteeId?: string;
+    reasonCode: VoucherVoidReasonCode;
+    reason?: string;
+    actorId: string;
+    actorType: 'APPLICANT' | 'ADMIN';
+    correlationId: string;
+  }): Promise<VoidVoucherResult> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const status = await this.idempotency.checkAndReserve(client, request.idempotencyKey, 'VOID_VOUCHER', 'hash', 86400);
+      if (status === 'COMPLETED') {
+        const result = await client.query('SELECT response_json FROM idempotency_cache WHERE idempotency_key = $1', [request.idempotencyKey]);
+        await client.query('COMMIT');
+        return result.rows[0].response_json;
+      }
+      if (status === 'PROCESSING') {
+        throw new Error('OPERATION_IN_PROGRESS');
+      }
+
+      // Lock order: Voucher, Grant Bucket. Claim submission locks the same voucher row.
+      const voucherRow = await client.query('SELECT grant_id FROM vouchers_projection WHERE voucher_id = $1 FOR UPDATE', [request.voucherId]);
+      if (voucherRow.rows.length === 0) {
+        throw new Error('VOUCHER_NOT_FOUND');
+      }
+      const grantId = voucherRow.rows[0].grant_id as GrantId;
+      if (request.granteeId !== undefined) {
+        const grant = await this.loader.load<GrantState>('GRANT', grantId, client);
+        if (grant?.state.metadata?.granteeId !== request.granteeId) {
+          throw new Error('VOUCHER_NOT_FOUND');
+        }
+      }
+
+      const voucher = await this.loader.load<VoucherState>('VOUCHER', request.voucherId, client);
+      if (!voucher) {
+        throw new Error('VOUCHER_NOT_FOUND');
+      }
+      assertVoucherVoidable(voucher.state, request.reasonCode);
+
+      // Claims do not move the voucher to REDEEMED; any claim still in play keeps the voucher
+      const openClaims = await client.query(
+        "SELECT 1 FROM claims_projection WHERE voucher_id = $1 AND status <> 'DENIED' LIMIT 1",
+        [request.voucherId]
+      );
+      if (openClaims.rows.length > 0) {
+        throw new Error('VOUCHER_HAS_CLAIMS');
+      }
+
+      const releases = planVoucherRelease(voucher.state);
+      if (releases.length > 0) {
+        await client.query('SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type FOR UPDATE', [grantId]);
+      }
+      const releasedCents = Money.fromBigInt(releases.reduce((sum, part) => sum + part.amountCents, 0n));
+      const grantCycleId = await this.getGrantCycleId(client, grantId);
+
+      await this.store.appendWithClient(client, {
+        eventId: EventStore.newEventId(),
+        aggregateType: 'VOUCHER',
+        aggregateId: request.voucherId,
+        eventType: 'VOUCHER_VOIDED',
+        eventData: {
+          reasonCode: request.reasonCode,
+          ...(request.reason ? { reason: request.reason } : {}),
+          releasedCents: releasedCents.toString(),
+        },
+        occurredAt: new Date(),
+        grantCycleId,
+        correlationId: request.correlationId,
+        causationId: null,
+        actorId: request.actorId as ActorId,
+        actorType: request.actorType,
+      }, { expectedVersion: voucher.version });
+
+      for (const part of releases) {
+        await this.store.appendWithClient(client, {
+          eventId: EventStore.newEventId(),
+          aggregateType: 'GRANT',
+          aggregateId: grantId,
+          eventType: 'GRANT_FUNDS_RELEASED',
+          eventData: {
+            voucherId: request.voucherId,
+            amountCents: part.amountCents.toString(),
+            isLIRP: part.bucket === 'LIRP',
+            ...(part.lirpFallback ? { lirpFallback: true } : {}),
+          },
+          occurredAt: new Date(),
+          grantCycleId,
+          correlationId: request.correlationId,
+          causationId: null,
+          actorId: request.actorId as ActorId,
+          actorType: request.actorType,
+        });
+      }
+
+      for (const part of releases) {
+        await this.projector.projectGrantBalances(client, grantId, part.bucket);
+      }
+      await this.projector.projectVoucher(client, request.voucherId, grantId);
+
+      const response: VoidVoucherResult = {
+        voucherId: request.voucherId,
+        status: 'VOIDED',
+        reasonCode: request.reasonCode,
+        releasedCents: Money.toJSON(releasedCents),
       };
-      applyGrantEvent(state, event);
+      await this.idempotency.recordResult(client, request.idempotencyKey, response);
+
+      await client.query('COMMIT');
+      return response;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      try { await this.idempotency.recordFailure(client, request.idempotencyKey); } catch { /* swallow */ }
+      throw error;
+    } finally {
+      client.release();
     }
-    checkGrantInvariant(state);
-
-    const bucketState = state.get(bucket as 'GENERAL' | 'LIRP');
-    if (!bucketState) return;
-
-    await client.query(`
-      INSERT INTO grant_balances_projection (
-        grant_id, grant_cycle_id, bucket_type, awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents,
-        rate_numerator_cents, rate_denominator_cents, matching_committed_cents, matching_reported_cents,
-        rebuilt_at, watermark_ingested_at, watermark_event_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-      ON CONFLICT (grant_id, bucket_type) DO UPDATE SET
-        grant_cycle_id = EXCLUDED.grant_cycle_id,
-        awarded_cents = EXCLUDED.awarded_cents,
-        available_cents = EXCLUDED.available_cents,
-        encumbered_cents = EXCLUDED.encumbered_cents,
-        liquidated_cents = EXCLUDED.liquidated_cents,
-        released_cents = EXCLUDED.released_cents,
-        rate_numerator_cents = EXCLUDED.rate_numerator_cents,
-        rate_denominator_cents = EXCLUDED.rate_denominator_cents,
-        matching_committed_cents = EXCLUDED.matching_committed_cents,
-        matching_reported_cents = EXCLUDED.matching_reported_cents,
-        rebuilt_at = EXCLUDED.rebuilt_at,
-        watermark_ingested_at = EXCLUDED.watermark_ingested_at,
-        watermark_event_id = EXCLUDED.watermark_event_id
-    `, [
-      grantId, grantCycleId, bucket,
-      bucketState.awardedCents.toString(), bucketState.availableCents.toString(), bucketState.encumberedCents.toString(), bucketState.liquidatedCents.toString(), bucketState.releasedCents.toString(),
-      bucketState.rateNumeratorCents.toString(), bucketState.rateDenominatorCents.toString(),
-      bucketState.matchingCommittedCents.toString(), bucketState.matchingReportedCents.toString(),
-      new Date(), eventRows.rows[eventRows.rows.length - 1]?.ingested_at || new Date(), eventRows.rows[eventRows.rows.length - 1]?.event_id || crypto.randomUUID()
-    ]);
   }
 
-  private async updateVoucherProjection(client: PoolClient, voucherId: VoucherId, grantId: GrantId): Promise<void> {
-    const eventRows = await client.query(`
-      SELECT event_type, event_data, ingested_at
-      FROM event_log
-      WHERE aggregate_id = $1
-      ORDER BY ingested_at ASC, event_id ASC
-    `, [voucherId]);
-
-    const state = createInitialVoucherState(voucherId, grantId);
-    for (const row of eventRows.rows) {
-      const event = {
-        eventType: row.event_type,
-        eventData: row.event_data,
-        ingestedAt: row.ingested_at,
-      };
-      applyVoucherEvent(state, event);
+  /**
+   * Lifecycle command (agreement, activate, suspend, reinstate, close). Locks every bucket
+   * row of the grant first, so it serializes with voucher issuance, which locks one bucket
+   * and then checks status.
+   */
+  async transitionGrant(request: {
+    idempotencyKey: string;
+    grantId: GrantId;
+    eventType: GrantTransitionEvent;
+    reasonCode: string | null;
+    reason?: string;
+    actorId: string;
+    actorType: 'ADMIN' | 'SYSTEM';
+    correlationId: string;
+  }): Promise<{ grantId: GrantId; status: GrantStatus }> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const status = await this.idempotency.checkAndReserve(client, request.idempotencyKey, request.eventType, 'hash', 86400);
+      if (status === 'COMPLETED') {
+        const result = await client.query('SELECT response_json FROM idempotency_cache WHERE idempotency_key = $1', [request.idempotencyKey]);
+        await client.query('COMMIT');
+        return result.rows[0].response_json;
+      }
+      if (status === 'PROCESSING') {
+        throw new Error('OPERATION_IN_PROGRESS');
+      }
+
+      await client.query(
+        'SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type FOR UPDATE',
+        [request.grantId]
+      );
+      const grant = await this.loader.load<GrantState>('GRANT', request.grantId, client);
+      if (!grant) {
+        throw new Error('GRANT_NOT_FOUND');
+      }
+      assertGrantTransition(grant.state, request.eventType, request.reasonCode);
+
+      await this.store.appendWithClient(client, {
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: request.grantId,
+        eventType: request.eventType,
+        eventData: {
+          grantId: request.grantId,
+          ...(request.reasonCode ? { reasonCode: request.reasonCode } : {}),
+          ...(request.reason ? { reason: request.reason } : {}),
+        },
+        occurredAt: new Date(),
+        grantCycleId: await this.getGrantCycleId(client, request.grantId),
+        correlationId: request.correlationId,
+        causationId: null,
+        actorId: request.actorId as ActorId,
+        actorType: request.actorType,
+      }, { expectedVersion: grant.version });
+
+      const transitioned = await this.loader.load<GrantState>('GRANT', request.grantId, client);
+      const response = { grantId: request.grantId, status: transitioned!.state.metadata!.status };
+      await this.idempotency.recordResult(client, request.idempotencyKey, response);
+
+      await client.query('COMMIT');
+      return response;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      try { await this.idempotency.recordFailure(client, request.idempotencyKey); } catch { /* swallow */ }
+      throw error;
+    } finally {
+      client.release();
     }
-    checkVoucherInvariant(state);
-
-    await client.query(`
-      INSERT INTO vouchers_projection (
-        voucher_id, grant_id, voucher_code, county_code, status, max_reimbursement_cents, is_lirp,
-        tentative_expires_at, expires_at, issued_at, redeemed_at, expired_at, voided_at,
-        rebuilt_at, watermark_ingested_at, watermark_event_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
-      ON CONFLICT (voucher_id) DO UPDATE SET
-        grant_id = EXCLUDED.grant_id,
-        voucher_code = EXCLUDED.voucher_code,
-        county_code = EXCLUDED.county_code,
-        status = EXCLUDED.status,
-        max_reimbursement_cents = EXCLUDED.max_reimbursement_cents,
-        is_lirp = EXCLUDED.is_lirp,
-        tentative_expires_at = EXCLUDED.tentative_expires_at,
-        expires_at = EXCLUDED.expires_at,
-        issued_at = EXCLUDED.issued_at,
-        redeemed_at = EXCLUDED.redeemed_at,
-        expired_at = EXCLUDED.expired_at,
-        voided_at = EXCLUDED.voided_at,
-        rebuilt_at = EXCLUDED.rebuilt_at,
-        watermark_ingested_at = EXCLUDED.watermark_ingested_at,
-        watermark_event_id = EXCLUDED.watermark_event_id
-    `, [
-      state.voucherId, state.grantId, state.voucherCode, null, state.status, state.maxReimbursementCents.toString(), state.isLIRP,
-      state.tentativeExpiresAt, state.expiresAt, state.issuedAt, state.redeemedAt, state.expiredAt, state.voidedAt,
-      new Date(), eventRows.rows[eventRows.rows.length - 1]?.ingested_at || new Date(), eventRows.rows[eventRows.rows.length - 1]?.event_id || crypto.randomUUID()
-    ]);
   }
 
-  private async updateAllocatorProjection(client: PoolClient, allocatorId: string): Promise<void> {
-    const eventRows = await client.query(`
-      SELECT event_type, event_data, ingested_at, grant_cycle_id
-      FROM event_log
-      WHERE aggregate_id = $1
-      ORDER BY ingested_at ASC, event_id ASC
-    `, [allocatorId]);
+  /**
+   * Sets a new award (and match commitment). Bucket awards move by the difference and the
+   * rate is recalculated for claims submitted from now on. Locks every bucket row like
+   * transitionGrant, so no voucher can encumber against the old figures mid-amendment.
+   */
+  async amendAward(request: {
+    idempotencyKey: string;
+    grantId: GrantId;
+    awardedAmountCents: MoneyCents;
+    matchCommitmentCents: MoneyCents;
+    lirpAllocationCents: MoneyCents | null;
+    approvalReason: string;
+    actorId: string;
+    actorType: 'ADMIN';
+    correlationId: string;
+  }): Promise<GrantBudgetResult> {
+    return this.changeGrantBudget(request, 'AMEND_GRANT_AWARD', (grant, occurredAt) => {
+      const rate = assertAwardAmendment(grant, request);
+      const previousAwardedAmountCents = [...grant.values()].reduce((sum, b) => sum + b.awardedCents, 0n);
+      return {
+        eventType: 'GRANT_AWARD_AMENDED',
+        eventData: {
+          awardedAmountCents: request.awardedAmountCents.toString(),
+          previousAwardedAmountCents: previousAwardedAmountCents.toString(),
+          matchCommitmentCents: request.matchCommitmentCents.toString(),
+          ...(request.lirpAllocationCents !== null ? { lirpAllocationCents: request.lirpAllocationCents.toString() } : {}),
+          rateNumeratorCents: rate.numeratorCents.toString(),
+          rateDenominatorCents: rate.denominatorCents.toString(),
+          rateEffectiveFrom: occurredAt.toISOString(),
+        },
+      };
+    });
+  }
+
+  /**
+   * Moves unencumbered dollars between the GENERAL and LIRP buckets; the award total is unchanged.
+   */
+  async reallocateBuckets(request: {
+    idempotencyKey: string;
+    grantId: GrantId;
+    fromBucket: GrantBucketType;
+    toBucket: GrantBucketType;
+    amountCents: MoneyCents;
+    approvalReason: string;
+    actorId: string;
+    actorType: 'ADMIN';
+    correlationId: string;
+  }): Promise<GrantBudgetResult> {
+    return this.changeGrantBudget(request, 'REALLOCATE_GRANT_BUCKETS', (grant) => {
+      assertBucketReallocation(grant, request.fromBucket, request.toBucket, request.amountCents);
+      return {
+        eventType: 'GRANT_BUCKET_REALLOCATED',
+        eventData: {
+          fromBucket: request.fromBucket,
+          toBucket: request.toBucket,
+          amountCents: request.amountCents.toString(),
+        },
+      };
+    });
+  }
 
-    if (eventRows.rows.length === 0) {
-      throw new Error('ALLOCATOR_NOT_FOUND');
+  /**
+   * Turns on LIRP must-honor: from here on LIRP vouchers fall back to GENERAL funds when the
+   * LIRP bucket is short, and LIRP claims may not be denied or under-paid.
+   */
+  async enforceLirpMustHonor(request: {
+    idempotencyKey: string;
+    grantId: GrantId;
+    reason: string;
+    actorId: string;
+    actorType: 'ADMIN';
+    correlationId: string;
+  }): Promise<LirpMustHonorReport> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const status = await this.idempotency.checkAndReserve(client, request.idempotencyKey, 'ENFORCE_LIRP_MUST_HONOR', 'hash', 86400);
+      if (status === 'COMPLETED') {
+        const result = await client.query('SELECT response_json FROM idempotency_cache WHERE idempotency_key = $1', [request.idempotencyKey]);
+        await client.query('COMMIT');
+        return result.rows[0].response_json;
+      }
+      if (status === 'PROCESSING') {
+        throw new Error('OPERATION_IN_PROGRESS');
+      }
+
+      await client.query(
+        'SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type FOR UPDATE',
+        [request.grantId]
+      );
+      const grant = await this.loader.load<GrantState>('GRANT', request.grantId, client);
+      if (!grant) {
+        throw new Error('GRANT_NOT_FOUND');
+      }
+      assertLirpMustHonorEnforceable(grant.state);
+
+      await this.store.appendWithClient(client, {
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: request.grantId,
+        eventType: 'LIRP_MUST_HONOR_ENFORCED',
+        eventData: {
+          grantId: request.grantId,
+          reason: request.reason,
+        },
+        occurredAt: new Date(),
+        grantCycleId: await this.getGrantCycleId(client, request.grantId),
+        correlationId: request.correlationId,
+        causationId: null,
+        actorId: request.actorId as ActorId,
+        actorType: request.actorType,
+      }, { expectedVersion: grant.version });
+
+      const response = (await this.getLirpMustHonorReport(request.grantId, client))!;
+      await this.idempotency.recordResult(client, request.idempotencyKey, response);
+
+      await client.query('COMMIT');
+      return response;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      try { await this.idempotency.recordFailure(client, request.idempotencyKey); } catch { /* swallow */ }
+      throw error;
+    } finally {
+      client.release();
     }
-    const grantCycleId = eventRows.rows[0].grant_cycle_id;
-    const state = createInitialAllocatorState(allocatorId as any);
-    for (const row of eventRows.rows) {
-      const event = {
-        eventType: row.event_type,
-        eventData: row.event_data,
-        ingestedAt: row.ingested_at,
+  }
+
+  /**
+   * Must-honor status and how much LIRP activity relied on the GENERAL fallback.
+   */
+  async getLirpMustHonorReport(grantId: GrantId, client?: PoolClient): Promise<LirpMustHonorReport | null> {
+    const grant = await this.loader.load<GrantState>('GRANT', grantId, client);
+    const metadata = grant?.state.metadata;
+    if (!metadata) {
+      return null;
+    }
+    return {
+      grantId,
+      lirpEnabled: metadata.lirpEnabled,
+      mustHonor: metadata.lirpMustHonor,
+      enforcedAt: metadata.lirpMustHonorEnforcedAt?.toISOString() ?? null,
+      fallbackVoucherCount: metadata.lirpFallback.voucherCount,
+      fallbackEncumberedCents: Money.toJSON(metadata.lirpFallback.encumberedCents),
+      fallbackClaimCount: metadata.lirpFallback.claimCount,
+      fallbackLiquidatedCents: Money.toJSON(metadata.lirpFallback.liquidatedCents),
+      fallbackReleasedCents: Money.toJSON(metadata.lirpFallback.releasedCents),
+    };
+  }
+
+  private async changeGrantBudget(
+    request: { idempotencyKey: string; grantId: GrantId; approvalReason: string; actorId: string; actorType: 'ADMIN'; correlationId: string },
+    operation: string,
+    decide: (grant: GrantState, occurredAt: Date) => { eventType: string; eventData: Record<string, unknown> }
+  ): Promise<GrantBudgetResult> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const status = await this.idempotency.checkAndReserve(client, request.idempotencyKey, operation, 'hash', 86400);
+      if (status === 'COMPLETED') {
+        const result = await client.query('SELECT response_json FROM idempotency_cache WHERE idempotency_key = $1', [request.idempotencyKey]);
+        await client.query('COMMIT');
+        return result.rows[0].response_json;
+      }
+      if (status === 'PROCESSING') {
+        throw new Error('OPERATION_IN_PROGRESS');
+      }
+
+      await client.query(
+        'SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type FOR UPDATE',
+        [request.grantId]
+      );
+      const grant = await this.loader.load<GrantState>('GRANT', request.grantId, client);
+      if (!grant) {
+        throw new Error('GRANT_NOT_FOUND');
+      }
+
+      const occurredAt = new Date();
+      const decision = decide(grant.state, occurredAt);
+      const event = await this.store.appendWithClient(client, {
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: request.grantId,
+        eventType: decision.eventType,
+        eventData: {
+          grantId: request.grantId,
+          ...decision.eventData,
+          approval: {
+            approvedBy: request.actorId,
+            approvedAt: occurredAt.toISOString(),
+            reason: request.approvalReason,
+          },
+        },
+        occurredAt,
+        grantCycleId: await this.getGrantCycleId(client, request.grantId),
+        correlationId: request.correlationId,
+        causationId: null,
+        actorId: request.actorId as ActorId,
+        actorType: request.actorType,
+      }, { expectedVersion: grant.version });
+
+      await this.projector.projectGrantBalances(client, request.grantId);
+
+      const changed = (await this.loader.load<GrantState>('GRANT', request.grantId, client))!.state;
+      const response: GrantBudgetResult = {
+        grantId: request.grantId,
+        eventId: event.eventId,
+        buckets: [...changed.entries()].map(([bucketType, b]) => ({
+          bucketType,
+          awardedCents: Money.toJSON(b.awardedCents),
+          availableCents: Money.toJSON(b.availableCents),
+        })),
+        // Rate for claims submitted from this change onward
+        rate: RateEngine.toJSON(rateForClaimSubmittedAt(changed, occurredAt)),
       };
-      applyAllocatorEvent(state, event);
+      await this.idempotency.recordResult(client, request.idempotencyKey, response);
+
+      await client.query('COMMIT');
+      return response;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      try { await this.idempotency.recordFailure(client, request.idempotencyKey); } catch { /* swallow */ }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Locks the bucket rows a voucher encumbers and decides the split. GENERAL vouchers lock one
+   * row; LIRP vouchers lock every row (in bucket order, like the grant commands) because under
+   * must-honor a LIRP shortfall is encumbered from GENERAL.
+   */
+  private async planEncumbrances(
+    client: PoolClient,
+    grantId: GrantId,
+    isLIRP: boolean,
+    amountCents: MoneyCents
+  ): Promise<Array<{ bucket: GrantBucketType; amountCents: MoneyCents; lirpFallback: boolean }>> {
+    if (!isLIRP) {
+      await client.query("SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = 'GENERAL' FOR UPDATE", [grantId]);
+      await this.assertGrantIssuing(client, grantId);
+
+      // Check funds
+      const grantRow = await client.query("SELECT available_cents FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = 'GENERAL'", [grantId]);
+      const availableCents = BigInt(grantRow.rows[0].available_cents);
+      if (availableCents < amountCents) {
+        throw new Error('INSUFFICIENT_FUNDS');
+      }
+      return [{ bucket: 'GENERAL', amountCents, lirpFallback: false }];
+    }
+
+    await client.query('SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type FOR UPDATE', [grantId]);
+    const grant = await this.assertGrantIssuing(client, grantId);
+    const plan = planLirpEncumbrance(grant.state, amountCents);
+    const parts: Array<{ bucket: GrantBucketType; amountCents: MoneyCents; lirpFallback: boolean }> = [];
+    if (plan.lirpCents > 0n) {
+      parts.push({ bucket: 'LIRP', amountCents: plan.lirpCents, lirpFallback: false });
+    }
+    if (plan.generalFallbackCents > 0n) {
+      parts.push({ bucket: 'GENERAL', amountCents: plan.generalFallbackCents, lirpFallback: true });
+    }
+    return parts;
+  }
+
+  /**
+   * Locks the cycle's allocator for the county and returns its next sequence. Allocators are
+   * created on first use; when two issuers race to create one, the loser's versioned append
+   * conflicts after waiting on the winner's stream lock, and it uses the winner's allocator.
+   */
+  private async lockAllocator(
+    client: PoolClient,
+    grantCycleId: string,
+    countyCode: WvCountyCode | typeof LEGACY_ALLOCATOR_COUNTY,
+    request: { actorId: string; actorType: 'APPLICANT' | 'ADMIN' | 'SYSTEM'; correlationId: string; causationId?: string }
+  ): Promise<{ allocatorId: AllocatorId; sequence: number }> {
+    const allocatorId = Allocator.createId(grantCycleId, countyCode);
+    const lockRow = () => client.query('SELECT next_sequence FROM allocators_projection WHERE allocator_id = $1 FOR UPDATE', [allocatorId]);
+
+    let allocatorRow = await lockRow();
+    if (allocatorRow.rows.length === 0) {
+      try {
+        await this.store.appendWithClient(client, {
+          eventId: EventStore.newEventId(),
+          aggregateType: 'ALLOCATOR',
+          aggregateId: allocatorId,
+          eventType: 'VOUCHER_CODE_ALLOCATOR_INITIALIZED',
+          eventData: { grantCycleId, countyCode },
+          occurredAt: new Date(),
+          grantCycleId,
+          correlationId: request.correlationId,
+          causationId: request.causationId ?? null,
+          actorId: request.actorId as ActorId,
+          actorType: request.actorType,
+        }, { expectedVersion: 0 });
+      } catch (error) {
+        if (!(error instanceof ConcurrencyConflictError)) {
+          throw error;
+        }
+      }
+      await this.projector.projectAllocator(client, allocatorId);
+      allocatorRow = await lockRow();
+    }
+    return { allocatorId, sequence: allocatorRow.rows[0].next_sequence };
+  }
+
+  // Call with the grant's bucket row locked, so a concurrent suspend or close waits for this command
+  private async assertGrantIssuing(client: PoolClient, grantId: GrantId): Promise<{ state: GrantState; version: number }> {
+    const grant = await this.loader.load<GrantState>('GRANT', grantId, client);
+    if (!grant) {
+      throw new Error('GRANT_NOT_FOUND');
+    }
+    assertGrantIssuing(grant.state);
+    return grant;
+  }
+
+  /**
+   * Year segment of a voucher code: the fiscal year the cycle's period ends in. Cycles created
+   * before calendars existed fall back to the FYyyyy calendar; any other cycle needs one.
+   */
+  private async voucherCodeYear(client: PoolClient, grantCycleId: string): Promise<string> {
+    const cycle = await this.loader.load<GrantCycleState>('GRANT_CYCLE', GrantCycle.createAggregateId(grantCycleId), client);
+    const calendar = cycle?.state.calendar ?? fiscalYearCalendar(grantCycleId);
+    if (!calendar) {
+      throw new Error('GRANT_CYCLE_CALENDAR_NOT_FOUND');
     }
-    checkAllocatorInvariant(state);
-
-    await client.query(`
-      INSERT INTO allocators_projection (
-        allocator_id, grant_cycle_id, county_code, next_sequence,
-        rebuilt_at, watermark_ingested_at, watermark_event_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-      ON CONFLICT (allocator_id) DO UPDATE SET
-        grant_cycle_id = EXCLUDED.grant_cycle_id,
-        county_code = EXCLUDED.county_code,
-        next_sequence = EXCLUDED.next_sequence,
-        rebuilt_at = EXCLUDED.rebuilt_at,
-        watermark_ingested_at = EXCLUDED.watermark_ingested_at,
-        watermark_event_id = EXCLUDED.watermark_event_id
-    `, [
-      state.allocatorId, grantCycleId, 'COUNTY', state.nextSequence,
-      new Date(), eventRows.rows[eventRows.rows.length - 1]?.ingested_at || new Date(), eventRows.rows[eventRows.rows.length - 1]?.event_id || crypto.randomUUID()
-    ]);
+    return calendar.periodEnd.slice(0, 4);
   }
 
   private async getGrantCycleId(client: PoolClient, grantId: GrantId): Promise<string> {
@@ -1,11 +1,16 @@
-import { Pool, PoolClient } from 'pg';
+import { Pool } from 'pg';
 import { EventStore, DomainEvent } from '../event-store';
 import { IdempotencyService } from './idempotency-service';
+import { AggregateProjector } from '../projections/aggregate-projector';
 import { MoneyCents, Money, ActorId } from '../domain-types';
-import { applyInvoiceEvent, InvoiceState, checkInvoiceInvariant, createInitialInvoiceState, computeInvoiceStatus, generateMonthlyInvoicePeriod, applyAdjustmentEvent, AdjustmentState, createInitialAdjustmentState } from '../domain/invoice/invoice-logic';
+import { InvoiceState, generateMonthlyInvoicePeriod, applyAdjustmentEvent, AdjustmentState, createInitialAdjustmentState } from '../domain/invoice/invoice-logic';
 
 export class InvoiceService {
-  constructor(private pool: Pool, private store: EventStore, private idempotency: IdempotencyService) {}
+  private readonly projector: AggregateProjector;
+
+  constructor(private pool: Pool, private store: EventStore, private idempotency: IdempotencyService) {
+    this.projector = new AggregateProjector(pool, store);
+  }
 
   async generateMonthlyInvoices(request: {
     idempotencyKey: string;
@@ -165,7 +170,7 @@ export class InvoiceService {
 
       // Update projections
       for (const invoiceId of invoiceIds) {
-        await this.updateInvoiceProjection(client, invoiceId);
+        await this.projector.projectInvoice(client, invoiceId);
       }
 
       const response = { invoiceIds };
@@ -251,7 +256,7 @@ export class InvoiceService {
       ]);
 
       // Update invoice projection status (projection-derived)
-      await this.updateInvoiceProjection(client, request.invoiceId);
+      await this.projector.projectInvoice(client, request.invoiceId);
 
       const response = { paymentId };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -266,64 +271,4 @@ export class InvoiceService {
       client.release();
     }
   }
-
-  private async updateInvoiceProjection(client: PoolClient, invoiceId: string): Promise<void> {
-    const eventRows = await client.query(`
-      SELECT event_type, event_data, ingested_at, grant_cycle_id
-      FROM event_log
-      WHERE aggregate_id = $1
-      ORDER BY ingested_at ASC, event_id ASC
-    `, [invoiceId]);
-
-    if (eventRows.rows.length === 0) return;
-
-    const firstEvent = eventRows.rows[0].event_data;
-    const grantCycleId = eventRows.rows[0].grant_cycle_id;
-    const state = createInitialInvoiceState(
-      invoiceId,
-      firstEvent.clinicId as string,
-      new Date(firstEvent.periodStart as string),
-      new Date(firstEvent.periodEnd as string)
-    );
-
-    for (const row of eventRows.rows) {
-      const event = {
-        eventType: row.event_type,
-        eventData: row.event_data,
-        ingestedAt: row.ingested_at,
-      };
-      applyInvoiceEvent(state, event);
-    }
-    checkInvoiceInvariant(state);
-
-    // Calculate payment status (projection-derived per LAW 7.6)
-    const paymentsResult = await client.query(`
-      SELECT COALESCE(SUM(amount_cents), 0) as total_paid
-      FROM payments_projection
-      WHERE invoice_id = $1
-    `, [invoiceId]);
-
-    const totalPaidCents = Money.fromBigInt(BigInt(paymentsResult.rows[0].total_paid));
-    const derivedStatus = computeInvoiceStatus(state.totalAmountCents, totalPaidCents, state.status === 'SUBMITTED');
-
-    await client.query(`
-      INSERT INTO invoices_projection (
-        invoice_id, clinic_id, grant_cycle_id, invoice_period_start, invoice_period_end,
-        total_amount_cents, claim_ids, adjustment_ids, status, submitted_at, generated_at,
-        rebuilt_at, watermark_ingested_at, watermark_event_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
-      ON CONFLICT (invoice_id) DO UPDATE SET
-        grant_cycle_id = EXCLUDED.grant_cycle_id,
-        status = EXCLUDED.status,
-        submitted_at = EXCLUDED.submitted_at,
-        rebuilt_at = EXCLUDED.rebuilt_at,
-        watermark_ingested_at = EXCLUDED.watermark_ingested_at,
-        watermark_event_id = EXCLUDED.watermark_event_id
-    `, [
-      state.invoiceId, state.clinicId, grantCycleId, state.periodStart, state.periodEnd,
-      state.totalAmountCents.toString(), JSON.stringify(state.claimIds), JSON.stringify(state.adjustmentIds),
-      derivedStatus, state.submittedAt, state.generatedAt,
-      new Date(), eventRows.rows[eventRows.rows.length - 1]?.ingested_at || new Date(), eventRows.rows[eventRows.rows.length - 1]?.event_id || crypto.randomUUID()
-    ]);
-  }
 }
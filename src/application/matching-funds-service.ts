@@ -0,0 +1,255 @@
+import { Pool, PoolClient } from 'pg';
+import * as crypto from 'crypto';
+import { EventStore } from '../event-store';
+import { IdempotencyService } from './idempotency-service';
+import { AggregateLoader } from './aggregate-loader';
+import { AggregateProjector } from '../projections/aggregate-projector';
+import { ActorId, GrantId, Money, MoneyCents } from '../domain-types';
+import {
+  GrantState,
+  MatchType,
+  MatchingFundsReport,
+  assertMatchingFundsReport,
+  assertMatchingFundsAdjustment,
+  matchToDate,
+} from '../domain/grant/grant-logic';
+
+export interface MatchToDateView {
+  grantId: GrantId;
+  committedCents: string;
+  reportedCents: string;
+  shortfallCents: string;
+  surplusCents: string;
+  cashCents: string;
+  inKindCents: string;
+  evidenceArtifactIds: string[];
+  reports: Array<Omit<MatchingFundsReport, 'amountCents'> & { amountCents: string }>;
+}
+
+export class MatchingFundsService {
+  private readonly loader: AggregateLoader;
+  private readonly projector: AggregateProjector;
+
+  constructor(private pool: Pool, private store: EventStore, private idempotency: IdempotencyService) {
+    this.loader = new AggregateLoader(store);
+    this.projector = new AggregateProjector(pool, store);
+  }
+
+  /**
+   * Grantee reports cash or in-kind match for a period. granteeId scopes the grant: a grant
+   * awarded to another grantee is reported as not found.
+   */
+  async reportMatchingFunds(request: {
+    idempotencyKey: string;
+    grantId: GrantId;
+    granteeId: string;
+    matchType: MatchType;
+    periodStart: string;
+    periodEnd: string;
+    amountCents: MoneyCents;
+    evidenceArtifactIds: string[];
+    description?: string;
+    actorId: string;
+    actorType: 'APPLICANT';
+    correlationId: string;
+  }): Promise<MatchToDateView> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const status = await this.idempotency.checkAndReserve(client, request.idempotencyKey, 'REPORT_MATCHING_FUNDS', 'hash', 86400);
+      if (status === 'COMPLETED') {
+        const result = await client.query('SELECT response_json FROM idempotency_cache WHERE idempotency_key = $1', [request.idempotencyKey]);
+        await client.query('COMMIT');
+        return result.rows[0].response_json;
+      }
+      if (status === 'PROCESSING') {
+        throw new Error('OPERATION_IN_PROGRESS');
+      }
+
+      // Same lock as other grant commands; matching_reported_cents lives on the GENERAL row
+      await client.query(
+        "SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = 'GENERAL' FOR UPDATE",
+        [request.grantId]
+      );
+      const grant = await this.loader.load<GrantState>('GRANT', request.grantId, client);
+      if (!grant || grant.state.metadata?.granteeId !== request.granteeId) {
+        throw new Error('GRANT_NOT_FOUND');
+      }
+      const reportId = crypto.randomUUID();
+      assertMatchingFundsReport(grant.state, { ...request, reportId });
+      await this.assertEvidenceArtifactsExist(client, request.evidenceArtifactIds);
+
+      await this.store.appendWithClient(client, {
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: request.grantId,
+        eventType: 'MATCHING_FUNDS_REPORTED',
+        eventData: {
+          grantId: request.grantId,
+          reportId,
+          matchType: request.matchType,
+          periodStart: request.periodStart,
+          periodEnd: request.periodEnd,
+          amountCents: request.amountCents.toString(),
+          evidenceArtifactIds: request.evidenceArtifactIds,
+          ...(request.description ? { description: request.description } : {}),
+        },
+        occurredAt: new Date(),
+        grantCycleId: grant.state.metadata!.grantCycleId,
+        correlationId: request.correlationId,
+        causationId: null,
+        actorId: request.actorId as ActorId,
+        actorType: request.actorType,
+      }, { expectedVersion: grant.version });
+
+      await this.projector.projectGrantBalances(client, request.grantId, 'GENERAL');
+
+      const response = (await this.getMatchToDate(request.grantId, client))!;
+      await this.idempotency.recordResult(client, request.idempotencyKey, response);
+
+      await client.query('COMMIT');
+      return response;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      try { await this.idempotency.recordFailure(client, request.idempotencyKey); } catch { /* swallow */ }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Admin review outcome: replaces a report's amount (and optionally its evidence) with a reason.
+   */
+  async adjustMatchingFunds(request: {
+    idempotencyKey: string;
+    grantId: GrantId;
+    reportId: string;
+    adjustedAmountCents: MoneyCents;
+    evidenceArtifactIds?: string[];
+    reason: string;
+    actorId: string;
+    actorType: 'ADMIN';
+    correlationId: string;
+  }): Promise<MatchToDateView> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const status = await this.idempotency.checkAndReserve(client, request.idempotencyKey, 'ADJUST_MATCHING_FUNDS', 'hash', 86400);
+      if (status === 'COMPLETED') {
+        const result = await client.query('SELECT response_json FROM idempotency_cache WHERE idempotency_key = $1', [request.idempotencyKey]);
+        await client.query('COMMIT');
+        return result.rows[0].response_json;
+      }
+      if (status === 'PROCESSING') {
+        throw new Error('OPERATION_IN_PROGRESS');
+      }
+
+      await client.query(
+        "SELECT 1 FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = 'GENERAL' FOR UPDATE",
+        [request.grantId]
+      );
+      const grant = await this.loader.load<GrantState>('GRANT', request.grantId, client);
+      if (!grant) {
+        throw new Error('GRANT_NOT_FOUND');
+      }
+      const report = assertMatchingFundsAdjustment(grant.state, request.reportId, request.adjustedAmountCents);
+      if (request.evidenceArtifactIds) {
+        await this.assertEvidenceArtifactsExist(client, request.evidenceArtifactIds);
+      }
+
+      await this.store.appendWithClient(client, {
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: request.grantId,
+        eventType: 'MATCHING_FUNDS_ADJUSTED',
+        eventData: {
+          grantId: request.grantId,
+          reportId: request.reportId,
+          previousAmountCents: report.amountCents.toString(),
+          adjustedAmountCents: request.adjustedAmountCents.toString(),
+          ...(request.evidenceArtifactIds ? { evidenceArtifactIds: request.evidenceArtifactIds } : {}),
+          reason: request.reason,
+        },
+        occurredAt: new Date(),
+        grantCycleId: grant.state.metadata!.grantCycleId,
+        correlationId: request.correlationId,
+        causationId: null,
+        actorId: request.actorId as ActorId,
+        actorType: request.actorType,
+      }, { expectedVersion: grant.version });
+
+      await this.projector.projectGrantBalances(client, request.grantId, 'GENERAL');
+
+      const response = (await this.getMatchToDate(request.grantId, client))!;
+      await this.idempotency.recordResult(client, request.idempotencyKey, response);
+
+      await client.query('COMMIT');
+      return response;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      try { await this.idempotency.recordFailure(client, request.idempotencyKey); } catch { /* swallow */ }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Committed vs reported match for one grant. Pass granteeId to scope the read to that grantee.
+   */
+  async getMatchToDate(grantId: GrantId, client?: PoolClient, granteeId?: string): Promise<MatchToDateView | null> {
+    const grant = await this.loader.load<GrantState>('GRANT', grantId, client);
+    if (!grant?.state.metadata || (granteeId !== undefined && grant.state.metadata.granteeId !== granteeId)) {
+      return null;
+    }
+    const summary = matchToDate(grant.state);
+    return {
+      grantId,
+      committedCents: Money.toJSON(summary.committedCents),
+      reportedCents: Money.toJSON(summary.reportedCents),
+      shortfallCents: Money.toJSON(summary.shortfallCents),
+      surplusCents: Money.toJSON(summary.surplusCents),
+      cashCents: Money.toJSON(summary.cashCents),
+      inKindCents: Money.toJSON(summary.inKindCents),
+      evidenceArtifactIds: summary.evidenceArtifactIds,
+      reports: grant.state.metadata.matchingReports.map((report) => ({ ...report, amountCents: Money.toJSON(report.amountCents) })),
+    };
+  }
+
+  // Evidence must name artifacts already in artifact_log (ids are UUIDs, checked at the API)
+  private async assertEvidenceArtifactsExist(client: PoolClient, artifactIds: string[]): Promise<void> {
+    const result = await client.query(
+      'SELECT artifact_id::text AS artifact_id FROM artifact_log WHERE artifact_id = ANY($1::uuid[])',
+      [artifactIds]
+    );
+    const found = new Set(result.rows.map((row) => row.artifact_id));
+    if (artifactIds.some((artifactId) => !found.has(artifactId.toLowerCase()))) {
+      throw new Error('MATCHING_FUNDS_EVIDENCE_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Evidence behind every match report in a grant cycle, for the closeout matching-funds summary.
+   */
+  async cycleEvidenceArtifactIds(client: PoolClient, grantCycleId: string): Promise<string[]> {
+    const grants = await client.query(`
+      SELECT DISTINCT aggregate_id FROM event_log
+      WHERE aggregate_type = 'GRANT'
+        AND grant_cycle_id = $1
+        AND event_type IN ('MATCHING_FUNDS_REPORTED', 'MATCHING_FUNDS_ADJUSTED')
+      ORDER BY aggregate_id
+    `, [grantCycleId]);
+
+    const evidence = new Set<string>();
+    for (const row of grants.rows) {
+      const grant = await this.loader.load<GrantState>('GRANT', row.aggregate_id, client);
+      if (grant) {
+        matchToDate(grant.state).evidenceArtifactIds.forEach((artifactId) => evidence.add(artifactId));
+      }
+    }
+    return [...evidence];
+  }
+}
@@ -2,6 +2,7 @@ import { Pool, PoolClient } from 'pg';
 import * as crypto from 'crypto';
 import { EventStore, DomainEvent } from '../event-store';
 import { IdempotencyService } from './idempotency-service';
+import { AggregateProjector } from '../projections/aggregate-projector';
 import { ActorId } from '../domain-types';
 import { 
   ExportBatchId, 
@@ -17,11 +18,15 @@ import {
 import { renderOasisFile, InvoiceForExport, BatchMetadata, OASIS_FORMAT_VERSION } from '../domain/oasis/renderer';
 
 export class OasisService {
+  private readonly projector: AggregateProjector;
+
   constructor(
     private pool: Pool,
     private store: EventStore,
     private idempotency: IdempotencyService
-  ) {}
+  ) {
+    this.projector = new AggregateProjector(pool, store);
+  }
 
   async generateExportBatch(request: {
     idempotencyKey: string;
@@ -172,7 +177,7 @@ export class OasisService {
       }
 
       // Update batch projection
-      await this.updateBatchProjection(client, exportBatchId);
+      await this.projector.projectExportBatch(client, exportBatchId);
 
       const response = { exportBatchId };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -294,7 +299,7 @@ export class OasisService {
       await this.store.appendWithClient(client, fileRenderedEvent);
 
       // Update projection
-      await this.updateBatchProjection(client, request.exportBatchId);
+      await this.projector.projectExportBatch(client, request.exportBatchId);
 
       const response = { artifactId, sha256, content: rendered.content };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -398,7 +403,7 @@ export class OasisService {
       await this.store.appendWithClient(client, submittedEvent);
 
       // Update projection
-      await this.updateBatchProjection(client, request.exportBatchId);
+      await this.projector.projectExportBatch(client, request.exportBatchId);
 
       const response = { status: 'SUBMITTED' };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -461,7 +466,7 @@ export class OasisService {
       };
       await this.store.appendWithClient(client, acknowledgedEvent);
 
-      await this.updateBatchProjection(client, request.exportBatchId);
+      await this.projector.projectExportBatch(client, request.exportBatchId);
 
       const response = { status: 'ACKNOWLEDGED' };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -523,7 +528,7 @@ export class OasisService {
       };
       await this.store.appendWithClient(client, rejectedEvent);
 
-      await this.updateBatchProjection(client, request.exportBatchId);
+      await this.projector.projectExportBatch(client, request.exportBatchId);
 
       const response = { status: 'REJECTED' };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -613,7 +618,7 @@ export class OasisService {
       };
       await this.store.appendWithClient(client, voidedEvent);
 
-      await this.updateBatchProjection(client, request.exportBatchId);
+      await this.projector.projectExportBatch(client, request.exportBatchId);
 
       const response = { status: 'VOIDED' };
       await this.idempotency.recordResult(client, request.idempotencyKey, response);
@@ -628,111 +633,6 @@ export class OasisService {
     }
   }
 
-  private async updateBatchProjection(client: PoolClient, exportBatchId: ExportBatchId): Promise<void> {
-    const eventRows = await client.query(`
-      SELECT event_id, event_type, event_data, ingested_at
-      FROM event_log
-      WHERE aggregate_id = $1
-      ORDER BY ingested_at ASC, event_id ASC
-    `, [exportBatchId]);
-
-    if (eventRows.rows.length === 0) return;
-
-    const firstEvent = eventRows.rows[0].event_data;
-    const state = createInitialBatchState(
-      exportBatchId,
-      firstEvent.grantCycleId as string,
-      firstEvent.batchCode as string,
-      firstEvent.batchFingerprint as BatchFingerprint,
-      new Date(firstEvent.periodStart as string),
-      new Date(firstEvent.periodEnd as string),
-      new Date(firstEvent.watermarkIngestedAt as string),
-      firstEvent.watermarkEventId as string
-    );
-
-    for (const row of eventRows.rows) {
-      const event = {
-        eventType: row.event_type,
-        eventData: row.event_data,
-        ingestedAt: row.ingested_at,
-      };
-      applyBatchEvent(state, event);
-    }
-    checkBatchInvariant(state);
-
-    await client.query(`
-      INSERT INTO oasis_export_batches_projection (
-        export_batch_id, grant_cycle_id, batch_code, batch_fingerprint,
-        period_start, period_end, watermark_ingested_at, watermark_event_id,
-        status, record_count, control_total_cents, artifact_id, file_sha256, format_version,
-        submitted_at, submission_method, oasis_ref_id, acknowledged_at,
-        rejection_reason, rejection_code, voided_reason, voided_by_actor_id,
-        rebuilt_at, watermark_ingested_at_row, watermark_event_id_row
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25)
-      ON CONFLICT (export_batch_id) DO UPDATE SET
-        status = EXCLUDED.status,
-        record_count = EXCLUDED.record_count,
-        control_total_cents = EXCLUDED.control_total_cents,
-        artifact_id = EXCLUDED.artifact_id,
-        file_sha256 = EXCLUDED.file_sha256,
-        format_version = EXCLUDED.format_version,
-        submitted_at = EXCLUDED.submitted_at,
-        submission_method = EXCLUDED.submission_method,
-        oasis_ref_id = EXCLUDED.oasis_ref_id,
-        acknowledged_at = EXCLUDED.acknowledged_at,
-        rejection_reason = EXCLUDED.rejection_reason,
-        rejection_code = EXCLUDED.rejection_code,
-        voided_reason = EXCLUDED.voided_reason,
-        voided_by_actor_id = EXCLUDED.voided_by_actor_id,
-        rebuilt_at = EXCLUDED.rebuilt_at,
-        watermark_ingested_at_row = EXCLUDED.watermark_ingested_at_row,
-        watermark_event_id_row = EXCLUDED.watermark_event_id_row
-    `, [
-      state.exportBatchId, state.grantCycleId, state.batchCode, state.batchFingerprint,
-      state.periodStart, state.periodEnd, state.watermarkIngestedAt, state.watermarkEventId,
-      state.status, state.recordCount, state.controlTotalCents.toString(), state.artifactId, state.fileSha256, state.formatVersion,
-      state.submittedAt, state.submissionMethod, state.oasisRefId, state.acknowledgedAt,
-      state.rejectionReason, state.rejectionCode, state.voidedReason, state.voidedByActorId,
-      new Date(), eventRows.rows[eventRows.rows.length - 1]?.ingested_at || new Date(), eventRows.rows[eventRows.rows.length - 1]?.event_id || crypto.randomUUID()
-    ]);
-
-    // Update batch items
-    await client.query('DELETE FROM oasis_export_batch_items_projection WHERE export_batch_id = $1', [exportBatchId]);
-    
-    const itemEvents = eventRows.rows.filter(r => r.event_type === 'OASIS_EXPORT_BATCH_ITEM_ADDED');
-    for (const itemEvent of itemEvents) {
-      const data = itemEvent.event_data;
-      await client.query(`
-        INSERT INTO oasis_export_batch_items_projection (
-          export_batch_id, invoice_id, clinic_id, oasis_vendor_code,
-          amount_cents, invoice_period_start, invoice_period_end
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-        ON CONFLICT (export_batch_id, invoice_id) DO NOTHING
-      `, [
-        exportBatchId, data.invoiceId, data.clinicId, data.oasisVendorCode,
-        data.amountCents, data.invoicePeriodStart, data.invoicePeriodEnd
-      ]);
-    }
-
-    // Update invoices_projection: set oasis_export_batch_id or clear if REJECTED/VOIDED
-    if (state.status === 'REJECTED' || state.status === 'VOIDED') {
-      await client.query(`
-        UPDATE invoices_projection
-        SET oasis_export_batch_id = NULL
-        WHERE oasis_export_batch_id = $1
-      `, [exportBatchId]);
-    } else if (state.status !== 'CREATED') {
-      const invoiceIds = itemEvents.map(e => e.event_data.invoiceId);
-      if (invoiceIds.length > 0) {
-        await client.query(`
-          UPDATE invoices_projection
-          SET oasis_export_batch_id = $1
-          WHERE invoice_id = ANY($2::uuid[])
-        `, [exportBatchId, invoiceIds]);
-      }
-    }
-  }
-
   private async getCycleCloseoutStatus(client: PoolClient, grantCycleId: string): Promise<string | null> {
     const result = await client.query(
       'SELECT closeout_status FROM grant_cycle_closeout_projection WHERE grant_cycle_id = $1',
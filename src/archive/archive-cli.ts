@@ -0,0 +1,37 @@
+import { Pool } from 'pg';
+import { exportGrantCycleArchive, importGrantCycleArchive } from './grant-cycle-archive';
+
+// Usage:
+//   node dist/archive/archive-cli.js export <grantCycleId> <outputDir>
+//   node dist/archive/archive-cli.js import <archiveDir>
+// The manifest is signed and verified with ARCHIVE_SIGNING_KEY.
+async function main(): Promise<void> {
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const [command, ...args] = process.argv.slice(2);
+    const signingKey = process.env.ARCHIVE_SIGNING_KEY ?? '';
+
+    let result: unknown;
+    if (command === 'export' && args.length === 2) {
+      result = await exportGrantCycleArchive(pool, args[0], args[1], signingKey);
+    } else if (command === 'import' && args.length === 1) {
+      result = await importGrantCycleArchive(pool, args[0], signingKey);
+    } else {
+      throw new Error('Usage: archive-cli export <grantCycleId> <outputDir> | import <archiveDir>');
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(result, null, 2));
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+  process.exit(1);
+});
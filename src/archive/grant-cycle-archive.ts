@@ -0,0 +1,389 @@
+import { Pool } from 'pg';
+import * as crypto from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+import { rebuildAllProjections, RebuildResult } from '../projections/rebuild';
+
+// === GRANT CYCLE ARCHIVE ===
+// Retention / disaster-recovery copy of one grant cycle's canonical records:
+//   events.ndjson     event_log rows in watermark order (ingested_at, event_id)
+//   artifacts.ndjson  artifact_log rows referenced from those events
+//   pii-keys.ndjson   pii_subject_keys rows for subjects sealed in those events; key material is
+//                     encrypted under a key derived from the archive key, forgotten subjects stay forgotten
+//   manifest.json     counts, watermarks, SHA-256 per file, HMAC-SHA256 over the rest of the manifest
+// Rows are written exactly as stored (to_jsonb of the row), so an import restores the
+// original ingested_at and the watermark order it defines.
+
+const ARCHIVE_FORMAT_VERSION = 2;   // 2: pii-keys.ndjson; version 1 archives carry no keys
+const PAGE_SIZE = 1000;
+const EVENTS_FILE = 'events.ndjson';
+const ARTIFACTS_FILE = 'artifacts.ndjson';
+const PII_KEYS_FILE = 'pii-keys.ndjson';
+const MANIFEST_FILE = 'manifest.json';
+
+export interface ArchiveFileEntry {
+  name: string;
+  count: number;
+  sha256: string;
+}
+
+export interface ArchiveWatermark {
+  ingestedAt: string;
+  eventId: string;
+}
+
+export interface ArchiveManifest {
+  formatVersion: number;
+  grantCycleId: string;
+  exportedAt: string;
+  firstWatermark: ArchiveWatermark | null;
+  lastWatermark: ArchiveWatermark | null;
+  files: {
+    events: ArchiveFileEntry;
+    artifacts: ArchiveFileEntry;
+    piiKeys?: ArchiveFileEntry;
+  };
+  signature: {
+    algorithm: 'HMAC-SHA256';
+    value: string;
+  };
+}
+
+export interface ArchiveImportResult {
+  manifest: ArchiveManifest;
+  eventsImported: number;
+  artifactsImported: number;
+  piiKeysImported: number;
+  rebuild: RebuildResult;
+}
+
+export async function exportGrantCycleArchive(
+  pool: Pool,
+  grantCycleId: string,
+  outputDir: string,
+  signingKey: string
+): Promise<ArchiveManifest> {
+  requireSigningKey(signingKey);
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const events = await writeNdjson(join(outputDir, EVENTS_FILE), async (write) => {
+    let first: ArchiveWatermark | null = null;
+    let last: ArchiveWatermark | null = null;
+    let cursor = { ingestedAt: new Date(0).toISOString(), eventId: '00000000-0000-0000-0000-000000000000' };
+
+    for (;;) {
+      const page = await pool.query(`
+        SELECT to_jsonb(e) AS row, e.ingested_at, e.event_id
+        FROM event_log e
+        WHERE e.grant_cycle_id = $1
+          AND ((e.ingested_at > $2) OR (e.ingested_at = $2 AND e.event_id > $3))
+        ORDER BY e.ingested_at ASC, e.event_id ASC
+        LIMIT $4
+      `, [grantCycleId, cursor.ingestedAt, cursor.eventId, PAGE_SIZE]);
+
+      for (const row of page.rows) {
+        await write(row.row);
+        cursor = { ingestedAt: new Date(row.ingested_at).toISOString(), eventId: row.event_id };
+        first = first ?? cursor;
+        last = cursor;
+      }
+      if (page.rows.length < PAGE_SIZE) break;
+    }
+    return { first, last };
+  });
+
+  const artifacts = await writeNdjson(join(outputDir, ARTIFACTS_FILE), async (write) => {
+    // artifact_log has no grant_cycle_id; an artifact belongs to the cycle whose events reference it
+    const result = await pool.query(`
+      WITH referenced AS (
+        SELECT DISTINCT value #>> '{}' AS id
+        FROM event_log e,
+             jsonb_path_query(e.event_data, 'strict $.** ? (@.type() == "string")') AS value
+        WHERE e.grant_cycle_id = $1
+      )
+      SELECT to_jsonb(a) AS row
+      FROM artifact_log a
+      WHERE a.artifact_id::text IN (SELECT id FROM referenced)
+      ORDER BY a.generated_at ASC, a.artifact_id ASC
+    `, [grantCycleId]);
+
+    for (const row of result.rows) {
+      await write(row.row);
+    }
+    return {};
+  });
+
+  const piiKeys = await writeNdjson(join(outputDir, PII_KEYS_FILE), async (write) => {
+    const result = await pool.query(`
+      WITH sealed AS (
+        SELECT DISTINCT field.value ->> 'subjectId' AS subject_id
+        FROM event_log e, jsonb_each(e.event_data) AS field
+        WHERE e.grant_cycle_id = $1
+          AND jsonb_typeof(field.value) = 'object'
+          AND field.value ? '$pii'
+      )
+      SELECT k.subject_id, k.key_material, k.created_at, k.forgotten_at, k.forgotten_by, k.forget_reason
+      FROM pii_subject_keys k
+      WHERE k.subject_id IN (SELECT subject_id FROM sealed)
+      ORDER BY k.subject_id ASC
+    `, [grantCycleId]);
+
+    const wrappingKey = piiWrappingKey(signingKey);
+    for (const row of result.rows) {
+      await write({
+        subjectId: row.subject_id,
+        createdAt: new Date(row.created_at).toISOString(),
+        forgottenAt: row.forgotten_at ? new Date(row.forgotten_at).toISOString() : null,
+        forgottenBy: row.forgotten_by,
+        forgetReason: row.forget_reason,
+        key: row.key_material ? wrapKey(wrappingKey, row.subject_id, row.key_material) : null,
+      });
+    }
+    return {};
+  });
+
+  const unsigned = {
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    grantCycleId,
+    exportedAt: new Date().toISOString(),
+    firstWatermark: events.result.first,
+    lastWatermark: events.result.last,
+    files: {
+      events: { name: EVENTS_FILE, count: events.count, sha256: events.sha256 },
+      artifacts: { name: ARTIFACTS_FILE, count: artifacts.count, sha256: artifacts.sha256 },
+      piiKeys: { name: PII_KEYS_FILE, count: piiKeys.count, sha256: piiKeys.sha256 },
+    },
+  };
+  const manifest: ArchiveManifest = {
+    ...unsigned,
+    signature: { algorithm: 'HMAC-SHA256', value: signManifest(unsigned, signingKey) },
+  };
+
+  await fs.writeFile(join(outputDir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+  return manifest;
+}
+
+/**
+ * Verifies the manifest signature and every file hash/count before writing anything,
+ * then inserts the rows in one transaction and rebuilds all projections from the log.
+ * Restores into an empty event log only: the import locks event_log and the rebuild
+ * replaces every projection, which a database already taking writes cannot afford.
+ */
+export async function importGrantCycleArchive(
+  pool: Pool,
+  archiveDir: string,
+  signingKey: string
+): Promise<ArchiveImportResult> {
+  requireSigningKey(signingKey);
+  const manifest = JSON.parse(await fs.readFile(join(archiveDir, MANIFEST_FILE), 'utf8')) as ArchiveManifest;
+
+  if (manifest.formatVersion !== 1 && manifest.formatVersion !== ARCHIVE_FORMAT_VERSION) {
+    throw new Error('ARCHIVE_FORMAT_UNSUPPORTED');
+  }
+  const { signature, ...unsigned } = manifest;
+  const expected = Buffer.from(signManifest(unsigned, signingKey), 'hex');
+  const actual = Buffer.from(signature?.value ?? '', 'hex');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new Error('ARCHIVE_SIGNATURE_INVALID');
+  }
+  if (manifest.formatVersion === ARCHIVE_FORMAT_VERSION && !manifest.files.piiKeys) {
+    throw new Error('ARCHIVE_FORMAT_UNSUPPORTED');
+  }
+  for (const entry of [manifest.files.events, manifest.files.artifacts, manifest.files.piiKeys]) {
+    if (entry) await verifyFile(join(archiveDir, entry.name), entry);
+  }
+
+  const client = await pool.connect();
+  let eventsImported = 0;
+  let artifactsImported = 0;
+  let piiKeysImported = 0;
+  try {
+    await client.query('BEGIN');
+    // Imported events keep their original ingested_at; the stamping trigger is off for this transaction only
+    await client.query('ALTER TABLE event_log DISABLE TRIGGER event_log_stamp_ingested_at');
+
+    // Checked under the ALTER TABLE lock, so no append can land between the check and the import
+    const existing = await client.query('SELECT 1 FROM event_log LIMIT 1');
+    if (existing.rows.length > 0) {
+      throw new Error('ARCHIVE_TARGET_NOT_EMPTY');
+    }
+
+    for await (const row of readNdjson(join(archiveDir, manifest.files.events.name))) {
+      await client.query('INSERT INTO event_log SELECT * FROM jsonb_populate_record(NULL::event_log, $1::jsonb)', [row]);
+      eventsImported += 1;
+    }
+    for await (const row of readNdjson(join(archiveDir, manifest.files.artifacts.name))) {
+      await client.query(`
+        INSERT INTO artifact_log SELECT * FROM jsonb_populate_record(NULL::artifact_log, $1::jsonb)
+        ON CONFLICT (artifact_id) DO NOTHING
+      `, [row]);
+      artifactsImported += 1;
+    }
+    if (manifest.files.piiKeys) {
+      const wrappingKey = piiWrappingKey(signingKey);
+      for await (const line of readNdjson(join(archiveDir, manifest.files.piiKeys.name))) {
+        const row = JSON.parse(line) as ArchivedPiiKey;
+        // An existing key is kept, but a subject forgotten in either copy stays forgotten
+        await client.query(`
+          INSERT INTO pii_subject_keys (subject_id, key_material, created_at, forgotten_at, forgotten_by, forget_reason)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (subject_id) DO UPDATE
+          SET key_material = NULL,
+              forgotten_at = EXCLUDED.forgotten_at,
+              forgotten_by = EXCLUDED.forgotten_by,
+              forget_reason = EXCLUDED.forget_reason
+          WHERE EXCLUDED.forgotten_at IS NOT NULL AND pii_subject_keys.forgotten_at IS NULL
+        `, [
+          row.subjectId,
+          row.key ? unwrapKey(wrappingKey, row.subjectId, row.key) : null,
+          row.createdAt,
+          row.forgottenAt,
+          row.forgottenBy,
+          row.forgetReason,
+        ]);
+        piiKeysImported += 1;
+      }
+    }
+
+    await client.query('ALTER TABLE event_log ENABLE TRIGGER event_log_stamp_ingested_at');
+
+    const imported = await client.query(`
+      SELECT count(*) AS count
+      FROM event_log
+      WHERE grant_cycle_id = $1
+    `, [manifest.grantCycleId]);
+    if (Number(imported.rows[0].count) !== manifest.files.events.count) {
+      throw new Error(`ARCHIVE_COUNT_MISMATCH:${manifest.files.events.name}`);
+    }
+    if (manifest.lastWatermark) {
+      const last = await client.query(`
+        SELECT ingested_at, event_id
+        FROM event_log
+        WHERE grant_cycle_id = $1
+        ORDER BY ingested_at DESC, event_id DESC
+        LIMIT 1
+      `, [manifest.grantCycleId]);
+      if (
+        new Date(last.rows[0].ingested_at).toISOString() !== manifest.lastWatermark.ingestedAt
+        || last.rows[0].event_id !== manifest.lastWatermark.eventId
+      ) {
+        throw new Error('ARCHIVE_WATERMARK_MISMATCH');
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const rebuild = await rebuildAllProjections(pool);
+  return { manifest, eventsImported, artifactsImported, piiKeysImported, rebuild };
+}
+
+function requireSigningKey(signingKey: string): void {
+  if (!signingKey || signingKey.length < 16) {
+    throw new Error('ARCHIVE_SIGNING_KEY_MISSING');
+  }
+}
+
+interface ArchivedPiiKey {
+  subjectId: string;
+  createdAt: string;
+  forgottenAt: string | null;
+  forgottenBy: string | null;
+  forgetReason: string | null;
+  key: { iv: string; tag: string; data: string } | null;
+}
+
+function piiWrappingKey(signingKey: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', signingKey, Buffer.alloc(0), 'wvsnp-archive-pii-keys', 32));
+}
+
+function wrapKey(wrappingKey: Buffer, subjectId: string, keyMaterial: Buffer): NonNullable<ArchivedPiiKey['key']> {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', wrappingKey, iv);
+  cipher.setAAD(Buffer.from(subjectId, 'utf8'));
+  const data = Buffer.concat([cipher.update(keyMaterial), cipher.final()]);
+  return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+}
+
+function unwrapKey(wrappingKey: Buffer, subjectId: string, wrapped: NonNullable<ArchivedPiiKey['key']>): Buffer {
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', wrappingKey, Buffer.from(wrapped.iv, 'base64'));
+    decipher.setAAD(Buffer.from(subjectId, 'utf8'));
+    decipher.setAuthTag(Buffer.from(wrapped.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(wrapped.data, 'base64')), decipher.final()]);
+  } catch {
+    throw new Error('ARCHIVE_PII_KEY_INVALID');
+  }
+}
+
+function signManifest(unsigned: Omit<ArchiveManifest, 'signature'>, signingKey: string): string {
+  // Fixed key order: the manifest is re-serialized from parsed JSON on import
+  const canonical = JSON.stringify({
+    formatVersion: unsigned.formatVersion,
+    grantCycleId: unsigned.grantCycleId,
+    exportedAt: unsigned.exportedAt,
+    firstWatermark: unsigned.firstWatermark,
+    lastWatermark: unsigned.lastWatermark,
+    files: {
+      events: fileEntry(unsigned.files.events),
+      artifacts: fileEntry(unsigned.files.artifacts),
+      ...(unsigned.files.piiKeys ? { piiKeys: fileEntry(unsigned.files.piiKeys) } : {}),
+    },
+  });
+  return crypto.createHmac('sha256', signingKey).update(canonical, 'utf8').digest('hex');
+}
+
+function fileEntry(entry: ArchiveFileEntry): ArchiveFileEntry {
+  return { name: entry.name, count: entry.count, sha256: entry.sha256 };
+}
+
+async function writeNdjson<T>(
+  path: string,
+  produce: (write: (row: unknown) => Promise<void>) => Promise<T>
+): Promise<{ count: number; sha256: string; result: T }> {
+  const hash = crypto.createHash('sha256');
+  const handle = await fs.open(path, 'w');
+  let count = 0;
+  try {
+    const result = await produce(async (row) => {
+      const line = `${JSON.stringify(row)}\n`;
+      hash.update(line, 'utf8');
+      await handle.write(line, null, 'utf8');
+      count += 1;
+    });
+    return { count, sha256: hash.digest('hex'), result };
+  } finally {
+    await handle.close();
+  }
+}
+
+async function verifyFile(path: string, entry: ArchiveFileEntry): Promise<void> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  if (hash.digest('hex') !== entry.sha256) {
+    throw new Error(`ARCHIVE_FILE_HASH_MISMATCH:${entry.name}`);
+  }
+
+  let count = 0;
+  for await (const _row of readNdjson(path)) {
+    count += 1;
+  }
+  if (count !== entry.count) {
+    throw new Error(`ARCHIVE_COUNT_MISMATCH:${entry.name}`);
+  }
+}
+
+async function* readNdjson(path: string): AsyncGenerator<string> {
+  const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.length > 0) yield line;
+  }
+}
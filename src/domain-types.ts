@@ -174,6 +174,22 @@ export const GrantCycleCloseout = {
   },
 };
 
+export type GrantCycleAggregateId = string & { readonly brand: 'GrantCycleAggregateId' };
+
+export const GrantCycle = {
+  /**
+   * Deterministic hash-derived UUID for the grant cycle calendar aggregate.
+   * Formula: SHA-256("GrantCycle:" + grantCycleId) → first 32 hex → UUID format
+   */
+  createAggregateId: (grantCycleId: string): GrantCycleAggregateId => {
+    const hash = crypto.createHash('sha256')
+      .update(`GrantCycle:${grantCycleId}`, 'utf8')
+      .digest('hex');
+    const uuid = `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+    return uuid as GrantCycleAggregateId;
+  },
+};
+
 export const Allocator = {
   createId: (grantCycleId: string, countyCode: string): AllocatorId => {
     const hash = crypto.createHash('sha256')
@@ -163,6 +163,27 @@ export interface AttachEvidenceCommand {
   occurredAt: Date;
 }
 
+export interface AwardApplicationCommand {
+  commandId: string;
+  applicationId: ApplicationId;
+
+  // Award terms
+  awardedAmountCents: MoneyCents;
+  matchCommitmentCents: MoneyCents;
+  lirpAllocationCents: MoneyCents | null;  // carved out of the award; null = no LIRP bucket
+
+  // Decision record
+  policySnapshotId: string;
+  reason?: string;
+
+  // Context
+  orgId: string;
+  actorId: string;  // Admin principal
+  correlationId: string;
+  causationId: string | null;
+  occurredAt: Date;
+}
+
 // Event interfaces (repo-canon events)
 export interface ApplicationStartedEvent {
   eventType: 'APPLICATION_STARTED';
@@ -243,18 +264,19 @@ export interface ApplicationAwardedEvent {
   eventData: {
     grantId: string; // Links to grant creation
     awardedAmountCents: string;
-    matchLevel: string;
+    matchCommitmentCents: string;
+    lirpAllocationCents?: string;
     decisionBasis: {
-      ruleId: string;
-      policyVersion: string;
       policySnapshotId: string;
-      evidenceRefs: string[];
+      decidedBy: string;
+      decidedAt: string;
+      reason?: string;
     };
   };
   occurredAt: Date;
   grantCycleId: string;
   correlationId: string;
-  causationId: string;
+  causationId: string | null;
   actorId: string;
   actorType: 'ADMIN';
 }
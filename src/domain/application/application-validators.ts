@@ -4,6 +4,7 @@ import {
   StartApplicationCommand,
   SubmitApplicationCommand,
   AttachEvidenceCommand,
+  AwardApplicationCommand,
   ApplicationSection,
   EvidenceType,
   OrganizationType,
@@ -175,6 +176,61 @@ export function validateAttachEvidenceCommand(command: AttachEvidenceCommand): v
   validateActorContext(command.orgId, command.actorId);
 }
 
+/**
+ * Validates AwardApplicationCommand
+ */
+export function validateAwardApplicationCommand(command: AwardApplicationCommand): void {
+  // Required fields
+  if (!command.commandId) {
+    throw new Error('VALIDATION_ERROR: commandId is required');
+  }
+
+  if (!command.applicationId) {
+    throw new Error('VALIDATION_ERROR: applicationId is required');
+  }
+
+  if (!command.policySnapshotId) {
+    throw new Error('VALIDATION_ERROR: policySnapshotId is required');
+  }
+
+  if (!command.orgId) {
+    throw new Error('VALIDATION_ERROR: orgId is required');
+  }
+
+  if (!command.actorId) {
+    throw new Error('VALIDATION_ERROR: actorId is required');
+  }
+
+  if (!command.correlationId) {
+    throw new Error('VALIDATION_ERROR: correlationId is required');
+  }
+
+  if (!command.occurredAt) {
+    throw new Error('VALIDATION_ERROR: occurredAt is required');
+  }
+
+  // Business rule validations
+  if (command.awardedAmountCents <= 0n) {
+    throw new Error('VALIDATION_ERROR: awardedAmountCents must be positive');
+  }
+
+  if (command.matchCommitmentCents < 0n) {
+    throw new Error('VALIDATION_ERROR: matchCommitmentCents cannot be negative');
+  }
+
+  if (command.lirpAllocationCents !== null) {
+    if (command.lirpAllocationCents <= 0n) {
+      throw new Error('VALIDATION_ERROR: lirpAllocationCents must be positive when provided');
+    }
+    if (command.lirpAllocationCents > command.awardedAmountCents) {
+      throw new Error('VALIDATION_ERROR: lirpAllocationCents cannot exceed awardedAmountCents');
+    }
+  }
+
+  // Context validations
+  validateActorContext(command.orgId, command.actorId);
+}
+
 /**
  * Business rule validations
  */
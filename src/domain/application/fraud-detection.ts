@@ -51,7 +51,6 @@ export class FraudDetectionService {
       signalCode: 'SUSPICIOUSLY_SHORT_ORG_NAME',
       severity: 'MEDIUM',
       evidence: (ctx) => ({
-        organizationName: ctx.organizationName,
         length: ctx.organizationName.length
       }),
       condition: async (ctx) => {
@@ -0,0 +1,32 @@
+// === WEST VIRGINIA COUNTY REGISTRY ===
+// County codes are the upper-case county names with spaces removed. They key voucher code
+// allocators (one per grant cycle and county) and appear in voucher codes.
+
+export const WV_COUNTY_CODES = [
+  'BARBOUR', 'BERKELEY', 'BOONE', 'BRAXTON', 'BROOKE', 'CABELL', 'CALHOUN', 'CLAY',
+  'DODDRIDGE', 'FAYETTE', 'GILMER', 'GRANT', 'GREENBRIER', 'HAMPSHIRE', 'HANCOCK', 'HARDY',
+  'HARRISON', 'JACKSON', 'JEFFERSON', 'KANAWHA', 'LEWIS', 'LINCOLN', 'LOGAN', 'MCDOWELL',
+  'MARION', 'MARSHALL', 'MASON', 'MERCER', 'MINERAL', 'MINGO', 'MONONGALIA', 'MONROE',
+  'MORGAN', 'NICHOLAS', 'OHIO', 'PENDLETON', 'PLEASANTS', 'POCAHONTAS', 'PRESTON', 'PUTNAM',
+  'RALEIGH', 'RANDOLPH', 'RITCHIE', 'ROANE', 'SUMMERS', 'TAYLOR', 'TUCKER', 'TYLER',
+  'UPSHUR', 'WAYNE', 'WEBSTER', 'WETZEL', 'WIRT', 'WOOD', 'WYOMING',
+] as const;
+
+export type WvCountyCode = typeof WV_COUNTY_CODES[number];
+
+const COUNTY_CODES: ReadonlySet<string> = new Set(WV_COUNTY_CODES);
+
+export function isWvCountyCode(value: string): value is WvCountyCode {
+  return COUNTY_CODES.has(value);
+}
+
+/**
+ * Accepts a county code or county name in any case ("Kanawha", "McDowell") and returns its code.
+ */
+export function toWvCountyCode(input: string): WvCountyCode {
+  const code = input.trim().toUpperCase().replace(/\s+/g, '');
+  if (!isWvCountyCode(code)) {
+    throw new Error('COUNTY_CODE_INVALID');
+  }
+  return code;
+}
@@ -0,0 +1,187 @@
+// === GRANT CYCLE CALENDAR ===
+// Calendar dates are business days (YYYY-MM-DD) in the cycle's time zone, America/New_York
+// unless configured otherwise. A day passes at the following local midnight, so the UTC
+// instant of a deadline moves with daylight saving time.
+
+export const GRANT_CYCLE_TIME_ZONE = 'America/New_York';
+
+export type GrantCycleDeadlineEvent = 'GRANT_PERIOD_ENDED' | 'GRANT_CLAIMS_DEADLINE_PASSED';
+
+export interface InvoiceSchedule {
+  frequency: 'MONTHLY';
+  dayOfMonth: number;          // 1-28, so every month has the day
+}
+
+export interface GrantCycleCalendar {
+  periodStart: string;
+  periodEnd: string;
+  claimsDeadline: string;
+  invoiceSchedule: InvoiceSchedule;
+  fundCodes: string[];
+  timeZone: string;
+}
+
+export interface GrantCycleState {
+  grantCycleId: string;
+  calendar: GrantCycleCalendar | null;
+  createdAt: Date | null;
+  periodEndedAt: Date | null;
+  claimsDeadlinePassedAt: Date | null;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const FISCAL_YEAR_CYCLE_ID = /^FY(\d{4})$/;
+
+/**
+ * The standard West Virginia fiscal-year calendar for an FYyyyy cycle: July 1 through June 30,
+ * claims accepted until November 15. Returns null for cycle IDs not in that form.
+ */
+export function fiscalYearCalendar(grantCycleId: string): GrantCycleCalendar | null {
+  const match = FISCAL_YEAR_CYCLE_ID.exec(grantCycleId);
+  if (!match) return null;
+  const fiscalYear = Number(match[1]);
+  return {
+    periodStart: `${fiscalYear - 1}-07-01`,
+    periodEnd: `${fiscalYear}-06-30`,
+    claimsDeadline: `${fiscalYear}-11-15`,
+    invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 1 },
+    fundCodes: ['WVSNP'],
+    timeZone: GRANT_CYCLE_TIME_ZONE,
+  };
+}
+
+export function createInitialGrantCycleState(grantCycleId: string): GrantCycleState {
+  return {
+    grantCycleId,
+    calendar: null,
+    createdAt: null,
+    periodEndedAt: null,
+    claimsDeadlinePassedAt: null,
+  };
+}
+
+export function applyGrantCycleEvent(state: GrantCycleState, event: any): void {
+  const { eventType, eventData, ingestedAt } = event;
+
+  if (eventType === 'GRANT_CYCLE_CREATED') {
+    state.calendar = {
+      periodStart: eventData.periodStart as string,
+      periodEnd: eventData.periodEnd as string,
+      claimsDeadline: eventData.claimsDeadline as string,
+      invoiceSchedule: eventData.invoiceSchedule as InvoiceSchedule,
+      fundCodes: eventData.fundCodes as string[],
+      timeZone: (eventData.timeZone as string) || GRANT_CYCLE_TIME_ZONE,
+    };
+    state.createdAt = ingestedAt;
+  }
+
+  // Deadline events carry the boundary they mark; ingestedAt is only when the scheduler ran
+  if (eventType === 'GRANT_PERIOD_ENDED') {
+    state.periodEndedAt = new Date(eventData.boundaryAt as string);
+  }
+
+  if (eventType === 'GRANT_CLAIMS_DEADLINE_PASSED') {
+    state.claimsDeadlinePassedAt = new Date(eventData.boundaryAt as string);
+  }
+}
+
+export function checkGrantCycleInvariant(state: GrantCycleState): void {
+  if (state.calendar) {
+    assertGrantCycleCalendarValid(state.calendar);
+  }
+  if ((state.periodEndedAt || state.claimsDeadlinePassedAt) && !state.calendar) {
+    throw new Error('GRANT_CYCLE_INVARIANT: deadline event without calendar');
+  }
+}
+
+export function assertGrantCycleCalendarValid(calendar: GrantCycleCalendar): void {
+  const dates = [calendar.periodStart, calendar.periodEnd, calendar.claimsDeadline];
+  if (!dates.every(isCalendarDate)) {
+    throw new Error('GRANT_CYCLE_CALENDAR_INVALID');
+  }
+  // ISO dates order lexicographically
+  if (calendar.periodStart > calendar.periodEnd || calendar.periodEnd > calendar.claimsDeadline) {
+    throw new Error('GRANT_CYCLE_CALENDAR_INVALID');
+  }
+  const { dayOfMonth } = calendar.invoiceSchedule;
+  if (calendar.invoiceSchedule.frequency !== 'MONTHLY' || !Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 28) {
+    throw new Error('GRANT_CYCLE_CALENDAR_INVALID');
+  }
+  if (calendar.fundCodes.length === 0 || new Set(calendar.fundCodes).size !== calendar.fundCodes.length) {
+    throw new Error('GRANT_CYCLE_CALENDAR_INVALID');
+  }
+  if (!isTimeZone(calendar.timeZone)) {
+    throw new Error('GRANT_CYCLE_CALENDAR_INVALID');
+  }
+}
+
+/**
+ * The instant a deadline event becomes due: the end of its calendar day in the cycle's zone.
+ */
+export function deadlineBoundary(calendar: GrantCycleCalendar, eventType: GrantCycleDeadlineEvent): { date: string; boundaryAt: Date } {
+  const date = eventType === 'GRANT_PERIOD_ENDED' ? calendar.periodEnd : calendar.claimsDeadline;
+  return { date, boundaryAt: localDayEndsAt(date, calendar.timeZone) };
+}
+
+/**
+ * Deadline events whose boundary is at or before now and that have not been emitted, in
+ * boundary order (the period always ends no later than the claims deadline).
+ */
+export function dueGrantCycleDeadlines(state: GrantCycleState, now: Date): GrantCycleDeadlineEvent[] {
+  if (!state.calendar) return [];
+  const due: GrantCycleDeadlineEvent[] = [];
+  if (!state.periodEndedAt && deadlineBoundary(state.calendar, 'GRANT_PERIOD_ENDED').boundaryAt <= now) {
+    due.push('GRANT_PERIOD_ENDED');
+  }
+  if (!state.claimsDeadlinePassedAt && deadlineBoundary(state.calendar, 'GRANT_CLAIMS_DEADLINE_PASSED').boundaryAt <= now) {
+    due.push('GRANT_CLAIMS_DEADLINE_PASSED');
+  }
+  return due;
+}
+
+export function localDayStartsAt(date: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day);
+  // The offset at the guess can differ from the offset at the answer across a DST change
+  let instant = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  instant = wallClock - zoneOffsetMs(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+export function localDayEndsAt(date: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const nextDay = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+  return localDayStartsAt(nextDay, timeZone);
+}
+
+// Local wall-clock time minus UTC at the given instant
+function zoneOffsetMs(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+  const field = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+  const wallClock = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+function isCalendarDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,115 @@
+import { Money, MoneyCents } from '../../domain-types';
+import { GrantBucketType } from './grant-logic';
+
+// === BUDGET FORECAST ===
+// Pure projection of a grant bucket's balance forward from its recent velocity.
+// Inputs are read by the caller (balances projection, event log, vouchers projection).
+
+export const FORECAST_WINDOW_WEEKS = 8;
+export const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type BudgetMovementKind = 'ENCUMBERED' | 'RELEASED' | 'LIQUIDATED';
+
+export interface BudgetMovement {
+  bucketType: GrantBucketType;
+  kind: BudgetMovementKind;
+  amountCents: MoneyCents;
+  occurredAt: Date;
+}
+
+export interface ExpiringEncumbrance {
+  bucketType: GrantBucketType;
+  amountCents: MoneyCents;
+  expiresAt: Date;
+}
+
+export interface BucketForecast {
+  encumbranceCentsPerWeek: MoneyCents;
+  releaseCentsPerWeek: MoneyCents;
+  liquidationCentsPerWeek: MoneyCents;
+  expiringBeforePeriodEndCents: MoneyCents;   // returns to available when the vouchers expire
+  projectedExhaustionAt: Date | null;         // null: net draw is zero or negative
+  atRiskOfLapsing: boolean;
+}
+
+export function forecastWindowStart(now: Date): Date {
+  return new Date(now.getTime() - FORECAST_WINDOW_WEEKS * WEEK_MS);
+}
+
+/**
+ * An issued voucher's encumbrance split by bucket. A LIRP voucher holds its must-honor
+ * fallback in GENERAL, so only the rest returns to LIRP when it expires.
+ */
+export function expiringVoucherEncumbrances(
+  isLIRP: boolean,
+  maxReimbursementCents: MoneyCents,
+  lirpFallbackCents: MoneyCents,
+  expiresAt: Date
+): ExpiringEncumbrance[] {
+  if (!isLIRP) {
+    return [{ bucketType: 'GENERAL', amountCents: maxReimbursementCents, expiresAt }];
+  }
+  return [
+    { bucketType: 'LIRP' as const, amountCents: Money.fromBigInt(maxReimbursementCents - lirpFallbackCents), expiresAt },
+    { bucketType: 'GENERAL' as const, amountCents: lirpFallbackCents, expiresAt },
+  ].filter((encumbrance) => encumbrance.amountCents > 0n);
+}
+
+/**
+ * Average weekly amount of one movement kind over the trailing window ending at now.
+ */
+export function weeklyVelocity(movements: BudgetMovement[], kind: BudgetMovementKind, now: Date): MoneyCents {
+  const windowStart = forecastWindowStart(now);
+  const total = movements
+    .filter((movement) => movement.kind === kind && movement.occurredAt >= windowStart && movement.occurredAt < now)
+    .reduce((sum, movement) => sum + movement.amountCents, 0n);
+  return Money.fromBigInt(total / BigInt(FORECAST_WINDOW_WEEKS));
+}
+
+/**
+ * Buckets run down at encumbrance minus release velocity. Encumbrances expiring before the
+ * period ends are counted as available again. A bucket is at risk of lapsing when money would
+ * still be left at the end of the period at the current pace.
+ */
+export function forecastBucket(
+  bucketType: GrantBucketType,
+  availableCents: MoneyCents,
+  movements: BudgetMovement[],
+  expiring: ExpiringEncumbrance[],
+  now: Date,
+  periodEndsAt: Date | null
+): BucketForecast {
+  const bucketMovements = movements.filter((movement) => movement.bucketType === bucketType);
+  const encumbranceCentsPerWeek = weeklyVelocity(bucketMovements, 'ENCUMBERED', now);
+  const releaseCentsPerWeek = weeklyVelocity(bucketMovements, 'RELEASED', now);
+  const liquidationCentsPerWeek = weeklyVelocity(bucketMovements, 'LIQUIDATED', now);
+
+  const expiringBeforePeriodEndCents = expiring
+    .filter((encumbrance) => encumbrance.bucketType === bucketType)
+    .filter((encumbrance) => encumbrance.expiresAt >= now && (periodEndsAt === null || encumbrance.expiresAt < periodEndsAt))
+    .reduce((sum, encumbrance) => sum + encumbrance.amountCents, 0n);
+
+  const supplyCents = availableCents + expiringBeforePeriodEndCents;
+  const netDrawCentsPerWeek = encumbranceCentsPerWeek - releaseCentsPerWeek;
+  let projectedExhaustionAt: Date | null = null;
+  if (supplyCents === 0n) {
+    projectedExhaustionAt = now;
+  } else if (netDrawCentsPerWeek > 0n) {
+    const msToExhaustion = (supplyCents * BigInt(WEEK_MS) + netDrawCentsPerWeek - 1n) / netDrawCentsPerWeek;
+    projectedExhaustionAt = new Date(now.getTime() + Number(msToExhaustion));
+  }
+
+  const atRiskOfLapsing = periodEndsAt !== null
+    && now < periodEndsAt
+    && supplyCents > 0n
+    && (projectedExhaustionAt === null || projectedExhaustionAt > periodEndsAt);
+
+  return {
+    encumbranceCentsPerWeek,
+    releaseCentsPerWeek,
+    liquidationCentsPerWeek,
+    expiringBeforePeriodEndCents: Money.fromBigInt(expiringBeforePeriodEndCents),
+    projectedExhaustionAt,
+    atRiskOfLapsing,
+  };
+}
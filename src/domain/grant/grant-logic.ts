@@ -1,4 +1,4 @@
-import { MoneyCents, Money } from '../../domain-types';
+import { MoneyCents, Money, RateEngine, ReimbursementRate } from '../../domain-types';
 
 export interface BucketState {
   awardedCents: MoneyCents;
@@ -6,29 +6,280 @@ export interface BucketState {
   encumberedCents: MoneyCents;
   liquidatedCents: MoneyCents;
   releasedCents: MoneyCents;
+  // Rate set by GRANT_CREATED. Amendments only add to metadata.rateHistory, so a claim is
+  // priced by rateForClaimSubmittedAt and never by whatever rate is current.
   rateNumeratorCents: MoneyCents;
   rateDenominatorCents: MoneyCents;
   matchingCommittedCents: MoneyCents;
   matchingReportedCents: MoneyCents;
 }
 
+export type GrantBucketType = 'GENERAL' | 'LIRP';
+
+// Rate in force from effectiveFrom (null: from GRANT_CREATED) until the next entry
+export interface GrantRatePeriod {
+  effectiveFrom: Date | null;
+  rate: ReimbursementRate;
+}
+
+export type MatchType = 'CASH' | 'IN_KIND';
+
+export interface MatchingFundsReport {
+  reportId: string;
+  matchType: MatchType;
+  periodStart: string;         // YYYY-MM-DD
+  periodEnd: string;
+  amountCents: MoneyCents;     // as reported, or as last adjusted by an admin
+  evidenceArtifactIds: string[];
+  status: 'REPORTED' | 'ADJUSTED';
+}
+
+// LIRP vouchers whose encumbrance fell back to GENERAL under must-honor, and their claims
+export interface LirpFallbackTotals {
+  voucherCount: number;
+  encumberedCents: MoneyCents;
+  claimCount: number;
+  liquidatedCents: MoneyCents;
+  releasedCents: MoneyCents;      // returned by voided vouchers
+}
+
 export type GrantStatus = 'CREATED' | 'AGREEMENT_SIGNED' | 'ACTIVE' | 'SUSPENDED' | 'CLOSED';
 
 export interface GrantMetadata {
   grantId: string;
   grantCycleId: string;
   applicationId: string | null;
+  granteeId: string | null;
   status: GrantStatus;
   lirpEnabled: boolean;
   lirpMustHonor: boolean;
+  lirpMustHonorEnforcedAt: Date | null;
+  lirpFallback: LirpFallbackTotals;
   agreementSignedAt: Date | null;
   activatedAt: Date | null;
   suspendedAt: Date | null;
   reinstatedAt: Date | null;
   closedAt: Date | null;
+  rateHistory: GrantRatePeriod[];
+  matchingReports: MatchingFundsReport[];
 }
 
-export type GrantState = Map<'GENERAL' | 'LIRP', BucketState> & { metadata?: GrantMetadata };
+export type GrantState = Map<GrantBucketType, BucketState> & { metadata?: GrantMetadata };
+
+// === LIFECYCLE TRANSITIONS ===
+export type GrantTransitionEvent =
+  | 'GRANT_AGREEMENT_SIGNED'
+  | 'GRANT_ACTIVATED'
+  | 'GRANT_SUSPENDED'
+  | 'GRANT_REINSTATED'
+  | 'GRANT_CLOSED';
+
+export const GRANT_TRANSITIONS: Record<GrantTransitionEvent, { from: GrantStatus[]; reasonCodes: string[] | null }> = {
+  GRANT_AGREEMENT_SIGNED: { from: ['CREATED'], reasonCodes: null },
+  GRANT_ACTIVATED: { from: ['AGREEMENT_SIGNED'], reasonCodes: null },
+  GRANT_SUSPENDED: {
+    from: ['ACTIVE'],
+    reasonCodes: ['COMPLIANCE_REVIEW', 'AUDIT_FINDING', 'REPORTING_OVERDUE', 'GRANTEE_REQUEST', 'OTHER'],
+  },
+  GRANT_REINSTATED: {
+    from: ['SUSPENDED'],
+    reasonCodes: ['COMPLIANCE_RESTORED', 'AUDIT_RESOLVED', 'REPORTING_RECEIVED', 'GRANTEE_REQUEST', 'OTHER'],
+  },
+  GRANT_CLOSED: {
+    from: ['ACTIVE', 'SUSPENDED'],
+    reasonCodes: ['PERIOD_COMPLETE', 'FUNDS_EXHAUSTED', 'TERMINATED_FOR_CAUSE', 'GRANTEE_REQUEST', 'OTHER'],
+  },
+};
+
+/**
+ * Guard for lifecycle commands. Closing also requires every voucher to be settled:
+ * an open encumbrance would be stranded on a grant that can no longer liquidate it.
+ */
+export function assertGrantTransition(state: GrantState, eventType: GrantTransitionEvent, reasonCode: string | null): void {
+  if (!state.metadata) {
+    throw new Error('GRANT_NOT_FOUND');
+  }
+  const transition = GRANT_TRANSITIONS[eventType];
+  if (!transition.from.includes(state.metadata.status)) {
+    throw new Error('GRANT_TRANSITION_INVALID');
+  }
+  if (transition.reasonCodes && (!reasonCode || !transition.reasonCodes.includes(reasonCode))) {
+    throw new Error('GRANT_REASON_CODE_INVALID');
+  }
+  if (eventType === 'GRANT_CLOSED' && [...state.values()].some((b) => b.encumberedCents > 0n)) {
+    throw new Error('GRANT_HAS_OPEN_ENCUMBRANCES');
+  }
+}
+
+/**
+ * Only ACTIVE grants encumber funds for new vouchers.
+ */
+export function assertGrantIssuing(state: GrantState): void {
+  switch (state.metadata?.status) {
+    case 'ACTIVE':
+      return;
+    case 'SUSPENDED':
+      throw new Error('GRANT_SUSPENDED');
+    case 'CLOSED':
+      throw new Error('GRANT_CLOSED');
+    case undefined:
+      throw new Error('GRANT_NOT_FOUND');
+    default:
+      throw new Error('GRANT_NOT_ACTIVE');
+  }
+}
+
+// === AMENDMENTS AND REALLOCATION ===
+export interface GrantAwardAmendment {
+  awardedAmountCents: MoneyCents;
+  matchCommitmentCents: MoneyCents;
+  lirpAllocationCents: MoneyCents | null;  // required exactly when the grant has a LIRP bucket
+}
+
+/**
+ * An amendment sets the award outright; each bucket moves by the difference, so it may not
+ * drop below what vouchers have already encumbered or claims liquidated. Returns the
+ * recalculated rate, which applies to claims submitted from the amendment onward.
+ */
+export function assertAwardAmendment(state: GrantState, amendment: GrantAwardAmendment): ReimbursementRate {
+  assertGrantOpenForBudgetChange(state);
+  const lirp = state.get('LIRP');
+  if ((lirp === undefined) !== (amendment.lirpAllocationCents === null)) {
+    throw new Error('GRANT_LIRP_ALLOCATION_INVALID');
+  }
+  const lirpAllocationCents = amendment.lirpAllocationCents ?? 0n;
+  if (lirpAllocationCents > amendment.awardedAmountCents) {
+    throw new Error('GRANT_LIRP_ALLOCATION_INVALID');
+  }
+
+  const targets: Array<[GrantBucketType, bigint]> = [['GENERAL', amendment.awardedAmountCents - lirpAllocationCents]];
+  if (lirp) targets.push(['LIRP', lirpAllocationCents]);
+  for (const [bucket, awardedCents] of targets) {
+    const b = state.get(bucket)!;
+    if (awardedCents < b.encumberedCents + b.liquidatedCents) {
+      throw new Error('GRANT_AMENDMENT_BELOW_COMMITTED');
+    }
+  }
+
+  const general = state.get('GENERAL')!;
+  const unchanged = targets.every(([bucket, awardedCents]) => state.get(bucket)!.awardedCents === awardedCents)
+    && general.matchingCommittedCents === amendment.matchCommitmentCents;
+  if (unchanged) {
+    throw new Error('GRANT_AMENDMENT_NO_CHANGE');
+  }
+  return RateEngine.create(amendment.awardedAmountCents, amendment.matchCommitmentCents);
+}
+
+/**
+ * Moves unencumbered dollars between buckets. The total award and the rate are unchanged.
+ */
+export function assertBucketReallocation(state: GrantState, fromBucket: GrantBucketType, toBucket: GrantBucketType, amountCents: MoneyCents): void {
+  assertGrantOpenForBudgetChange(state);
+  const from = state.get(fromBucket);
+  if (fromBucket === toBucket || !from || !state.get(toBucket) || amountCents <= 0n) {
+    throw new Error('GRANT_REALLOCATION_INVALID');
+  }
+  if (from.availableCents < amountCents) {
+    throw new Error('GRANT_REALLOCATION_EXCEEDS_AVAILABLE');
+  }
+}
+
+// === LIRP MUST-HONOR ===
+export interface LirpEncumbrancePlan {
+  lirpCents: MoneyCents;
+  generalFallbackCents: MoneyCents;
+}
+
+export function assertLirpMustHonorEnforceable(state: GrantState): void {
+  if (!state.metadata) {
+    throw new Error('GRANT_NOT_FOUND');
+  }
+  if (state.metadata.status === 'CLOSED') {
+    throw new Error('GRANT_CLOSED');
+  }
+  if (!state.metadata.lirpEnabled || !state.get('LIRP')) {
+    throw new Error('LIRP_NOT_ENABLED');
+  }
+  if (state.metadata.lirpMustHonor) {
+    throw new Error('LIRP_MUST_HONOR_ALREADY_ENFORCED');
+  }
+}
+
+/**
+ * Splits a LIRP voucher's encumbrance between buckets. Without must-honor the LIRP bucket
+ * must cover it alone; with must-honor the shortfall is encumbered from GENERAL.
+ */
+export function planLirpEncumbrance(state: GrantState, amountCents: MoneyCents): LirpEncumbrancePlan {
+  const lirp = state.get('LIRP');
+  if (!lirp) {
+    throw new Error('LIRP_NOT_ENABLED');
+  }
+  if (lirp.availableCents >= amountCents) {
+    return { lirpCents: amountCents, generalFallbackCents: Money.fromBigInt(0n) };
+  }
+  const generalFallbackCents = amountCents - lirp.availableCents;
+  if (!state.metadata?.lirpMustHonor || state.get('GENERAL')!.availableCents < generalFallbackCents) {
+    throw new Error('INSUFFICIENT_FUNDS');
+  }
+  return { lirpCents: lirp.availableCents, generalFallbackCents: Money.fromBigInt(generalFallbackCents) };
+}
+
+/**
+ * Under must-honor a LIRP claim is neither denied nor paid below what the voucher covers.
+ */
+export function assertLirpMustHonorDecision(
+  state: GrantState,
+  decision: 'APPROVE' | 'DENY',
+  submittedAmountCents: MoneyCents,
+  maxReimbursementCents: MoneyCents,
+  approvedAmountCents: MoneyCents | undefined
+): void {
+  if (!state.metadata?.lirpMustHonor) {
+    return;
+  }
+  if (decision === 'DENY') {
+    throw new Error('LIRP_MUST_HONOR_DENIAL_FORBIDDEN');
+  }
+  const honoredCents = submittedAmountCents < maxReimbursementCents ? submittedAmountCents : maxReimbursementCents;
+  if (approvedAmountCents !== undefined && approvedAmountCents < honoredCents) {
+    throw new Error('LIRP_MUST_HONOR_UNDERPAYMENT');
+  }
+}
+
+/**
+ * Liquidates the LIRP part of a voucher's encumbrance first, then its GENERAL fallback.
+ */
+export function splitLirpLiquidation(
+  maxReimbursementCents: MoneyCents,
+  lirpFallbackCents: MoneyCents,
+  approvedAmountCents: MoneyCents
+): LirpEncumbrancePlan {
+  const lirpEncumberedCents = maxReimbursementCents - lirpFallbackCents;
+  const lirpCents = approvedAmountCents < lirpEncumberedCents ? approvedAmountCents : lirpEncumberedCents;
+  return { lirpCents: Money.fromBigInt(lirpCents), generalFallbackCents: Money.fromBigInt(approvedAmountCents - lirpCents) };
+}
+
+function assertGrantOpenForBudgetChange(state: GrantState): void {
+  if (!state.metadata || !state.get('GENERAL')) {
+    throw new Error('GRANT_NOT_FOUND');
+  }
+  if (state.metadata.status === 'CLOSED') {
+    throw new Error('GRANT_CLOSED');
+  }
+}
+
+/**
+ * Rate for a claim: the one in force when the claim was submitted. Amendments never reprice
+ * claims submitted before them.
+ */
+export function rateForClaimSubmittedAt(state: GrantState, submittedAt: Date): ReimbursementRate {
+  const history = state.metadata?.rateHistory ?? [];
+  const period = [...history].reverse().find((entry) => entry.effectiveFrom === null || entry.effectiveFrom <= submittedAt);
+  if (!period) {
+    throw new Error('GRANT_RATE_NOT_FOUND');
+  }
+  return period.rate;
+}
 
 export function createInitialGrantState(): GrantState {
   return new Map() as GrantState;
@@ -45,10 +296,10 @@ export function applyGrantEvent(state: GrantState, event: any): void {
     const lirpEnabled = eventData.lirpEnabled as boolean;
     const lirpAllocationCents = lirpEnabled ? Money.fromJSON(eventData.lirpAllocationCents as string) : Money.fromBigInt(0n);
 
-    // GENERAL bucket
+    // GENERAL bucket: the LIRP allocation is carved out of the award
     state.set('GENERAL', {
-      awardedCents: awardedAmountCents,
-      availableCents: lirpEnabled ? Money.fromBigInt(awardedAmountCents - lirpAllocationCents) : awardedAmountCents,
+      awardedCents: Money.fromBigInt(awardedAmountCents - lirpAllocationCents),
+      availableCents: Money.fromBigInt(awardedAmountCents - lirpAllocationCents),
       encumberedCents: Money.fromBigInt(0n),
       liquidatedCents: Money.fromBigInt(0n),
       releasedCents: Money.fromBigInt(0n),
@@ -75,17 +326,57 @@ export function applyGrantEvent(state: GrantState, event: any): void {
 
     state.metadata = {
       grantId: eventData.grantId as string || '',
-      grantCycleId: eventData.grantCycleId as string || '',
+      grantCycleId: eventData.grantCycleId as string || event.grantCycleId || '',
       applicationId: eventData.applicationId as string || null,
+      granteeId: eventData.granteeId as string || null,
       status: 'CREATED',
       lirpEnabled,
       lirpMustHonor: false,
+      lirpMustHonorEnforcedAt: null,
+      lirpFallback: { voucherCount: 0, encumberedCents: Money.fromBigInt(0n), claimCount: 0, liquidatedCents: Money.fromBigInt(0n), releasedCents: Money.fromBigInt(0n) },
       agreementSignedAt: null,
       activatedAt: null,
       suspendedAt: null,
       reinstatedAt: null,
       closedAt: null,
+      rateHistory: [{ effectiveFrom: null, rate: { numeratorCents: rateNumeratorCents, denominatorCents: rateDenominatorCents } }],
+      matchingReports: [],
+    };
+  }
+
+  if (eventType === 'GRANT_AWARD_AMENDED') {
+    const awardedAmountCents = Money.fromJSON(eventData.awardedAmountCents as string);
+    const lirpAllocationCents = eventData.lirpAllocationCents !== undefined
+      ? Money.fromJSON(eventData.lirpAllocationCents as string)
+      : Money.fromBigInt(0n);
+    const rate = {
+      numeratorCents: Money.fromJSON(eventData.rateNumeratorCents as string),
+      denominatorCents: Money.fromJSON(eventData.rateDenominatorCents as string),
     };
+
+    const targets: Array<[GrantBucketType, bigint]> = [['GENERAL', awardedAmountCents - lirpAllocationCents]];
+    if (state.get('LIRP')) targets.push(['LIRP', lirpAllocationCents]);
+    for (const [bucket, awardedCents] of targets) {
+      const b = state.get(bucket);
+      if (!b) throw new Error(`BUCKET_MISSING:${bucket}`);
+      const delta = awardedCents - b.awardedCents;
+      b.awardedCents = Money.fromBigInt(awardedCents);
+      b.availableCents = Money.fromBigInt(b.availableCents + delta);
+    }
+    state.get('GENERAL')!.matchingCommittedCents = Money.fromJSON(eventData.matchCommitmentCents as string);
+    state.metadata?.rateHistory.push({ effectiveFrom: new Date(eventData.rateEffectiveFrom as string), rate });
+  }
+
+  if (eventType === 'GRANT_BUCKET_REALLOCATED') {
+    const amountCents = Money.fromJSON(eventData.amountCents as string);
+    const from = state.get(eventData.fromBucket as GrantBucketType);
+    const to = state.get(eventData.toBucket as GrantBucketType);
+    if (!from) throw new Error(`BUCKET_MISSING:${eventData.fromBucket}`);
+    if (!to) throw new Error(`BUCKET_MISSING:${eventData.toBucket}`);
+    from.awardedCents = Money.fromBigInt(from.awardedCents - amountCents);
+    from.availableCents = Money.fromBigInt(from.availableCents - amountCents);
+    to.awardedCents = Money.fromBigInt(to.awardedCents + amountCents);
+    to.availableCents = Money.fromBigInt(to.availableCents + amountCents);
   }
 
   if (eventType === 'GRANT_AGREEMENT_SIGNED') {
@@ -126,6 +417,24 @@ export function applyGrantEvent(state: GrantState, event: any): void {
   if (eventType === 'LIRP_MUST_HONOR_ENFORCED') {
     if (state.metadata) {
       state.metadata.lirpMustHonor = true;
+      state.metadata.lirpMustHonorEnforcedAt = event.ingestedAt || new Date();
+    }
+  }
+
+  // GENERAL-bucket movements made on behalf of a LIRP voucher carry lirpFallback
+  if (eventData?.lirpFallback === true && state.metadata) {
+    const amountCents = Money.fromJSON(eventData.amountCents as string);
+    const totals = state.metadata.lirpFallback;
+    if (eventType === 'GRANT_FUNDS_ENCUMBERED') {
+      totals.voucherCount += 1;
+      totals.encumberedCents = Money.fromBigInt(totals.encumberedCents + amountCents);
+    }
+    if (eventType === 'GRANT_FUNDS_LIQUIDATED') {
+      totals.claimCount += 1;
+      totals.liquidatedCents = Money.fromBigInt(totals.liquidatedCents + amountCents);
+    }
+    if (eventType === 'GRANT_FUNDS_RELEASED') {
+      totals.releasedCents = Money.fromBigInt(totals.releasedCents + amountCents);
     }
   }
 
@@ -165,16 +474,103 @@ export function applyGrantEvent(state: GrantState, event: any): void {
     const b = state.get('GENERAL');
     if (!b) throw new Error('GENERAL_BUCKET_MISSING');
     b.matchingReportedCents = Money.fromBigInt(b.matchingReportedCents + amountCents);
+    state.metadata?.matchingReports.push({
+      reportId: eventData.reportId as string,
+      matchType: eventData.matchType as MatchType,
+      periodStart: eventData.periodStart as string,
+      periodEnd: eventData.periodEnd as string,
+      amountCents,
+      evidenceArtifactIds: [...((eventData.evidenceArtifactIds as string[] | undefined) ?? [])],
+      status: 'REPORTED',
+    });
   }
 
+  // An adjustment replaces the report's amount; reported-to-date moves by the difference
   if (eventType === 'MATCHING_FUNDS_ADJUSTED') {
-    const amountCents = Money.fromJSON(eventData.amountCents as string);
+    const previousAmountCents = Money.fromJSON(eventData.previousAmountCents as string);
+    const adjustedAmountCents = Money.fromJSON(eventData.adjustedAmountCents as string);
     const b = state.get('GENERAL');
     if (!b) throw new Error('GENERAL_BUCKET_MISSING');
-    b.matchingReportedCents = Money.fromBigInt(b.matchingReportedCents + amountCents);
+    b.matchingReportedCents = Money.fromBigInt(b.matchingReportedCents - previousAmountCents + adjustedAmountCents);
+    // Upcast v1 adjustments and legacy reports carry no reportId; they never match
+    const report = eventData.reportId === undefined
+      ? undefined
+      : state.metadata?.matchingReports.find((candidate) => candidate.reportId === eventData.reportId);
+    if (report) {
+      report.amountCents = adjustedAmountCents;
+      report.status = 'ADJUSTED';
+      if (eventData.evidenceArtifactIds) {
+        report.evidenceArtifactIds = [...(eventData.evidenceArtifactIds as string[])];
+      }
+    }
+  }
+}
+
+// === MATCHING FUNDS ===
+export interface MatchToDate {
+  committedCents: MoneyCents;
+  reportedCents: MoneyCents;
+  shortfallCents: MoneyCents;
+  surplusCents: MoneyCents;
+  cashCents: MoneyCents;
+  inKindCents: MoneyCents;
+  evidenceArtifactIds: string[];   // distinct, in report order
+}
+
+export function assertMatchingFundsReport(
+  state: GrantState,
+  report: { reportId: string; periodStart: string; periodEnd: string; amountCents: MoneyCents; evidenceArtifactIds: string[] }
+): void {
+  if (!state.metadata || !state.get('GENERAL')) {
+    throw new Error('GRANT_NOT_FOUND');
+  }
+  if (state.metadata.matchingReports.some((existing) => existing.reportId === report.reportId)) {
+    throw new Error('MATCHING_FUNDS_REPORT_EXISTS');
+  }
+  if (report.amountCents <= 0n) {
+    throw new Error('MATCHING_FUNDS_AMOUNT_INVALID');
+  }
+  if (report.periodStart > report.periodEnd) {
+    throw new Error('MATCHING_FUNDS_PERIOD_INVALID');
+  }
+  if (report.evidenceArtifactIds.length === 0) {
+    throw new Error('MATCHING_FUNDS_EVIDENCE_REQUIRED');
   }
 }
 
+/**
+ * Returns the report being adjusted.
+ */
+export function assertMatchingFundsAdjustment(state: GrantState, reportId: string, adjustedAmountCents: MoneyCents): MatchingFundsReport {
+  const report = state.metadata?.matchingReports.find((candidate) => candidate.reportId === reportId);
+  if (!report) {
+    throw new Error('MATCHING_FUNDS_REPORT_NOT_FOUND');
+  }
+  if (adjustedAmountCents === report.amountCents) {
+    throw new Error('MATCHING_FUNDS_ADJUSTMENT_NO_CHANGE');
+  }
+  return report;
+}
+
+export function matchToDate(state: GrantState): MatchToDate {
+  const general = state.get('GENERAL');
+  const committedCents = general?.matchingCommittedCents ?? 0n;
+  const reportedCents = general?.matchingReportedCents ?? 0n;
+  const reports = state.metadata?.matchingReports ?? [];
+  const sumOf = (matchType: MatchType) => reports
+    .filter((report) => report.matchType === matchType)
+    .reduce((sum, report) => sum + report.amountCents, 0n);
+  return {
+    committedCents: Money.fromBigInt(committedCents),
+    reportedCents: Money.fromBigInt(reportedCents),
+    shortfallCents: Money.fromBigInt(committedCents > reportedCents ? committedCents - reportedCents : 0n),
+    surplusCents: Money.fromBigInt(reportedCents > committedCents ? reportedCents - committedCents : 0n),
+    cashCents: Money.fromBigInt(sumOf('CASH')),
+    inKindCents: Money.fromBigInt(sumOf('IN_KIND')),
+    evidenceArtifactIds: [...new Set(reports.flatMap((report) => report.evidenceArtifactIds))],
+  };
+}
+
 export function checkGrantInvariant(state: GrantState): void {
   for (const [bucket, b] of state) {
     if (b.availableCents + b.encumberedCents + b.liquidatedCents !== b.awardedCents) {
@@ -1,7 +1,13 @@
 import { AllocatorId, VoucherId } from '../../domain-types';
+import { isWvCountyCode } from '../county/county-registry';
+
+// County segment (and allocator key) of the one allocator per cycle used before per-county allocation
+export const LEGACY_ALLOCATOR_COUNTY = 'COUNTY';
 
 export interface AllocatorState {
   allocatorId: AllocatorId;
+  grantCycleId: string | null;
+  countyCode: string | null;    // null for allocators created before per-county allocation
   nextSequence: number;
   allocatedCodes: Set<string>;
 }
@@ -9,6 +15,8 @@ export interface AllocatorState {
 export function createInitialAllocatorState(allocatorId: AllocatorId): AllocatorState {
   return {
     allocatorId,
+    grantCycleId: null,
+    countyCode: null,
     nextSequence: 1,
     allocatedCodes: new Set(),
   };
@@ -18,7 +26,8 @@ export function applyAllocatorEvent(state: AllocatorState, event: any): void {
   const { eventType, eventData } = event;
 
   if (eventType === 'VOUCHER_CODE_ALLOCATOR_INITIALIZED') {
-    // No change, already initialized
+    state.grantCycleId = eventData.grantCycleId as string;
+    state.countyCode = eventData.countyCode as string;
   }
 
   if (eventType === 'VOUCHER_CODE_ALLOCATED') {
@@ -33,5 +42,75 @@ export function checkAllocatorInvariant(state: AllocatorState): void {
 }
 
 export function generateVoucherCode(grantCycleId: string, countyCode: string, sequence: number, year: string): string {
-  return `WVSNP-${countyCode}-${year}-${sequence.toString().padStart(4, '0')}`;
+  const body = `${countyCode}-${year}-${sequence.toString().padStart(4, '0')}`;
+  return `WVSNP-${body}-${voucherCheckCharacter(body)}`;
+}
+
+// === CHECK CHARACTER ===
+// Luhn mod 36 over county, year and sequence: catches any single mistyped character and
+// swapped neighbours. Codes issued before check characters (no fifth segment) stay valid as-is.
+
+const CHECK_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const CHECKED_CODE = /^WVSNP-([A-Z]+)-(\d{4})-(\d{4,})-([0-9A-Z])$/;
+
+export type VoucherCodeCheck =
+  | { status: 'VALID'; voucherCode: string }
+  | { status: 'UNCHECKED'; voucherCode: string }          // legacy code, look up verbatim
+  | { status: 'CHECK_FAILED'; voucherCode: string; candidates: string[] };
+
+export function voucherCheckCharacter(body: string): string {
+  const n = CHECK_ALPHABET.length;
+  const points = body.replace(/-/g, '').split('').map((char) => CHECK_ALPHABET.indexOf(char));
+  if (points.some((point) => point < 0)) {
+    throw new Error('VOUCHER_CODE_INVALID');
+  }
+  let sum = 0;
+  let factor = 2;
+  for (let i = points.length - 1; i >= 0; i--) {
+    const addend = factor * points[i];
+    sum += Math.floor(addend / n) + (addend % n);
+    factor = factor === 2 ? 1 : 2;
+  }
+  return CHECK_ALPHABET[(n - (sum % n)) % n];
+}
+
+/**
+ * Validates a typed voucher code. When the check character does not match, candidates lists
+ * the well-formed codes one typo away (one character changed, or two neighbours swapped);
+ * the caller narrows them to codes that exist.
+ */
+export function checkVoucherCode(input: string): VoucherCodeCheck {
+  const trimmed = input.trim();
+  const match = CHECKED_CODE.exec(trimmed.toUpperCase());
+  if (!match) {
+    return { status: 'UNCHECKED', voucherCode: trimmed };
+  }
+  const voucherCode = match[0];
+  const [, county, year, sequence, check] = match;
+  if (voucherCheckCharacter(`${county}-${year}-${sequence}`) === check) {
+    return { status: 'VALID', voucherCode };
+  }
+
+  const candidates = new Set<string>();
+  const consider = (segments: string[], checkChar: string) => {
+    if (isWvCountyCode(segments[0]) && voucherCheckCharacter(segments.join('-')) === checkChar) {
+      candidates.add(`WVSNP-${segments.join('-')}-${checkChar}`);
+    }
+  };
+  const segments = [county, year, sequence];
+  consider(segments, voucherCheckCharacter(segments.join('-')));
+  segments.forEach((segment, index) => {
+    const alphabet = index === 0 ? CHECK_ALPHABET.slice(10) : CHECK_ALPHABET.slice(0, 10);
+    const replace = (value: string) => segments.map((original, i) => (i === index ? value : original));
+    for (let pos = 0; pos < segment.length; pos++) {
+      for (const char of alphabet) {
+        consider(replace(segment.slice(0, pos) + char + segment.slice(pos + 1)), check);
+      }
+      if (pos + 1 < segment.length) {
+        consider(replace(segment.slice(0, pos) + segment[pos + 1] + segment[pos] + segment.slice(pos + 2)), check);
+      }
+    }
+  });
+  candidates.delete(voucherCode);
+  return { status: 'CHECK_FAILED', voucherCode, candidates: [...candidates].sort() };
 }
@@ -1,4 +1,5 @@
 import { MoneyCents, Money } from '../../domain-types';
+import { GrantBucketType } from '../grant/grant-logic';
 
 export type VoucherStatus = 'TENTATIVE' | 'ISSUED' | 'REDEEMED' | 'EXPIRED' | 'VOIDED';
 
@@ -6,9 +7,11 @@ export interface VoucherState {
   voucherId: string;
   grantId: string;
   voucherCode: string | null;
+  countyCode: string | null;
   status: VoucherStatus;
   maxReimbursementCents: MoneyCents;
   isLIRP: boolean;
+  lirpFallbackCents: MoneyCents;  // part of a LIRP voucher's encumbrance held in GENERAL (must-honor)
   tentativeExpiresAt: Date | null;
   expiresAt: Date | null;
   issuedAt: Date | null;
@@ -22,9 +25,11 @@ export function createInitialVoucherState(voucherId: string, grantId: string): V
     voucherId,
     grantId,
     voucherCode: null,
+    countyCode: null,
     status: 'TENTATIVE',
     maxReimbursementCents: Money.fromBigInt(0n),
     isLIRP: false,
+    lirpFallbackCents: Money.fromBigInt(0n),
     tentativeExpiresAt: null,
     expiresAt: null,
     issuedAt: null,
@@ -42,14 +47,21 @@ export function applyVoucherEvent(state: VoucherState, event: any): void {
     state.maxReimbursementCents = maxReimbursementCents;
     state.tentativeExpiresAt = new Date(eventData.tentativeExpiresAt as string);
     state.expiresAt = state.tentativeExpiresAt;
+    state.countyCode = eventData.countyCode as string || null;
     // status already TENTATIVE
   }
 
   if (eventType === 'VOUCHER_ISSUED') {
     state.voucherCode = eventData.voucherCode as string;
+    if (eventData.countyCode) {
+      state.countyCode = eventData.countyCode as string;
+    }
     state.status = 'ISSUED';
     state.maxReimbursementCents = Money.fromJSON(eventData.maxReimbursementCents as string);
     state.isLIRP = eventData.isLIRP as boolean;
+    if (eventData.lirpFallbackCents) {
+      state.lirpFallbackCents = Money.fromJSON(eventData.lirpFallbackCents as string);
+    }
     state.expiresAt = new Date(eventData.expiresAt as string);
     state.issuedAt = ingestedAt;
     state.tentativeExpiresAt = null;
@@ -63,6 +75,9 @@ export function applyVoucherEvent(state: VoucherState, event: any): void {
     if (eventData.expiresAt) {
       state.expiresAt = new Date(eventData.expiresAt as string);
     }
+    if (eventData.lirpFallbackCents) {
+      state.lirpFallbackCents = Money.fromJSON(eventData.lirpFallbackCents as string);
+    }
     state.tentativeExpiresAt = null;
   }
 
@@ -112,3 +127,45 @@ export function checkVoucherInvariant(state: VoucherState): void {
   }
   // Other checks
 }
+
+// === VOID ===
+
+export const VOUCHER_VOID_REASON_CODES = ['ISSUED_IN_ERROR', 'DUPLICATE', 'RECIPIENT_INELIGIBLE', 'RECIPIENT_WITHDREW', 'OTHER'] as const;
+export type VoucherVoidReasonCode = typeof VOUCHER_VOID_REASON_CODES[number];
+
+/**
+ * Any voucher that has not been redeemed or voided can be voided. Open claims are checked by
+ * the caller, since claims do not redeem the voucher aggregate.
+ */
+export function assertVoucherVoidable(state: VoucherState, reasonCode: string): void {
+  if (state.status === 'REDEEMED') {
+    throw new Error('VOUCHER_ALREADY_REDEEMED');
+  }
+  if (state.status === 'VOIDED') {
+    throw new Error('VOUCHER_ALREADY_VOIDED');
+  }
+  // Expiry already released the encumbrance
+  if (state.status === 'EXPIRED') {
+    throw new Error('VOUCHER_EXPIRED');
+  }
+  if (!(VOUCHER_VOID_REASON_CODES as readonly string[]).includes(reasonCode)) {
+    throw new Error('VOUCHER_VOID_REASON_CODE_INVALID');
+  }
+}
+
+/**
+ * Encumbrance a void returns to the grant. Tentative vouchers hold none; a LIRP voucher issued
+ * under must-honor releases its GENERAL fallback part separately.
+ */
+export function planVoucherRelease(state: VoucherState): Array<{ bucket: GrantBucketType; amountCents: MoneyCents; lirpFallback: boolean }> {
+  if (state.status === 'TENTATIVE') {
+    return [];
+  }
+  if (!state.isLIRP) {
+    return [{ bucket: 'GENERAL', amountCents: state.maxReimbursementCents, lirpFallback: false }];
+  }
+  return [
+    { bucket: 'LIRP' as const, amountCents: Money.fromBigInt(state.maxReimbursementCents - state.lirpFallbackCents), lirpFallback: false },
+    { bucket: 'GENERAL' as const, amountCents: state.lirpFallbackCents, lirpFallback: true },
+  ].filter((part) => part.amountCents > 0n);
+}
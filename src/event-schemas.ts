@@ -0,0 +1,518 @@
+import { z, ZodTypeAny } from 'zod';
+
+// === EVENT SCHEMA REGISTRY ===
+// event_data is JSONB; this registry is the typed contract per (eventType, schemaVersion).
+// Writers always append the current version. Readers get older payloads upcast, one
+// version at a time, so reducers only ever see the current shape.
+// Event types without a registered schema are stored and read as-is (version 1).
+
+export type EventData = Record<string, unknown>;
+export type Upcaster = (eventData: EventData) => EventData;
+
+interface EventSchemaEntry {
+  currentVersion: number;
+  schemas: Map<number, ZodTypeAny>;
+  upcasters: Map<number, Upcaster>;   // key: fromVersion (migrates fromVersion -> fromVersion + 1)
+}
+
+const registry = new Map<string, EventSchemaEntry>();
+
+function entryFor(eventType: string): EventSchemaEntry {
+  let entry = registry.get(eventType);
+  if (!entry) {
+    entry = { currentVersion: 1, schemas: new Map(), upcasters: new Map() };
+    registry.set(eventType, entry);
+  }
+  return entry;
+}
+
+export function registerEventSchema(eventType: string, version: number, schema: ZodTypeAny): void {
+  const entry = entryFor(eventType);
+  entry.schemas.set(version, schema);
+  entry.currentVersion = Math.max(entry.currentVersion, version);
+}
+
+export function registerUpcaster(eventType: string, fromVersion: number, upcaster: Upcaster): void {
+  entryFor(eventType).upcasters.set(fromVersion, upcaster);
+}
+
+export function currentSchemaVersion(eventType: string): number {
+  return registry.get(eventType)?.currentVersion ?? 1;
+}
+
+/**
+ * Append-time check against the current schema version.
+ * Throws EVENT_DATA_SCHEMA_INVALID:<eventType> on a malformed payload.
+ */
+export function validateEventData(eventType: string, eventData: EventData): void {
+  const entry = registry.get(eventType);
+  const schema = entry?.schemas.get(entry.currentVersion);
+  if (!schema) return;
+
+  if (!schema.safeParse(eventData).success) {
+    throw new Error(`EVENT_DATA_SCHEMA_INVALID:${eventType}`);
+  }
+}
+
+/**
+ * Read-time migration from the stored schema version to the current one.
+ * Throws EVENT_UPCASTER_MISSING:<eventType>:<version> when a step is not registered.
+ */
+export function upcastEventData(eventType: string, schemaVersion: number, eventData: EventData): EventData {
+  const entry = registry.get(eventType);
+  if (!entry) return eventData;
+
+  let data = eventData;
+  for (let version = schemaVersion; version < entry.currentVersion; version += 1) {
+    const upcaster = entry.upcasters.get(version);
+    if (!upcaster) {
+      throw new Error(`EVENT_UPCASTER_MISSING:${eventType}:${version}`);
+    }
+    data = upcaster(data);
+  }
+  return data;
+}
+
+// === CURRENT SCHEMAS ===
+// passthrough(): extra fields are tolerated so writers can add context without a version bump.
+const moneyCents = z.string().regex(/^\d+$/);
+const isoDateTime = z.string().datetime();
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const reimbursementRate = z.object({ numerator: moneyCents, denominator: moneyCents });
+
+const decisionBasis = z.object({
+  policySnapshotId: z.string(),
+  decidedBy: z.string(),
+  decidedAt: isoDateTime,
+  reason: z.string().optional(),
+}).passthrough();
+
+registerEventSchema('APPLICATION_AWARDED', 1, z.object({
+  grantId: z.string(),
+  awardedAmountCents: moneyCents,
+  matchCommitmentCents: moneyCents,
+  lirpAllocationCents: moneyCents.optional(),
+  decisionBasis,
+}).passthrough());
+
+registerEventSchema('GRANT_CREATED', 1, z.object({
+  awardedAmountCents: moneyCents,
+  matchCommitmentCents: moneyCents,
+  rateNumeratorCents: moneyCents,
+  rateDenominatorCents: moneyCents,
+  lirpEnabled: z.boolean(),
+  lirpAllocationCents: moneyCents.optional(),
+}).passthrough().refine(
+  (data) => !data.lirpEnabled || data.lirpAllocationCents !== undefined,
+  { message: 'lirpAllocationCents is required when lirpEnabled' }
+));
+
+const grantBudgetApproval = z.object({
+  approvedBy: z.string(),
+  approvedAt: isoDateTime,
+  reason: z.string().min(1),
+}).passthrough();
+
+registerEventSchema('GRANT_AWARD_AMENDED', 1, z.object({
+  awardedAmountCents: moneyCents,
+  previousAwardedAmountCents: moneyCents,
+  matchCommitmentCents: moneyCents,
+  lirpAllocationCents: moneyCents.optional(),
+  rateNumeratorCents: moneyCents,
+  rateDenominatorCents: moneyCents,
+  rateEffectiveFrom: isoDateTime,
+  approval: grantBudgetApproval,
+}).passthrough());
+
+registerEventSchema('GRANT_BUCKET_REALLOCATED', 1, z.object({
+  fromBucket: z.enum(['GENERAL', 'LIRP']),
+  toBucket: z.enum(['GENERAL', 'LIRP']),
+  amountCents: moneyCents,
+  approval: grantBudgetApproval,
+}).passthrough());
+
+registerEventSchema('MATCHING_FUNDS_REPORTED', 1, z.object({
+  reportId: z.string(),
+  matchType: z.enum(['CASH', 'IN_KIND']),
+  periodStart: isoDate,
+  periodEnd: isoDate,
+  amountCents: moneyCents,
+  evidenceArtifactIds: z.array(z.string().min(1)).min(1),
+}).passthrough());
+
+// v1 carried an amountCents increment on reported-to-date and no report reference.
+// v2 replaces a report's amount, so the upcaster turns an increment into a 0 -> amount
+// replacement: the same change to reported-to-date, attached to no report. v1 rows that
+// already carry the v2 fields (appended before the version bump) pass through unchanged.
+registerEventSchema('MATCHING_FUNDS_ADJUSTED', 1, z.object({
+  amountCents: moneyCents,
+}).passthrough());
+
+registerEventSchema('MATCHING_FUNDS_ADJUSTED', 2, z.object({
+  reportId: z.string(),
+  previousAmountCents: moneyCents,
+  adjustedAmountCents: moneyCents,
+  evidenceArtifactIds: z.array(z.string().min(1)).min(1).optional(),
+  reason: z.string().min(1),
+}).passthrough());
+
+registerUpcaster('MATCHING_FUNDS_ADJUSTED', 1, (eventData) => (eventData.adjustedAmountCents !== undefined ? eventData : {
+  ...eventData,
+  previousAmountCents: '0',
+  adjustedAmountCents: eventData.amountCents,
+}));
+
+registerEventSchema('GRANT_CYCLE_CREATED', 1, z.object({
+  grantCycleId: z.string(),
+  periodStart: isoDate,
+  periodEnd: isoDate,
+  claimsDeadline: isoDate,
+  invoiceSchedule: z.object({ frequency: z.literal('MONTHLY'), dayOfMonth: z.number().int().min(1).max(28) }),
+  fundCodes: z.array(z.string().min(1)).min(1),
+  timeZone: z.string(),
+}).passthrough());
+
+const grantCycleDeadline = z.object({
+  grantCycleId: z.string(),
+  date: isoDate,
+  timeZone: z.string(),
+  boundaryAt: isoDateTime,
+}).passthrough();
+
+registerEventSchema('GRANT_PERIOD_ENDED', 1, grantCycleDeadline);
+registerEventSchema('GRANT_CLAIMS_DEADLINE_PASSED', 1, grantCycleDeadline);
+
+// lirpFallback marks a GENERAL movement made for a LIRP voucher under must-honor
+registerEventSchema('GRANT_FUNDS_ENCUMBERED', 1, z.object({
+  voucherId: z.string(),
+  amountCents: moneyCents,
+  isLIRP: z.boolean(),
+  lirpFallback: z.boolean().optional(),
+}).passthrough());
+
+registerEventSchema('GRANT_FUNDS_RELEASED', 1, z.object({
+  voucherId: z.string(),
+  amountCents: moneyCents,
+  isLIRP: z.boolean(),
+  lirpFallback: z.boolean().optional(),
+}).passthrough());
+
+registerEventSchema('GRANT_FUNDS_LIQUIDATED', 1, z.object({
+  claimId: z.string(),
+  amountCents: moneyCents,
+  isLIRP: z.boolean(),
+  lirpFallback: z.boolean().optional(),
+  reimbursementRate: reimbursementRate.optional(),
+}).passthrough());
+
+registerEventSchema('LIRP_MUST_HONOR_ENFORCED', 1, z.object({
+  grantId: z.string(),
+  reason: z.string().min(1),
+}).passthrough());
+
+registerEventSchema('VOUCHER_ISSUED', 1, z.object({
+  voucherCode: z.string().min(1),
+  countyCode: z.string().min(1).optional(),
+  maxReimbursementCents: moneyCents,
+  expiresAt: isoDateTime,
+  isLIRP: z.boolean(),
+}).passthrough());
+
+registerEventSchema('VOUCHER_VOIDED', 1, z.object({
+  reasonCode: z.string().min(1),
+  reason: z.string().min(1).optional(),
+  releasedCents: moneyCents,
+}).passthrough());
+
+registerEventSchema('VOUCHER_CODE_ALLOCATOR_INITIALIZED', 1, z.object({
+  grantCycleId: z.string().min(1),
+  countyCode: z.string().min(1),
+}).passthrough());
+
+registerEventSchema('VOUCHER_CODE_ALLOCATED', 1, z.object({
+  voucherCode: z.string().min(1),
+}).passthrough());
+
+registerEventSchema('CLAIM_SUBMITTED', 1, z.object({
+  claimFingerprint: z.string(),
+  grantCycleId: z.string(),
+  voucherId: z.string(),
+  clinicId: z.string(),
+  procedureCode: z.string(),
+  dateOfService: isoDate,
+  submittedAmountCents: moneyCents,
+}).passthrough());
+
+registerEventSchema('CLAIM_APPROVED', 1, z.object({
+  approvedAmountCents: moneyCents,
+  decisionBasis,
+  reimbursementRate: reimbursementRate.optional(),
+}).passthrough());
+
+registerEventSchema('CLAIM_DENIED', 1, z.object({
+  decisionBasis,
+}).passthrough());
+
+registerEventSchema('CLAIM_ADJUSTED', 1, z.object({
+  newAmountCents: moneyCents,
+}).passthrough());
+
+registerEventSchema('CLAIM_INVOICED', 1, z.object({
+  invoiceId: z.string(),
+}).passthrough());
+
+registerEventSchema('CLAIM_DECISION_CONFLICT_RECORDED', 1, z.object({
+  attemptedDecision: z.string(),
+  currentStatus: z.string(),
+  decisionBasis,
+}).passthrough());
+
+registerEventSchema('VOUCHER_ISSUED_TENTATIVE', 1, z.object({
+  maxReimbursementCents: moneyCents,
+  tentativeExpiresAt: isoDateTime,
+  countyCode: z.string().min(1).optional(),
+}).passthrough());
+
+registerEventSchema('VOUCHER_ISSUED_CONFIRMED', 1, z.object({
+  voucherCode: z.string().min(1),
+  confirmedAt: isoDateTime,
+  expiresAt: isoDateTime.optional(),
+  lirpFallbackCents: moneyCents.optional(),
+}).passthrough());
+
+registerEventSchema('VOUCHER_ISSUED_REJECTED', 1, z.object({
+  reason: z.string().min(1),
+}).passthrough());
+
+registerEventSchema('VOUCHER_REDEEMED', 1, z.object({
+  claimId: z.string().optional(),
+}).passthrough());
+
+registerEventSchema('VOUCHER_EXPIRED', 1, z.object({}).passthrough());
+
+registerEventSchema('VOUCHER_AMENDED', 1, z.object({
+  maxReimbursementCents: moneyCents.optional(),
+  expiresAt: isoDateTime.optional(),
+  isLIRP: z.boolean().optional(),
+}).passthrough());
+
+// Lifecycle transitions carry no amounts; reason codes are checked per transition by the domain
+const grantTransition = z.object({
+  grantId: z.string().optional(),
+  reasonCode: z.string().min(1).optional(),
+  reason: z.string().min(1).optional(),
+}).passthrough();
+
+registerEventSchema('GRANT_AGREEMENT_SIGNED', 1, grantTransition);
+registerEventSchema('GRANT_ACTIVATED', 1, grantTransition);
+registerEventSchema('GRANT_SUSPENDED', 1, grantTransition);
+registerEventSchema('GRANT_REINSTATED', 1, grantTransition);
+registerEventSchema('GRANT_CLOSED', 1, grantTransition);
+
+registerEventSchema('INVOICE_GENERATED', 1, z.object({
+  clinicId: z.string(),
+  periodStart: isoDate,
+  periodEnd: isoDate,
+  claimIds: z.array(z.string()),
+  adjustmentIds: z.array(z.string()).optional(),
+  totalAmountCents: moneyCents,
+}).passthrough());
+
+registerEventSchema('INVOICE_SUBMITTED', 1, z.object({}).passthrough());
+
+// Adjustments move money either way between invoices
+registerEventSchema('INVOICE_ADJUSTMENT_CREATED', 1, z.object({
+  sourceInvoiceId: z.string(),
+  amountCents: z.string().regex(/^-?\d+$/),
+  reason: z.string().optional(),
+}).passthrough());
+
+registerEventSchema('INVOICE_ADJUSTMENT_APPLIED', 1, z.object({
+  targetInvoiceId: z.string(),
+}).passthrough());
+
+registerEventSchema('PAYMENT_RECORDED', 1, z.object({
+  invoiceId: z.string(),
+  amountCents: moneyCents,
+  paymentChannel: z.string().min(1),
+  referenceId: z.string().nullish(),
+}).passthrough());
+
+registerEventSchema('APPLICATION_STARTED', 1, z.object({
+  granteeId: z.string(),
+  grantCycleId: z.string(),
+  organizationName: z.string(),
+  organizationType: z.string(),
+}).passthrough());
+
+registerEventSchema('APPLICATION_SUBMITTED', 1, z.object({
+  requestedAmountCents: moneyCents,
+  matchCommitmentCents: moneyCents,
+  sectionsCompleted: z.array(z.string()),
+}).passthrough());
+
+registerEventSchema('APPLICATION_SECTION_COMPLETED', 1, z.object({
+  section: z.string(),
+}).passthrough());
+
+const attachmentAdded = z.object({
+  evidenceRefId: z.string(),
+  evidenceType: z.string(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  sizeBytes: z.number().int().nonnegative(),
+  sha256: z.string(),
+  storageKey: z.string(),
+}).passthrough();
+
+registerEventSchema('ATTACHMENT_ADDED', 1, attachmentAdded);
+registerEventSchema('APPLICATION_EVIDENCE_ATTACHED', 1, attachmentAdded);
+
+registerEventSchema('APPLICATION_SCORED', 1, z.object({
+  priorityScore: z.number(),
+  scoringBasis: z.record(z.unknown()),
+}).passthrough());
+
+registerEventSchema('APPLICATION_DENIED', 1, z.object({
+  decisionBasis: z.object({
+    ruleId: z.string(),
+    policyVersion: z.string(),
+    policySnapshotId: z.string(),
+    evidenceRefs: z.array(z.string()),
+  }).passthrough(),
+}).passthrough());
+
+registerEventSchema('APPLICATION_WAITLISTED', 1, z.object({
+  reason: z.string(),
+  waitlistPosition: z.number().int().nullable(),
+}).passthrough());
+
+registerEventSchema('APPLICATION_TOKEN_CONSUMED', 1, z.object({
+  tokenId: z.string(),
+}).passthrough());
+
+registerEventSchema('FRAUD_SIGNAL_DETECTED', 1, z.object({
+  signalId: z.string(),
+  signalCode: z.string(),
+  severity: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']),
+  evidence: z.record(z.unknown()),
+  recommendedAction: z.string(),
+}).passthrough());
+
+registerEventSchema('OASIS_EXPORT_BATCH_CREATED', 1, z.object({
+  grantCycleId: z.string(),
+  batchCode: z.string(),
+  batchFingerprint: z.string(),
+  periodStart: isoDate,
+  periodEnd: isoDate,
+  watermarkIngestedAt: isoDateTime,
+  watermarkEventId: z.string(),
+}).passthrough());
+
+// invoicePeriodStart/End are copied from the invoice row as-is, so their shape is not pinned here
+registerEventSchema('OASIS_EXPORT_BATCH_ITEM_ADDED', 1, z.object({
+  invoiceId: z.string(),
+  clinicId: z.string(),
+  oasisVendorCode: z.string(),
+  amountCents: moneyCents,
+}).passthrough());
+
+registerEventSchema('OASIS_EXPORT_FILE_RENDERED', 1, z.object({
+  artifactId: z.string(),
+  sha256: z.string(),
+  formatVersion: z.string(),
+  recordCount: z.number().int().nonnegative(),
+  controlTotalCents: moneyCents,
+}).passthrough());
+
+registerEventSchema('OASIS_EXPORT_BATCH_SUBMITTED', 1, z.object({
+  submissionMethod: z.string().min(1),
+}).passthrough());
+
+registerEventSchema('OASIS_EXPORT_BATCH_ACKNOWLEDGED', 1, z.object({
+  oasisRefId: z.string().min(1),
+  acceptedAt: isoDateTime,
+  notes: z.string().nullish(),
+}).passthrough());
+
+registerEventSchema('OASIS_EXPORT_BATCH_REJECTED', 1, z.object({
+  rejectionReason: z.string().min(1),
+  rejectionCode: z.string().nullish(),
+}).passthrough());
+
+registerEventSchema('OASIS_EXPORT_BATCH_VOIDED', 1, z.object({
+  reason: z.string().min(1),
+  voidedByActorId: z.string(),
+}).passthrough());
+
+registerEventSchema('VET_CLINIC_REGISTERED', 1, z.object({
+  clinicName: z.string().min(1),
+}).passthrough());
+
+registerEventSchema('VET_CLINIC_LICENSE_STATUS_RECORDED', 1, z.object({
+  licenseStatus: z.string().min(1),
+  licenseNumber: z.string().optional(),
+  licenseExpiresAt: z.string().optional(),
+}).passthrough());
+
+registerEventSchema('VET_CLINIC_SUSPENDED', 1, z.object({
+  reason: z.string().optional(),
+}).passthrough());
+
+registerEventSchema('VET_CLINIC_REINSTATED', 1, z.object({
+  reason: z.string().optional(),
+}).passthrough());
+
+registerEventSchema('VET_CLINIC_PAYMENT_INFO_UPDATED', 1, z.object({
+  accountName: z.string(),
+  accountNumber: z.string(),
+  routingNumber: z.string(),
+  bankName: z.string(),
+}).passthrough());
+
+registerEventSchema('VET_CLINIC_OASIS_VENDOR_CODE_ASSIGNED', 1, z.object({
+  oasisVendorCode: z.string().min(1),
+}).passthrough());
+
+registerEventSchema('GRANT_CYCLE_CLOSEOUT_PREFLIGHT_COMPLETED', 1, z.object({
+  status: z.enum(['PASSED', 'FAILED']),
+  checks: z.array(z.object({ check: z.string(), pass: z.boolean(), details: z.string() }).passthrough()),
+}).passthrough());
+
+registerEventSchema('GRANT_CYCLE_CLOSEOUT_STARTED', 1, z.object({
+  startedByActorId: z.string().optional(),
+}).passthrough());
+
+// shortfallCents/surplusCents are derived from committed and reported when absent
+registerEventSchema('GRANT_CYCLE_CLOSEOUT_RECONCILED', 1, z.object({
+  watermarkIngestedAt: isoDateTime,
+  watermarkEventId: z.string(),
+  financialSummary: z.object({
+    awardedCents: moneyCents,
+    encumberedCents: moneyCents,
+    liquidatedCents: moneyCents,
+    releasedCents: moneyCents,
+    unspentCents: moneyCents,
+  }).passthrough(),
+  matchingFunds: z.object({
+    committedCents: moneyCents,
+    reportedCents: moneyCents,
+    shortfallCents: moneyCents.nullish(),
+    surplusCents: moneyCents.nullish(),
+    evidenceArtifactIds: z.array(z.string()).optional(),
+  }).passthrough(),
+  activitySummary: z.record(z.unknown()),
+}).passthrough());
+
+registerEventSchema('GRANT_CYCLE_CLOSED', 1, z.object({
+  closedByActorId: z.string(),
+  finalBalanceCents: moneyCents,
+}).passthrough());
+
+registerEventSchema('GRANT_CYCLE_CLOSEOUT_AUDIT_HOLD', 1, z.object({
+  reason: z.string().min(1),
+}).passthrough());
+
+registerEventSchema('GRANT_CYCLE_CLOSEOUT_AUDIT_RESOLVED', 1, z.object({
+  resolution: z.string().min(1),
+}).passthrough());
@@ -1,6 +1,8 @@
-﻿import { Pool } from 'pg';
+﻿import { Pool, PoolClient } from 'pg';
 import { uuidv7 } from './uuidv7';
 import type { EventId, ActorId } from './domain-types';
+import { currentSchemaVersion, validateEventData, upcastEventData } from './event-schemas';
+import { sealPii, revealPii } from './pii-vault';
 
 const UUID_V7_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
@@ -61,13 +63,68 @@ export interface DomainEvent {
   actorType: 'APPLICANT' | 'ADMIN' | 'SYSTEM';
 }
 
-// === EVENT STORE ===
-export class EventStore {
-  constructor(private pool: Pool) {}
+// === OPTIMISTIC CONCURRENCY ===
+// Stream version = number of events already appended for (aggregate_type, aggregate_id).
+// A brand-new aggregate is at version 0.
+export interface AppendOptions {
+  expectedVersion?: number;
+}
 
-  static newEventId(): EventId {
-    return uuidv7() as EventId;
+export class ConcurrencyConflictError extends Error {
+  constructor(
+    public readonly aggregateType: string,
+    public readonly aggregateId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super('CONCURRENCY_CONFLICT');
+    this.name = 'ConcurrencyConflictError';
   }
+}
+
+export interface LoadStreamOptions {
+  client?: PoolClient;
+  after?: Watermark;
+  through?: Watermark;
+  fromVersion?: number;   // skip the stream's first N events (N = a version from getStreamVersion)
+}
+
+/**
+ * Append-time checks every implementation applies before an event is stored.
+ */
+export function assertAppendable(event: Omit<DomainEvent, 'ingestedAt'>): void {
+  assertUuidV7(event.eventId, 'eventId');
+  assertNoBigInt(event.eventData);
+  validateEventData(event.eventType, event.eventData);
+}
+
+export function assertExpectedVersionValid(expectedVersion: number): void {
+  if (!Number.isInteger(expectedVersion) || expectedVersion < 0) {
+    throw new Error('EXPECTED_VERSION_INVALID');
+  }
+}
+
+// === EVENT STORE ===
+// PostgresEventStore is the production log; InMemoryEventStore (src/in-memory-event-store.ts)
+// implements the same contract for unit tests. `client` arguments belong to the caller's
+// Postgres transaction and are ignored by implementations without one.
+export interface EventStore {
+  fetchSince(watermark: Watermark, limit?: number): Promise<DomainEvent[]>;
+  fetchCommittedSince(watermark: Watermark, limit?: number): Promise<DomainEvent[]>;
+  commitHorizon(): Promise<Date>;
+  loadStream(aggregateType: string, aggregateId: string, options?: LoadStreamOptions): Promise<DomainEvent[]>;
+  getStreamVersion(aggregateType: string, aggregateId: string, client?: PoolClient): Promise<number>;
+  append(event: Omit<DomainEvent, 'ingestedAt'>, options?: AppendOptions): Promise<DomainEvent>;
+  appendWithClient(client: PoolClient, event: Omit<DomainEvent, 'ingestedAt'>, options?: AppendOptions): Promise<DomainEvent>;
+  isTokenConsumed(submissionTokenId: string): Promise<boolean>;
+}
+
+export const EventStore = {
+  newEventId: (): EventId => uuidv7() as EventId,
+};
+
+export class PostgresEventStore implements EventStore {
+  constructor(private pool: Pool) {}
 
   async fetchSince(watermark: Watermark, limit: number = 1000): Promise<DomainEvent[]> {
     const sql = `
@@ -83,7 +140,8 @@ export class EventStore {
         correlation_id,
         causation_id,
         actor_id,
-        actor_type
+        actor_type,
+        schema_version
       FROM event_log
       WHERE (ingested_at > $1)
          OR (ingested_at = $1 AND event_id > $2)
@@ -97,12 +155,134 @@ export class EventStore {
       limit,
     ]);
 
-    return result.rows.map((row) => ({
+    return revealPii(this.pool, result.rows.map(PostgresEventStore.rowToEvent));
+  }
+
+  /**
+   * fetchSince for consumers that checkpoint on the watermark. ingested_at is stamped at
+   * insert, not at commit, so a transaction still open now can commit an event that sorts
+   * before rows already visible. Holds back everything at or after commitHorizon(), read
+   * before the fetch so the fetch's snapshot sees every writer that committed below it.
+   */
+  async fetchCommittedSince(watermark: Watermark, limit: number = 1000): Promise<DomainEvent[]> {
+    const horizon = await this.commitHorizon();
+
+    const sql = `
+      SELECT
+        event_id,
+        aggregate_type,
+        aggregate_id,
+        event_type,
+        event_data,
+        occurred_at,
+        ingested_at,
+        grant_cycle_id,
+        correlation_id,
+        causation_id,
+        actor_id,
+        actor_type,
+        schema_version
+      FROM event_log
+      WHERE ((ingested_at > $1)
+         OR (ingested_at = $1 AND event_id > $2))
+        AND ingested_at < $4
+      ORDER BY ingested_at ASC, event_id ASC
+      LIMIT $3
+    `;
+
+    const result = await this.pool.query(sql, [
+      watermark.ingestedAt.toISOString(),
+      watermark.eventId,
+      limit,
+      horizon.toISOString(),
+    ]);
+
+    return revealPii(this.pool, result.rows.map(PostgresEventStore.rowToEvent));
+  }
+
+  /**
+   * Earliest ingested_at an in-flight writer could still commit: the start of the oldest
+   * transaction holding a write xid, or now. Events ingested before it are settled. Sessions
+   * are read from pg_stat_activity, so the caller's role must see other sessions' xact_start
+   * (same role or pg_read_all_stats).
+   */
+  async commitHorizon(): Promise<Date> {
+    const result = await this.pool.query(`
+      SELECT date_trunc('milliseconds', LEAST(clock_timestamp(), MIN(xact_start))) AS horizon
+      FROM pg_stat_activity
+      WHERE backend_xid IS NOT NULL
+        AND datname = current_database()
+        AND pid <> pg_backend_pid()
+    `);
+    return new Date(result.rows[0].horizon);
+  }
+
+  /**
+   * Event stream for one aggregate in canonical (ingested_at, event_id) order.
+   * Pass the command's client to read inside its transaction; pass `after`
+   * to read only the tail past a watermark (exclusive), `through` to stop at
+   * one (inclusive).
+   */
+  async loadStream(
+    aggregateType: string,
+    aggregateId: string,
+    options: LoadStreamOptions = {}
+  ): Promise<DomainEvent[]> {
+    const after = options.after ?? Watermark.ZERO;
+    const through = options.through ?? null;
+    if (options.fromVersion !== undefined) {
+      assertExpectedVersionValid(options.fromVersion);
+    }
+    const sql = `
+      SELECT
+        event_id,
+        aggregate_type,
+        aggregate_id,
+        event_type,
+        event_data,
+        occurred_at,
+        ingested_at,
+        grant_cycle_id,
+        correlation_id,
+        causation_id,
+        actor_id,
+        actor_type,
+        schema_version
+      FROM (
+        SELECT *, ROW_NUMBER() OVER (ORDER BY ingested_at ASC, event_id ASC) AS stream_version
+        FROM event_log
+        WHERE aggregate_type = $1 AND aggregate_id = $2
+      ) stream
+      WHERE stream_version > $7
+        AND ((ingested_at > $3) OR (ingested_at = $3 AND event_id > $4))
+        AND ($5::timestamptz IS NULL OR (ingested_at < $5) OR (ingested_at = $5 AND event_id <= $6))
+      ORDER BY ingested_at ASC, event_id ASC
+    `;
+
+    const executor = options.client ?? this.pool;
+    const result = await executor.query(sql, [
+      aggregateType,
+      aggregateId,
+      after.ingestedAt.toISOString(),
+      after.eventId,
+      through ? through.ingestedAt.toISOString() : null,
+      through ? through.eventId : null,
+      options.fromVersion ?? 0,
+    ]);
+    return revealPii(executor, result.rows.map(PostgresEventStore.rowToEvent));
+  }
+
+  /**
+   * Maps an event_log row to a DomainEvent, upcasting event_data to the current schema.
+   * PII fields are still sealed; pass the result through revealPii before use.
+   */
+  static rowToEvent(row: any): DomainEvent {
+    return {
       eventId: row.event_id as EventId,
       aggregateType: row.aggregate_type,
       aggregateId: row.aggregate_id,
       eventType: row.event_type,
-      eventData: row.event_data,
+      eventData: upcastEventData(row.event_type, row.schema_version ?? 1, row.event_data),
       occurredAt: new Date(row.occurred_at),
       ingestedAt: new Date(row.ingested_at),
       grantCycleId: row.grant_cycle_id,
@@ -110,7 +290,7 @@ export class EventStore {
       causationId: row.causation_id,
       actorId: row.actor_id as ActorId,
       actorType: row.actor_type,
-    }));
+    };
   }
 
   private static readonly APPEND_SQL = `
@@ -126,8 +306,9 @@ export class EventStore {
         correlation_id,
         causation_id,
         actor_id,
-        actor_type
-      ) VALUES ($1, $2, $3, $4, $5, $6, clock_timestamp(), $7, $8, $9, $10, $11)
+        actor_type,
+        schema_version
+      ) VALUES ($1, $2, $3, $4, $5, $6, clock_timestamp(), $7, $8, $9, $10, $11, $12)
       RETURNING ingested_at
     `;
 
@@ -144,14 +325,65 @@ export class EventStore {
       event.causationId,
       event.actorId,
       event.actorType,
+      currentSchemaVersion(event.eventType),
     ];
   }
 
-  async append(event: Omit<DomainEvent, 'ingestedAt'>): Promise<DomainEvent> {
-    assertUuidV7(event.eventId, 'eventId');
-    assertNoBigInt(event.eventData);
+  private static readonly STREAM_VERSION_SQL = `
+      SELECT COUNT(*)::bigint AS version
+      FROM event_log
+      WHERE aggregate_type = $1 AND aggregate_id = $2
+    `;
+
+  async getStreamVersion(aggregateType: string, aggregateId: string, client?: PoolClient): Promise<number> {
+    const executor = client ?? this.pool;
+    const result = await executor.query(PostgresEventStore.STREAM_VERSION_SQL, [aggregateType, aggregateId]);
+    return Number(result.rows[0].version);
+  }
 
-    const result = await this.pool.query(EventStore.APPEND_SQL, EventStore.appendParams(event));
+  /**
+   * Serializes versioned writers on one stream for the rest of the caller's transaction,
+   * then rejects the append if another writer moved the stream past expectedVersion.
+   */
+  private async assertExpectedVersion(
+    client: PoolClient,
+    event: Omit<DomainEvent, 'ingestedAt'>,
+    expectedVersion: number
+  ): Promise<void> {
+    assertExpectedVersionValid(expectedVersion);
+
+    await client.query(
+      "SELECT pg_advisory_xact_lock(hashtextextended($1 || ':' || $2, 0))",
+      [event.aggregateType, event.aggregateId]
+    );
+
+    const actualVersion = await this.getStreamVersion(event.aggregateType, event.aggregateId, client);
+    if (actualVersion !== expectedVersion) {
+      throw new ConcurrencyConflictError(event.aggregateType, event.aggregateId, expectedVersion, actualVersion);
+    }
+  }
+
+  async append(event: Omit<DomainEvent, 'ingestedAt'>, options: AppendOptions = {}): Promise<DomainEvent> {
+    assertAppendable(event);
+
+    if (options.expectedVersion !== undefined) {
+      // The version check needs a transaction to hold the stream lock through the insert
+      const client = await this.pool.connect();
+      try {
+        await client.query('BEGIN');
+        const appended = await this.appendWithClient(client, event, options);
+        await client.query('COMMIT');
+        return appended;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+
+    const sealed = { ...event, eventData: await sealPii(this.pool, event) };
+    const result = await this.pool.query(PostgresEventStore.APPEND_SQL, PostgresEventStore.appendParams(sealed));
 
     return {
       ...event,
@@ -159,11 +391,23 @@ export class EventStore {
     };
   }
 
-  async appendWithClient(client: import('pg').PoolClient, event: Omit<DomainEvent, 'ingestedAt'>): Promise<DomainEvent> {
-    assertUuidV7(event.eventId, 'eventId');
-    assertNoBigInt(event.eventData);
+  /**
+   * With expectedVersion, the client must be inside a transaction (BEGIN ... COMMIT);
+   * the stream lock is released when that transaction ends.
+   */
+  async appendWithClient(
+    client: PoolClient,
+    event: Omit<DomainEvent, 'ingestedAt'>,
+    options: AppendOptions = {}
+  ): Promise<DomainEvent> {
+    assertAppendable(event);
+
+    if (options.expectedVersion !== undefined) {
+      await this.assertExpectedVersion(client, event, options.expectedVersion);
+    }
 
-    const result = await client.query(EventStore.APPEND_SQL, EventStore.appendParams(event));
+    const sealed = { ...event, eventData: await sealPii(client, event) };
+    const result = await client.query(PostgresEventStore.APPEND_SQL, PostgresEventStore.appendParams(sealed));
 
     return {
       ...event,
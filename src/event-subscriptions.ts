@@ -0,0 +1,180 @@
+import { Pool, PoolClient } from 'pg';
+import { EventStore, DomainEvent, Watermark } from './event-store';
+import type { EventId } from './domain-types';
+
+const NOTIFY_CHANNEL = 'event_log_appended';
+
+export type EventHandler = (event: DomainEvent) => Promise<void>;
+
+export interface SubscriptionOptions {
+  subscriberId: string;
+  handler: EventHandler;
+  batchSize?: number;        // events pulled per fetch; the next batch waits for the handler
+  pollIntervalMs?: number;   // safety net for a dropped LISTEN connection or missed NOTIFY
+  retryDelayMs?: number;     // back-off after a handler failure
+}
+
+// === CHECKPOINTS ===
+export class SubscriptionCheckpoints {
+  constructor(private pool: Pool) {}
+
+  async load(subscriberId: string): Promise<Watermark> {
+    const result = await this.pool.query(
+      'SELECT watermark_ingested_at, watermark_event_id FROM event_subscription_checkpoints WHERE subscriber_id = $1',
+      [subscriberId]
+    );
+    if (result.rows.length === 0) return Watermark.ZERO;
+    return {
+      ingestedAt: new Date(result.rows[0].watermark_ingested_at),
+      eventId: result.rows[0].watermark_event_id as EventId,
+    };
+  }
+
+  async save(subscriberId: string, watermark: Watermark): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO event_subscription_checkpoints (subscriber_id, watermark_ingested_at, watermark_event_id, updated_at)
+      VALUES ($1, $2, $3, clock_timestamp())
+      ON CONFLICT (subscriber_id) DO UPDATE SET
+        watermark_ingested_at = EXCLUDED.watermark_ingested_at,
+        watermark_event_id = EXCLUDED.watermark_event_id,
+        updated_at = EXCLUDED.updated_at
+    `, [subscriberId, watermark.ingestedAt.toISOString(), watermark.eventId]);
+  }
+}
+
+// === SUBSCRIBER ===
+/**
+ * Catch-up from the subscriber's durable checkpoint via fetchSince, then live delivery
+ * woken by NOTIFY. Delivery is at-least-once: the checkpoint advances only after the
+ * handler resolves, so a crash redelivers the in-flight event. Handlers must be idempotent.
+ * Events are delivered one at a time in (ingested_at, event_id) order; notifications that
+ * arrive while draining coalesce into a single re-drain, so a slow handler never queues work.
+ * Fetches go through fetchCommittedSince, so an event whose transaction is still open when a
+ * later one is delivered is held back rather than skipped by the advancing checkpoint.
+ */
+export class EventSubscriber {
+  private readonly checkpoints: SubscriptionCheckpoints;
+  private listenClient: PoolClient | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private draining = false;
+  private redrainRequested = false;
+  private lastError: Error | null = null;
+
+  constructor(
+    private pool: Pool,
+    private store: EventStore,
+    private options: SubscriptionOptions
+  ) {
+    this.checkpoints = new SubscriptionCheckpoints(pool);
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.listen();
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+    this.pollTimer = setInterval(() => this.wake(), this.options.pollIntervalMs ?? 30_000);
+    this.wake();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    await this.unlisten();
+  }
+
+  get error(): Error | null {
+    return this.lastError;
+  }
+
+  private async listen(): Promise<void> {
+    const client = await this.pool.connect();
+    let released = false;
+    const discard = (error: Error) => {
+      if (released) return;
+      released = true;
+      if (this.listenClient === client) this.listenClient = null;
+      client.release(error);
+    };
+
+    client.on('notification', () => this.wake());
+    client.on('error', (error) => {
+      // Drop the broken connection; the poll timer keeps delivering until LISTEN is restored
+      this.lastError = error;
+      discard(error);
+      if (this.running) {
+        setTimeout(() => { if (this.running) this.listen().catch((e) => { this.lastError = e; }); }, this.retryDelay());
+      }
+    });
+
+    try {
+      await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+    } catch (error) {
+      discard(error as Error);
+      throw error;
+    }
+    this.listenClient = client;
+  }
+
+  private async unlisten(): Promise<void> {
+    const client = this.listenClient;
+    this.listenClient = null;
+    if (!client) return;
+    try {
+      await client.query(`UNLISTEN ${NOTIFY_CHANNEL}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  private wake(): void {
+    if (!this.running) return;
+    if (this.draining) {
+      this.redrainRequested = true;
+      return;
+    }
+    this.drain().catch((error) => {
+      this.lastError = error;
+      setTimeout(() => this.wake(), this.retryDelay());
+    });
+  }
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+    try {
+      do {
+        this.redrainRequested = false;
+        let watermark = await this.checkpoints.load(this.options.subscriberId);
+
+        for (;;) {
+          if (!this.running) return;
+          const events = await this.store.fetchCommittedSince(watermark, this.options.batchSize ?? 100);
+          if (events.length === 0) break;
+
+          for (const event of events) {
+            if (!this.running) return;
+            await this.options.handler(event);
+            watermark = Watermark.from(event);
+            await this.checkpoints.save(this.options.subscriberId, watermark);
+          }
+        }
+      } while (this.redrainRequested && this.running);
+      this.lastError = null;
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private retryDelay(): number {
+    return this.options.retryDelayMs ?? 5_000;
+  }
+}
@@ -0,0 +1,120 @@
+import { PoolClient } from 'pg';
+import {
+  EventStore,
+  DomainEvent,
+  Watermark,
+  AppendOptions,
+  LoadStreamOptions,
+  ConcurrencyConflictError,
+  assertAppendable,
+  assertExpectedVersionValid,
+} from './event-store';
+
+// === IN-MEMORY EVENT STORE ===
+// Same contract as PostgresEventStore for unit tests that should not need a database:
+// append-time validation, server-stamped ingestedAt (millisecond precision, like the
+// event_log trigger), JSONB round-trip of eventData, and (ingestedAt, eventId) ordering.
+// Not modelled: transactions (`client` is ignored, so nothing rolls back), the hash chain,
+// and PII sealing (fields are kept as given).
+
+export class InMemoryEventStore implements EventStore {
+  private events: DomainEvent[] = [];   // canonical (ingestedAt, eventId) order
+
+  constructor(private clock: () => Date = () => new Date()) {}
+
+  async fetchSince(watermark: Watermark, limit: number = 1000): Promise<DomainEvent[]> {
+    return this.events
+      .filter((event) => isAfter(event, watermark))
+      .slice(0, limit)
+      .map(cloneEvent);
+  }
+
+  // Appends are visible the moment they are made, so nothing is ever held back
+  async fetchCommittedSince(watermark: Watermark, limit: number = 1000): Promise<DomainEvent[]> {
+    return this.fetchSince(watermark, limit);
+  }
+
+  async commitHorizon(): Promise<Date> {
+    return new Date(8.64e15);   // latest representable Date
+  }
+
+  async loadStream(aggregateType: string, aggregateId: string, options: LoadStreamOptions = {}): Promise<DomainEvent[]> {
+    const after = options.after ?? Watermark.ZERO;
+    if (options.fromVersion !== undefined) {
+      assertExpectedVersionValid(options.fromVersion);
+    }
+    return this.events
+      .filter((event) => event.aggregateType === aggregateType && event.aggregateId === aggregateId)
+      .slice(options.fromVersion ?? 0)
+      .filter((event) => isAfter(event, after) && (!options.through || !isAfter(event, options.through)))
+      .map(cloneEvent);
+  }
+
+  async getStreamVersion(aggregateType: string, aggregateId: string, _client?: PoolClient): Promise<number> {
+    return this.events.filter((event) => event.aggregateType === aggregateType && event.aggregateId === aggregateId).length;
+  }
+
+  async append(event: Omit<DomainEvent, 'ingestedAt'>, options: AppendOptions = {}): Promise<DomainEvent> {
+    assertAppendable(event);
+
+    if (options.expectedVersion !== undefined) {
+      assertExpectedVersionValid(options.expectedVersion);
+      const actualVersion = await this.getStreamVersion(event.aggregateType, event.aggregateId);
+      if (actualVersion !== options.expectedVersion) {
+        throw new ConcurrencyConflictError(event.aggregateType, event.aggregateId, options.expectedVersion, actualVersion);
+      }
+    }
+    if (this.events.some((existing) => existing.eventId === event.eventId)) {
+      // Same wording as the event_log primary key violation
+      throw new Error('duplicate key value violates unique constraint "event_log_pkey"');
+    }
+
+    const stored: DomainEvent = {
+      ...event,
+      eventData: JSON.parse(JSON.stringify(event.eventData)),
+      occurredAt: new Date(event.occurredAt.getTime()),
+      ingestedAt: new Date(this.clock().getTime()),
+    };
+    const position = this.events.findIndex((existing) => compareWatermark(existing, stored) > 0);
+    if (position === -1) {
+      this.events.push(stored);
+    } else {
+      this.events.splice(position, 0, stored);
+    }
+
+    return { ...event, ingestedAt: new Date(stored.ingestedAt.getTime()) };
+  }
+
+  async appendWithClient(
+    _client: PoolClient,
+    event: Omit<DomainEvent, 'ingestedAt'>,
+    options: AppendOptions = {}
+  ): Promise<DomainEvent> {
+    return this.append(event, options);
+  }
+
+  async isTokenConsumed(submissionTokenId: string): Promise<boolean> {
+    return this.events.some(
+      (event) => event.eventType === 'SUBMISSION_TOKEN_CONSUMED' && event.eventData.submissionTokenId === submissionTokenId
+    );
+  }
+}
+
+function compareWatermark(a: Watermark, b: Watermark): number {
+  const byTime = a.ingestedAt.getTime() - b.ingestedAt.getTime();
+  if (byTime !== 0) return byTime;
+  return a.eventId < b.eventId ? -1 : a.eventId > b.eventId ? 1 : 0;
+}
+
+function isAfter(event: DomainEvent, watermark: Watermark): boolean {
+  return compareWatermark(event, watermark) > 0;
+}
+
+function cloneEvent(event: DomainEvent): DomainEvent {
+  return {
+    ...event,
+    eventData: JSON.parse(JSON.stringify(event.eventData)),
+    occurredAt: new Date(event.occurredAt.getTime()),
+    ingestedAt: new Date(event.ingestedAt.getTime()),
+  };
+}
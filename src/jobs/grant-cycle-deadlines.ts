@@ -0,0 +1,145 @@
+import { Pool } from 'pg';
+import * as crypto from 'crypto';
+import { EventStore, ConcurrencyConflictError } from '../event-store';
+import { AggregateLoader } from '../application/aggregate-loader';
+import { ActorId, GrantCycle } from '../domain-types';
+import {
+  GrantCycleDeadlineEvent,
+  GrantCycleState,
+  deadlineBoundary,
+  dueGrantCycleDeadlines,
+} from '../domain/grant-cycle/calendar-logic';
+
+const SYSTEM_ACTOR_ID = '00000000-0000-0000-0000-000000000000' as ActorId;
+
+export interface EmittedDeadline {
+  grantCycleId: string;
+  eventType: GrantCycleDeadlineEvent;
+  eventId: string;
+  boundaryAt: string;
+}
+
+/**
+ * Appends GRANT_PERIOD_ENDED / GRANT_CLAIMS_DEADLINE_PASSED for every cycle whose boundary
+ * has passed. Each cycle is handled in its own transaction and appended at the version it
+ * was read at, so concurrent schedulers emit each event exactly once: the loser's append
+ * conflicts, rolls back, and the cycle is left to the winner.
+ */
+export async function emitDueGrantCycleDeadlines(
+  pool: Pool,
+  store: EventStore,
+  now: Date = new Date()
+): Promise<EmittedDeadline[]> {
+  const loader = new AggregateLoader(store);
+  const correlationId = crypto.randomUUID();
+  const emitted: EmittedDeadline[] = [];
+
+  const candidates = await pool.query(`
+    SELECT c.grant_cycle_id
+    FROM event_log c
+    WHERE c.aggregate_type = 'GRANT_CYCLE'
+      AND c.event_type = 'GRANT_CYCLE_CREATED'
+      AND (
+        SELECT COUNT(DISTINCT d.event_type) FROM event_log d
+        WHERE d.aggregate_type = 'GRANT_CYCLE'
+          AND d.aggregate_id = c.aggregate_id
+          AND d.event_type IN ('GRANT_PERIOD_ENDED', 'GRANT_CLAIMS_DEADLINE_PASSED')
+      ) < 2
+    ORDER BY c.grant_cycle_id
+  `);
+
+  for (const row of candidates.rows) {
+    const grantCycleId = row.grant_cycle_id as string;
+    const aggregateId = GrantCycle.createAggregateId(grantCycleId);
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const cycle = await loader.load<GrantCycleState>('GRANT_CYCLE', aggregateId, client);
+      if (!cycle?.state.calendar) {
+        await client.query('ROLLBACK');
+        continue;
+      }
+      const calendar = cycle.state.calendar;
+
+      const appended: EmittedDeadline[] = [];
+      let version = cycle.version;
+      for (const eventType of dueGrantCycleDeadlines(cycle.state, now)) {
+        const { date, boundaryAt } = deadlineBoundary(calendar, eventType);
+        const event = await store.appendWithClient(client, {
+          eventId: EventStore.newEventId(),
+          aggregateType: 'GRANT_CYCLE',
+          aggregateId,
+          eventType,
+          eventData: { grantCycleId, date, timeZone: calendar.timeZone, boundaryAt: boundaryAt.toISOString() },
+          occurredAt: boundaryAt,
+          grantCycleId,
+          correlationId,
+          causationId: null,
+          actorId: SYSTEM_ACTOR_ID,
+          actorType: 'SYSTEM',
+        }, { expectedVersion: version });
+        version += 1;
+        appended.push({ grantCycleId, eventType, eventId: event.eventId, boundaryAt: boundaryAt.toISOString() });
+      }
+
+      await client.query('COMMIT');
+      emitted.push(...appended);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (!(error instanceof ConcurrencyConflictError)) {
+        throw error;
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  return emitted;
+}
+
+export interface GrantCycleDeadlineSchedulerOptions {
+  pollIntervalMs?: number;
+}
+
+/**
+ * Polls for due deadlines. The emitted event's occurredAt is the boundary itself, so a late
+ * poll changes only ingestedAt.
+ */
+export class GrantCycleDeadlineScheduler {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastError: Error | null = null;
+
+  constructor(
+    private pool: Pool,
+    private store: EventStore,
+    private options: GrantCycleDeadlineSchedulerOptions = {}
+  ) {}
+
+  start(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.tick(), this.options.pollIntervalMs ?? 60_000);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  get error(): Error | null {
+    return this.lastError;
+  }
+
+  private tick(): void {
+    if (this.running) return;
+    this.running = true;
+    emitDueGrantCycleDeadlines(this.pool, this.store)
+      .then(() => { this.lastError = null; })
+      .catch((error) => { this.lastError = error as Error; })
+      .finally(() => { this.running = false; });
+  }
+}
@@ -28,17 +28,11 @@ export async function sweepExpiredTentatives(pool: Pool, store: EventStore): Pro
       const checkRow = await client.query('SELECT status FROM vouchers_projection WHERE voucher_id = $1', [voucherId]);
       if (checkRow.rows.length === 0 || checkRow.rows[0].status !== 'TENTATIVE') continue;
 
-      const causationRow = await client.query(
-        `SELECT event_id, grant_cycle_id
-         FROM event_log
-         WHERE aggregate_id = $1
-           AND event_type = 'VOUCHER_ISSUED_TENTATIVE'
-         ORDER BY ingested_at DESC, event_id DESC
-         LIMIT 1`,
-        [voucherId]
-      );
-      const causationId = causationRow.rows[0]?.event_id ?? null;
-      const grantCycleId = causationRow.rows[0]?.grant_cycle_id;
+      const tentative = (await store.loadStream('VOUCHER', voucherId, { client }))
+        .filter((candidate) => candidate.eventType === 'VOUCHER_ISSUED_TENTATIVE')
+        .pop();
+      const causationId = tentative?.eventId ?? null;
+      const grantCycleId = tentative?.grantCycleId;
       if (!grantCycleId) {
         throw new Error('GRANT_CYCLE_ID_NOT_FOUND_FOR_TENTATIVE_VOUCHER');
       }
@@ -0,0 +1,243 @@
+import { Pool, PoolClient } from 'pg';
+import * as crypto from 'crypto';
+
+// === TRANSACTIONAL OUTBOX ===
+// A side effect is enqueued with the caller's client, inside the transaction that appends
+// the triggering event: both commit or neither does. Delivery happens afterwards, outside
+// any request, in three steps: a short transaction claims one due message with a lease
+// (SKIP LOCKED lets several dispatchers share the table), the handler delivers with no
+// transaction or connection held, and a second transaction records the outcome if the lease
+// is still ours. A dispatcher that dies mid-delivery leaves the message to be retried when
+// its lease runs out. Delivery is at-least-once; receivers dedupe on messageId.
+
+export interface OutboxMessage {
+  messageId: string;
+  topic: string;
+  sourceEventId: string | null;
+  correlationId: string | null;
+  payload: Record<string, unknown>;
+  attempts: number;        // attempts made before this one
+  maxAttempts: number;
+  createdAt: Date;
+}
+
+export interface OutboxDeliveryOutcome {
+  delivered: boolean;
+  error?: string;
+  // Delivery bookkeeping; runs in the transaction that records the outcome
+  record?: (client: PoolClient) => Promise<void>;
+}
+
+// Called with no transaction open; use the pool for any reads the delivery needs.
+// Return { delivered: false } for a failed attempt; a throw is recorded as one.
+export type OutboxHandler = (pool: Pool, message: OutboxMessage) => Promise<OutboxDeliveryOutcome>;
+
+export interface OutboxDispatcherOptions {
+  batchSize?: number;        // messages handled per dispatch pass
+  pollIntervalMs?: number;
+  baseRetryDelayMs?: number; // doubled per attempt
+  maxRetryDelayMs?: number;
+  leaseMs?: number;          // how long a claimed message is held before another dispatcher may retry it
+}
+
+export async function enqueueOutboxMessage(
+  client: PoolClient,
+  message: {
+    topic: string;
+    payload: Record<string, unknown>;
+    sourceEventId?: string | null;
+    correlationId?: string | null;
+    maxAttempts?: number;
+  }
+): Promise<string> {
+  const messageId = crypto.randomUUID();
+  await client.query(`
+    INSERT INTO outbox_messages (message_id, topic, source_event_id, correlation_id, payload, max_attempts)
+    VALUES ($1, $2, $3, $4, $5, COALESCE($6, 8))
+  `, [
+    messageId,
+    message.topic,
+    message.sourceEventId ?? null,
+    message.correlationId ?? null,
+    JSON.stringify(message.payload),
+    message.maxAttempts ?? null,
+  ]);
+  return messageId;
+}
+
+export class OutboxDispatcher {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private dispatching = false;
+  private redispatchRequested = false;
+  private lastError: Error | null = null;
+
+  constructor(
+    private pool: Pool,
+    private handlers: Record<string, OutboxHandler>,
+    private options: OutboxDispatcherOptions = {}
+  ) {}
+
+  start(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.wake(), this.options.pollIntervalMs ?? 10_000);
+    this.wake();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  get error(): Error | null {
+    return this.lastError;
+  }
+
+  /**
+   * Non-blocking dispatch pass, e.g. right after a request committed new messages.
+   * Calls made while a pass is running coalesce into one more pass.
+   */
+  wake(): void {
+    if (this.dispatching) {
+      this.redispatchRequested = true;
+      return;
+    }
+    this.dispatching = true;
+    (async () => {
+      try {
+        do {
+          this.redispatchRequested = false;
+          await this.dispatchDue();
+        } while (this.redispatchRequested);
+        this.lastError = null;
+      } catch (error) {
+        this.lastError = error as Error;
+      } finally {
+        this.dispatching = false;
+      }
+    })();
+  }
+
+  /**
+   * Delivers due messages until none are left or batchSize is reached. Returns the number handled.
+   */
+  async dispatchDue(): Promise<number> {
+    const batchSize = this.options.batchSize ?? 50;
+    let handled = 0;
+    while (handled < batchSize) {
+      if (!(await this.dispatchNext())) break;
+      handled += 1;
+    }
+    return handled;
+  }
+
+  private async dispatchNext(): Promise<boolean> {
+    const claimed = await this.claimNext();
+    if (!claimed) return false;
+    const { message, leaseId } = claimed;
+
+    let outcome: OutboxDeliveryOutcome;
+    try {
+      outcome = await this.handlers[message.topic](this.pool, message);
+    } catch (error) {
+      await this.recordFailedAttempt(this.pool, message, leaseId, (error as Error).message);
+      return true;
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const lease = await client.query(
+        'SELECT 1 FROM outbox_messages WHERE message_id = $1 AND lease_id = $2 FOR UPDATE',
+        [message.messageId, leaseId]
+      );
+      if (lease.rows.length === 0) {
+        // The lease ran out and another dispatcher owns the message now; its attempt is recorded instead
+        await client.query('ROLLBACK');
+        return true;
+      }
+
+      if (outcome.record) {
+        await outcome.record(client);
+      }
+      if (outcome.delivered) {
+        await client.query(`
+          UPDATE outbox_messages
+          SET status = 'DELIVERED', last_error = NULL, lease_id = NULL, completed_at = clock_timestamp()
+          WHERE message_id = $1
+        `, [message.messageId]);
+      } else {
+        await this.recordFailedAttempt(client, message, leaseId, outcome.error ?? 'OUTBOX_DELIVERY_FAILED');
+      }
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      // The handler's own bookkeeping rolled back; still count the attempt so a poison message backs off
+      await this.recordFailedAttempt(this.pool, message, leaseId, (error as Error).message);
+      return true;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Takes the next due message and commits a lease on it: the attempt is counted and the message
+   * is not due again until the lease runs out, so no lock is held while the handler runs.
+   */
+  private async claimNext(): Promise<{ message: OutboxMessage; leaseId: string } | null> {
+    const leaseId = crypto.randomUUID();
+    const result = await this.pool.query(`
+      UPDATE outbox_messages
+      SET attempts = attempts + 1,
+          lease_id = $2,
+          next_attempt_at = clock_timestamp() + ($3 * interval '1 millisecond')
+      WHERE message_id = (
+        SELECT message_id
+        FROM outbox_messages
+        WHERE status = 'PENDING'
+          AND next_attempt_at <= clock_timestamp()
+          AND topic = ANY($1::text[])
+        ORDER BY next_attempt_at ASC, created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING message_id, topic, source_event_id, correlation_id, payload, attempts, max_attempts, created_at
+    `, [Object.keys(this.handlers), leaseId, this.options.leaseMs ?? 5 * 60_000]);
+
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return {
+      leaseId,
+      message: {
+        messageId: row.message_id,
+        topic: row.topic,
+        sourceEventId: row.source_event_id,
+        correlationId: row.correlation_id,
+        payload: row.payload,
+        attempts: Number(row.attempts) - 1,
+        maxAttempts: Number(row.max_attempts),
+        createdAt: new Date(row.created_at),
+      },
+    };
+  }
+
+  private async recordFailedAttempt(db: Pool | PoolClient, message: OutboxMessage, leaseId: string, error: string): Promise<void> {
+    const attempts = message.attempts + 1;
+    const baseDelay = this.options.baseRetryDelayMs ?? 5_000;
+    const maxDelay = this.options.maxRetryDelayMs ?? 15 * 60_000;
+    const delayMs = Math.min(baseDelay * 2 ** (attempts - 1), maxDelay);
+
+    await db.query(`
+      UPDATE outbox_messages
+      SET last_error = $3,
+          lease_id = NULL,
+          status = CASE WHEN attempts >= max_attempts THEN 'DEAD' ELSE 'PENDING' END,
+          next_attempt_at = clock_timestamp() + ($4 * interval '1 millisecond'),
+          completed_at = CASE WHEN attempts >= max_attempts THEN clock_timestamp() ELSE NULL END
+      WHERE message_id = $1 AND lease_id = $2
+    `, [message.messageId, leaseId, error, delayMs]);
+  }
+}
@@ -0,0 +1,241 @@
+import { Pool, PoolClient } from 'pg';
+import * as crypto from 'crypto';
+
+// === PII VAULT (crypto-shredding) ===
+// event_log is immutable, so personal data cannot be erased from it. Instead, designated
+// fields are sealed at append with AES-256-GCM under a per-subject key and opened on read.
+// Forgetting a subject destroys its key: the stored events (and the hash chain over them)
+// are unchanged, but replays see PII_REDACTED in place of those fields. Amounts and counts
+// are never designated, so totals survive.
+
+export const PII_REDACTED = '[REDACTED]';
+
+export interface PiiDesignation {
+  fields: string[];
+  subjectOf(eventData: Record<string, unknown>, aggregateId: string): string | null;
+}
+
+interface SealedField {
+  $pii: 1;
+  subjectId: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Only what revealing needs; callers reading event_log directly can pass raw rows mapped to this
+export interface PiiBearingEvent {
+  eventId: string;
+  eventType: string;
+  eventData: Record<string, unknown>;
+}
+
+export interface ForgetSubjectResult {
+  subjectId: string;
+  forgottenAt: string;
+  alreadyForgotten: boolean;
+}
+
+type Db = Pool | PoolClient;
+
+const designations = new Map<string, PiiDesignation>();
+
+export function registerPiiFields(eventType: string, designation: PiiDesignation): void {
+  designations.set(eventType, designation);
+}
+
+registerPiiFields('VOUCHER_ISSUED', {
+  fields: ['recipientName'],
+  subjectOf: (_eventData, voucherId) => voucherId,
+});
+
+registerPiiFields('APPLICATION_STARTED', {
+  fields: ['organizationName'],
+  subjectOf: (eventData) => (eventData.granteeId as string) || null,
+});
+
+registerPiiFields('IMPOUNDED_ANIMAL_DATA_SUBMITTED', {
+  fields: ['animals'],
+  subjectOf: (eventData) => (eventData.submissionId as string) || null,
+});
+
+// Projection columns that copy a designated field, scrubbed when the subject is forgotten
+const PII_PROJECTION_COLUMNS = [
+  { table: 'applications_projection', column: 'organization_name', subjectColumn: 'grantee_id' },
+];
+
+/**
+ * Returns eventData with the designated fields sealed under the subject's key, creating the
+ * key on first use. Throws PII_SUBJECT_FORGOTTEN rather than record new data for a forgotten subject.
+ */
+export async function sealPii(
+  db: Db,
+  event: PiiBearingEvent & { aggregateId: string }
+): Promise<Record<string, unknown>> {
+  const designation = designations.get(event.eventType);
+  const fields = designation?.fields.filter((field) => event.eventData[field] !== undefined) ?? [];
+  if (!designation || fields.length === 0) return event.eventData;
+
+  const subjectId = designation.subjectOf(event.eventData, event.aggregateId);
+  if (!subjectId) {
+    throw new Error(`PII_SUBJECT_MISSING:${event.eventType}`);
+  }
+
+  await db.query(`
+    INSERT INTO pii_subject_keys (subject_id, key_material)
+    VALUES ($1, $2)
+    ON CONFLICT (subject_id) DO NOTHING
+  `, [subjectId, crypto.randomBytes(32)]);
+  const result = await db.query('SELECT key_material FROM pii_subject_keys WHERE subject_id = $1', [subjectId]);
+  const key = result.rows[0]?.key_material as Buffer | null;
+  if (!key) {
+    throw new Error('PII_SUBJECT_FORGOTTEN');
+  }
+
+  const sealed = { ...event.eventData };
+  for (const field of fields) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(`${event.eventId}:${field}`, 'utf8'));
+    const data = Buffer.concat([cipher.update(JSON.stringify(event.eventData[field]), 'utf8'), cipher.final()]);
+    const envelope: SealedField = {
+      $pii: 1,
+      subjectId,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    sealed[field] = envelope;
+  }
+  return sealed;
+}
+
+/**
+ * Opens sealed fields in place of their envelopes; fields of forgotten subjects become
+ * PII_REDACTED. Events without sealed fields are returned as they are. Throws
+ * PII_KEY_MISSING when a subject has no key row at all (e.g. events imported without
+ * their keys): that is lost data, not an erasure.
+ */
+export async function revealPii<E extends PiiBearingEvent>(db: Db, events: E[]): Promise<E[]> {
+  const subjectIds = new Set<string>();
+  for (const event of events) {
+    for (const field of designations.get(event.eventType)?.fields ?? []) {
+      const value = event.eventData[field];
+      if (isSealed(value)) subjectIds.add(value.subjectId);
+    }
+  }
+  if (subjectIds.size === 0) return events;
+
+  const result = await db.query(
+    'SELECT subject_id, key_material, forgotten_at FROM pii_subject_keys WHERE subject_id = ANY($1::varchar[])',
+    [[...subjectIds]]
+  );
+  const keys = new Map<string, { keyMaterial: Buffer | null; forgottenAt: Date | null }>(
+    result.rows.map((row) => [row.subject_id, { keyMaterial: row.key_material, forgottenAt: row.forgotten_at }])
+  );
+
+  return events.map((event) => {
+    const fields = (designations.get(event.eventType)?.fields ?? []).filter((field) => isSealed(event.eventData[field]));
+    if (fields.length === 0) return event;
+
+    const eventData = { ...event.eventData };
+    for (const field of fields) {
+      const envelope = eventData[field] as SealedField;
+      const key = keys.get(envelope.subjectId);
+      if (!key) {
+        throw new Error('PII_KEY_MISSING');
+      }
+      eventData[field] = key.forgottenAt ? PII_REDACTED : openField(key.keyMaterial as Buffer, envelope, `${event.eventId}:${field}`);
+    }
+    return { ...event, eventData };
+  });
+}
+
+/**
+ * Replaces every designated field with PII_REDACTED without opening anything, for readers
+ * not entitled to personal data. Covers sealed envelopes and plaintext values alike.
+ */
+export function redactPii<E extends PiiBearingEvent>(events: E[]): E[] {
+  return events.map((event) => {
+    const fields = (designations.get(event.eventType)?.fields ?? []).filter((field) => event.eventData[field] !== undefined);
+    if (fields.length === 0) return event;
+
+    const eventData = { ...event.eventData };
+    for (const field of fields) {
+      eventData[field] = PII_REDACTED;
+    }
+    return { ...event, eventData };
+  });
+}
+
+/**
+ * Destroys the subject's key and scrubs projection copies of its fields, in one transaction.
+ * Idempotent: forgetting a forgotten subject reports the original forgottenAt.
+ */
+export async function forgetPiiSubject(
+  pool: Pool,
+  subjectId: string,
+  request: { actorId: string; reason: string }
+): Promise<ForgetSubjectResult> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const existing = await client.query(
+      'SELECT forgotten_at FROM pii_subject_keys WHERE subject_id = $1 FOR UPDATE',
+      [subjectId]
+    );
+    if (existing.rows.length === 0) {
+      throw new Error('PII_SUBJECT_NOT_FOUND');
+    }
+    if (existing.rows[0].forgotten_at) {
+      await client.query('COMMIT');
+      return {
+        subjectId,
+        forgottenAt: new Date(existing.rows[0].forgotten_at).toISOString(),
+        alreadyForgotten: true,
+      };
+    }
+
+    const forgotten = await client.query(`
+      UPDATE pii_subject_keys
+      SET key_material = NULL, forgotten_at = clock_timestamp(), forgotten_by = $2, forget_reason = $3
+      WHERE subject_id = $1
+      RETURNING forgotten_at
+    `, [subjectId, request.actorId, request.reason]);
+
+    for (const { table, column, subjectColumn } of PII_PROJECTION_COLUMNS) {
+      await client.query(
+        `UPDATE ${table} SET ${column} = $2 WHERE ${subjectColumn}::text = $1`,
+        [subjectId, PII_REDACTED]
+      );
+    }
+
+    await client.query('COMMIT');
+    return {
+      subjectId,
+      forgottenAt: new Date(forgotten.rows[0].forgotten_at).toISOString(),
+      alreadyForgotten: false,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+function isSealed(value: unknown): value is SealedField {
+  return !!value && typeof value === 'object' && (value as SealedField).$pii === 1;
+}
+
+function openField(key: Buffer, envelope: SealedField, aad: string): unknown {
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+    return JSON.parse(plain.toString('utf8'));
+  } catch {
+    throw new Error('PII_DECRYPTION_FAILED');
+  }
+}
@@ -0,0 +1,214 @@
+import { Pool, PoolClient } from 'pg';
+import { EventStore, PostgresEventStore, DomainEvent, Watermark } from '../event-store';
+import { Money, GrantCycleCloseout } from '../domain-types';
+import { revealPii } from '../pii-vault';
+import { AggregateLoader, getReducer } from '../application/aggregate-loader';
+import { SnapshotStore } from '../application/aggregate-snapshots';
+import { GrantState } from '../domain/grant/grant-logic';
+import { VoucherState } from '../domain/voucher/voucher-logic';
+import { AllocatorState } from '../domain/voucher/voucher-code-allocator';
+import { ClaimState } from '../domain/claim/claim-logic';
+import { InvoiceState } from '../domain/invoice/invoice-logic';
+import { BatchState } from '../domain/oasis/batch-logic';
+import { CycleCloseoutState } from '../domain/closeout/cycle-logic';
+import type { ProjectionWatermark } from './rebuild';
+import {
+  upsertProjectionRow,
+  grantBalanceRows,
+  voucherRow,
+  allocatorRow,
+  claimRow,
+  invoiceRow,
+  exportBatchRow,
+  exportBatchItemRows,
+  linkInvoicesToExportBatch,
+  closeoutRow,
+  ProjectionRow,
+  foldApplicationRow,
+  applicationRow,
+  foldClinicRow,
+  clinicRow,
+  foldPaymentRow,
+  paymentRow,
+  foldAdjustmentRow,
+  adjustmentRow,
+  foldBreederFilingRow,
+  breederFilingRow,
+} from './projection-rows';
+
+// === AGGREGATE PROJECTOR ===
+// One upsert per projection row, derived from the aggregate's event stream.
+// Shared by the services (synchronous, inside the command transaction) and by the
+// ProjectionEngine (incremental catch-up and per-projection rebuild). Rows are built by
+// projection-rows.ts, which the full replay in rebuild.ts uses as well.
+
+// Rows carry the watermark of the last event in their own aggregate's stream
+function stamp(watermark: Watermark): ProjectionWatermark {
+  return { rebuiltAt: new Date(), watermarkIngestedAt: watermark.ingestedAt, watermarkEventId: watermark.eventId };
+}
+export class AggregateProjector {
+  private readonly loader: AggregateLoader;
+
+  constructor(pool: Pool, private store: EventStore) {
+    this.loader = new AggregateLoader(store, new SnapshotStore(pool));
+  }
+
+  // Commands pass the bucket they locked FOR UPDATE so they never touch the other bucket's row
+  async projectGrantBalances(client: PoolClient, grantId: string, bucket?: 'GENERAL' | 'LIRP'): Promise<void> {
+    const grant = await this.loader.load<GrantState>('GRANT', grantId, client);
+    if (!grant) return;
+
+    const grantCycleId = await this.firstGrantCycleId(client, 'GRANT', grantId);
+    for (const row of grantBalanceRows(grantId, grantCycleId, grant.state, stamp(grant.watermark))) {
+      if (bucket && row.values.bucket_type !== bucket) continue;
+      await upsertProjectionRow(client, row);
+    }
+  }
+
+  async projectVoucher(client: PoolClient, voucherId: string, grantId?: string): Promise<void> {
+    const voucher = await this.loader.load<VoucherState>('VOUCHER', voucherId, client);
+    if (!voucher) return;
+
+    // Older voucher events do not carry grantId; the encumbrance that funded the voucher does
+    const resolvedGrantId = grantId || voucher.state.grantId || await this.resolveVoucherGrantId(client, voucherId);
+    await upsertProjectionRow(client, voucherRow(voucher.state, resolvedGrantId, stamp(voucher.watermark)));
+  }
+
+  async projectAllocator(client: PoolClient, allocatorId: string): Promise<void> {
+    const allocator = await this.loader.load<AllocatorState>('ALLOCATOR', allocatorId, client);
+    if (!allocator) {
+      throw new Error('ALLOCATOR_NOT_FOUND');
+    }
+    const grantCycleId = await this.firstGrantCycleId(client, 'ALLOCATOR', allocatorId);
+    await upsertProjectionRow(client, allocatorRow(allocator.state, grantCycleId, stamp(allocator.watermark)));
+  }
+
+  async projectClaim(client: PoolClient, claimId: string): Promise<void> {
+    const claim = await this.loader.load<ClaimState>('CLAIM', claimId, client);
+    if (!claim) return;
+
+    // HAZARD 2: Atomic de-dupe via unique constraint + ON CONFLICT
+    // If fingerprint collision occurs, the unique constraint will throw and roll back the transaction
+    await upsertProjectionRow(client, claimRow(claim.state, stamp(claim.watermark)));
+  }
+
+  async projectInvoice(client: PoolClient, invoiceId: string): Promise<void> {
+    const invoice = await this.loader.load<InvoiceState>('INVOICE', invoiceId, client);
+    if (!invoice) return;
+
+    const grantCycleId = await this.firstGrantCycleId(client, 'INVOICE', invoiceId);
+    const paymentsResult = await client.query(`
+      SELECT COALESCE(SUM(amount_cents), 0) as total_paid
+      FROM payments_projection
+      WHERE invoice_id = $1
+    `, [invoiceId]);
+    const totalPaidCents = Money.fromBigInt(BigInt(paymentsResult.rows[0].total_paid));
+
+    await upsertProjectionRow(client, invoiceRow(invoice.state, grantCycleId, totalPaidCents, stamp(invoice.watermark)));
+  }
+
+  async projectExportBatch(client: PoolClient, exportBatchId: string): Promise<void> {
+    // Batch items come from the raw ITEM_ADDED events, so replay the stream here directly
+    const events = await this.store.loadStream('OASIS_EXPORT_BATCH', exportBatchId, { client });
+    if (events.length === 0) return;
+
+    const reducer = getReducer<BatchState>('OASIS_EXPORT_BATCH');
+    let state = reducer.create(exportBatchId, events[0]);
+    for (const event of events) {
+      state = reducer.apply(state, event);
+    }
+    reducer.check(state);
+    const items = events.filter((e) => e.eventType === 'OASIS_EXPORT_BATCH_ITEM_ADDED').map((e) => e.eventData);
+
+    await upsertProjectionRow(client, exportBatchRow(state, stamp(Watermark.from(events[events.length - 1]))));
+    await client.query('DELETE FROM oasis_export_batch_items_projection WHERE export_batch_id = $1', [exportBatchId]);
+    for (const row of exportBatchItemRows(exportBatchId, items)) {
+      await upsertProjectionRow(client, row);
+    }
+    await linkInvoicesToExportBatch(client, state, items);
+  }
+
+  async projectCycleCloseout(client: PoolClient, grantCycleId: string): Promise<void> {
+    const closeoutAggId = GrantCycleCloseout.createAggregateId(grantCycleId);
+    const closeout = await this.loader.load<CycleCloseoutState>('GRANT_CYCLE_CLOSEOUT', closeoutAggId, client);
+
+    // No row until closeout starts; readers report a missing row as NOT_STARTED
+    if (!closeout) return;
+    await upsertProjectionRow(client, closeoutRow(closeout.state, stamp(closeout.watermark)));
+  }
+
+  async projectApplication(client: PoolClient, applicationId: string): Promise<void> {
+    const events = await this.store.loadStream('APPLICATION', applicationId, { client });
+    await this.upsertFolded(client, events, foldApplicationRow, applicationRow);
+  }
+
+  async projectClinic(client: PoolClient, clinicId: string): Promise<void> {
+    const events = await this.store.loadStream('VET_CLINIC', clinicId, { client });
+    await this.upsertFolded(client, events, foldClinicRow, clinicRow);
+  }
+
+  async projectPayment(client: PoolClient, paymentId: string): Promise<void> {
+    const events = await this.store.loadStream('PAYMENT', paymentId, { client });
+    await this.upsertFolded(client, events, foldPaymentRow, paymentRow);
+  }
+
+  async projectAdjustment(client: PoolClient, adjustmentId: string): Promise<void> {
+    const events = await this.store.loadStream('ADJUSTMENT', adjustmentId, { client });
+    await this.upsertFolded(client, events, foldAdjustmentRow, adjustmentRow);
+  }
+
+  // A cure can be recorded on another stream and name the filing it cures
+  async projectBreederFiling(client: PoolClient, filingId: string): Promise<void> {
+    const result = await client.query(`
+      SELECT
+        event_id, aggregate_type, aggregate_id, event_type, event_data, occurred_at, ingested_at,
+        grant_cycle_id, correlation_id, causation_id, actor_id, actor_type, schema_version
+      FROM event_log
+      WHERE (aggregate_type = 'BREEDER_REPORTING' AND aggregate_id = $1::uuid)
+         OR (event_type = 'BREEDER_FILING_CURED' AND event_data->>'filingId' = $1::text)
+      ORDER BY ingested_at ASC, event_id ASC
+    `, [filingId]);
+    const events = await revealPii(client, result.rows.map(PostgresEventStore.rowToEvent));
+    await this.upsertFolded(client, events, foldBreederFilingRow, breederFilingRow);
+  }
+
+  // Rows folded in projection-rows.ts carry the watermark of the last event folded
+  private async upsertFolded<R>(
+    client: PoolClient,
+    events: DomainEvent[],
+    fold: (row: R | undefined, event: DomainEvent) => R | undefined,
+    toRow: (row: R, wm: ProjectionWatermark) => ProjectionRow
+  ): Promise<void> {
+    let row: R | undefined;
+    for (const event of events) {
+      row = fold(row, event);
+    }
+    if (!row) return;
+
+    await upsertProjectionRow(client, toRow(row, stamp(Watermark.from(events[events.length - 1]))));
+  }
+
+  private async firstGrantCycleId(client: PoolClient, aggregateType: string, aggregateId: string): Promise<string | null> {
+    const result = await client.query(`
+      SELECT grant_cycle_id
+      FROM event_log
+      WHERE aggregate_type = $1 AND aggregate_id = $2
+      ORDER BY ingested_at ASC, event_id ASC
+      LIMIT 1
+    `, [aggregateType, aggregateId]);
+    return result.rows[0]?.grant_cycle_id ?? null;
+  }
+
+  private async resolveVoucherGrantId(client: PoolClient, voucherId: string): Promise<string | null> {
+    const result = await client.query(`
+      SELECT aggregate_id
+      FROM event_log
+      WHERE aggregate_type = 'GRANT'
+        AND event_type = 'GRANT_FUNDS_ENCUMBERED'
+        AND event_data->>'voucherId' = $1
+      ORDER BY ingested_at ASC, event_id ASC
+      LIMIT 1
+    `, [voucherId]);
+    return result.rows[0]?.aggregate_id ?? null;
+  }
+}
@@ -0,0 +1,36 @@
+import { Pool } from 'pg';
+import { certifyReplayDeterminism } from './determinism';
+
+// Usage: node dist/projections/determinism-cli.js [--batch-size N] [--alternate-batch-size N]
+// Prints the determinism certificate and exits 2 when any projection differs between runs.
+async function main(): Promise<void> {
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const certificate = await certifyReplayDeterminism(pool, {
+      batchSize: numberArg('--batch-size'),
+      alternateBatchSize: numberArg('--alternate-batch-size'),
+    });
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(certificate, null, 2));
+
+    if (!certificate.deterministic) {
+      process.exitCode = 2;
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+function numberArg(flag: string): number | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : Number(process.argv[index + 1]);
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+  process.exit(1);
+});
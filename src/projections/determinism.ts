@@ -0,0 +1,219 @@
+import { Pool, PoolClient } from 'pg';
+import * as crypto from 'crypto';
+import { ALL_PROJECTION_TABLES, rebuildAllProjections, RebuildResult } from './rebuild';
+import { primaryKeyColumns } from './drift';
+
+// === REPLAY DETERMINISM CERTIFICATION ===
+// Rebuilds every projection from the same log three times (default page size twice, then an
+// alternate page size that splits the same (ingested_at, event_id) order into different
+// fetchSince pages), hashes each table in primary-key order after each run, and diffs the
+// runs against the first. rebuilt_at is the only column excluded: it records when, not what.
+// The rebuilds are real (live tables are truncated and refilled), so run it where
+// rebuild:projections may run.
+
+const DEFAULT_BATCH_SIZE = 1000;
+const DEFAULT_ALTERNATE_BATCH_SIZE = 97;
+const DEFAULT_SAMPLE_LIMIT = 100;
+const EXCLUDED_COLUMNS = ['rebuilt_at'];
+
+export interface ReplayRun {
+  run: number;
+  batchSize: number;
+  eventsReplayed: number;
+  watermark: RebuildResult['watermark'];
+}
+
+export interface RunColumnDiff {
+  column: string;
+  baseline: unknown;
+  replay: unknown;
+}
+
+export interface RunRowDiff {
+  run: number;
+  key: Record<string, unknown>;
+  baseline: Record<string, unknown> | null;   // null: only the later run produced this row
+  replay: Record<string, unknown> | null;     // null: the later run did not produce this row
+  columns: RunColumnDiff[];
+}
+
+export interface TableCertification {
+  table: string;
+  deterministic: boolean;
+  rowCounts: number[];         // per run
+  sha256: string[];            // per run
+  diffCount: number;
+  rows: RunRowDiff[];          // first sampleLimit differing rows, across runs
+}
+
+export interface DeterminismCertificate {
+  certifiedAt: string;
+  deterministic: boolean;
+  eventsReplayed: number;
+  watermark: RebuildResult['watermark'];
+  runs: ReplayRun[];
+  tables: TableCertification[];
+  // SHA-256 over the baseline (table, sha256) list; equal logs certify to equal fingerprints
+  fingerprint: string;
+}
+
+export interface DeterminismOptions {
+  batchSize?: number;
+  alternateBatchSize?: number;
+  sampleLimit?: number;
+}
+
+export async function certifyReplayDeterminism(
+  pool: Pool,
+  options: DeterminismOptions = {}
+): Promise<DeterminismCertificate> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const alternateBatchSize = options.alternateBatchSize ?? DEFAULT_ALTERNATE_BATCH_SIZE;
+  const sampleLimit = options.sampleLimit ?? DEFAULT_SAMPLE_LIMIT;
+  if (alternateBatchSize === batchSize) {
+    throw new Error('DETERMINISM_BATCH_SIZES_MUST_DIFFER');
+  }
+  const batchSizes = [batchSize, batchSize, alternateBatchSize];
+
+  // Snapshots are session temp tables, so one connection is held for the whole certification.
+  // No transaction around the runs: its locks would block the next rebuild's TRUNCATE.
+  const client = await pool.connect();
+  const runs: ReplayRun[] = [];
+  const hashes = new Map<string, Array<{ rowCount: number; sha256: string }>>();
+  try {
+    const keys = new Map<string, string[]>();
+    for (const table of ALL_PROJECTION_TABLES) {
+      keys.set(table, await primaryKeyColumns(client, table));
+      hashes.set(table, []);
+    }
+
+    for (const [index, size] of batchSizes.entries()) {
+      const run = index + 1;
+      const rebuild = await rebuildAllProjections(pool, { batchSize: size });
+      if (runs.length > 0 && !sameWatermark(runs[0].watermark, rebuild.watermark)) {
+        throw new Error('DETERMINISM_LOG_CHANGED');
+      }
+      runs.push({ run, batchSize: size, eventsReplayed: rebuild.eventsReplayed, watermark: rebuild.watermark });
+
+      for (const table of ALL_PROJECTION_TABLES) {
+        hashes.get(table)!.push(await snapshotTable(client, table, keys.get(table)!, run));
+      }
+    }
+
+    const tables: TableCertification[] = [];
+    for (const table of ALL_PROJECTION_TABLES) {
+      const perRun = hashes.get(table)!;
+      const differingRuns = runs.filter((run) => perRun[run.run - 1].sha256 !== perRun[0].sha256).map((run) => run.run);
+
+      let diffCount = 0;
+      const rows: RunRowDiff[] = [];
+      for (const run of differingRuns) {
+        const diff = await diffSnapshots(client, table, keys.get(table)!, run, sampleLimit - rows.length);
+        diffCount += diff.count;
+        rows.push(...diff.rows);
+      }
+
+      tables.push({
+        table,
+        deterministic: differingRuns.length === 0,
+        rowCounts: perRun.map((entry) => entry.rowCount),
+        sha256: perRun.map((entry) => entry.sha256),
+        diffCount,
+        rows,
+      });
+    }
+
+    const fingerprint = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(tables.map((table) => [table.table, table.sha256[0]])), 'utf8')
+      .digest('hex');
+
+    return {
+      certifiedAt: new Date().toISOString(),
+      deterministic: tables.every((table) => table.deterministic),
+      eventsReplayed: runs[0].eventsReplayed,
+      watermark: runs[0].watermark,
+      runs,
+      tables,
+      fingerprint,
+    };
+  } finally {
+    for (const table of ALL_PROJECTION_TABLES) {
+      for (const run of runs) {
+        await client.query(`DROP TABLE IF EXISTS ${snapshotName(table, run.run)}`);
+      }
+    }
+    client.release();
+  }
+}
+
+function snapshotName(table: string, run: number): string {
+  return `determinism_run${run}_${table}`;
+}
+
+async function snapshotTable(
+  client: PoolClient,
+  table: string,
+  keyColumns: string[],
+  run: number
+): Promise<{ rowCount: number; sha256: string }> {
+  const key = `jsonb_build_array(${keyColumns.map((column) => `t.${column}`).join(', ')})`;
+  await client.query(`
+    CREATE TEMP TABLE ${snapshotName(table, run)} AS
+    SELECT ${key} AS key, to_jsonb(t) - $1::text[] AS row
+    FROM public.${table} t
+  `, [EXCLUDED_COLUMNS]);
+
+  // jsonb text output has a canonical key order, so equal rows hash equally
+  const result = await client.query(`
+    SELECT
+      count(*) AS row_count,
+      encode(sha256(convert_to(coalesce(string_agg(row::text, E'\\n' ORDER BY key), ''), 'UTF8')), 'hex') AS sha256
+    FROM ${snapshotName(table, run)}
+  `);
+  return { rowCount: Number(result.rows[0].row_count), sha256: result.rows[0].sha256 };
+}
+
+async function diffSnapshots(
+  client: PoolClient,
+  table: string,
+  keyColumns: string[],
+  run: number,
+  limit: number
+): Promise<{ count: number; rows: RunRowDiff[] }> {
+  const differing = `
+    FROM ${snapshotName(table, 1)} b
+    FULL OUTER JOIN ${snapshotName(table, run)} r ON b.key = r.key
+    WHERE b.key IS NULL OR r.key IS NULL OR b.row IS DISTINCT FROM r.row
+  `;
+  const count = await client.query(`SELECT count(*) AS diff_count ${differing}`);
+  const result = await client.query(`
+    SELECT COALESCE(b.key, r.key) AS key, b.row AS baseline, r.row AS replay
+    ${differing}
+    ORDER BY COALESCE(b.key, r.key)
+    LIMIT $1
+  `, [limit]);
+
+  const rows: RunRowDiff[] = result.rows.map((row) => {
+    const baseline = row.baseline as Record<string, unknown> | null;
+    const replay = row.replay as Record<string, unknown> | null;
+    const columns = baseline && replay
+      ? Object.keys({ ...baseline, ...replay })
+        .filter((column) => JSON.stringify(baseline[column]) !== JSON.stringify(replay[column]))
+        .map((column) => ({ column, baseline: baseline[column], replay: replay[column] }))
+      : [];
+    return {
+      run,
+      key: Object.fromEntries(keyColumns.map((column, index) => [column, (row.key as unknown[])[index]])),
+      baseline,
+      replay,
+      columns,
+    };
+  });
+
+  return { count: Number(count.rows[0].diff_count), rows };
+}
+
+function sameWatermark(a: RebuildResult['watermark'], b: RebuildResult['watermark']): boolean {
+  return a.ingestedAt === b.ingestedAt && a.eventId === b.eventId;
+}
@@ -0,0 +1,29 @@
+import { Pool } from 'pg';
+import { detectProjectionDrift } from './drift';
+
+// Usage: node dist/projections/drift-cli.js [table ...]
+// Prints the drift report and exits 2 when any projection has drifted.
+async function main(): Promise<void> {
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const tables = process.argv.slice(2);
+    const report = await detectProjectionDrift(pool, tables.length > 0 ? { tables } : {});
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(report, null, 2));
+
+    if (report.drifted) {
+      process.exitCode = 2;
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+  process.exit(1);
+});
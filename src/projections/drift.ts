@@ -0,0 +1,184 @@
+import { Pool, PoolClient } from 'pg';
+import { PostgresEventStore } from '../event-store';
+import { ALL_PROJECTION_TABLES, replayAllProjections } from './rebuild';
+
+// === PROJECTION DRIFT DETECTOR ===
+// Dry-run of rebuildAllProjections: the replayed rows are inserted into session-local
+// shadow tables (same names, pg_temp first on the search_path) and compared row by row
+// against the live tables. The transaction is always rolled back; live tables are only read.
+
+const DEFAULT_SAMPLE_LIMIT = 100;
+
+// Bookkeeping columns that legitimately differ between a service upsert and a rebuild
+const ROW_WATERMARK_COLUMNS: Record<string, { ingestedAt: string; eventId: string } | null> = {
+  oasis_export_batches_projection: { ingestedAt: 'watermark_ingested_at_row', eventId: 'watermark_event_id_row' },
+  oasis_export_batch_items_projection: null,
+};
+const DEFAULT_ROW_WATERMARK = { ingestedAt: 'watermark_ingested_at', eventId: 'watermark_event_id' };
+
+export type DriftKind =
+  | 'MISSING'      // rebuild produces a row the live table does not have
+  | 'UNEXPECTED'   // live row that a rebuild would not produce
+  | 'MISMATCH';    // same key, different column values
+
+export interface ColumnDrift {
+  column: string;
+  live: unknown;
+  rebuilt: unknown;
+}
+
+export interface DriftRow {
+  kind: DriftKind;
+  key: Record<string, unknown>;
+  columns: ColumnDrift[];
+}
+
+export interface TableDrift {
+  table: string;
+  liveRows: number;
+  rebuiltRows: number;
+  driftCount: number;
+  rows: DriftRow[];            // first sampleLimit drifted rows
+}
+
+export interface DriftReport {
+  checkedAt: string;
+  eventsReplayed: number;
+  watermark: {
+    ingestedAt: string;
+    eventId: string;
+  };
+  drifted: boolean;
+  tables: TableDrift[];
+}
+
+export interface DriftOptions {
+  tables?: string[];
+  sampleLimit?: number;
+}
+
+export async function detectProjectionDrift(pool: Pool, options: DriftOptions = {}): Promise<DriftReport> {
+  const tables = options.tables ?? ALL_PROJECTION_TABLES;
+  for (const table of tables) {
+    if (!ALL_PROJECTION_TABLES.includes(table)) {
+      throw new Error(`PROJECTION_TABLE_UNKNOWN:${table}`);
+    }
+  }
+  const sampleLimit = options.sampleLimit ?? DEFAULT_SAMPLE_LIMIT;
+
+  const replay = await replayAllProjections(new PostgresEventStore(pool));
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SET LOCAL search_path = pg_temp, public');
+    for (const table of ALL_PROJECTION_TABLES) {
+      // No constraints copied: an invariant-violating rebuilt row should surface as drift, not abort the check
+      await client.query(`CREATE TEMP TABLE ${table} (LIKE public.${table} INCLUDING DEFAULTS) ON COMMIT DROP`);
+    }
+    await replay.insertInto(client);
+
+    const results: TableDrift[] = [];
+    for (const table of tables) {
+      results.push(await diffTable(client, table, replay.watermark.watermarkIngestedAt, sampleLimit));
+    }
+
+    return {
+      checkedAt: replay.watermark.rebuiltAt.toISOString(),
+      eventsReplayed: replay.eventsReplayed,
+      watermark: {
+        ingestedAt: replay.watermark.watermarkIngestedAt.toISOString(),
+        eventId: replay.watermark.watermarkEventId,
+      },
+      drifted: results.some((result) => result.driftCount > 0),
+      tables: results,
+    };
+  } finally {
+    await client.query('ROLLBACK');
+    client.release();
+  }
+}
+
+async function diffTable(client: PoolClient, table: string, replayedThrough: Date, sampleLimit: number): Promise<TableDrift> {
+  const keyColumns = await primaryKeyColumns(client, table);
+  const rowWatermark = table in ROW_WATERMARK_COLUMNS ? ROW_WATERMARK_COLUMNS[table] : DEFAULT_ROW_WATERMARK;
+  const ignored = new Set(['rebuilt_at', ...(rowWatermark ? [rowWatermark.ingestedAt, rowWatermark.eventId] : [])]);
+  const compared = (await tableColumns(client, table)).filter((column) => !ignored.has(column) && !keyColumns.includes(column));
+
+  const joinOn = keyColumns.map((column) => `l.${column} = r.${column}`).join(' AND ');
+  const liveKeyNull = `l.${keyColumns[0]} IS NULL`;
+  const rebuiltKeyNull = `r.${keyColumns[0]} IS NULL`;
+  const valuesDiffer = compared.length > 0
+    ? `(${compared.map((column) => `l.${column}`).join(', ')}) IS DISTINCT FROM (${compared.map((column) => `r.${column}`).join(', ')})`
+    : 'FALSE';
+  // Live rows already carrying events newer than the replay are not drift, just ahead of it
+  const liveIsCurrent = rowWatermark ? `AND (l.${rowWatermark.ingestedAt} IS NULL OR l.${rowWatermark.ingestedAt} <= $1)` : '';
+
+  const diff = await client.query(`
+    SELECT
+      count(*) OVER () AS drift_count,
+      to_jsonb(l) AS live,
+      to_jsonb(r) AS rebuilt
+    FROM public.${table} l
+    FULL OUTER JOIN pg_temp.${table} r ON ${joinOn}
+    WHERE (${liveKeyNull} OR ${rebuiltKeyNull} OR ${valuesDiffer})
+      ${liveIsCurrent}
+    ORDER BY ${keyColumns.map((column) => `COALESCE(l.${column}, r.${column})`).join(', ')}
+    LIMIT ${rowWatermark ? '$2' : '$1'}
+  `, rowWatermark ? [replayedThrough.toISOString(), sampleLimit] : [sampleLimit]);
+
+  const counts = await client.query(`
+    SELECT
+      (SELECT count(*) FROM public.${table}) AS live_rows,
+      (SELECT count(*) FROM pg_temp.${table}) AS rebuilt_rows
+  `);
+
+  const rows: DriftRow[] = diff.rows.map((row) => {
+    const live = row.live as Record<string, unknown> | null;
+    const rebuilt = row.rebuilt as Record<string, unknown> | null;
+    const source = (live ?? rebuilt)!;
+    const key = Object.fromEntries(keyColumns.map((column) => [column, source[column]]));
+
+    if (!live) return { kind: 'MISSING', key, columns: [] };
+    if (!rebuilt) return { kind: 'UNEXPECTED', key, columns: [] };
+    return {
+      kind: 'MISMATCH',
+      key,
+      columns: compared
+        .filter((column) => JSON.stringify(live[column]) !== JSON.stringify(rebuilt[column]))
+        .map((column) => ({ column, live: live[column], rebuilt: rebuilt[column] })),
+    };
+  });
+
+  return {
+    table,
+    liveRows: Number(counts.rows[0].live_rows),
+    rebuiltRows: Number(counts.rows[0].rebuilt_rows),
+    driftCount: diff.rows.length > 0 ? Number(diff.rows[0].drift_count) : 0,
+    rows,
+  };
+}
+
+export async function primaryKeyColumns(client: PoolClient, table: string): Promise<string[]> {
+  const result = await client.query(`
+    SELECT a.attname
+    FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+    WHERE i.indrelid = $1::regclass AND i.indisprimary
+    ORDER BY array_position(i.indkey::int2[], a.attnum)
+  `, [`public.${table}`]);
+  if (result.rows.length === 0) {
+    throw new Error(`PROJECTION_TABLE_PRIMARY_KEY_MISSING:${table}`);
+  }
+  return result.rows.map((row) => row.attname as string);
+}
+
+async function tableColumns(client: PoolClient, table: string): Promise<string[]> {
+  const result = await client.query(`
+    SELECT column_name
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = $1
+    ORDER BY ordinal_position
+  `, [table]);
+  return result.rows.map((row) => row.column_name as string);
+}
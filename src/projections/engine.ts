@@ -0,0 +1,383 @@
+import { Pool, PoolClient } from 'pg';
+import { EventStore, DomainEvent, Watermark } from '../event-store';
+import type { EventId } from '../domain-types';
+import { AggregateProjector } from './aggregate-projector';
+import {
+  APPLICATION_ROW_EVENTS,
+  CLINIC_ROW_EVENTS,
+  BREEDER_FILING_ROW_EVENTS,
+  breederFilingIdOf,
+} from './projection-rows';
+
+// === INCREMENTAL PROJECTION ENGINE ===
+// Each projection declares the event types it handles and keeps its own checkpoint in
+// projection_checkpoints. Catch-up reads the log from that checkpoint and re-projects only
+// the rows touched since; the rows and the checkpoint commit together, so a crash never
+// leaves a projection ahead of or behind its watermark. Batches come from
+// fetchCommittedSince, so an event still uncommitted when a later one is read is not
+// left behind the checkpoint.
+// Services keep writing the same rows synchronously through AggregateProjector; every
+// projection is an idempotent upsert of the full aggregate state, so the two paths converge.
+
+export interface ProjectionDefinition {
+  name: string;
+  tables: string[];                       // truncated on rebuild, FK children first
+  eventTypes: ReadonlySet<string>;
+  dependsOn?: string[];                   // rebuilt again whenever one of these is rebuilt
+  keyOf(event: DomainEvent): string;      // projection key the event affects
+  project(client: PoolClient, key: string): Promise<void>;
+}
+
+export interface ProjectionRunResult {
+  projection: string;
+  eventsScanned: number;
+  rowsProjected: number;
+  watermark: {
+    ingestedAt: string;
+    eventId: string;
+  };
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+
+export function createProjectionDefinitions(pool: Pool, store: EventStore): ProjectionDefinition[] {
+  const projector = new AggregateProjector(pool, store);
+  const byAggregate = (event: DomainEvent) => event.aggregateId;
+
+  return [
+    {
+      name: 'applications',
+      tables: ['applications_projection'],
+      eventTypes: APPLICATION_ROW_EVENTS,
+      keyOf: byAggregate,
+      project: (client, applicationId) => projector.projectApplication(client, applicationId),
+    },
+    {
+      name: 'grant_balances',
+      tables: ['grant_balances_projection'],
+      eventTypes: new Set([
+        'GRANT_CREATED',
+        'GRANT_AGREEMENT_SIGNED',
+        'GRANT_ACTIVATED',
+        'GRANT_FUNDS_ENCUMBERED',
+        'GRANT_FUNDS_RELEASED',
+        'GRANT_FUNDS_LIQUIDATED',
+        'GRANT_SUSPENDED',
+        'GRANT_REINSTATED',
+        'GRANT_CLOSED',
+        'GRANT_AWARD_AMENDED',
+        'GRANT_BUCKET_REALLOCATED',
+        'LIRP_MUST_HONOR_ENFORCED',
+        'MATCHING_FUNDS_REPORTED',
+        'MATCHING_FUNDS_ADJUSTED',
+      ]),
+      keyOf: byAggregate,
+      project: (client, grantId) => projector.projectGrantBalances(client, grantId),
+    },
+    {
+      name: 'vouchers',
+      tables: ['vouchers_projection'],
+      eventTypes: new Set([
+        'VOUCHER_ISSUED',
+        'VOUCHER_ISSUED_TENTATIVE',
+        'VOUCHER_ISSUED_CONFIRMED',
+        'VOUCHER_ISSUED_REJECTED',
+        'VOUCHER_REDEEMED',
+        'VOUCHER_EXPIRED',
+        'VOUCHER_VOIDED',
+        'VOUCHER_AMENDED',
+      ]),
+      keyOf: byAggregate,
+      project: (client, voucherId) => projector.projectVoucher(client, voucherId),
+    },
+    {
+      name: 'allocators',
+      tables: ['allocators_projection'],
+      eventTypes: new Set([
+        'VOUCHER_CODE_ALLOCATOR_INITIALIZED',
+        'VOUCHER_CODE_ALLOCATED',
+      ]),
+      keyOf: byAggregate,
+      project: (client, allocatorId) => projector.projectAllocator(client, allocatorId),
+    },
+    {
+      name: 'claims',
+      tables: ['claims_projection'],
+      eventTypes: new Set([
+        'CLAIM_SUBMITTED',
+        'CLAIM_APPROVED',
+        'CLAIM_DENIED',
+        'CLAIM_ADJUSTED',
+        'CLAIM_INVOICED',
+        'CLAIM_DECISION_CONFLICT_RECORDED',
+      ]),
+      keyOf: byAggregate,
+      project: (client, claimId) => projector.projectClaim(client, claimId),
+    },
+    {
+      name: 'vet_clinics',
+      tables: ['vet_clinics_projection'],
+      eventTypes: CLINIC_ROW_EVENTS,
+      keyOf: byAggregate,
+      project: (client, clinicId) => projector.projectClinic(client, clinicId),
+    },
+    {
+      name: 'payments',
+      tables: ['payments_projection'],
+      eventTypes: new Set(['PAYMENT_RECORDED']),
+      keyOf: byAggregate,
+      project: (client, paymentId) => projector.projectPayment(client, paymentId),
+    },
+    {
+      name: 'invoices',
+      tables: ['invoices_projection'],
+      eventTypes: new Set([
+        'INVOICE_GENERATED',
+        'INVOICE_SUBMITTED',
+        'INVOICE_ADJUSTMENT_CREATED',
+        'INVOICE_ADJUSTMENT_APPLIED',
+        'PAYMENT_RECORDED',
+      ]),
+      // Payments are their own aggregate but move the invoice's derived status and paid total
+      dependsOn: ['payments'],
+      keyOf: (event) => event.eventType === 'PAYMENT_RECORDED' ? event.eventData.invoiceId as string : event.aggregateId,
+      project: (client, invoiceId) => projector.projectInvoice(client, invoiceId),
+    },
+    {
+      name: 'invoice_adjustments',
+      tables: ['invoice_adjustments_projection'],
+      eventTypes: new Set([
+        'INVOICE_ADJUSTMENT_CREATED',
+        'INVOICE_ADJUSTMENT_APPLIED',
+      ]),
+      keyOf: byAggregate,
+      project: (client, adjustmentId) => projector.projectAdjustment(client, adjustmentId),
+    },
+    {
+      name: 'oasis_export_batches',
+      tables: ['oasis_export_batch_items_projection', 'oasis_export_batches_projection'],
+      eventTypes: new Set([
+        'OASIS_EXPORT_BATCH_CREATED',
+        'OASIS_EXPORT_BATCH_ITEM_ADDED',
+        'OASIS_EXPORT_FILE_RENDERED',
+        'OASIS_EXPORT_BATCH_SUBMITTED',
+        'OASIS_EXPORT_BATCH_ACKNOWLEDGED',
+        'OASIS_EXPORT_BATCH_REJECTED',
+        'OASIS_EXPORT_BATCH_VOIDED',
+      ]),
+      // Also stamps invoices_projection.oasis_export_batch_id
+      dependsOn: ['invoices'],
+      keyOf: byAggregate,
+      project: (client, exportBatchId) => projector.projectExportBatch(client, exportBatchId),
+    },
+    {
+      name: 'grant_cycle_closeout',
+      tables: ['grant_cycle_closeout_projection'],
+      eventTypes: new Set([
+        'GRANT_CYCLE_CLOSEOUT_PREFLIGHT_COMPLETED',
+        'GRANT_CYCLE_CLOSEOUT_STARTED',
+        'GRANT_CYCLE_CLOSEOUT_RECONCILED',
+        'GRANT_CYCLE_CLOSED',
+        'GRANT_CYCLE_CLOSEOUT_AUDIT_HOLD',
+        'GRANT_CYCLE_CLOSEOUT_AUDIT_RESOLVED',
+      ]),
+      keyOf: (event) => event.grantCycleId,
+      project: (client, grantCycleId) => projector.projectCycleCloseout(client, grantCycleId),
+    },
+    {
+      name: 'breeder_compliance_queue',
+      tables: ['breeder_compliance_queue_projection'],
+      eventTypes: BREEDER_FILING_ROW_EVENTS,
+      keyOf: breederFilingIdOf,
+      project: (client, filingId) => projector.projectBreederFiling(client, filingId),
+    },
+  ];
+}
+
+export class ProjectionEngine {
+  private readonly projections: ProjectionDefinition[];
+
+  constructor(
+    private pool: Pool,
+    private store: EventStore,
+    projections?: ProjectionDefinition[]
+  ) {
+    this.projections = projections ?? createProjectionDefinitions(pool, store);
+  }
+
+  projectionNames(): string[] {
+    return this.projections.map((projection) => projection.name);
+  }
+
+  async getCheckpoint(name: string, client?: PoolClient): Promise<Watermark | null> {
+    const db = client ?? this.pool;
+    const result = await db.query(
+      'SELECT watermark_ingested_at, watermark_event_id FROM projection_checkpoints WHERE projection_name = $1',
+      [name]
+    );
+    if (result.rows.length === 0) return null;
+    return {
+      ingestedAt: new Date(result.rows[0].watermark_ingested_at),
+      eventId: result.rows[0].watermark_event_id as EventId,
+    };
+  }
+
+  /**
+   * Applies everything after the projection's checkpoint, one transaction per batch.
+   */
+  async catchUp(name: string, batchSize: number = DEFAULT_BATCH_SIZE): Promise<ProjectionRunResult> {
+    const projection = this.requireProjection(name);
+    let eventsScanned = 0;
+    let rowsProjected = 0;
+    let watermark = Watermark.ZERO;
+
+    for (;;) {
+      const client = await this.pool.connect();
+      try {
+        await client.query('BEGIN');
+        await this.lockProjection(client, name);
+        watermark = (await this.getCheckpoint(name, client)) ?? Watermark.ZERO;
+
+        const batch = await this.applyBatch(client, projection, watermark, batchSize);
+        if (batch.eventsScanned === 0) {
+          await client.query('COMMIT');
+          break;
+        }
+
+        watermark = batch.watermark;
+        await this.saveCheckpoint(client, name, watermark);
+        await client.query('COMMIT');
+
+        eventsScanned += batch.eventsScanned;
+        rowsProjected += batch.rowsProjected;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+
+    return toRunResult(name, eventsScanned, rowsProjected, watermark);
+  }
+
+  async catchUpAll(batchSize: number = DEFAULT_BATCH_SIZE): Promise<ProjectionRunResult[]> {
+    const results: ProjectionRunResult[] = [];
+    for (const projection of this.projections) {
+      results.push(await this.catchUp(projection.name, batchSize));
+    }
+    return results;
+  }
+
+  /**
+   * Truncates the projection (plus any projection that depends on it) and replays the log
+   * from the beginning in a single transaction, so readers never observe a half-built table.
+   */
+  async rebuild(name: string, batchSize: number = DEFAULT_BATCH_SIZE): Promise<ProjectionRunResult[]> {
+    this.requireProjection(name);
+    const targets = this.projections.filter(
+      (projection) => projection.name === name || (projection.dependsOn ?? []).includes(name)
+    );
+
+    const results: ProjectionRunResult[] = [];
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const projection of targets) {
+        await this.lockProjection(client, projection.name);
+      }
+      for (const projection of targets) {
+        await client.query(`TRUNCATE TABLE ${projection.tables.join(', ')}`);
+        await client.query('DELETE FROM projection_checkpoints WHERE projection_name = $1', [projection.name]);
+      }
+
+      for (const projection of targets) {
+        let watermark = Watermark.ZERO;
+        let eventsScanned = 0;
+        let rowsProjected = 0;
+        for (;;) {
+          const batch = await this.applyBatch(client, projection, watermark, batchSize);
+          if (batch.eventsScanned === 0) break;
+          watermark = batch.watermark;
+          eventsScanned += batch.eventsScanned;
+          rowsProjected += batch.rowsProjected;
+        }
+        await this.saveCheckpoint(client, projection.name, watermark);
+        results.push(toRunResult(projection.name, eventsScanned, rowsProjected, watermark));
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return results;
+  }
+
+  private async applyBatch(
+    client: PoolClient,
+    projection: ProjectionDefinition,
+    watermark: Watermark,
+    batchSize: number
+  ): Promise<{ eventsScanned: number; rowsProjected: number; watermark: Watermark }> {
+    const events = await this.store.fetchCommittedSince(watermark, batchSize);
+    if (events.length === 0) {
+      return { eventsScanned: 0, rowsProjected: 0, watermark };
+    }
+
+    // Each projection re-derives the whole row from its stream, so one call per key per batch suffices
+    const keys = new Set<string>();
+    for (const event of events) {
+      if (projection.eventTypes.has(event.eventType)) {
+        keys.add(projection.keyOf(event));
+      }
+    }
+    for (const key of keys) {
+      await projection.project(client, key);
+    }
+
+    return {
+      eventsScanned: events.length,
+      rowsProjected: keys.size,
+      watermark: Watermark.from(events[events.length - 1]),
+    };
+  }
+
+  private async lockProjection(client: PoolClient, name: string): Promise<void> {
+    await client.query("SELECT pg_advisory_xact_lock(hashtextextended('projection:' || $1, 0))", [name]);
+  }
+
+  private async saveCheckpoint(client: PoolClient, name: string, watermark: Watermark): Promise<void> {
+    await client.query(`
+      INSERT INTO projection_checkpoints (projection_name, watermark_ingested_at, watermark_event_id, updated_at)
+      VALUES ($1, $2, $3, clock_timestamp())
+      ON CONFLICT (projection_name) DO UPDATE SET
+        watermark_ingested_at = EXCLUDED.watermark_ingested_at,
+        watermark_event_id = EXCLUDED.watermark_event_id,
+        updated_at = EXCLUDED.updated_at
+    `, [name, watermark.ingestedAt.toISOString(), watermark.eventId]);
+  }
+
+  private requireProjection(name: string): ProjectionDefinition {
+    const projection = this.projections.find((candidate) => candidate.name === name);
+    if (!projection) {
+      throw new Error(`PROJECTION_NOT_REGISTERED:${name}`);
+    }
+    return projection;
+  }
+}
+
+function toRunResult(name: string, eventsScanned: number, rowsProjected: number, watermark: Watermark): ProjectionRunResult {
+  return {
+    projection: name,
+    eventsScanned,
+    rowsProjected,
+    watermark: {
+      ingestedAt: watermark.ingestedAt.toISOString(),
+      eventId: watermark.eventId,
+    },
+  };
+}
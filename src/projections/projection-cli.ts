@@ -0,0 +1,39 @@
+import { Pool } from 'pg';
+import { PostgresEventStore } from '../event-store';
+import { ProjectionEngine } from './engine';
+
+// Usage:
+//   node dist/projections/projection-cli.js catch-up [projectionName]
+//   node dist/projections/projection-cli.js rebuild <projectionName>
+async function main(): Promise<void> {
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const engine = new ProjectionEngine(pool, new PostgresEventStore(pool));
+    const [command = 'catch-up', name] = process.argv.slice(2);
+
+    let results;
+    if (command === 'catch-up') {
+      results = name ? [await engine.catchUp(name)] : await engine.catchUpAll();
+    } else if (command === 'rebuild' && name) {
+      results = await engine.rebuild(name);
+    } else {
+      throw new Error(`Unknown command. Projections: ${engine.projectionNames().join(', ')}`);
+    }
+
+    for (const result of results) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(result));
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,737 @@
+import { PoolClient } from 'pg';
+import { DomainEvent } from '../event-store';
+import { MoneyCents } from '../domain-types';
+import { GrantState } from '../domain/grant/grant-logic';
+import { VoucherState } from '../domain/voucher/voucher-logic';
+import { AllocatorState, LEGACY_ALLOCATOR_COUNTY } from '../domain/voucher/voucher-code-allocator';
+import { ClaimState } from '../domain/claim/claim-logic';
+import { InvoiceState, computeInvoiceStatus } from '../domain/invoice/invoice-logic';
+import { BatchState } from '../domain/oasis/batch-logic';
+import { CycleCloseoutState } from '../domain/closeout/cycle-logic';
+import {
+  BreederFilingType,
+  calculateComplianceStatus,
+  calculateCureDeadlineAt,
+  calculateDueAt,
+} from '../domain/compliance/timeline-logic';
+import type { ProjectionWatermark } from './rebuild';
+
+// === PROJECTION ROWS ===
+// Row builders for every projection derived from a domain aggregate. AggregateProjector
+// upserts them one aggregate at a time; the full replay in rebuild.ts inserts them into
+// freshly truncated (or shadow) tables. Both paths fold the same reducers and build rows
+// here, so a rebuilt row can only differ from a live one if the event log does.
+
+export interface ProjectionRow {
+  table: string;
+  keyColumns: string[];              // conflict target for upserts
+  values: Record<string, unknown>;   // column -> parameter, in column order
+}
+
+/**
+ * Plain INSERT: rebuild targets have no rows yet, and the drift detector's shadow tables
+ * carry no constraints for ON CONFLICT to match.
+ */
+export async function insertProjectionRow(client: PoolClient, row: ProjectionRow): Promise<void> {
+  const columns = Object.keys(row.values);
+  await client.query(
+    `INSERT INTO ${row.table} (${columns.join(', ')}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})`,
+    Object.values(row.values)
+  );
+}
+
+export async function upsertProjectionRow(client: PoolClient, row: ProjectionRow): Promise<void> {
+  const columns = Object.keys(row.values);
+  const updates = columns
+    .filter((column) => !row.keyColumns.includes(column))
+    .map((column) => `${column} = EXCLUDED.${column}`);
+  await client.query(
+    `INSERT INTO ${row.table} (${columns.join(', ')}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+     ON CONFLICT (${row.keyColumns.join(', ')}) DO UPDATE SET ${updates.join(', ')}`,
+    Object.values(row.values)
+  );
+}
+
+function stampColumns(wm: ProjectionWatermark): Record<string, unknown> {
+  return {
+    rebuilt_at: wm.rebuiltAt,
+    watermark_ingested_at: wm.watermarkIngestedAt,
+    watermark_event_id: wm.watermarkEventId,
+  };
+}
+
+export function grantBalanceRows(grantId: string, grantCycleId: string | null, grant: GrantState, wm: ProjectionWatermark): ProjectionRow[] {
+  return [...grant].map(([bucketType, bucket]) => ({
+    table: 'grant_balances_projection',
+    keyColumns: ['grant_id', 'bucket_type'],
+    values: {
+      grant_id: grantId,
+      grant_cycle_id: grantCycleId,
+      bucket_type: bucketType,
+      awarded_cents: bucket.awardedCents.toString(),
+      available_cents: bucket.availableCents.toString(),
+      encumbered_cents: bucket.encumberedCents.toString(),
+      liquidated_cents: bucket.liquidatedCents.toString(),
+      released_cents: bucket.releasedCents.toString(),
+      rate_numerator_cents: bucket.rateNumeratorCents.toString(),
+      rate_denominator_cents: bucket.rateDenominatorCents.toString(),
+      matching_committed_cents: bucket.matchingCommittedCents.toString(),
+      matching_reported_cents: bucket.matchingReportedCents.toString(),
+      ...stampColumns(wm),
+    },
+  }));
+}
+
+export function voucherRow(voucher: VoucherState, grantId: string | null, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'vouchers_projection',
+    keyColumns: ['voucher_id'],
+    values: {
+      voucher_id: voucher.voucherId,
+      grant_id: grantId,
+      voucher_code: voucher.voucherCode,
+      county_code: voucher.countyCode,
+      status: voucher.status,
+      max_reimbursement_cents: voucher.maxReimbursementCents.toString(),
+      is_lirp: voucher.isLIRP,
+      lirp_fallback_cents: voucher.lirpFallbackCents.toString(),
+      tentative_expires_at: voucher.tentativeExpiresAt,
+      expires_at: voucher.expiresAt,
+      issued_at: voucher.issuedAt,
+      redeemed_at: voucher.redeemedAt,
+      expired_at: voucher.expiredAt,
+      voided_at: voucher.voidedAt,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+export function allocatorRow(allocator: AllocatorState, grantCycleId: string | null, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'allocators_projection',
+    keyColumns: ['allocator_id'],
+    values: {
+      allocator_id: allocator.allocatorId,
+      grant_cycle_id: grantCycleId,
+      county_code: allocator.countyCode ?? LEGACY_ALLOCATOR_COUNTY,
+      next_sequence: allocator.nextSequence,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+export function claimRow(claim: ClaimState, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'claims_projection',
+    keyColumns: ['claim_id'],
+    values: {
+      claim_id: claim.claimId,
+      claim_fingerprint: claim.claimFingerprint,
+      grant_cycle_id: claim.grantCycleId,
+      voucher_id: claim.voucherId,
+      clinic_id: claim.clinicId,
+      procedure_code: claim.procedureCode,
+      date_of_service: claim.dateOfService,
+      status: claim.status,
+      submitted_amount_cents: claim.submittedAmountCents.toString(),
+      approved_amount_cents: claim.approvedAmountCents ? claim.approvedAmountCents.toString() : null,
+      decision_basis: claim.decisionBasis ? JSON.stringify(claim.decisionBasis) : null,
+      invoice_id: claim.invoiceId,
+      submitted_at: claim.submittedAt,
+      approved_at: claim.approvedAt,
+      approved_event_id: claim.approvedEventId,
+      denied_at: claim.deniedAt,
+      adjusted_at: claim.adjustedAt,
+      invoiced_at: claim.invoicedAt,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+// oasis_export_batch_id is owned by linkInvoicesToExportBatch, so it is not part of the row
+export function invoiceRow(invoice: InvoiceState, grantCycleId: string | null, paidCents: MoneyCents, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'invoices_projection',
+    keyColumns: ['invoice_id'],
+    values: {
+      invoice_id: invoice.invoiceId,
+      clinic_id: invoice.clinicId,
+      grant_cycle_id: grantCycleId,
+      invoice_period_start: invoice.periodStart,
+      invoice_period_end: invoice.periodEnd,
+      total_amount_cents: invoice.totalAmountCents.toString(),
+      claim_ids: JSON.stringify(invoice.claimIds),
+      adjustment_ids: JSON.stringify(invoice.adjustmentIds),
+      // Payment status is projection-derived (LAW 7.6)
+      status: computeInvoiceStatus(invoice.totalAmountCents, paidCents, invoice.status === 'SUBMITTED'),
+      submitted_at: invoice.submittedAt,
+      generated_at: invoice.generatedAt,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+export function exportBatchRow(batch: BatchState, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'oasis_export_batches_projection',
+    keyColumns: ['export_batch_id'],
+    values: {
+      export_batch_id: batch.exportBatchId,
+      grant_cycle_id: batch.grantCycleId,
+      batch_code: batch.batchCode,
+      batch_fingerprint: batch.batchFingerprint,
+      period_start: batch.periodStart,
+      period_end: batch.periodEnd,
+      watermark_ingested_at: batch.watermarkIngestedAt,
+      watermark_event_id: batch.watermarkEventId,
+      status: batch.status,
+      record_count: batch.recordCount,
+      control_total_cents: batch.controlTotalCents.toString(),
+      artifact_id: batch.artifactId,
+      file_sha256: batch.fileSha256,
+      format_version: batch.formatVersion,
+      submitted_at: batch.submittedAt,
+      submission_method: batch.submissionMethod,
+      oasis_ref_id: batch.oasisRefId,
+      acknowledged_at: batch.acknowledgedAt,
+      rejection_reason: batch.rejectionReason,
+      rejection_code: batch.rejectionCode,
+      voided_reason: batch.voidedReason,
+      voided_by_actor_id: batch.voidedByActorId,
+      rebuilt_at: wm.rebuiltAt,
+      watermark_ingested_at_row: wm.watermarkIngestedAt,
+      watermark_event_id_row: wm.watermarkEventId,
+    },
+  };
+}
+
+// Items come from the batch's OASIS_EXPORT_BATCH_ITEM_ADDED payloads, in stream order
+export function exportBatchItemRows(exportBatchId: string, items: Array<Record<string, unknown>>): ProjectionRow[] {
+  return items.map((item) => ({
+    table: 'oasis_export_batch_items_projection',
+    keyColumns: ['export_batch_id', 'invoice_id'],
+    values: {
+      export_batch_id: exportBatchId,
+      invoice_id: item.invoiceId,
+      clinic_id: item.clinicId,
+      oasis_vendor_code: item.oasisVendorCode,
+      amount_cents: item.amountCents,
+      invoice_period_start: item.invoicePeriodStart,
+      invoice_period_end: item.invoicePeriodEnd,
+    },
+  }));
+}
+
+/**
+ * Points each batched invoice at its batch once the batch leaves CREATED, and clears the
+ * link again when the batch is rejected or voided. Runs after the invoice rows exist.
+ */
+export async function linkInvoicesToExportBatch(client: PoolClient, batch: BatchState, items: Array<Record<string, unknown>>): Promise<void> {
+  if (batch.status === 'REJECTED' || batch.status === 'VOIDED') {
+    await client.query(`
+      UPDATE invoices_projection
+      SET oasis_export_batch_id = NULL
+      WHERE oasis_export_batch_id = $1
+    `, [batch.exportBatchId]);
+  } else if (batch.status !== 'CREATED') {
+    const invoiceIds = items.map((item) => item.invoiceId);
+    if (invoiceIds.length > 0) {
+      await client.query(`
+        UPDATE invoices_projection
+        SET oasis_export_batch_id = $1
+        WHERE invoice_id = ANY($2::uuid[])
+      `, [batch.exportBatchId, invoiceIds]);
+    }
+  }
+}
+
+export function closeoutRow(closeout: CycleCloseoutState, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'grant_cycle_closeout_projection',
+    keyColumns: ['grant_cycle_id'],
+    values: {
+      grant_cycle_id: closeout.grantCycleId,
+      closeout_status: closeout.closeoutStatus,
+      preflight_status: closeout.preflightStatus,
+      preflight_checks: JSON.stringify(closeout.preflightChecks),
+      started_at: closeout.startedAt,
+      reconciled_at: closeout.reconciledAt,
+      financial_summary: closeout.financialSummary ? JSON.stringify({
+        awardedCents: closeout.financialSummary.awardedCents.toString(),
+        encumberedCents: closeout.financialSummary.encumberedCents.toString(),
+        liquidatedCents: closeout.financialSummary.liquidatedCents.toString(),
+        releasedCents: closeout.financialSummary.releasedCents.toString(),
+        unspentCents: closeout.financialSummary.unspentCents.toString(),
+      }) : null,
+      matching_funds: closeout.matchingFunds ? JSON.stringify({
+        committedCents: closeout.matchingFunds.committedCents.toString(),
+        reportedCents: closeout.matchingFunds.reportedCents.toString(),
+        shortfallCents: closeout.matchingFunds.shortfallCents.toString(),
+        surplusCents: closeout.matchingFunds.surplusCents.toString(),
+        evidenceArtifactIds: closeout.matchingFunds.evidenceArtifactIds,
+      }) : null,
+      activity_summary: closeout.activitySummary ? JSON.stringify(closeout.activitySummary) : null,
+      reconciliation_watermark_ingested_at: closeout.reconciliationWatermarkIngestedAt,
+      reconciliation_watermark_event_id: closeout.reconciliationWatermarkEventId,
+      closed_at: closeout.closedAt,
+      closed_by_actor_id: closeout.closedByActorId,
+      final_balance_cents: closeout.finalBalanceCents ? closeout.finalBalanceCents.toString() : null,
+      audit_hold_reason: closeout.auditHoldReason,
+      audit_hold_at: closeout.auditHoldAt,
+      audit_resolved_at: closeout.auditResolvedAt,
+      audit_resolution: closeout.auditResolution,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+// === EVENT-FOLDED ROWS ===
+// Projections whose rows carry more than a domain reducer keeps (or that have no reducer)
+// fold their events here instead, so the projector and the full replay still share one fold.
+// Folds return a new state and never mutate the one they are given.
+
+function toBigInt(v: unknown): bigint {
+  if (typeof v === 'bigint') return v;
+  if (typeof v === 'string') return BigInt(v);
+  if (typeof v === 'number') return BigInt(v);
+  return 0n;
+}
+
+function asDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const next = new Date(value);
+    return Number.isNaN(next.getTime()) ? null : next;
+  }
+  return null;
+}
+
+function asNullableInteger(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && /^-?\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  return null;
+}
+
+export interface ApplicationRowState {
+  applicationId: string;
+  granteeId: string;
+  grantCycleId: string;
+  organizationName: string | null;
+  organizationType: string | null;
+  requestedAmountCents: bigint | null;
+  matchCommitmentCents: bigint | null;
+  matchLevel: string | null;
+  status: string | null;
+  completenessPercent: number | null;
+  priorityScore: number | null;
+}
+
+export const APPLICATION_ROW_EVENTS = new Set([
+  'APPLICATION_STARTED',
+  'APPLICATION_SUBMITTED',
+  'APPLICATION_SCORED',
+  'APPLICATION_AWARDED',
+  'APPLICATION_APPROVED',
+  'APPLICATION_DENIED',
+  'APPLICATION_WAITLISTED',
+  'APPLICATION_SECTION_COMPLETED',
+]);
+
+// Events before APPLICATION_STARTED (or outside APPLICATION_ROW_EVENTS) leave the row as it is
+export function foldApplicationRow(app: ApplicationRowState | undefined, event: DomainEvent): ApplicationRowState | undefined {
+  const d = event.eventData as Record<string, unknown>;
+  switch (event.eventType) {
+    case 'APPLICATION_STARTED':
+      return {
+        applicationId: event.aggregateId,
+        granteeId: d.granteeId as string || '',
+        grantCycleId: event.grantCycleId,
+        organizationName: d.organizationName as string || null,
+        organizationType: d.organizationType as string || null,
+        requestedAmountCents: null,
+        matchCommitmentCents: null,
+        matchLevel: null,
+        status: 'DRAFT',
+        completenessPercent: 0,
+        priorityScore: null,
+      };
+    case 'APPLICATION_SUBMITTED':
+      return app && {
+        ...app,
+        status: 'SUBMITTED',
+        completenessPercent: 100,
+        requestedAmountCents: BigInt((d.requestedAmountCents ?? 0) as string | number),
+        matchCommitmentCents: BigInt((d.matchCommitmentCents ?? 0) as string | number),
+      };
+    case 'APPLICATION_SCORED':
+      return app && { ...app, status: 'SCORED', priorityScore: d.priorityScore as number };
+    case 'APPLICATION_AWARDED':
+    case 'APPLICATION_APPROVED':
+      return app && { ...app, status: 'AWARDED' };
+    case 'APPLICATION_DENIED':
+      return app && { ...app, status: 'DENIED' };
+    case 'APPLICATION_WAITLISTED':
+      return app && { ...app, status: 'WAITLISTED' };
+    case 'APPLICATION_SECTION_COMPLETED':
+      // Six sections, ~17% each
+      return app && app.completenessPercent !== null && app.completenessPercent < 100
+        ? { ...app, completenessPercent: Math.min(100, app.completenessPercent + 17) }
+        : app;
+    default:
+      return app;
+  }
+}
+
+export function applicationRow(app: ApplicationRowState, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'applications_projection',
+    keyColumns: ['application_id'],
+    values: {
+      application_id: app.applicationId,
+      grantee_id: app.granteeId,
+      grant_cycle_id: app.grantCycleId,
+      organization_name: app.organizationName,
+      organization_type: app.organizationType,
+      requested_amount_cents: app.requestedAmountCents?.toString() ?? null,
+      match_commitment_cents: app.matchCommitmentCents?.toString() ?? null,
+      match_level: app.matchLevel,
+      status: app.status,
+      completeness_percent: app.completenessPercent,
+      priority_score: app.priorityScore,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+export interface ClinicRowState {
+  clinicId: string;
+  clinicName: string;
+  status: string;
+  licenseStatus: string;
+  licenseNumber: string | null;
+  licenseExpiresAt: Date | null;
+  oasisVendorCode: string | null;
+  paymentInfo: Record<string, unknown> | null;
+  registeredAt: Date | null;
+  suspendedAt: Date | null;
+  reinstatedAt: Date | null;
+}
+
+export const CLINIC_ROW_EVENTS = new Set([
+  'VET_CLINIC_REGISTERED',
+  'VET_CLINIC_LICENSE_STATUS_RECORDED',
+  'VET_CLINIC_SUSPENDED',
+  'VET_CLINIC_REINSTATED',
+  'VET_CLINIC_PAYMENT_INFO_UPDATED',
+  'VET_CLINIC_OASIS_VENDOR_CODE_ASSIGNED',
+]);
+
+// Events before VET_CLINIC_REGISTERED leave the row as it is
+export function foldClinicRow(clinic: ClinicRowState | undefined, event: DomainEvent): ClinicRowState | undefined {
+  const d = event.eventData as Record<string, unknown>;
+  switch (event.eventType) {
+    case 'VET_CLINIC_REGISTERED':
+      return {
+        clinicId: event.aggregateId,
+        clinicName: d.clinicName as string || '',
+        status: 'ACTIVE',
+        licenseStatus: d.licenseStatus as string || 'UNKNOWN',
+        licenseNumber: d.licenseNumber as string || null,
+        licenseExpiresAt: d.licenseExpiresAt ? new Date(d.licenseExpiresAt as string) : null,
+        oasisVendorCode: d.oasisVendorCode as string || null,
+        paymentInfo: null,
+        registeredAt: event.ingestedAt,
+        suspendedAt: null,
+        reinstatedAt: null,
+      };
+    case 'VET_CLINIC_LICENSE_STATUS_RECORDED':
+      return clinic && {
+        ...clinic,
+        licenseStatus: d.licenseStatus as string,
+        licenseNumber: d.licenseNumber as string || clinic.licenseNumber,
+        licenseExpiresAt: d.licenseExpiresAt ? new Date(d.licenseExpiresAt as string) : clinic.licenseExpiresAt,
+      };
+    case 'VET_CLINIC_SUSPENDED':
+      return clinic && { ...clinic, status: 'SUSPENDED', suspendedAt: event.ingestedAt };
+    case 'VET_CLINIC_REINSTATED':
+      return clinic && { ...clinic, status: 'ACTIVE', reinstatedAt: event.ingestedAt };
+    case 'VET_CLINIC_PAYMENT_INFO_UPDATED':
+      // Same shape applyClinicEvent keeps
+      return clinic && {
+        ...clinic,
+        paymentInfo: {
+          accountName: d.accountName,
+          accountNumber: d.accountNumber,
+          routingNumber: d.routingNumber,
+          bankName: d.bankName,
+        },
+      };
+    case 'VET_CLINIC_OASIS_VENDOR_CODE_ASSIGNED':
+      return clinic && { ...clinic, oasisVendorCode: d.oasisVendorCode as string };
+    default:
+      return clinic;
+  }
+}
+
+export function clinicRow(clinic: ClinicRowState, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'vet_clinics_projection',
+    keyColumns: ['clinic_id'],
+    values: {
+      clinic_id: clinic.clinicId,
+      clinic_name: clinic.clinicName,
+      status: clinic.status,
+      license_status: clinic.licenseStatus,
+      license_number: clinic.licenseNumber,
+      license_expires_at: clinic.licenseExpiresAt,
+      oasis_vendor_code: clinic.oasisVendorCode,
+      payment_info: clinic.paymentInfo ? JSON.stringify(clinic.paymentInfo) : null,
+      registered_at: clinic.registeredAt,
+      suspended_at: clinic.suspendedAt,
+      reinstated_at: clinic.reinstatedAt,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+export interface PaymentRowState {
+  paymentId: string;
+  invoiceId: string;
+  amountCents: bigint;
+  paymentChannel: string;
+  referenceId: string | null;
+  recordedAt: Date | null;
+}
+
+export function foldPaymentRow(payment: PaymentRowState | undefined, event: DomainEvent): PaymentRowState | undefined {
+  if (event.eventType !== 'PAYMENT_RECORDED') return payment;
+  const d = event.eventData as Record<string, unknown>;
+  return {
+    paymentId: event.aggregateId,
+    invoiceId: d.invoiceId as string || '',
+    amountCents: toBigInt(d.amountCents),
+    paymentChannel: d.paymentChannel as string || '',
+    referenceId: d.referenceId as string || null,
+    recordedAt: event.ingestedAt,
+  };
+}
+
+export function paymentRow(payment: PaymentRowState, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'payments_projection',
+    keyColumns: ['payment_id'],
+    values: {
+      payment_id: payment.paymentId,
+      invoice_id: payment.invoiceId,
+      amount_cents: payment.amountCents.toString(),
+      payment_channel: payment.paymentChannel,
+      reference_id: payment.referenceId,
+      recorded_at: payment.recordedAt,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+// AdjustmentState has no grant cycle or clinic, so the row is folded from the events
+export interface AdjustmentRowState {
+  adjustmentId: string;
+  sourceInvoiceId: string;
+  grantCycleId: string;
+  clinicId: string | null;
+  targetInvoiceId: string | null;
+  amountCents: bigint;
+  reason: string | null;
+  recordedAt: Date | null;
+  appliedAt: Date | null;
+}
+
+export function foldAdjustmentRow(adjustment: AdjustmentRowState | undefined, event: DomainEvent): AdjustmentRowState | undefined {
+  const d = event.eventData as Record<string, unknown>;
+  switch (event.eventType) {
+    case 'INVOICE_ADJUSTMENT_CREATED':
+      return {
+        adjustmentId: event.aggregateId,
+        sourceInvoiceId: d.sourceInvoiceId as string || '',
+        grantCycleId: event.grantCycleId,
+        clinicId: d.clinicId as string || null,
+        targetInvoiceId: null,
+        amountCents: toBigInt(d.amountCents),
+        reason: d.reason as string || null,
+        recordedAt: event.ingestedAt,
+        appliedAt: null,
+      };
+    case 'INVOICE_ADJUSTMENT_APPLIED':
+      return adjustment && { ...adjustment, targetInvoiceId: d.targetInvoiceId as string, appliedAt: event.ingestedAt };
+    default:
+      return adjustment;
+  }
+}
+
+export function adjustmentRow(adjustment: AdjustmentRowState, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'invoice_adjustments_projection',
+    keyColumns: ['adjustment_id'],
+    values: {
+      adjustment_id: adjustment.adjustmentId,
+      source_invoice_id: adjustment.sourceInvoiceId,
+      grant_cycle_id: adjustment.grantCycleId,
+      clinic_id: adjustment.clinicId,
+      target_invoice_id: adjustment.targetInvoiceId,
+      amount_cents: adjustment.amountCents.toString(),
+      reason: adjustment.reason,
+      recorded_at: adjustment.recordedAt,
+      applied_at: adjustment.appliedAt,
+      ...stampColumns(wm),
+    },
+  };
+}
+
+export interface BreederFilingRowState {
+  filingId: string;
+  licenseId: string | null;
+  grantCycleId: string;
+  filingType: BreederFilingType;
+  reportingYear: number | null;
+  reportingQuarter: number | null;
+  occurredAt: Date | null;
+  dueAt: Date;
+  cureDeadlineAt: Date | null;
+  submittedAt: Date | null;
+  amendedAt: Date | null;
+  curedAt: Date | null;
+  status: 'ON_TIME' | 'DUE_SOON' | 'OVERDUE' | 'CURED';
+  lastEventId: string;
+  lastEventIngestedAt: Date;
+}
+
+export const BREEDER_FILING_ROW_EVENTS = new Set([
+  'BREEDER_TRANSFER_CONFIRMATION_FILED',
+  'BREEDER_TRANSFER_CONFIRMATION_AMENDED',
+  'BREEDER_ACCIDENTAL_LITTER_REGISTRATION_FILED',
+  'BREEDER_ACCIDENTAL_LITTER_REGISTRATION_AMENDED',
+  'BREEDER_QUARTERLY_TRANSITION_REPORT_FILED',
+  'BREEDER_QUARTERLY_TRANSITION_REPORT_AMENDED',
+  'BREEDER_FILING_CURED',
+]);
+
+// Filings are keyed by their own stream; a cure names the filing it cures, if not its own
+export function breederFilingIdOf(event: DomainEvent): string {
+  const filingId = event.eventData.filingId;
+  return event.eventType === 'BREEDER_FILING_CURED' && typeof filingId === 'string' && filingId.length > 0
+    ? filingId
+    : event.aggregateId;
+}
+
+function filingTypeFromEvent(eventType: string): BreederFilingType | null {
+  if (eventType.startsWith('BREEDER_TRANSFER_CONFIRMATION_')) {
+    return 'TRANSFER_CONFIRMATION';
+  }
+  if (eventType.startsWith('BREEDER_ACCIDENTAL_LITTER_REGISTRATION_')) {
+    return 'ACCIDENTAL_LITTER_REGISTRATION';
+  }
+  if (eventType.startsWith('BREEDER_QUARTERLY_TRANSITION_REPORT_')) {
+    return 'QUARTERLY_TRANSITION_REPORT';
+  }
+  return null;
+}
+
+function curePeriodDaysOf(filing: BreederFilingRowState): number | null {
+  return filing.cureDeadlineAt
+    ? Math.max(1, Math.ceil((filing.cureDeadlineAt.getTime() - filing.dueAt.getTime()) / (24 * 60 * 60 * 1000)))
+    : null;
+}
+
+// A cure before the filing's first event leaves the row as it is
+export function foldBreederFilingRow(existing: BreederFilingRowState | undefined, event: DomainEvent): BreederFilingRowState | undefined {
+  const d = event.eventData as Record<string, unknown>;
+  const t = event.eventType;
+
+  if (t === 'BREEDER_FILING_CURED') {
+    return existing && {
+      ...existing,
+      curedAt: asDate(d.curedAt) ?? event.ingestedAt,
+      status: 'CURED',
+      lastEventId: event.eventId,
+      lastEventIngestedAt: event.ingestedAt,
+    };
+  }
+
+  const filingType = BREEDER_FILING_ROW_EVENTS.has(t) ? filingTypeFromEvent(t) : null;
+  if (!filingType) {
+    return existing;
+  }
+
+  const occurredAt = asDate(d.occurredAt) ?? existing?.occurredAt ?? event.occurredAt;
+  const submittedAt = asDate(d.submittedAt) ?? event.ingestedAt;
+  const amendedAt = t.endsWith('_AMENDED') ? event.ingestedAt : existing?.amendedAt ?? null;
+  const curePeriodDays = asNullableInteger(d.curePeriodDays) ?? (existing ? curePeriodDaysOf(existing) : null);
+  const reportingYear = asNullableInteger(d.reportingYear) ?? existing?.reportingYear ?? null;
+  const reportingQuarter = asNullableInteger(d.reportingQuarter) ?? existing?.reportingQuarter ?? null;
+
+  const dueAt = calculateDueAt({
+    filingType,
+    occurredAt: occurredAt ?? undefined,
+    dueAt: asDate(d.dueAt) ?? existing?.dueAt,
+    quarterlyCycle: (reportingYear && reportingQuarter && reportingQuarter >= 1 && reportingQuarter <= 4)
+      ? { reportingYear, reportingQuarter: reportingQuarter as 1 | 2 | 3 | 4 }
+      : undefined,
+    quarterlyDueOffsetDays: asNullableInteger(d.quarterlyDueOffsetDays) ?? undefined,
+  });
+
+  const curedAt = asDate(d.curedAt) ?? existing?.curedAt ?? null;
+  return {
+    filingId: breederFilingIdOf(event),
+    licenseId: (typeof d.licenseId === 'string' && d.licenseId.length > 0) ? d.licenseId : existing?.licenseId ?? null,
+    grantCycleId: event.grantCycleId,
+    filingType,
+    reportingYear,
+    reportingQuarter,
+    occurredAt,
+    dueAt,
+    cureDeadlineAt: calculateCureDeadlineAt(dueAt, curePeriodDays),
+    submittedAt,
+    amendedAt,
+    curedAt,
+    status: calculateComplianceStatus({ dueAt, asOf: event.ingestedAt, submittedAt, curedAt, curePeriodDays }),
+    lastEventId: event.eventId,
+    lastEventIngestedAt: event.ingestedAt,
+  };
+}
+
+// Status moves with the clock, so it is recomputed as of the row's rebuiltAt
+export function breederFilingRow(filing: BreederFilingRowState, wm: ProjectionWatermark): ProjectionRow {
+  return {
+    table: 'breeder_compliance_queue_projection',
+    keyColumns: ['filing_id'],
+    values: {
+      filing_id: filing.filingId,
+      license_id: filing.licenseId,
+      grant_cycle_id: filing.grantCycleId,
+      filing_type: filing.filingType,
+      reporting_year: filing.reportingYear,
+      reporting_quarter: filing.reportingQuarter,
+      occurred_at: filing.occurredAt,
+      due_at: filing.dueAt,
+      cure_deadline_at: filing.cureDeadlineAt,
+      submitted_at: filing.submittedAt,
+      amended_at: filing.amendedAt,
+      cured_at: filing.curedAt,
+      status: calculateComplianceStatus({
+        dueAt: filing.dueAt,
+        asOf: wm.rebuiltAt,
+        submittedAt: filing.submittedAt,
+        curedAt: filing.curedAt,
+        curePeriodDays: curePeriodDaysOf(filing),
+      }),
+      last_event_id: filing.lastEventId,
+      last_event_ingested_at: filing.lastEventIngestedAt,
+      ...stampColumns(wm),
+    },
+  };
+}
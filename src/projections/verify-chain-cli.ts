@@ -0,0 +1,37 @@
+import { Pool } from 'pg';
+import { listChainHeads, verifyHashChain } from './verify-chain';
+
+// Usage: node dist/projections/verify-chain-cli.js [grantCycleId]
+// Exits 2 when any chain is broken.
+async function main(): Promise<void> {
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const requested = process.argv[2];
+    const grantCycleIds = requested
+      ? [requested]
+      : (await listChainHeads(pool)).map((head) => head.grantCycleId);
+
+    let broken = false;
+    for (const grantCycleId of grantCycleIds) {
+      const result = await verifyHashChain(pool, grantCycleId);
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(result));
+      if (result.firstBreak) broken = true;
+    }
+
+    if (broken) {
+      process.exitCode = 2;
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+  process.exit(1);
+});
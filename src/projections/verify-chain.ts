@@ -0,0 +1,126 @@
+import { Pool, PoolClient } from 'pg';
+
+// Hash chain links are written by the event_log_chain_hash trigger (db/schema.sql).
+// Verification recomputes every link with the same compute_event_hash() the trigger used.
+
+const GENESIS_HASH = '0'.repeat(64);
+const PAGE_SIZE = 1000;
+
+export interface ChainHead {
+  grantCycleId: string;
+  chainSeq: number;
+  headEventId: string | null;
+  headHash: string;
+}
+
+export type ChainBreakReason =
+  | 'SEQUENCE_GAP'        // a link is missing (deleted or never written)
+  | 'PREV_HASH_MISMATCH'  // link does not point at the previous link's hash
+  | 'EVENT_HASH_MISMATCH' // event content no longer matches its recorded hash
+  | 'HEAD_MISMATCH';      // event_chain_heads disagrees with the last link
+
+export interface ChainBreak {
+  chainSeq: number;
+  eventId: string | null;
+  reason: ChainBreakReason;
+}
+
+export interface ChainVerification {
+  grantCycleId: string;
+  linksVerified: number;
+  head: ChainHead | null;
+  firstBreak: ChainBreak | null;
+}
+
+export async function getChainHead(db: Pool | PoolClient, grantCycleId: string): Promise<ChainHead | null> {
+  const result = await db.query(
+    'SELECT grant_cycle_id, chain_seq, head_event_id, head_hash FROM event_chain_heads WHERE grant_cycle_id = $1',
+    [grantCycleId]
+  );
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  return {
+    grantCycleId: row.grant_cycle_id,
+    chainSeq: Number(row.chain_seq),
+    headEventId: row.head_event_id,
+    headHash: row.head_hash,
+  };
+}
+
+export async function listChainHeads(db: Pool | PoolClient): Promise<ChainHead[]> {
+  const result = await db.query(
+    'SELECT grant_cycle_id, chain_seq, head_event_id, head_hash FROM event_chain_heads ORDER BY grant_cycle_id'
+  );
+  return result.rows.map((row) => ({
+    grantCycleId: row.grant_cycle_id,
+    chainSeq: Number(row.chain_seq),
+    headEventId: row.head_event_id,
+    headHash: row.head_hash,
+  }));
+}
+
+/**
+ * Walks one grant cycle's chain from genesis and stops at the first break.
+ */
+export async function verifyHashChain(pool: Pool, grantCycleId: string): Promise<ChainVerification> {
+  const head = await getChainHead(pool, grantCycleId);
+
+  let expectedSeq = 1;
+  let prevHash = GENESIS_HASH;
+  let linksVerified = 0;
+
+  for (;;) {
+    const page = await pool.query(`
+      SELECT
+        c.chain_seq,
+        c.event_id,
+        c.prev_hash,
+        c.event_hash,
+        CASE WHEN e.event_id IS NULL THEN NULL
+             ELSE compute_event_hash(e, c.chain_seq, c.prev_hash)
+        END AS recomputed_hash
+      FROM event_chain c
+      LEFT JOIN event_log e ON e.event_id = c.event_id
+      WHERE c.grant_cycle_id = $1 AND c.chain_seq >= $2
+      ORDER BY c.chain_seq ASC
+      LIMIT $3
+    `, [grantCycleId, expectedSeq, PAGE_SIZE]);
+
+    for (const row of page.rows) {
+      const chainSeq = Number(row.chain_seq);
+      const fail = (reason: ChainBreakReason): ChainVerification => ({
+        grantCycleId,
+        linksVerified,
+        head,
+        firstBreak: { chainSeq, eventId: row.event_id, reason },
+      });
+
+      if (chainSeq !== expectedSeq) return fail('SEQUENCE_GAP');
+      if (row.prev_hash !== prevHash) return fail('PREV_HASH_MISMATCH');
+      if (row.recomputed_hash !== row.event_hash) return fail('EVENT_HASH_MISMATCH');
+
+      prevHash = row.event_hash;
+      expectedSeq += 1;
+      linksVerified += 1;
+    }
+
+    if (page.rows.length < PAGE_SIZE) break;
+  }
+
+  const lastSeq = expectedSeq - 1;
+  if (head && (head.chainSeq !== lastSeq || head.headHash !== (lastSeq === 0 ? GENESIS_HASH : prevHash))) {
+    return {
+      grantCycleId,
+      linksVerified,
+      head,
+      firstBreak: {
+        chainSeq: head.chainSeq > lastSeq ? lastSeq + 1 : head.chainSeq,
+        eventId: head.headEventId,
+        reason: head.chainSeq > lastSeq ? 'SEQUENCE_GAP' : 'HEAD_MISMATCH',
+      },
+    };
+  }
+
+  return { grantCycleId, linksVerified, head, firstBreak: null };
+}
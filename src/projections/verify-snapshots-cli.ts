@@ -0,0 +1,42 @@
+import { Pool } from 'pg';
+import { PostgresEventStore } from '../event-store';
+import { AggregateLoader } from '../application/aggregate-loader';
+import { SnapshotStore } from '../application/aggregate-snapshots';
+
+// Usage: node dist/projections/verify-snapshots-cli.js [aggregateType [aggregateId]]
+// Checks latest snapshot + tail against a full replay for every snapshotted aggregate.
+// Exits 2 when any aggregate does not match.
+async function main(): Promise<void> {
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const [aggregateType, aggregateId] = process.argv.slice(2);
+    const snapshots = new SnapshotStore(pool);
+    const loader = new AggregateLoader(new PostgresEventStore(pool), snapshots);
+    const targets = aggregateType && aggregateId
+      ? [{ aggregateType, aggregateId }]
+      : await snapshots.snapshotted(aggregateType);
+
+    let mismatched = false;
+    for (const target of targets) {
+      const result = await loader.verify(target.aggregateType, target.aggregateId);
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(result));
+      if (!result.matches) mismatched = true;
+    }
+
+    if (mismatched) {
+      process.exitCode = 2;
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+import { config } from 'dotenv';
+import { Pool } from 'pg';
+import * as crypto from 'crypto';
+import { PostgresEventStore } from '../event-store';
+import { GrantService } from '../application/grant-service';
+import { IdempotencyService } from '../application/idempotency-service';
+import { GrantId } from '../domain-types';
+
+config();
+
+// Usage: node dist/scripts/backfill-grant-activation.js <createdBefore ISO timestamp> [--dry-run]
+// Grants created before the lifecycle commands existed never recorded an agreement or an
+// activation, so issuance now rejects them as GRANT_NOT_ACTIVE. This signs and activates
+// every grant created before the cutoff (pass the deploy time) that has no lifecycle event
+// yet. Grants created afterwards go through the admin lifecycle endpoints instead.
+// Safe to re-run: each transition uses a per-grant idempotency key.
+async function main(): Promise<void> {
+  const [createdBefore, flag] = process.argv.slice(2);
+  if (!createdBefore || Number.isNaN(Date.parse(createdBefore))) {
+    throw new Error('Usage: backfill-grant-activation <createdBefore ISO timestamp> [--dry-run]');
+  }
+  const dryRun = flag === '--dry-run';
+
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const grantService = new GrantService(pool, new PostgresEventStore(pool), new IdempotencyService(pool));
+    const grants = await pool.query(`
+      SELECT created.aggregate_id AS grant_id
+      FROM event_log created
+      WHERE created.aggregate_type = 'GRANT'
+        AND created.event_type = 'GRANT_CREATED'
+        AND created.ingested_at < $1
+        AND NOT EXISTS (
+          SELECT 1 FROM event_log lifecycle
+          WHERE lifecycle.aggregate_type = 'GRANT'
+            AND lifecycle.aggregate_id = created.aggregate_id
+            AND lifecycle.event_type IN ('GRANT_AGREEMENT_SIGNED', 'GRANT_ACTIVATED', 'GRANT_SUSPENDED', 'GRANT_REINSTATED', 'GRANT_CLOSED')
+        )
+      ORDER BY created.ingested_at ASC, created.event_id ASC
+    `, [new Date(createdBefore)]);
+
+    const correlationId = crypto.randomUUID();
+    const actorId = crypto.randomUUID();
+    for (const row of grants.rows) {
+      const grantId = row.grant_id as GrantId;
+      if (!dryRun) {
+        for (const eventType of ['GRANT_AGREEMENT_SIGNED', 'GRANT_ACTIVATED'] as const) {
+          await grantService.transitionGrant({
+            idempotencyKey: `grant-activation-backfill:${grantId}:${eventType}`,
+            grantId,
+            eventType,
+            reasonCode: null,
+            reason: 'Backfilled for a grant created before lifecycle commands',
+            actorId,
+            actorType: 'SYSTEM',
+            correlationId,
+          });
+        }
+      }
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify({ grantId, activated: !dryRun }));
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+import { config } from 'dotenv';
+import { Pool } from 'pg';
+import * as crypto from 'crypto';
+import { PostgresEventStore } from '../event-store';
+import { GrantCycleService } from '../application/grant-cycle-service';
+import { IdempotencyService } from '../application/idempotency-service';
+import { fiscalYearCalendar } from '../domain/grant-cycle/calendar-logic';
+
+config();
+
+// Usage: node dist/scripts/backfill-grant-cycle-calendars.js [--dry-run]
+// Claim submission now reads the grant cycle calendar and rejects cycles without one
+// (GRANT_CYCLE_CALENDAR_NOT_FOUND). This creates the calendar for every cycle in event_log
+// that has none. FYyyyy cycles get the fiscal-year calendar that claim submission assumed
+// before calendars existed; any other cycle is reported and must be created through
+// POST /api/v1/admin/grant-cycles. Exits 2 when such a cycle remains.
+// Safe to re-run: each creation uses a per-cycle idempotency key.
+async function main(): Promise<void> {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const store = new PostgresEventStore(pool);
+    const cycles = new GrantCycleService(pool, store, new IdempotencyService(pool));
+    const grantCycleIds = await pool.query('SELECT DISTINCT grant_cycle_id FROM event_log ORDER BY grant_cycle_id');
+
+    const correlationId = crypto.randomUUID();
+    const actorId = crypto.randomUUID();
+    let unresolved = false;
+    for (const row of grantCycleIds.rows) {
+      const grantCycleId = row.grant_cycle_id as string;
+      if (await cycles.getGrantCycle(grantCycleId)) continue;
+
+      const calendar = fiscalYearCalendar(grantCycleId);
+      if (!calendar) {
+        unresolved = true;
+        // eslint-disable-next-line no-console
+        console.log(JSON.stringify({ grantCycleId, created: false, reason: 'NOT_A_FISCAL_YEAR_CYCLE_ID' }));
+        continue;
+      }
+
+      if (!dryRun) {
+        await cycles.createGrantCycle({
+          idempotencyKey: `grant-cycle-calendar-backfill:${grantCycleId}`,
+          grantCycleId,
+          ...calendar,
+          actorId,
+          actorType: 'SYSTEM',
+          correlationId,
+        });
+      }
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify({ grantCycleId, created: !dryRun, calendar }));
+    }
+
+    if (unresolved) {
+      process.exitCode = 2;
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+  process.exit(1);
+});
@@ -5,6 +5,7 @@
 import { config } from 'dotenv';
 import { Pool } from 'pg';
 import { randomUUID } from 'crypto';
+import { GrantCycle } from '../domain-types';
 
 config();
 
@@ -15,7 +16,7 @@ const pool = new Pool({
 async function seedSimpleData() {
   console.log('🌱 Starting simplified WVSNP demo data seed...\n');
 
-  const grantCycleId = randomUUID();
+  const grantCycleId = 'FY2025';
   const systemActorId = randomUUID(); // System actor UUID
   const cycleStartDate = new Date('2024-07-01');
 
@@ -30,15 +31,18 @@ async function seedSimpleData() {
     [
       randomUUID(),
       'GRANT_CYCLE_CREATED',
-      grantCycleId,
+      GrantCycle.createAggregateId(grantCycleId),
       'GRANT_CYCLE',
       JSON.stringify({
         grantCycleId,
         name: 'FY2025 WVSNP Grant Cycle',
         fiscalYear: 2025,
-        startDate: cycleStartDate.toISOString(),
-        endDate: '2025-06-30',
-        status: 'ACTIVE',
+        periodStart: '2024-07-01',
+        periodEnd: '2025-06-30',
+        claimsDeadline: '2025-11-15',
+        invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 1 },
+        fundCodes: ['WVSNP'],
+        timeZone: 'America/New_York',
       }),
       cycleStartDate,
       grantCycleId,
@@ -1,7 +1,7 @@
 import 'dotenv/config';
 import express from 'express';
 import { Pool } from 'pg';
-import { EventStore, Watermark, DomainEvent } from './event-store';
+import { PostgresEventStore, Watermark, DomainEvent } from './event-store';
 import { rebuildAllProjections } from './projections/rebuild';
 import { createPublicApplicationRouter } from './api/routes/public-application';
 import { createAdminApplicationRouter } from './api/routes/admin-application';
@@ -85,7 +85,7 @@ app.use(express.json({ limit: '1mb' }));
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
-const store = new EventStore(pool);
+const store = new PostgresEventStore(pool);
 
 app.get('/health', (_req, res) => {
   res.json({ status: 'ok' });
@@ -80,7 +80,7 @@ describe('API E2E smoke', () => {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         await pool.query(
-          'TRUNCATE event_log, vouchers_projection, idempotency_cache, breeder_compliance_queue_projection, marketplace_partner_api_keys, marketplace_partner_webhooks, marketplace_webhook_deliveries CASCADE'
+          'TRUNCATE event_log, event_chain_heads, vouchers_projection, idempotency_cache, breeder_compliance_queue_projection, marketplace_partner_api_keys, marketplace_partner_webhooks, marketplace_webhook_deliveries CASCADE'
         );
         return; // Success
       } catch (error: any) {
@@ -121,6 +121,7 @@ describe('API E2E smoke', () => {
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.status).toBe('ok');
+    expect(body.jobs.grantCycleDeadlines).toEqual({ lastError: null });
   });
 
   test('public voucher lookup returns seeded voucher', async () => {
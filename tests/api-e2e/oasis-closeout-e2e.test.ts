@@ -8,6 +8,7 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import jwt from 'jsonwebtoken';
 import type { Server } from 'http';
+import { EventStore, PostgresEventStore } from '../../src/event-store';
 
 const JWT_SECRET = 'dev-secret-change-in-production';
 
@@ -111,7 +112,7 @@ describe('OASIS + Closeout E2E Pipeline', () => {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         await pool.query(`
-          TRUNCATE event_log, idempotency_cache,
+          TRUNCATE event_log, event_chain_heads, idempotency_cache,
                    oasis_export_batches_projection, oasis_export_batch_items_projection,
                    invoices_projection, vet_clinics_projection,
                    grant_cycle_closeout_projection, grant_balances_projection,
@@ -490,4 +491,44 @@ describe('OASIS + Closeout E2E Pipeline', () => {
       expect(startRes.status).toBe(500);
     });
   });
+
+  // ─── POINT-IN-TIME AUDIT ────────────────────────────────────────────
+
+  describe('Point-in-Time Audit', () => {
+    test('E2E-13: As-of state redacts PII unless the caller holds pii:view', async () => {
+      const applicationId = crypto.randomUUID();
+      await new PostgresEventStore(pool).append({
+        eventId: EventStore.newEventId(),
+        aggregateType: 'APPLICATION',
+        aggregateId: applicationId,
+        eventType: 'APPLICATION_STARTED',
+        eventData: {
+          granteeId: crypto.randomUUID(),
+          grantCycleId: 'FY2026',
+          organizationName: 'Hampshire County Humane Society',
+          organizationType: 'NONPROFIT_RESCUE',
+        },
+        occurredAt: new Date(),
+        grantCycleId: 'FY2026',
+        correlationId: crypto.randomUUID(),
+        causationId: null,
+        actorId: crypto.randomUUID() as any,
+        actorType: 'APPLICANT',
+      });
+      const asOf = (token: string) => fetch(
+        `${baseUrl}/api/v1/admin/aggregates/APPLICATION/${applicationId}/as-of?asOf=${encodeURIComponent(new Date().toISOString())}`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      const auditOnly = await asOf(makeAdminToken(['audit:view']));
+      expect(auditOnly.status).toBe(200);
+      const redacted = await auditOnly.json();
+      expect(redacted.events[0].eventData.organizationName).toBe('[REDACTED]');
+      expect(redacted.state.organizationName).toBe('[REDACTED]');
+
+      const withPii = await (await asOf(makeAdminToken(['audit:view', 'pii:view']))).json();
+      expect(withPii.events[0].eventData.organizationName).toBe('Hampshire County Humane Society');
+      expect(withPii.state.organizationName).toBe('Hampshire County Humane Society');
+    });
+  });
 });
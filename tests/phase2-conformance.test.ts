@@ -7,11 +7,28 @@ import { Pool } from 'pg';
 import * as crypto from 'crypto';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { EventStore } from '../src/event-store';
+import { mkdtempSync, appendFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { EventStore, PostgresEventStore, ConcurrencyConflictError } from '../src/event-store';
 import { GrantService } from '../src/application/grant-service';
 import { IdempotencyService } from '../src/application/idempotency-service';
 import { Money, Allocator } from '../src/domain-types';
 import { sweepExpiredTentatives } from '../src/jobs/sweep-expired-tentatives';
+import { verifyHashChain } from '../src/projections/verify-chain';
+import { EventSubscriber, SubscriptionCheckpoints } from '../src/event-subscriptions';
+import { ProjectionEngine } from '../src/projections/engine';
+import { detectProjectionDrift } from '../src/projections/drift';
+import { OutboxDispatcher, enqueueOutboxMessage } from '../src/outbox';
+import { exportGrantCycleArchive, importGrantCycleArchive } from '../src/archive/grant-cycle-archive';
+import { AggregateLoader } from '../src/application/aggregate-loader';
+import { traceCausalTree, TraceNode } from '../src/application/event-trace';
+import { forgetPiiSubject, PII_REDACTED } from '../src/pii-vault';
+import { certifyReplayDeterminism } from '../src/projections/determinism';
+import { ApplicationService } from '../src/application/application-service';
+import { GrantCycleService } from '../src/application/grant-cycle-service';
+import { emitDueGrantCycleDeadlines } from '../src/jobs/grant-cycle-deadlines';
+import { MatchingFundsService } from '../src/application/matching-funds-service';
+import { GrantBudgetService } from '../src/application/grant-budget-service';
 
 const pool = process.env.DATABASE_URL
   ? new Pool({ connectionString: process.env.DATABASE_URL, max: 5, idleTimeoutMillis: 10_000, options: '-c lock_timeout=10000 -c statement_timeout=30000' })
@@ -26,7 +43,7 @@ const pool = process.env.DATABASE_URL
       options: '-c lock_timeout=10000 -c statement_timeout=30000',
     });
 
-const store = new EventStore(pool);
+const store = new PostgresEventStore(pool);
 const idempotency = new IdempotencyService(pool);
 const grantService = new GrantService(pool, store, idempotency);
 
@@ -45,7 +62,7 @@ describe('Phase 2 Conformance Tests', () => {
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        await pool.query('TRUNCATE event_log, grant_balances_projection, vouchers_projection, allocators_projection, idempotency_cache CASCADE');
+        await pool.query('TRUNCATE event_log, event_chain_heads, grant_balances_projection, vouchers_projection, allocators_projection, idempotency_cache CASCADE');
         return; // Success
       } catch (error: any) {
         if (attempt === maxRetries) {
@@ -211,6 +228,8 @@ describe('Phase 2 Conformance Tests', () => {
       eventType: 'VOUCHER_ISSUED_TENTATIVE',
       eventData: {
         voucherId,
+        maxReimbursementCents: '50000',
+        tentativeExpiresAt: new Date(Date.now() - 3600000).toISOString(),
       },
       occurredAt: new Date(),
       grantCycleId,
@@ -294,6 +313,22 @@ describe('Phase 2 Conformance Tests', () => {
       actorId: actorId as any,
       actorType: 'ADMIN',
     });
+    // Only ACTIVE grants issue vouchers
+    for (const eventType of ['GRANT_AGREEMENT_SIGNED', 'GRANT_ACTIVATED']) {
+      await store.append({
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: grantId,
+        eventType,
+        eventData: { grantId },
+        occurredAt: new Date(),
+        grantCycleId,
+        correlationId,
+        causationId: null,
+        actorId: actorId as any,
+        actorType: 'ADMIN',
+      });
+    }
 
     // Seed grant balance projection
     await pool.query(
@@ -307,16 +342,6 @@ describe('Phase 2 Conformance Tests', () => {
       [grantId, grantCycleId, EventStore.newEventId()]
     );
 
-    // Seed allocator
-    const allocatorId = Allocator.createId(grantCycleId, 'COUNTY');
-    await pool.query(
-      `INSERT INTO allocators_projection (
-        allocator_id, grant_cycle_id, county_code, next_sequence,
-        rebuilt_at, watermark_ingested_at, watermark_event_id
-      ) VALUES ($1, $2, 'COUNTY', 1, NOW(), NOW(), $3)`,
-      [allocatorId, grantCycleId, EventStore.newEventId()]
-    );
-
     // Issue two vouchers concurrently against the same grant
     const voucherId1 = crypto.randomUUID();
     const voucherId2 = crypto.randomUUID();
@@ -327,6 +352,7 @@ describe('Phase 2 Conformance Tests', () => {
       voucherId: voucherId as any,
       maxReimbursementCents: Money.fromBigInt(50000n),
       isLIRP: false,
+      countyCode: 'KANAWHA',
       recipientType: 'SHELTER',
       recipientName: 'Test Recipient',
       animalType: 'DOG',
@@ -351,10 +377,14 @@ describe('Phase 2 Conformance Tests', () => {
 
     // Verify both vouchers created
     const vouchers = await pool.query(
-      'SELECT voucher_id FROM vouchers_projection WHERE grant_id = $1',
+      'SELECT voucher_id, voucher_code, county_code FROM vouchers_projection WHERE grant_id = $1 ORDER BY voucher_code',
       [grantId]
     );
     expect(vouchers.rows.length).toBe(2);
+    expect(vouchers.rows.map((row) => [row.voucher_code, row.county_code])).toEqual([
+      ['WVSNP-KANAWHA-2026-0001-O', 'KANAWHA'],
+      ['WVSNP-KANAWHA-2026-0002-M', 'KANAWHA'],
+    ]);
 
     // Verify grant balance reduced by both voucher amounts
     const balance = await pool.query(
@@ -364,4 +394,1571 @@ describe('Phase 2 Conformance Tests', () => {
     expect(BigInt(balance.rows[0].available_cents)).toBe(900000n); // 1000000 - 50000 - 50000
     expect(BigInt(balance.rows[0].encumbered_cents)).toBe(100000n); // 50000 + 50000
   });
+
+  test('TEST 11: Optimistic Concurrency - Stale expectedVersion is rejected', async () => {
+    const grantId = EventStore.newEventId();
+    const baseEvent = () => ({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType: 'GRANT_CREATED',
+      eventData: {
+        awardedAmountCents: '1000000',
+        matchCommitmentCents: '250000',
+        rateNumeratorCents: '80',
+        rateDenominatorCents: '100',
+        lirpEnabled: false,
+      },
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN' as const,
+    });
+
+    expect(await store.getStreamVersion('GRANT', grantId)).toBe(0);
+    await store.append(baseEvent(), { expectedVersion: 0 });
+    expect(await store.getStreamVersion('GRANT', grantId)).toBe(1);
+
+    // Two writers that both observed version 1: exactly one wins
+    const results = await Promise.allSettled([
+      store.append({ ...baseEvent(), eventType: 'GRANT_ACTIVATED' }, { expectedVersion: 1 }),
+      store.append({ ...baseEvent(), eventType: 'GRANT_ACTIVATED' }, { expectedVersion: 1 }),
+    ]);
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(ConcurrencyConflictError);
+    expect(rejected[0].reason.message).toBe('CONCURRENCY_CONFLICT');
+    expect(await store.getStreamVersion('GRANT', grantId)).toBe(2);
+  });
+
+  test('TEST 12: Event Schema Registry - Malformed payloads are rejected at append', async () => {
+    const grantId = EventStore.newEventId();
+
+    await expect(store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType: 'GRANT_FUNDS_ENCUMBERED',
+      eventData: { voucherId: crypto.randomUUID(), amountCents: 50000, isLIRP: false },
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    })).rejects.toThrow('EVENT_DATA_SCHEMA_INVALID:GRANT_FUNDS_ENCUMBERED');
+
+    expect(await store.getStreamVersion('GRANT', grantId)).toBe(0);
+  });
+
+  test('TEST 13: Hash Chain - Links verify and a rewritten event is reported', async () => {
+    const grantCycleId = `CHAIN-${crypto.randomBytes(4).toString('hex')}`;
+    const grantId = EventStore.newEventId();
+    const eventIds: string[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      const event = await store.append({
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: grantId,
+        eventType: 'GRANT_ACTIVATED',
+        eventData: { sequence: i },
+        occurredAt: new Date(),
+        grantCycleId,
+        correlationId: crypto.randomUUID(),
+        causationId: null,
+        actorId: crypto.randomUUID() as any,
+        actorType: 'ADMIN',
+      });
+      eventIds.push(event.eventId);
+    }
+
+    const intact = await verifyHashChain(pool, grantCycleId);
+    expect(intact.firstBreak).toBeNull();
+    expect(intact.linksVerified).toBe(3);
+    expect(intact.head?.headEventId).toBe(eventIds[2]);
+
+    // Simulate a superuser bypassing the immutability trigger
+    await pool.query('ALTER TABLE event_log DISABLE TRIGGER trg_event_log_immutable');
+    try {
+      await pool.query(
+        `UPDATE event_log SET event_data = '{"sequence": 99}'::jsonb WHERE event_id = $1`,
+        [eventIds[1]]
+      );
+    } finally {
+      await pool.query('ALTER TABLE event_log ENABLE TRIGGER trg_event_log_immutable');
+    }
+
+    const tampered = await verifyHashChain(pool, grantCycleId);
+    expect(tampered.firstBreak).toEqual({ chainSeq: 2, eventId: eventIds[1], reason: 'EVENT_HASH_MISMATCH' });
+    expect(tampered.linksVerified).toBe(1);
+  });
+
+  test('TEST 14: Subscriptions - Catch-up then live delivery with durable checkpoint', async () => {
+    const grantId = EventStore.newEventId();
+    const subscriberId = `test-subscriber-${crypto.randomUUID()}`;
+    const appendActivation = () => store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType: 'GRANT_ACTIVATED',
+      eventData: {},
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+
+    const caughtUp = await appendActivation();
+    const delivered: string[] = [];
+    const subscriber = new EventSubscriber(pool, store, {
+      subscriberId,
+      handler: async (event) => {
+        if (event.aggregateId === grantId) delivered.push(event.eventId);
+      },
+      pollIntervalMs: 60_000,
+    });
+
+    await subscriber.start();
+    try {
+      const live = await appendActivation();
+      for (let i = 0; i < 50 && delivered.length < 2; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      expect(delivered).toEqual([caughtUp.eventId, live.eventId]);
+
+      const checkpoint = await new SubscriptionCheckpoints(pool).load(subscriberId);
+      expect(checkpoint.eventId).toBe(live.eventId);
+
+      // An event stamped before a delivered one but committed after it is held back, not skipped
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const lateCommit = (await store.appendWithClient(client, {
+          eventId: EventStore.newEventId(),
+          aggregateType: 'GRANT',
+          aggregateId: grantId,
+          eventType: 'GRANT_ACTIVATED',
+          eventData: {},
+          occurredAt: new Date(),
+          grantCycleId: 'FY2026',
+          correlationId: crypto.randomUUID(),
+          causationId: null,
+          actorId: crypto.randomUUID() as any,
+          actorType: 'ADMIN',
+        })).eventId;
+        const committedFirst = await appendActivation();
+        expect((await store.fetchCommittedSince(checkpoint)).map((event) => event.eventId)).not.toContain(committedFirst.eventId);
+        await client.query('COMMIT');
+
+        for (let i = 0; i < 50 && delivered.length < 4; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+        expect(delivered).toEqual([caughtUp.eventId, live.eventId, lateCommit, committedFirst.eventId]);
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    } finally {
+      await subscriber.stop();
+    }
+  });
+
+  test('TEST 15: Projection Engine - Incremental catch-up advances checkpoint and rebuild restores rows', async () => {
+    const engine = new ProjectionEngine(pool, store);
+    const grantId = EventStore.newEventId();
+    const created = await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType: 'GRANT_CREATED',
+      eventData: {
+        awardedAmountCents: '500000',
+        matchCommitmentCents: '125000',
+        rateNumeratorCents: '80',
+        rateDenominatorCents: '100',
+        lirpEnabled: false,
+      },
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+
+    const caughtUp = await engine.catchUp('grant_balances');
+    expect(caughtUp.rowsProjected).toBe(1);
+    expect((await engine.getCheckpoint('grant_balances'))?.eventId).toBe(created.eventId);
+
+    // Nothing new since the checkpoint: no rows touched
+    const idle = await engine.catchUp('grant_balances');
+    expect(idle.eventsScanned).toBe(0);
+
+    await pool.query('DELETE FROM grant_balances_projection WHERE grant_id = $1', [grantId]);
+    const [rebuilt] = await engine.rebuild('grant_balances');
+    expect(rebuilt.watermark.eventId).toBe(created.eventId);
+
+    const row = await pool.query(
+      'SELECT awarded_cents, available_cents FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = $2',
+      [grantId, 'GENERAL']
+    );
+    expect(row.rows[0]).toEqual({ awarded_cents: '500000', available_cents: '500000' });
+
+    // Event-folded projections catch up the same way
+    const clinicId = EventStore.newEventId();
+    const registered = await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'VET_CLINIC',
+      aggregateId: clinicId,
+      eventType: 'VET_CLINIC_REGISTERED',
+      eventData: { clinicName: 'Elk River Animal Hospital', licenseStatus: 'VALID' },
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+    await engine.catchUp('vet_clinics');
+    const clinic = await pool.query(
+      'SELECT clinic_name, status, license_status, watermark_event_id FROM vet_clinics_projection WHERE clinic_id = $1',
+      [clinicId]
+    );
+    expect(clinic.rows[0]).toEqual({
+      clinic_name: 'Elk River Animal Hospital',
+      status: 'ACTIVE',
+      license_status: 'VALID',
+      watermark_event_id: registered.eventId,
+    });
+  });
+
+  test('TEST 16: Drift Detector - Dry-run rebuild reports a tampered projection row', async () => {
+    const grantId = EventStore.newEventId();
+    await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType: 'GRANT_CREATED',
+      eventData: {
+        awardedAmountCents: '300000',
+        matchCommitmentCents: '75000',
+        rateNumeratorCents: '80',
+        rateDenominatorCents: '100',
+        lirpEnabled: false,
+      },
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+    await new ProjectionEngine(pool, store).catchUp('grant_balances');
+
+    const clean = await detectProjectionDrift(pool, { tables: ['grant_balances_projection'] });
+    expect(clean.drifted).toBe(false);
+
+    await pool.query('UPDATE grant_balances_projection SET matching_reported_cents = 1 WHERE grant_id = $1', [grantId]);
+    const report = await detectProjectionDrift(pool, { tables: ['grant_balances_projection'] });
+    expect(report.drifted).toBe(true);
+    expect(report.tables[0].rows).toEqual([{
+      kind: 'MISMATCH',
+      key: { grant_id: grantId, bucket_type: 'GENERAL' },
+      columns: [{ column: 'matching_reported_cents', live: 1, rebuilt: 0 }],
+    }]);
+  });
+
+  test('TEST 17: Outbox - Messages commit with their event and retry until delivered', async () => {
+    const topic = `TEST_TOPIC_${crypto.randomUUID()}`;
+    const enqueueWithEvent = async (commit: boolean): Promise<string> => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const event = await store.appendWithClient(client, {
+          eventId: EventStore.newEventId(),
+          aggregateType: 'GRANT',
+          aggregateId: EventStore.newEventId(),
+          eventType: 'GRANT_ACTIVATED',
+          eventData: {},
+          occurredAt: new Date(),
+          grantCycleId: 'FY2026',
+          correlationId: crypto.randomUUID(),
+          causationId: null,
+          actorId: crypto.randomUUID() as any,
+          actorType: 'ADMIN',
+        });
+        const messageId = await enqueueOutboxMessage(client, { topic, payload: { n: 1 }, sourceEventId: event.eventId });
+        await client.query(commit ? 'COMMIT' : 'ROLLBACK');
+        return messageId;
+      } finally {
+        client.release();
+      }
+    };
+
+    const rolledBack = await enqueueWithEvent(false);
+    const committed = await enqueueWithEvent(true);
+
+    let calls = 0;
+    const dispatcher = new OutboxDispatcher(pool, {
+      [topic]: async (db, message) => {
+        calls += 1;
+        // Delivery runs after the claim commits: the row carries a lease but no lock
+        const leased = await db.query('SELECT lease_id, attempts FROM outbox_messages WHERE message_id = $1 FOR UPDATE NOWAIT', [message.messageId]);
+        expect(leased.rows[0].lease_id).not.toBeNull();
+        expect(leased.rows[0].attempts).toBe(message.attempts + 1);
+        return calls === 1 ? { delivered: false, error: 'HTTP_503' } : { delivered: true };
+      },
+    }, { baseRetryDelayMs: 0 });
+
+    expect(await dispatcher.dispatchDue()).toBe(2);
+
+    const rows = await pool.query('SELECT message_id, status, attempts, lease_id FROM outbox_messages WHERE topic = $1', [topic]);
+    expect(rows.rows).toEqual([{ message_id: committed, status: 'DELIVERED', attempts: 2, lease_id: null }]);
+    expect(rows.rows.some((row) => row.message_id === rolledBack)).toBe(false);
+  });
+
+  test('TEST 18: Archive - Export/import round trip preserves watermarks and rejects tampering', async () => {
+    const grantCycleId = `AR${crypto.randomUUID().slice(0, 8)}`;
+    const signingKey = 'test-archive-signing-key';
+    const appended = [];
+    for (let i = 0; i < 3; i++) {
+      appended.push(await store.append({
+        eventId: EventStore.newEventId(),
+        aggregateType: 'GRANT',
+        aggregateId: EventStore.newEventId(),
+        eventType: 'GRANT_ACTIVATED',
+        eventData: {},
+        occurredAt: new Date(),
+        grantCycleId,
+        correlationId: crypto.randomUUID(),
+        causationId: null,
+        actorId: crypto.randomUUID() as any,
+        actorType: 'ADMIN',
+      }));
+    }
+    const voucherId = EventStore.newEventId();
+    appended.push(await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'VOUCHER',
+      aggregateId: voucherId,
+      eventType: 'VOUCHER_ISSUED',
+      eventData: {
+        voucherCode: `WV-AR-${crypto.randomBytes(3).toString('hex')}`,
+        maxReimbursementCents: '15000',
+        expiresAt: new Date(Date.now() + 86_400_000).toISOString(),
+        isLIRP: false,
+        recipientName: 'Archived Recipient',
+      },
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    }));
+
+    const archiveDir = mkdtempSync(join(tmpdir(), 'wvsnp-archive-'));
+    const manifest = await exportGrantCycleArchive(pool, grantCycleId, archiveDir, signingKey);
+    expect(manifest.files.events.count).toBe(4);
+    expect(manifest.files.piiKeys?.count).toBe(1);
+    expect(manifest.lastWatermark?.eventId).toBe(appended[3].eventId);
+    expect(readFileSync(join(archiveDir, 'pii-keys.ndjson'), 'utf8')).not.toContain('Archived Recipient');
+
+    // A fresh database: no events and no keys
+    await pool.query('TRUNCATE event_log, event_chain_heads CASCADE');
+    await pool.query('DELETE FROM pii_subject_keys WHERE subject_id = $1', [voucherId]);
+    await expect(importGrantCycleArchive(pool, archiveDir, 'wrong-signing-key-value')).rejects.toThrow('ARCHIVE_SIGNATURE_INVALID');
+
+    const result = await importGrantCycleArchive(pool, archiveDir, signingKey);
+    expect(result.eventsImported).toBe(4);
+    expect(result.piiKeysImported).toBe(1);
+    const [reopened] = await store.loadStream('VOUCHER', voucherId);
+    expect(reopened.eventData.recipientName).toBe('Archived Recipient');
+
+    await pool.query('DELETE FROM pii_subject_keys WHERE subject_id = $1', [voucherId]);
+    await expect(store.loadStream('VOUCHER', voucherId)).rejects.toThrow('PII_KEY_MISSING');
+    const restored = await pool.query(
+      'SELECT event_id, ingested_at FROM event_log WHERE grant_cycle_id = $1 ORDER BY ingested_at, event_id',
+      [grantCycleId]
+    );
+    expect(restored.rows.map((row) => row.event_id)).toEqual(appended.map((event) => event.eventId));
+    expect(new Date(restored.rows[0].ingested_at).toISOString()).toBe(appended[0].ingestedAt.toISOString());
+
+    // Any event in the log blocks a restore, not only events of the archived cycle
+    await pool.query('TRUNCATE event_log, event_chain_heads CASCADE');
+    await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: EventStore.newEventId(),
+      eventType: 'GRANT_ACTIVATED',
+      eventData: {},
+      occurredAt: new Date(),
+      grantCycleId: `AR${crypto.randomUUID().slice(0, 8)}`,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+    await expect(importGrantCycleArchive(pool, archiveDir, signingKey)).rejects.toThrow('ARCHIVE_TARGET_NOT_EMPTY');
+
+    appendFileSync(join(archiveDir, 'events.ndjson'), '{}\n');
+    await pool.query('TRUNCATE event_log, event_chain_heads CASCADE');
+    await expect(importGrantCycleArchive(pool, archiveDir, signingKey)).rejects.toThrow('ARCHIVE_FILE_HASH_MISMATCH:events.ndjson');
+  });
+
+  test('TEST 19: Point-in-Time State - Replay stops at the requested watermark', async () => {
+    const loader = new AggregateLoader(store);
+    const grantId = EventStore.newEventId();
+    const base = {
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN' as const,
+    };
+    const created = await store.append({
+      ...base,
+      eventId: EventStore.newEventId(),
+      eventType: 'GRANT_CREATED',
+      eventData: {
+        awardedAmountCents: '500000',
+        matchCommitmentCents: '125000',
+        rateNumeratorCents: '80',
+        rateDenominatorCents: '100',
+        lirpEnabled: false,
+      },
+    });
+    const encumbered = await store.append({
+      ...base,
+      eventId: EventStore.newEventId(),
+      eventType: 'GRANT_FUNDS_ENCUMBERED',
+      eventData: { voucherId: crypto.randomUUID(), amountCents: '100000', isLIRP: false },
+    });
+
+    const before = await loader.loadAsOf(
+      'GRANT',
+      grantId,
+      { ingestedAt: new Date(created.ingestedAt.getTime() - 1), eventId: created.eventId }
+    );
+    expect(before).toBeNull();
+
+    const atCreation = await loader.loadAsOf<any>('GRANT', grantId, { ingestedAt: created.ingestedAt, eventId: created.eventId });
+    expect(atCreation?.events.map((event) => event.eventId)).toEqual([created.eventId]);
+    expect(atCreation?.state.get('GENERAL').availableCents).toBe(500000n);
+
+    const latest = await loader.loadAsOf<any>('GRANT', grantId, { ingestedAt: encumbered.ingestedAt, eventId: encumbered.eventId });
+    expect(latest?.version).toBe(2);
+    expect(latest?.watermark.eventId).toBe(encumbered.eventId);
+    expect(latest?.state.get('GENERAL').availableCents).toBe(400000n);
+
+    // Live projections are not read or written
+    const projected = await pool.query('SELECT 1 FROM grant_balances_projection WHERE grant_id = $1', [grantId]);
+    expect(projected.rows).toHaveLength(0);
+  });
+
+  test('TEST 20: Causal Trace - Voucher to invoice links across commands', async () => {
+    const grantId = EventStore.newEventId();
+    const voucherId = EventStore.newEventId();
+    const claimId = EventStore.newEventId();
+    const invoiceId = EventStore.newEventId();
+    const actorId = crypto.randomUUID() as any;
+    const emit = (
+      aggregateType: string,
+      aggregateId: string,
+      eventType: string,
+      eventData: Record<string, unknown>,
+      correlationId: string,
+      causationId: string | null = null
+    ) => store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType,
+      aggregateId,
+      eventType,
+      eventData,
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId,
+      causationId,
+      actorId,
+      actorType: 'ADMIN',
+    });
+
+    const issueCommand = crypto.randomUUID();
+    const issued = await emit('VOUCHER', voucherId, 'VOUCHER_ISSUED', {
+      grantId,
+      voucherCode: 'WV-TRACE-0001',
+      maxReimbursementCents: '20000',
+      expiresAt: new Date(Date.now() + 86_400_000).toISOString(),
+      isLIRP: false,
+      recipientName: 'Trace Recipient',
+    }, issueCommand);
+    const encumbered = await emit('GRANT', grantId, 'GRANT_FUNDS_ENCUMBERED', { voucherId, amountCents: '20000', isLIRP: false }, issueCommand);
+    // Another voucher on the same grant must stay out of the trace
+    await emit('GRANT', grantId, 'GRANT_FUNDS_ENCUMBERED', { voucherId: EventStore.newEventId(), amountCents: '5000', isLIRP: false }, crypto.randomUUID());
+
+    const submitted = await emit('CLAIM', claimId, 'CLAIM_SUBMITTED', {
+      claimFingerprint: 'trace-fingerprint',
+      grantCycleId: 'FY2026',
+      voucherId,
+      clinicId: crypto.randomUUID(),
+      procedureCode: 'SPAY',
+      dateOfService: '2026-03-01',
+      submittedAmountCents: '20000',
+    }, crypto.randomUUID());
+    const approved = await emit('CLAIM', claimId, 'CLAIM_APPROVED', {
+      approvedAmountCents: '20000',
+      decisionBasis: { policySnapshotId: 'p1', decidedBy: actorId, decidedAt: new Date().toISOString() },
+    }, crypto.randomUUID());
+    const invoiceCommand = crypto.randomUUID();
+    const generated = await emit('INVOICE', invoiceId, 'INVOICE_GENERATED', {
+      clinicId: crypto.randomUUID(),
+      periodStart: '2026-03-01',
+      periodEnd: '2026-03-31',
+      claimIds: [claimId],
+      adjustmentIds: [],
+      totalAmountCents: '20000',
+    }, invoiceCommand);
+    const invoiced = await emit('CLAIM', claimId, 'CLAIM_INVOICED', { invoiceId }, invoiceCommand, generated.eventId);
+
+    const flatten = (nodes: TraceNode[]): TraceNode[] => nodes.flatMap((node) => [node, ...flatten(node.children)]);
+    const parentOf = (nodes: TraceNode[], eventId: string): [string, string | null] | null => {
+      for (const node of flatten(nodes)) {
+        const child = node.children.find((candidate) => candidate.eventId === eventId);
+        if (child) return [node.eventId, child.link];
+      }
+      return null;
+    };
+
+    // Seeded mid-flow: upstream reaches the voucher, downstream reaches the invoice
+    const report = await traceCausalTree(pool, { eventId: submitted.eventId });
+    expect(flatten(report.roots).map((node) => node.eventId)).toEqual(expect.arrayContaining([
+      issued.eventId, encumbered.eventId, submitted.eventId, approved.eventId, generated.eventId, invoiced.eventId,
+    ]));
+    expect(report.eventCount).toBe(6);
+    expect(report.truncated).toBe(false);
+    expect(report.roots.map((root) => root.eventId)).toEqual([issued.eventId]);
+    expect(parentOf(report.roots, encumbered.eventId)).toEqual([issued.eventId, 'REFERENCE']);
+    expect(parentOf(report.roots, submitted.eventId)).toEqual([issued.eventId, 'REFERENCE']);
+    expect(parentOf(report.roots, approved.eventId)).toEqual([submitted.eventId, 'STREAM']);
+    expect(parentOf(report.roots, generated.eventId)).toEqual([approved.eventId, 'REFERENCE']);
+    expect(parentOf(report.roots, invoiced.eventId)).toEqual([generated.eventId, 'CAUSATION']);
+
+    const byCorrelation = await traceCausalTree(pool, { correlationId: invoiceCommand });
+    expect(byCorrelation.eventCount).toBe(6);
+
+    // Personal data stays redacted unless the caller may see it
+    const issuedNode = (nodes: TraceNode[]) => flatten(nodes).find((node) => node.eventId === issued.eventId)!;
+    expect(issuedNode(report.roots).eventData.recipientName).toBe(PII_REDACTED);
+    const revealed = await traceCausalTree(pool, { eventId: submitted.eventId }, { revealPii: true });
+    expect(issuedNode(revealed.roots).eventData.recipientName).toBe('Trace Recipient');
+
+    const capped = await traceCausalTree(pool, { aggregateType: 'VOUCHER', aggregateId: voucherId }, { maxEvents: 2 });
+    expect(capped.eventCount).toBe(2);
+    expect(capped.truncated).toBe(true);
+  });
+
+  test('TEST 21: Crypto-Shredding - Forgotten subject replays redacted with hashes intact', async () => {
+    const grantCycleId = `PII-${crypto.randomBytes(4).toString('hex')}`;
+    const voucherId = EventStore.newEventId();
+    const issue = () => store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'VOUCHER',
+      aggregateId: voucherId,
+      eventType: 'VOUCHER_ISSUED',
+      eventData: {
+        voucherCode: `WV-PII-${crypto.randomBytes(3).toString('hex')}`,
+        maxReimbursementCents: '15000',
+        expiresAt: new Date(Date.now() + 86_400_000).toISOString(),
+        isLIRP: false,
+        recipientName: 'Jane Q. Public',
+      },
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+    const issued = await issue();
+    expect(issued.eventData.recipientName).toBe('Jane Q. Public');
+
+    const raw = await pool.query('SELECT event_data FROM event_log WHERE event_id = $1', [issued.eventId]);
+    expect(JSON.stringify(raw.rows[0].event_data)).not.toContain('Jane');
+    expect(raw.rows[0].event_data.maxReimbursementCents).toBe('15000');
+
+    const [opened] = await store.loadStream('VOUCHER', voucherId);
+    expect(opened.eventData.recipientName).toBe('Jane Q. Public');
+
+    const forgotten = await forgetPiiSubject(pool, voucherId, { actorId: crypto.randomUUID(), reason: 'Erasure request' });
+    expect(forgotten.alreadyForgotten).toBe(false);
+    expect((await forgetPiiSubject(pool, voucherId, { actorId: crypto.randomUUID(), reason: 'Repeat' })).alreadyForgotten).toBe(true);
+
+    const [redacted] = await store.loadStream('VOUCHER', voucherId);
+    expect(redacted.eventData.recipientName).toBe(PII_REDACTED);
+    expect(redacted.eventData.maxReimbursementCents).toBe('15000');
+
+    const chain = await verifyHashChain(pool, grantCycleId);
+    expect(chain.firstBreak).toBeNull();
+    expect(chain.linksVerified).toBe(1);
+
+    await expect(issue()).rejects.toThrow('PII_SUBJECT_FORGOTTEN');
+  });
+
+  test('TEST 22: Replay Determinism - Certificate equal across runs and page sizes', async () => {
+    const grantId = EventStore.newEventId();
+    await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType: 'GRANT_CREATED',
+      eventData: {
+        awardedAmountCents: '300000',
+        matchCommitmentCents: '75000',
+        rateNumeratorCents: '80',
+        rateDenominatorCents: '100',
+        lirpEnabled: false,
+      },
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+
+    const certificate = await certifyReplayDeterminism(pool, { alternateBatchSize: 3 });
+    expect(certificate.deterministic).toBe(true);
+    expect(certificate.runs.map((run) => run.batchSize)).toEqual([1000, 1000, 3]);
+    for (const table of certificate.tables) {
+      expect(new Set(table.sha256).size).toBe(1);
+      expect(table.rows).toEqual([]);
+    }
+    const balances = certificate.tables.find((table) => table.table === 'grant_balances_projection')!;
+    expect(balances.rowCounts[0]).toBeGreaterThan(0);
+
+    // Same log, same fingerprint
+    expect((await certifyReplayDeterminism(pool)).fingerprint).toBe(certificate.fingerprint);
+
+    await expect(certifyReplayDeterminism(pool, { batchSize: 5, alternateBatchSize: 5 }))
+      .rejects.toThrow('DETERMINISM_BATCH_SIZES_MUST_DIFFER');
+  });
+
+  test('TEST 23: Award Flow - Scored application becomes a funded grant', async () => {
+    const applicationService = new ApplicationService(pool, store, idempotency);
+    const grantCycleId = 'FY2026';
+    const adminId = crypto.randomUUID();
+    const startApplication = async (scored: boolean) => {
+      const applicationId = crypto.randomUUID();
+      const base = {
+        aggregateType: 'APPLICATION',
+        aggregateId: applicationId,
+        occurredAt: new Date(),
+        grantCycleId,
+        correlationId: crypto.randomUUID(),
+        causationId: null,
+        actorId: crypto.randomUUID() as any,
+        actorType: 'APPLICANT' as const,
+      };
+      await store.append({
+        ...base,
+        eventId: EventStore.newEventId(),
+        eventType: 'APPLICATION_STARTED',
+        eventData: { granteeId: crypto.randomUUID(), grantCycleId, organizationName: 'Kanawha Rescue', organizationType: 'NONPROFIT_RESCUE' },
+      });
+      await store.append({
+        ...base,
+        eventId: EventStore.newEventId(),
+        eventType: 'APPLICATION_SUBMITTED',
+        eventData: { requestedAmountCents: '1000000', matchCommitmentCents: '250000', sectionsCompleted: [] },
+      });
+      if (scored) {
+        await store.append({
+          ...base,
+          eventId: EventStore.newEventId(),
+          eventType: 'APPLICATION_SCORED',
+          eventData: { priorityScore: 80, scoringBasis: {} },
+          actorType: 'ADMIN',
+        });
+      }
+      return applicationId as any;
+    };
+    const award = (applicationId: any, commandId: string = crypto.randomUUID(), awardedAmountCents = 1000000n) => applicationService.awardApplication({
+      commandId,
+      applicationId,
+      awardedAmountCents: Money.fromBigInt(awardedAmountCents),
+      matchCommitmentCents: Money.fromBigInt(250000n),
+      lirpAllocationCents: Money.fromBigInt(200000n),
+      policySnapshotId: 'policy-fy2026',
+      orgId: '550e8400-e29b-41d4-a716-446655440000',
+      actorId: adminId,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      occurredAt: new Date(),
+    });
+
+    const applicationId = await startApplication(true);
+    const commandId = crypto.randomUUID();
+    const result = await award(applicationId, commandId);
+    expect(result.rate).toEqual({ numerator: '1000000', denominator: '1250000' });
+
+    const [awarded] = (await store.loadStream('APPLICATION', applicationId)).slice(-1);
+    expect(awarded.eventType).toBe('APPLICATION_AWARDED');
+    const [created] = await store.loadStream('GRANT', result.grantId);
+    expect(created.eventType).toBe('GRANT_CREATED');
+    expect(created.causationId).toBe(awarded.eventId);
+    expect(created.correlationId).toBe(awarded.correlationId);
+
+    const balances = await pool.query(
+      'SELECT bucket_type, awarded_cents, available_cents, rate_numerator_cents, rate_denominator_cents FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type',
+      [result.grantId]
+    );
+    expect(balances.rows).toEqual([
+      { bucket_type: 'GENERAL', awarded_cents: '800000', available_cents: '800000', rate_numerator_cents: '1000000', rate_denominator_cents: '1250000' },
+      { bucket_type: 'LIRP', awarded_cents: '200000', available_cents: '200000', rate_numerator_cents: '1000000', rate_denominator_cents: '1250000' },
+    ]);
+
+    const projected = await pool.query(
+      'SELECT status, organization_name, requested_amount_cents FROM applications_projection WHERE application_id = $1',
+      [applicationId]
+    );
+    expect(projected.rows).toEqual([{ status: 'AWARDED', organization_name: 'Kanawha Rescue', requested_amount_cents: '1000000' }]);
+
+    // Retried command returns the same grant; nothing is appended twice
+    expect((await award(applicationId, commandId)).grantId).toBe(result.grantId);
+    expect(await store.getStreamVersion('GRANT', result.grantId)).toBe(1);
+    // The same command id with different terms is rejected and leaves the cached award intact
+    await expect(award(applicationId, commandId, 900000n)).rejects.toThrow('IDEMPOTENCY_KEY_REUSED');
+    expect((await award(applicationId, commandId)).grantId).toBe(result.grantId);
+
+    await expect(award(await startApplication(false))).rejects.toThrow('APPLICATION_NOT_AWARDABLE');
+    await expect(award(crypto.randomUUID())).rejects.toThrow('APPLICATION_NOT_FOUND');
+  });
+
+  test('TEST 24: Grant Lifecycle - Transitions are guarded and gate voucher issuance', async () => {
+    const grantId = EventStore.newEventId();
+    const grantCycleId = 'FY2026';
+    const adminId = crypto.randomUUID();
+    const base = {
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: adminId as any,
+      actorType: 'ADMIN' as const,
+    };
+    await store.append({
+      ...base,
+      eventId: EventStore.newEventId(),
+      eventType: 'GRANT_CREATED',
+      eventData: { grantId, awardedAmountCents: '500000', matchCommitmentCents: '125000', rateNumeratorCents: '80', rateDenominatorCents: '100', lirpEnabled: false },
+    });
+    await pool.query(
+      `INSERT INTO grant_balances_projection (
+        grant_id, grant_cycle_id, bucket_type,
+        awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents,
+        rate_numerator_cents, rate_denominator_cents,
+        matching_committed_cents, matching_reported_cents,
+        rebuilt_at, watermark_ingested_at, watermark_event_id
+      ) VALUES ($1, $2, 'GENERAL', 500000, 500000, 0, 0, 0, 80, 100, 125000, 0, NOW(), NOW(), $3)`,
+      [grantId, grantCycleId, EventStore.newEventId()]
+    );
+
+    const transition = (eventType: any, reasonCode: string | null = null) => grantService.transitionGrant({
+      idempotencyKey: `lifecycle-${grantId}-${eventType}-${reasonCode}-${crypto.randomUUID()}`,
+      grantId: grantId as any,
+      eventType,
+      reasonCode,
+      actorId: adminId,
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    });
+    const issue = () => grantService.issueVoucherOnline({
+      idempotencyKey: `lifecycle-issue-${crypto.randomUUID()}`,
+      grantId: grantId as any,
+      voucherId: crypto.randomUUID() as any,
+      maxReimbursementCents: Money.fromBigInt(10000n),
+      isLIRP: false,
+      countyCode: 'KANAWHA',
+      recipientType: 'SHELTER',
+      recipientName: 'Test Recipient',
+      animalType: 'CAT',
+      procedureType: 'NEUTER',
+      expiresAt: new Date(Date.now() + 90 * 86400000),
+      coPayRequired: false,
+      coPayAmountCents: undefined,
+      actorId: adminId,
+      actorType: 'APPLICANT',
+      correlationId: crypto.randomUUID(),
+    });
+
+    await expect(issue()).rejects.toThrow('GRANT_NOT_ACTIVE');
+    await expect(transition('GRANT_ACTIVATED')).rejects.toThrow('GRANT_TRANSITION_INVALID');
+    expect(await transition('GRANT_AGREEMENT_SIGNED')).toEqual({ grantId, status: 'AGREEMENT_SIGNED' });
+    expect(await transition('GRANT_ACTIVATED')).toEqual({ grantId, status: 'ACTIVE' });
+
+    await expect(transition('GRANT_SUSPENDED')).rejects.toThrow('GRANT_REASON_CODE_INVALID');
+    await expect(transition('GRANT_SUSPENDED', 'PERIOD_COMPLETE')).rejects.toThrow('GRANT_REASON_CODE_INVALID');
+    expect(await transition('GRANT_SUSPENDED', 'COMPLIANCE_REVIEW')).toEqual({ grantId, status: 'SUSPENDED' });
+    await expect(issue()).rejects.toThrow('GRANT_SUSPENDED');
+
+    expect(await transition('GRANT_REINSTATED', 'COMPLIANCE_RESTORED')).toEqual({ grantId, status: 'ACTIVE' });
+    await issue();
+    await expect(transition('GRANT_CLOSED', 'PERIOD_COMPLETE')).rejects.toThrow('GRANT_HAS_OPEN_ENCUMBRANCES');
+
+    const [suspended] = (await store.loadStream('GRANT', grantId)).filter((event) => event.eventType === 'GRANT_SUSPENDED');
+    expect(suspended.eventData).toEqual({ grantId, reasonCode: 'COMPLIANCE_REVIEW' });
+  });
+
+  test('TEST 25: Grant Cycle Calendar - Deadline events emitted once at the New York boundary', async () => {
+    const grantCycleService = new GrantCycleService(pool, store, idempotency);
+    const grantCycleId = `CY-${crypto.randomUUID().slice(0, 8)}`;
+    const created = await grantCycleService.createGrantCycle({
+      idempotencyKey: `create-cycle-${grantCycleId}`,
+      grantCycleId,
+      periodStart: '2025-07-01',
+      periodEnd: '2026-06-30',
+      claimsDeadline: '2026-11-15',
+      invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 1 },
+      fundCodes: ['WVSNP'],
+      actorId: crypto.randomUUID(),
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    });
+    // Midnight EDT (UTC-4) after June 30; midnight EST (UTC-5) after November 15
+    expect(created.periodEndsAt).toBe('2026-07-01T04:00:00.000Z');
+    expect(created.claimsDeadlinePassesAt).toBe('2026-11-16T05:00:00.000Z');
+
+    const emittedFor = (emitted: Array<{ grantCycleId: string; eventType: string }>) =>
+      emitted.filter((entry) => entry.grantCycleId === grantCycleId).map((entry) => entry.eventType);
+
+    expect(emittedFor(await emitDueGrantCycleDeadlines(pool, store, new Date('2026-07-01T03:59:59.999Z')))).toEqual([]);
+
+    // Concurrent schedulers past the period boundary: the event is appended once
+    const afterPeriod = new Date('2026-07-01T04:00:00.000Z');
+    const racing = await Promise.all([
+      emitDueGrantCycleDeadlines(pool, store, afterPeriod),
+      emitDueGrantCycleDeadlines(pool, store, afterPeriod),
+    ]);
+    expect(racing.flatMap(emittedFor)).toEqual(['GRANT_PERIOD_ENDED']);
+
+    expect(emittedFor(await emitDueGrantCycleDeadlines(pool, store, new Date('2026-12-01T00:00:00.000Z'))))
+      .toEqual(['GRANT_CLAIMS_DEADLINE_PASSED']);
+    expect(emittedFor(await emitDueGrantCycleDeadlines(pool, store, new Date('2027-01-01T00:00:00.000Z')))).toEqual([]);
+
+    const events = await pool.query(
+      `SELECT event_type, occurred_at FROM event_log
+       WHERE grant_cycle_id = $1 AND event_type IN ('GRANT_PERIOD_ENDED', 'GRANT_CLAIMS_DEADLINE_PASSED')
+       ORDER BY ingested_at, event_id`,
+      [grantCycleId]
+    );
+    expect(events.rows.map((row) => [row.event_type, new Date(row.occurred_at).toISOString()])).toEqual([
+      ['GRANT_PERIOD_ENDED', '2026-07-01T04:00:00.000Z'],
+      ['GRANT_CLAIMS_DEADLINE_PASSED', '2026-11-16T05:00:00.000Z'],
+    ]);
+
+    await expect(grantCycleService.createGrantCycle({
+      idempotencyKey: `create-cycle-${grantCycleId}-again`,
+      grantCycleId,
+      periodStart: '2026-07-01',
+      periodEnd: '2027-06-30',
+      claimsDeadline: '2027-11-15',
+      invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 1 },
+      fundCodes: ['WVSNP'],
+      actorId: crypto.randomUUID(),
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    })).rejects.toThrow('GRANT_CYCLE_ALREADY_EXISTS');
+  });
+
+  test('TEST 26: Grant Budget Changes - Amendment and reallocation keep projections balanced', async () => {
+    const grantId = EventStore.newEventId();
+    const grantCycleId = 'FY2026';
+    const adminId = crypto.randomUUID();
+    await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType: 'GRANT_CREATED',
+      eventData: {
+        grantId,
+        awardedAmountCents: '1000000',
+        matchCommitmentCents: '250000',
+        rateNumeratorCents: '1000000',
+        rateDenominatorCents: '1250000',
+        lirpEnabled: true,
+        lirpAllocationCents: '200000',
+      },
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: adminId as any,
+      actorType: 'ADMIN',
+    });
+    for (const [bucketType, awarded, match] of [['GENERAL', 800000, 250000], ['LIRP', 200000, 0]]) {
+      await pool.query(
+        `INSERT INTO grant_balances_projection (
+          grant_id, grant_cycle_id, bucket_type,
+          awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents,
+          rate_numerator_cents, rate_denominator_cents,
+          matching_committed_cents, matching_reported_cents,
+          rebuilt_at, watermark_ingested_at, watermark_event_id
+        ) VALUES ($1, $2, $3, $4, $4, 0, 0, 0, 1000000, 1250000, $5, 0, NOW(), NOW(), $6)`,
+        [grantId, grantCycleId, bucketType, awarded, match, EventStore.newEventId()]
+      );
+    }
+    const base = {
+      grantId: grantId as any,
+      approvalReason: 'WVDA budget revision 2026-03',
+      actorId: adminId,
+      actorType: 'ADMIN' as const,
+      correlationId: crypto.randomUUID(),
+    };
+    const balances = async () => (await pool.query(
+      'SELECT bucket_type, awarded_cents, available_cents, rate_numerator_cents, rate_denominator_cents FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type',
+      [grantId]
+    )).rows;
+
+    const amended = await grantService.amendAward({
+      ...base,
+      idempotencyKey: `amend-${grantId}`,
+      awardedAmountCents: Money.fromBigInt(1200000n),
+      matchCommitmentCents: Money.fromBigInt(300000n),
+      lirpAllocationCents: Money.fromBigInt(200000n),
+    });
+    expect(amended.rate).toEqual({ numerator: '1200000', denominator: '1500000' });
+    // The projected rate is the award rate; earlier claims keep it
+    expect(await balances()).toEqual([
+      { bucket_type: 'GENERAL', awarded_cents: '1000000', available_cents: '1000000', rate_numerator_cents: '1000000', rate_denominator_cents: '1250000' },
+      { bucket_type: 'LIRP', awarded_cents: '200000', available_cents: '200000', rate_numerator_cents: '1000000', rate_denominator_cents: '1250000' },
+    ]);
+
+    await grantService.reallocateBuckets({
+      ...base,
+      idempotencyKey: `reallocate-${grantId}`,
+      fromBucket: 'LIRP',
+      toBucket: 'GENERAL',
+      amountCents: Money.fromBigInt(150000n),
+    });
+    expect((await balances()).map((row) => [row.bucket_type, row.awarded_cents, row.available_cents])).toEqual([
+      ['GENERAL', '1150000', '1150000'],
+      ['LIRP', '50000', '50000'],
+    ]);
+
+    await expect(grantService.reallocateBuckets({
+      ...base,
+      idempotencyKey: `reallocate-${grantId}-too-much`,
+      fromBucket: 'LIRP',
+      toBucket: 'GENERAL',
+      amountCents: Money.fromBigInt(50001n),
+    })).rejects.toThrow('GRANT_REALLOCATION_EXCEEDS_AVAILABLE');
+
+    const [amendedEvent] = (await store.loadStream('GRANT', grantId)).filter((event) => event.eventType === 'GRANT_AWARD_AMENDED');
+    expect(amendedEvent.eventData.previousAwardedAmountCents).toBe('1000000');
+    expect(amendedEvent.eventData.approval).toMatchObject({ approvedBy: adminId, reason: 'WVDA budget revision 2026-03' });
+  });
+
+  test('TEST 27: Matching Funds - Grantee reports with evidence, admin adjusts, closeout sees evidence', async () => {
+    const matchingFunds = new MatchingFundsService(pool, store, idempotency);
+    const grantId = EventStore.newEventId();
+    const grantCycleId = 'FY2026';
+    const granteeId = crypto.randomUUID();
+    await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType: 'GRANT_CREATED',
+      eventData: {
+        grantId,
+        granteeId,
+        awardedAmountCents: '1000000',
+        matchCommitmentCents: '250000',
+        rateNumeratorCents: '1000000',
+        rateDenominatorCents: '1250000',
+        lirpEnabled: false,
+      },
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+    await pool.query(
+      `INSERT INTO grant_balances_projection (
+        grant_id, grant_cycle_id, bucket_type,
+        awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents,
+        rate_numerator_cents, rate_denominator_cents,
+        matching_committed_cents, matching_reported_cents,
+        rebuilt_at, watermark_ingested_at, watermark_event_id
+      ) VALUES ($1, $2, 'GENERAL', 1000000, 1000000, 0, 0, 0, 1000000, 1250000, 250000, 0, NOW(), NOW(), $3)`,
+      [grantId, grantCycleId, EventStore.newEventId()]
+    );
+    const storeArtifact = async (filename: string): Promise<string> => {
+      const artifactId = crypto.randomUUID();
+      await pool.query(
+        `INSERT INTO artifact_log (
+           artifact_id, artifact_type, filename, mime_type, size_bytes,
+           sha256_hash, storage_path, watermark_ingested_at, watermark_event_id, correlation_id
+         ) VALUES ($1, 'MATCHING_FUNDS_EVIDENCE', $2, 'application/pdf', 1024, $3, $4, NOW(), $5, $6)`,
+        [artifactId, filename, 'c'.repeat(64), `/artifacts/${filename}`, EventStore.newEventId(), crypto.randomUUID()]
+      );
+      return artifactId;
+    };
+    const bankStatement = await storeArtifact('bank-statement.pdf');
+    const volunteerHours = await storeArtifact('volunteer-hours.pdf');
+    const report = {
+      grantId: grantId as any,
+      granteeId,
+      periodStart: '2025-07-01',
+      periodEnd: '2025-09-30',
+      actorId: granteeId,
+      actorType: 'APPLICANT' as const,
+      correlationId: crypto.randomUUID(),
+    };
+
+    await matchingFunds.reportMatchingFunds({
+      ...report,
+      idempotencyKey: `match-cash-${grantId}`,
+      matchType: 'CASH',
+      amountCents: Money.fromBigInt(100000n),
+      evidenceArtifactIds: [bankStatement],
+    });
+    const reported = await matchingFunds.reportMatchingFunds({
+      ...report,
+      idempotencyKey: `match-in-kind-${grantId}`,
+      matchType: 'IN_KIND',
+      amountCents: Money.fromBigInt(60000n),
+      evidenceArtifactIds: [volunteerHours, bankStatement],
+    });
+    expect(reported).toMatchObject({ committedCents: '250000', reportedCents: '160000', shortfallCents: '90000', cashCents: '100000', inKindCents: '60000' });
+
+    await expect(matchingFunds.reportMatchingFunds({
+      ...report,
+      granteeId: crypto.randomUUID(),
+      idempotencyKey: `match-other-grantee-${grantId}`,
+      matchType: 'CASH',
+      amountCents: Money.fromBigInt(1n),
+      evidenceArtifactIds: [bankStatement],
+    })).rejects.toThrow('GRANT_NOT_FOUND');
+
+    // Evidence must already be stored
+    await expect(matchingFunds.reportMatchingFunds({
+      ...report,
+      periodStart: '2025-10-01',
+      periodEnd: '2025-12-31',
+      idempotencyKey: `match-unknown-evidence-${grantId}`,
+      matchType: 'CASH',
+      amountCents: Money.fromBigInt(1n),
+      evidenceArtifactIds: [bankStatement, crypto.randomUUID()],
+    })).rejects.toThrow('MATCHING_FUNDS_EVIDENCE_NOT_FOUND');
+
+    const inKindReport = reported.reports.find((candidate) => candidate.matchType === 'IN_KIND')!;
+    await expect(matchingFunds.adjustMatchingFunds({
+      idempotencyKey: `match-adjust-unknown-evidence-${grantId}`,
+      grantId: grantId as any,
+      reportId: inKindReport.reportId,
+      adjustedAmountCents: Money.fromBigInt(40000n),
+      evidenceArtifactIds: [crypto.randomUUID()],
+      reason: 'Volunteer hours valued at state rate',
+      actorId: crypto.randomUUID(),
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    })).rejects.toThrow('MATCHING_FUNDS_EVIDENCE_NOT_FOUND');
+    const adjusted = await matchingFunds.adjustMatchingFunds({
+      idempotencyKey: `match-adjust-${grantId}`,
+      grantId: grantId as any,
+      reportId: inKindReport.reportId,
+      adjustedAmountCents: Money.fromBigInt(40000n),
+      reason: 'Volunteer hours valued at state rate',
+      actorId: crypto.randomUUID(),
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    });
+    expect(adjusted).toMatchObject({ reportedCents: '140000', shortfallCents: '110000', inKindCents: '40000' });
+
+    const balance = await pool.query(
+      "SELECT matching_reported_cents FROM grant_balances_projection WHERE grant_id = $1 AND bucket_type = 'GENERAL'",
+      [grantId]
+    );
+    expect(balance.rows[0].matching_reported_cents).toBe('140000');
+
+    const client = await pool.connect();
+    try {
+      expect(await matchingFunds.cycleEvidenceArtifactIds(client, grantCycleId))
+        .toEqual([bankStatement, volunteerHours]);
+    } finally {
+      client.release();
+    }
+  });
+
+  test('TEST 28: Grant Budget - Balances with velocity, expiring encumbrances and exhaustion forecast', async () => {
+    const grantCycleId = `CY-${crypto.randomUUID().slice(0, 8)}`;
+    await new GrantCycleService(pool, store, idempotency).createGrantCycle({
+      idempotencyKey: `create-cycle-${grantCycleId}`,
+      grantCycleId,
+      periodStart: '2025-07-01',
+      periodEnd: '2026-06-30',
+      claimsDeadline: '2026-11-15',
+      invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 1 },
+      fundCodes: ['WVSNP'],
+      actorId: crypto.randomUUID(),
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    });
+
+    const now = new Date('2026-03-01T00:00:00.000Z');
+    const week = 7 * 24 * 60 * 60 * 1000;
+    const grantId = EventStore.newEventId();
+    const granteeId = crypto.randomUUID();
+    const grantEvent = (eventType: string, eventData: Record<string, unknown>, occurredAt: Date) => store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType,
+      eventData,
+      occurredAt,
+      grantCycleId,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: granteeId as any,
+      actorType: 'APPLICANT',
+    });
+    await grantEvent('GRANT_CREATED', {
+      grantId,
+      granteeId,
+      awardedAmountCents: '1000000',
+      matchCommitmentCents: '0',
+      rateNumeratorCents: '1000000',
+      rateDenominatorCents: '1000000',
+      lirpEnabled: false,
+    }, new Date(now.getTime() - 20 * week));
+    await grantEvent('GRANT_FUNDS_ENCUMBERED', { voucherId: crypto.randomUUID(), amountCents: '400000', isLIRP: false }, new Date(now.getTime() - 7 * week));
+    await grantEvent('GRANT_FUNDS_ENCUMBERED', { voucherId: crypto.randomUUID(), amountCents: '400000', isLIRP: false }, new Date(now.getTime() - week));
+    await pool.query(
+      `INSERT INTO grant_balances_projection (
+        grant_id, grant_cycle_id, bucket_type,
+        awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents,
+        rate_numerator_cents, rate_denominator_cents,
+        matching_committed_cents, matching_reported_cents,
+        rebuilt_at, watermark_ingested_at, watermark_event_id
+      ) VALUES ($1, $2, 'GENERAL', 1000000, 200000, 800000, 0, 0, 1000000, 1000000, 0, 0, NOW(), NOW(), $3)`,
+      [grantId, grantCycleId, EventStore.newEventId()]
+    );
+    await pool.query(
+      'INSERT INTO vouchers_projection (voucher_id, grant_id, voucher_code, county_code, status, max_reimbursement_cents, is_lirp, tentative_expires_at, expires_at, issued_at, redeemed_at, expired_at, voided_at, rebuilt_at, watermark_ingested_at, watermark_event_id) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)',
+      [crypto.randomUUID(), grantId, 'TEST-BUDGET-001', null, 'ISSUED', 80000, false, null, new Date(now.getTime() + 2 * week + 3600000), new Date(now.getTime() - week), null, null, null, new Date(), new Date(), EventStore.newEventId()]
+    );
+
+    const budgetService = new GrantBudgetService(pool, store);
+    const budget = (await budgetService.getGrantBudget(grantId as any, now, granteeId))!;
+    expect(budget.periodEndsAt).toBe('2026-07-01T04:00:00.000Z');
+    expect(budget.buckets).toEqual([{
+      bucketType: 'GENERAL',
+      awardedCents: '1000000',
+      availableCents: '200000',
+      encumberedCents: '800000',
+      liquidatedCents: '0',
+      releasedCents: '0',
+      forecast: {
+        encumbranceCentsPerWeek: '100000',
+        releaseCentsPerWeek: '0',
+        liquidationCentsPerWeek: '0',
+        expiringBeforePeriodEndCents: '80000',
+        // (200000 + 80000) / 100000 per week = 2.8 weeks
+        projectedExhaustionAt: '2026-03-20T14:24:00.000Z',
+        atRiskOfLapsing: false,
+      },
+    }]);
+    expect(budget.expiringEncumbrances).toEqual([{ weekStarting: '2026-03-15T00:00:00.000Z', voucherCount: 1, amountCents: '80000' }]);
+    expect(budget.atRiskOfLapsing).toBe(false);
+
+    expect(await budgetService.getGrantBudget(grantId as any, now, crypto.randomUUID())).toBeNull();
+  });
+
+  test('TEST 29: LIRP Must-Honor - Short LIRP bucket falls back to GENERAL once enforced', async () => {
+    const grantId = EventStore.newEventId();
+    const grantCycleId = 'FY2026';
+    const adminId = crypto.randomUUID();
+    const correlationId = crypto.randomUUID();
+    const grantEvent = (eventType: string, eventData: Record<string, unknown>) => store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType,
+      eventData: { grantId, ...eventData },
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId,
+      causationId: null,
+      actorId: adminId as any,
+      actorType: 'ADMIN',
+    });
+    await grantEvent('GRANT_CREATED', {
+      awardedAmountCents: '1000000',
+      matchCommitmentCents: '250000',
+      rateNumeratorCents: '80',
+      rateDenominatorCents: '100',
+      lirpEnabled: true,
+      lirpAllocationCents: '60000',
+    });
+    await grantEvent('GRANT_AGREEMENT_SIGNED', {});
+    await grantEvent('GRANT_ACTIVATED', {});
+    for (const [bucketType, awarded, match] of [['GENERAL', 940000, 250000], ['LIRP', 60000, 0]]) {
+      await pool.query(
+        `INSERT INTO grant_balances_projection (
+          grant_id, grant_cycle_id, bucket_type,
+          awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents,
+          rate_numerator_cents, rate_denominator_cents,
+          matching_committed_cents, matching_reported_cents,
+          rebuilt_at, watermark_ingested_at, watermark_event_id
+        ) VALUES ($1, $2, $3, $4, $4, 0, 0, 0, 80, 100, $5, 0, NOW(), NOW(), $6)`,
+        [grantId, grantCycleId, bucketType, awarded, match, EventStore.newEventId()]
+      );
+    }
+    const issueLirp = (key: string) => grantService.issueVoucherOnline({
+      idempotencyKey: key,
+      grantId: grantId as any,
+      voucherId: crypto.randomUUID() as any,
+      maxReimbursementCents: Money.fromBigInt(50000n),
+      isLIRP: true,
+      countyCode: 'KANAWHA',
+      recipientType: 'SHELTER',
+      recipientName: 'Test Recipient',
+      animalType: 'CAT',
+      procedureType: 'SPAY',
+      expiresAt: new Date(Date.now() + 90 * 86400000),
+      coPayRequired: false,
+      coPayAmountCents: undefined,
+      actorId: adminId,
+      actorType: 'ADMIN',
+      correlationId,
+    });
+    const balances = async () => (await pool.query(
+      'SELECT bucket_type, available_cents, encumbered_cents FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type',
+      [grantId]
+    )).rows.map((row) => [row.bucket_type, row.available_cents, row.encumbered_cents]);
+
+    await issueLirp(`lirp-1-${grantId}`);
+    await expect(issueLirp(`lirp-2-${grantId}`)).rejects.toThrow('INSUFFICIENT_FUNDS');
+
+    const enforced = await grantService.enforceLirpMustHonor({
+      idempotencyKey: `must-honor-${grantId}`,
+      grantId: grantId as any,
+      reason: 'WVDA LIRP directive',
+      actorId: adminId,
+      actorType: 'ADMIN',
+      correlationId,
+    });
+    expect(enforced).toMatchObject({ mustHonor: true, fallbackVoucherCount: 0 });
+
+    await issueLirp(`lirp-3-${grantId}`);
+    expect(await balances()).toEqual([
+      ['GENERAL', '900000', '40000'],
+      ['LIRP', '0', '60000'],
+    ]);
+    expect(await grantService.getLirpMustHonorReport(grantId as any)).toMatchObject({
+      fallbackVoucherCount: 1,
+      fallbackEncumberedCents: '40000',
+      fallbackClaimCount: 0,
+    });
+
+    await expect(grantService.enforceLirpMustHonor({
+      idempotencyKey: `must-honor-again-${grantId}`,
+      grantId: grantId as any,
+      reason: 'WVDA LIRP directive',
+      actorId: adminId,
+      actorType: 'ADMIN',
+      correlationId,
+    })).rejects.toThrow('LIRP_MUST_HONOR_ALREADY_ENFORCED');
+  });
+
+  test('TEST 30: County Allocators - Lazily initialized once per county, codes sequence per county', async () => {
+    const grantCycleId = 'FY2026';
+    const adminId = crypto.randomUUID();
+    const grantIds = [EventStore.newEventId(), EventStore.newEventId()];
+    const seedGrant = async (grantId: string, cycleId: string) => {
+      for (const [eventType, eventData] of [
+        ['GRANT_CREATED', { awardedAmountCents: '1000000', matchCommitmentCents: '0', rateNumeratorCents: '1', rateDenominatorCents: '1', lirpEnabled: false }],
+        ['GRANT_AGREEMENT_SIGNED', {}],
+        ['GRANT_ACTIVATED', {}],
+      ] as const) {
+        await store.append({
+          eventId: EventStore.newEventId(),
+          aggregateType: 'GRANT',
+          aggregateId: grantId,
+          eventType,
+          eventData: { grantId, ...eventData },
+          occurredAt: new Date(),
+          grantCycleId: cycleId,
+          correlationId: crypto.randomUUID(),
+          causationId: null,
+          actorId: adminId as any,
+          actorType: 'ADMIN',
+        });
+      }
+      await pool.query(
+        `INSERT INTO grant_balances_projection (
+          grant_id, grant_cycle_id, bucket_type,
+          awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents,
+          rate_numerator_cents, rate_denominator_cents,
+          matching_committed_cents, matching_reported_cents,
+          rebuilt_at, watermark_ingested_at, watermark_event_id
+        ) VALUES ($1, $2, 'GENERAL', 1000000, 1000000, 0, 0, 0, 1, 1, 0, 0, NOW(), NOW(), $3)`,
+        [grantId, cycleId, EventStore.newEventId()]
+      );
+    };
+    for (const grantId of grantIds) {
+      await seedGrant(grantId, grantCycleId);
+    }
+    const issue = (grantId: string, countyCode: string) => grantService.issueVoucherOnline({
+      idempotencyKey: `county-${crypto.randomUUID()}`,
+      grantId: grantId as any,
+      voucherId: crypto.randomUUID() as any,
+      maxReimbursementCents: Money.fromBigInt(10000n),
+      isLIRP: false,
+      countyCode,
+      recipientType: 'SHELTER',
+      recipientName: 'Test Recipient',
+      animalType: 'DOG',
+      procedureType: 'NEUTER',
+      expiresAt: new Date(Date.now() + 90 * 86400000),
+      coPayRequired: false,
+      coPayAmountCents: undefined,
+      actorId: adminId,
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    });
+
+    // Two grants race to create the same county's allocator
+    const raced = await Promise.all([issue(grantIds[0], 'Berkeley'), issue(grantIds[1], 'BERKELEY')]);
+    expect(raced.map((result) => result.voucherCode).sort()).toEqual(['WVSNP-BERKELEY-2026-0001-N', 'WVSNP-BERKELEY-2026-0002-L']);
+    expect(await issue(grantIds[0], 'McDowell')).toEqual({ voucherCode: 'WVSNP-MCDOWELL-2026-0001-2' });
+    await expect(issue(grantIds[0], 'COUNTY')).rejects.toThrow('COUNTY_CODE_INVALID');
+
+    const initialized = await pool.query(
+      "SELECT event_data->>'countyCode' AS county_code FROM event_log WHERE event_type = 'VOUCHER_CODE_ALLOCATOR_INITIALIZED' ORDER BY event_data->>'countyCode'"
+    );
+    expect(initialized.rows.map((row) => row.county_code)).toEqual(['BERKELEY', 'MCDOWELL']);
+    const allocators = await pool.query('SELECT allocator_id, county_code, next_sequence FROM allocators_projection ORDER BY county_code');
+    expect(allocators.rows).toEqual([
+      { allocator_id: Allocator.createId(grantCycleId, 'BERKELEY'), county_code: 'BERKELEY', next_sequence: '3' },
+      { allocator_id: Allocator.createId(grantCycleId, 'MCDOWELL'), county_code: 'MCDOWELL', next_sequence: '2' },
+    ]);
+
+    // Other cycle ids take the code year from their calendar, and need one
+    const otherCycleId = `cy-${crypto.randomUUID().slice(0, 8)}`;
+    const otherGrantId = EventStore.newEventId();
+    await seedGrant(otherGrantId, otherCycleId);
+    await expect(issue(otherGrantId, 'BERKELEY')).rejects.toThrow('GRANT_CYCLE_CALENDAR_NOT_FOUND');
+    await new GrantCycleService(pool, store, idempotency).createGrantCycle({
+      idempotencyKey: `create-cycle-${otherCycleId}`,
+      grantCycleId: otherCycleId,
+      periodStart: '2026-07-01',
+      periodEnd: '2027-06-30',
+      claimsDeadline: '2027-11-15',
+      invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 1 },
+      fundCodes: ['WVSNP'],
+      actorId: adminId,
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    });
+    expect((await issue(otherGrantId, 'BERKELEY')).voucherCode).toMatch(/^WVSNP-BERKELEY-2027-0001-[0-9A-Z]$/);
+
+    // Tentative vouchers issued before per-county allocation have no county and confirm through the legacy allocator
+    const legacyVoucherId = EventStore.newEventId();
+    const tentativeExpiresAt = new Date(Date.now() + 3600000);
+    await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'VOUCHER',
+      aggregateId: legacyVoucherId,
+      eventType: 'VOUCHER_ISSUED_TENTATIVE',
+      eventData: { voucherId: legacyVoucherId, grantId: grantIds[0], maxReimbursementCents: '10000', tentativeExpiresAt: tentativeExpiresAt.toISOString() },
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: adminId as any,
+      actorType: 'ADMIN',
+    });
+    await pool.query(
+      'INSERT INTO vouchers_projection (voucher_id, grant_id, voucher_code, county_code, status, max_reimbursement_cents, is_lirp, tentative_expires_at, expires_at, issued_at, redeemed_at, expired_at, voided_at, rebuilt_at, watermark_ingested_at, watermark_event_id) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)',
+      [legacyVoucherId, grantIds[0], `TEST-TENTATIVE-${legacyVoucherId}`, null, 'TENTATIVE', 10000, false, tentativeExpiresAt, new Date(Date.now() + 90 * 86400000), new Date(), null, null, null, new Date(), new Date(), EventStore.newEventId()]
+    );
+    const confirmed = await grantService.confirmTentativeVoucher({
+      idempotencyKey: `confirm-${legacyVoucherId}`,
+      voucherId: legacyVoucherId as any,
+      grantId: grantIds[0] as any,
+      confirmedAt: new Date(),
+      actorId: adminId,
+      actorType: 'ADMIN',
+      correlationId: crypto.randomUUID(),
+    });
+    expect(confirmed.voucherCode).toMatch(/^WVSNP-COUNTY-2026-0001-[0-9A-Z]$/);
+  });
+
+  test('TEST 31: Voucher Void - Releases the encumbrance, including the must-honor GENERAL fallback', async () => {
+    const grantId = EventStore.newEventId();
+    const grantCycleId = 'FY2026';
+    const granteeId = crypto.randomUUID();
+    const adminId = crypto.randomUUID();
+    const correlationId = crypto.randomUUID();
+    const grantEvent = (eventType: string, eventData: Record<string, unknown>) => store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      eventType,
+      eventData: { grantId, ...eventData },
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId,
+      causationId: null,
+      actorId: adminId as any,
+      actorType: 'ADMIN',
+    });
+    await grantEvent('GRANT_CREATED', {
+      granteeId,
+      awardedAmountCents: '1000000',
+      matchCommitmentCents: '250000',
+      rateNumeratorCents: '80',
+      rateDenominatorCents: '100',
+      lirpEnabled: true,
+      lirpAllocationCents: '60000',
+    });
+    await grantEvent('GRANT_AGREEMENT_SIGNED', {});
+    await grantEvent('GRANT_ACTIVATED', {});
+    await grantEvent('LIRP_MUST_HONOR_ENFORCED', { reason: 'WVDA LIRP directive' });
+    for (const [bucketType, awarded, match] of [['GENERAL', 940000, 250000], ['LIRP', 60000, 0]]) {
+      await pool.query(
+        `INSERT INTO grant_balances_projection (
+          grant_id, grant_cycle_id, bucket_type,
+          awarded_cents, available_cents, encumbered_cents, liquidated_cents, released_cents,
+          rate_numerator_cents, rate_denominator_cents,
+          matching_committed_cents, matching_reported_cents,
+          rebuilt_at, watermark_ingested_at, watermark_event_id
+        ) VALUES ($1, $2, $3, $4, $4, 0, 0, 0, 80, 100, $5, 0, NOW(), NOW(), $6)`,
+        [grantId, grantCycleId, bucketType, awarded, match, EventStore.newEventId()]
+      );
+    }
+    const issue = async (isLIRP: boolean, amountCents: bigint) => {
+      const voucherId = crypto.randomUUID();
+      await grantService.issueVoucherOnline({
+        idempotencyKey: `void-issue-${voucherId}`,
+        grantId: grantId as any,
+        voucherId: voucherId as any,
+        maxReimbursementCents: Money.fromBigInt(amountCents),
+        isLIRP,
+        countyCode: 'KANAWHA',
+        recipientType: 'SHELTER',
+        recipientName: 'Test Recipient',
+        animalType: 'CAT',
+        procedureType: 'SPAY',
+        expiresAt: new Date(Date.now() + 90 * 86400000),
+        coPayRequired: false,
+        coPayAmountCents: undefined,
+        actorId: granteeId,
+        actorType: 'APPLICANT',
+        correlationId,
+      });
+      return voucherId;
+    };
+    const voidVoucher = (voucherId: string, reasonCode: string, scopedTo?: string) => grantService.voidVoucher({
+      idempotencyKey: `void-${voucherId}-${crypto.randomUUID()}`,
+      voucherId: voucherId as any,
+      granteeId: scopedTo,
+      reasonCode: reasonCode as any,
+      actorId: scopedTo ?? adminId,
+      actorType: scopedTo ? 'APPLICANT' : 'ADMIN',
+      correlationId,
+    });
+    const balances = async () => (await pool.query(
+      'SELECT bucket_type, available_cents, encumbered_cents FROM grant_balances_projection WHERE grant_id = $1 ORDER BY bucket_type',
+      [grantId]
+    )).rows.map((row) => [row.bucket_type, row.available_cents, row.encumbered_cents]);
+
+    const lirpVoucher = await issue(true, 50000n);
+    const fallbackVoucher = await issue(true, 50000n);
+    const generalVoucher = await issue(false, 20000n);
+    expect(await balances()).toEqual([
+      ['GENERAL', '880000', '60000'],
+      ['LIRP', '0', '60000'],
+    ]);
+
+    await expect(voidVoucher(fallbackVoucher, 'ISSUED_IN_ERROR', crypto.randomUUID())).rejects.toThrow('VOUCHER_NOT_FOUND');
+    await expect(voidVoucher(fallbackVoucher, 'CHANGED_MIND', granteeId)).rejects.toThrow('VOUCHER_VOID_REASON_CODE_INVALID');
+
+    expect(await voidVoucher(fallbackVoucher, 'ISSUED_IN_ERROR', granteeId)).toEqual({
+      voucherId: fallbackVoucher,
+      status: 'VOIDED',
+      reasonCode: 'ISSUED_IN_ERROR',
+      releasedCents: '50000',
+    });
+    expect(await balances()).toEqual([
+      ['GENERAL', '920000', '20000'],
+      ['LIRP', '10000', '50000'],
+    ]);
+    expect(await grantService.getLirpMustHonorReport(grantId as any)).toMatchObject({
+      fallbackEncumberedCents: '40000',
+      fallbackReleasedCents: '40000',
+    });
+    const voided = await pool.query('SELECT status, voided_at FROM vouchers_projection WHERE voucher_id = $1', [fallbackVoucher]);
+    expect(voided.rows[0].status).toBe('VOIDED');
+    expect(voided.rows[0].voided_at).not.toBeNull();
+    await expect(voidVoucher(fallbackVoucher, 'DUPLICATE', granteeId)).rejects.toThrow('VOUCHER_ALREADY_VOIDED');
+
+    // A submitted claim keeps the voucher in play
+    await pool.query(
+      `INSERT INTO claims_projection (
+        claim_id, claim_fingerprint, grant_cycle_id, voucher_id, clinic_id, procedure_code, date_of_service,
+        status, submitted_amount_cents, rebuilt_at, watermark_ingested_at, watermark_event_id
+      ) VALUES ($1, 'fingerprint', $2, $3, $4, 'SPAY', CURRENT_DATE, 'SUBMITTED', 20000, NOW(), NOW(), $5)`,
+      [crypto.randomUUID(), grantCycleId, generalVoucher, crypto.randomUUID(), EventStore.newEventId()]
+    );
+    await expect(voidVoucher(generalVoucher, 'RECIPIENT_WITHDREW', granteeId)).rejects.toThrow('VOUCHER_HAS_CLAIMS');
+
+    expect(await voidVoucher(lirpVoucher, 'DUPLICATE')).toMatchObject({ releasedCents: '50000' });
+    expect(await balances()).toEqual([
+      ['GENERAL', '920000', '20000'],
+      ['LIRP', '60000', '0'],
+    ]);
+
+    // Expiry released the encumbrance already; a void must not release it again
+    const expiredVoucher = await issue(false, 10000n);
+    await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'VOUCHER',
+      aggregateId: expiredVoucher,
+      eventType: 'VOUCHER_EXPIRED',
+      eventData: {},
+      occurredAt: new Date(),
+      grantCycleId,
+      correlationId,
+      causationId: null,
+      actorId: adminId as any,
+      actorType: 'SYSTEM',
+    });
+    await expect(voidVoucher(expiredVoucher, 'ISSUED_IN_ERROR')).rejects.toThrow('VOUCHER_EXPIRED');
+    const releases = await pool.query(
+      "SELECT COUNT(*)::int AS count FROM event_log WHERE event_type = 'GRANT_FUNDS_RELEASED' AND event_data->>'voucherId' = $1",
+      [expiredVoucher]
+    );
+    expect(releases.rows[0].count).toBe(0);
+
+    const events = await pool.query(
+      "SELECT event_data->>'reasonCode' AS reason_code FROM event_log WHERE event_type = 'VOUCHER_VOIDED' ORDER BY ingested_at, event_id"
+    );
+    expect(events.rows.map((row) => row.reason_code)).toEqual(['ISSUED_IN_ERROR', 'DUPLICATE']);
+  });
 });
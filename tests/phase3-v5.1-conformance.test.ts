@@ -7,11 +7,11 @@ import { Pool } from 'pg';
 import * as crypto from 'crypto';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { EventStore } from '../src/event-store';
+import { EventStore, PostgresEventStore } from '../src/event-store';
 import { ClaimService } from '../src/application/claim-service';
 import { InvoiceService } from '../src/application/invoice-service';
 import { IdempotencyService } from '../src/application/idempotency-service';
-import { Money, Claim } from '../src/domain-types';
+import { Money, Claim, GrantCycle } from '../src/domain-types';
 import { rebuildAllProjections } from '../src/projections/rebuild';
 
 const pool = process.env.DATABASE_URL
@@ -27,7 +27,7 @@ const pool = process.env.DATABASE_URL
       options: '-c lock_timeout=10000 -c statement_timeout=30000',
     });
 
-const store = new EventStore(pool);
+const store = new PostgresEventStore(pool);
 const idempotency = new IdempotencyService(pool);
 const claimService = new ClaimService(pool, store, idempotency);
 const invoiceService = new InvoiceService(pool, store, idempotency);
@@ -47,7 +47,7 @@ describe('Phase 3 v5.1 Conformance Tests', () => {
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        await pool.query('TRUNCATE event_log, claims_projection, invoices_projection, vet_clinics_projection, vouchers_projection, invoice_adjustments_projection, payments_projection, idempotency_cache CASCADE');
+        await pool.query('TRUNCATE event_log, event_chain_heads, claims_projection, invoices_projection, vet_clinics_projection, vouchers_projection, invoice_adjustments_projection, payments_projection, idempotency_cache CASCADE');
         return; // Success
       } catch (error: any) {
         if (attempt === maxRetries) {
@@ -66,6 +66,31 @@ describe('Phase 3 v5.1 Conformance Tests', () => {
     }
   }, 30_000);
 
+  beforeEach(async () => {
+    // Claim dates are checked against the FY2026 cycle calendar
+    await store.append({
+      eventId: EventStore.newEventId(),
+      aggregateType: 'GRANT_CYCLE',
+      aggregateId: GrantCycle.createAggregateId('FY2026'),
+      eventType: 'GRANT_CYCLE_CREATED',
+      eventData: {
+        grantCycleId: 'FY2026',
+        periodStart: '2025-07-01',
+        periodEnd: '2026-06-30',
+        claimsDeadline: '2026-11-15',
+        invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 1 },
+        fundCodes: ['WVSNP'],
+        timeZone: 'America/New_York',
+      },
+      occurredAt: new Date(),
+      grantCycleId: 'FY2026',
+      correlationId: crypto.randomUUID(),
+      causationId: null,
+      actorId: crypto.randomUUID() as any,
+      actorType: 'ADMIN',
+    });
+  });
+
   afterAll(async () => {
     await pool.end();
   });
@@ -207,6 +232,8 @@ describe('Phase 3 v5.1 Conformance Tests', () => {
     // Step 3: Rebuild all projections from event log
     const rebuildResult = await rebuildAllProjections(pool);
     expect(rebuildResult.eventsReplayed).toBeGreaterThan(0);
+    const checkpoints = await pool.query('SELECT COUNT(*)::int AS count FROM projection_checkpoints');
+    expect(checkpoints.rows[0].count).toBe(0);
 
     // Step 4: Verify claim projection is identical after rebuild
     const afterClaim = await pool.query(
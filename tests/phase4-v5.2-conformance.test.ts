@@ -7,7 +7,7 @@ import { Pool } from 'pg';
 import * as crypto from 'crypto';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { EventStore } from '../src/event-store';
+import { EventStore, PostgresEventStore } from '../src/event-store';
 import { OasisService } from '../src/application/oasis-service';
 import { CloseoutService } from '../src/application/closeout-service';
 import { IdempotencyService } from '../src/application/idempotency-service';
@@ -30,7 +30,7 @@ const pool = process.env.DATABASE_URL
       options: '-c lock_timeout=10000 -c statement_timeout=30000',
     });
 
-const store = new EventStore(pool);
+const store = new PostgresEventStore(pool);
 const idempotency = new IdempotencyService(pool);
 const oasisService = new OasisService(pool, store, idempotency);
 const closeoutService = new CloseoutService(pool, store, idempotency);
@@ -44,7 +44,7 @@ describe('Phase 4 v5.2 Conformance Tests', () => {
   }, 30_000);
 
   beforeEach(async () => {
-    await pool.query('TRUNCATE event_log, breeder_compliance_queue_projection, oasis_export_batches_projection, oasis_export_batch_items_projection, grant_cycle_closeout_projection, invoices_projection, vet_clinics_projection, claims_projection, payments_projection, invoice_adjustments_projection, idempotency_cache CASCADE');
+    await pool.query('TRUNCATE event_log, event_chain_heads, breeder_compliance_queue_projection, oasis_export_batches_projection, oasis_export_batch_items_projection, grant_cycle_closeout_projection, invoices_projection, vet_clinics_projection, claims_projection, payments_projection, invoice_adjustments_projection, idempotency_cache CASCADE');
   });
 
   afterAll(async () => {
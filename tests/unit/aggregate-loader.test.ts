@@ -0,0 +1,98 @@
+/**
+ * STREAM LOADING AND REDUCER REGISTRY — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import * as crypto from 'crypto';
+import { EventStore, DomainEvent, Watermark } from '../../src/event-store';
+import { InMemoryEventStore } from '../../src/in-memory-event-store';
+import { AggregateLoader, getReducer, registeredAggregateTypes } from '../../src/application/aggregate-loader';
+import { GrantState } from '../../src/domain/grant/grant-logic';
+import { ApplicationState } from '../../src/domain/application/application-types';
+import { grantCreatedEvent, testEvent } from './fixtures';
+
+const created = (grantId: string) => grantCreatedEvent(grantId, { awardedAmountCents: '500000', matchCommitmentCents: '125000' });
+const encumbered = (grantId: string, amountCents: string) =>
+  testEvent('GRANT', grantId, 'GRANT_FUNDS_ENCUMBERED', { voucherId: crypto.randomUUID(), amountCents, isLIRP: false });
+
+describe('EventStore.loadStream', () => {
+  test('returns one stream in (ingestedAt, eventId) order, not append order', async () => {
+    const times = ['2026-01-05T12:00:02.000Z', '2026-01-05T12:00:01.000Z', '2026-01-05T12:00:03.000Z', '2026-01-05T12:00:00.000Z'];
+    const store = new InMemoryEventStore(() => new Date(times.shift()!));
+    const grantId = EventStore.newEventId();
+
+    const first = await store.append(encumbered(grantId, '100'));
+    const second = await store.append(encumbered(grantId, '200'));
+    const third = await store.append(encumbered(grantId, '300'));
+    await store.append(created(EventStore.newEventId()));
+
+    const stream = await store.loadStream('GRANT', grantId);
+    expect(stream.map((event) => event.eventId)).toEqual([second.eventId, first.eventId, third.eventId]);
+  });
+
+  test('fromVersion skips the first N events; after and through bound by watermark', async () => {
+    const store = new InMemoryEventStore();
+    const grantId = EventStore.newEventId();
+    const appended = [
+      await store.append(created(grantId)),
+      await store.append(encumbered(grantId, '100')),
+      await store.append(encumbered(grantId, '200')),
+    ];
+    const ids = (events: DomainEvent[]) => events.map((event) => event.eventId);
+
+    expect(ids(await store.loadStream('GRANT', grantId, { fromVersion: 1 }))).toEqual([appended[1].eventId, appended[2].eventId]);
+    expect(await store.loadStream('GRANT', grantId, { fromVersion: 3 })).toEqual([]);
+    await expect(store.loadStream('GRANT', grantId, { fromVersion: -1 })).rejects.toThrow('EXPECTED_VERSION_INVALID');
+    expect(ids(await store.loadStream('GRANT', grantId, { after: Watermark.from(appended[0]) }))).toEqual([appended[1].eventId, appended[2].eventId]);
+    expect(ids(await store.loadStream('GRANT', grantId, { through: Watermark.from(appended[1]) }))).toEqual([appended[0].eventId, appended[1].eventId]);
+  });
+});
+
+describe('Reducer registry', () => {
+  test('every loaded aggregate type has a reducer; unknown types fail loudly', async () => {
+    expect(registeredAggregateTypes()).toEqual(expect.arrayContaining(['GRANT', 'VOUCHER', 'ALLOCATOR', 'CLAIM', 'GRANT_CYCLE']));
+    expect(() => getReducer('NO_SUCH_AGGREGATE')).toThrow('REDUCER_NOT_REGISTERED:NO_SUCH_AGGREGATE');
+
+    const store = new InMemoryEventStore();
+    const loader = new AggregateLoader(store);
+    await expect(loader.load('NO_SUCH_AGGREGATE', EventStore.newEventId())).rejects.toThrow('REDUCER_NOT_REGISTERED:NO_SUCH_AGGREGATE');
+  });
+
+  test('the loader folds the stream through the registered reducer', async () => {
+    const store = new InMemoryEventStore();
+    const grantId = EventStore.newEventId();
+    await store.append(created(grantId));
+    await store.append(encumbered(grantId, '100000'));
+
+    const grant = await new AggregateLoader(store).load<GrantState>('GRANT', grantId);
+    expect(grant?.version).toBe(2);
+    expect(grant?.state.get('GENERAL')).toMatchObject({ availableCents: 400000n, encumberedCents: 100000n });
+    expect(await new AggregateLoader(store).load('GRANT', EventStore.newEventId())).toBeNull();
+  });
+
+  test('application streams fold through the application event union', async () => {
+    const store = new InMemoryEventStore();
+    const applicationId = EventStore.newEventId();
+    const applicantEvent = (eventType: string, eventData: Record<string, unknown>) =>
+      ({ ...testEvent('APPLICATION', applicationId, eventType, eventData), actorType: 'APPLICANT' as const });
+    await store.append(applicantEvent('APPLICATION_STARTED', {
+      granteeId: 'grantee-1',
+      grantCycleId: 'FY2026',
+      organizationName: 'Kanawha Humane Society',
+      organizationType: 'NONPROFIT',
+    }));
+    await store.append(applicantEvent('APPLICATION_SUBMITTED', {
+      requestedAmountCents: '1000000',
+      matchCommitmentCents: '250000',
+      sectionsCompleted: ['ORGANIZATION_INFO'],
+    }));
+
+    const application = await new AggregateLoader(store).load<ApplicationState>('APPLICATION', applicationId);
+    expect(application?.state).toMatchObject({
+      granteeId: 'grantee-1',
+      status: 'SUBMITTED',
+      requestedAmountCents: 1000000n,
+      submittedAt: new Date('2026-01-05T12:00:00.000Z'),
+    });
+  });
+});
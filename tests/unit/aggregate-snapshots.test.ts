@@ -0,0 +1,133 @@
+/**
+ * AGGREGATE SNAPSHOTS — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import * as crypto from 'crypto';
+import { EventStore, Watermark } from '../../src/event-store';
+import { InMemoryEventStore } from '../../src/in-memory-event-store';
+import { AggregateLoader, getReducer } from '../../src/application/aggregate-loader';
+import { InMemorySnapshotStore, canonicalStateJson } from '../../src/application/aggregate-snapshots';
+import { GrantState } from '../../src/domain/grant/grant-logic';
+import { grantCreatedEvent, testEvent } from './fixtures';
+
+async function seedGrant(store: InMemoryEventStore, grantId: string): Promise<void> {
+  await store.append(grantCreatedEvent(grantId, { lirpEnabled: true, lirpAllocationCents: '200000' }));
+  await store.append(testEvent('GRANT', grantId, 'GRANT_AGREEMENT_SIGNED', { grantId }));
+  await store.append(testEvent('GRANT', grantId, 'GRANT_ACTIVATED', { grantId }));
+}
+
+const encumber = (grantId: string, amountCents: string, isLIRP: boolean) =>
+  testEvent('GRANT', grantId, 'GRANT_FUNDS_ENCUMBERED', { voucherId: crypto.randomUUID(), amountCents, isLIRP });
+
+describe('Aggregate snapshots', () => {
+  test('snapshot + tail equals a full replay', async () => {
+    const store = new InMemoryEventStore();
+    const snapshots = new InMemorySnapshotStore();
+    const loader = new AggregateLoader(store, snapshots, { everyNEvents: 2 });
+    const grantId = EventStore.newEventId();
+
+    await seedGrant(store, grantId);
+    await store.append(encumber(grantId, '10000', false));
+    await loader.load('GRANT', grantId);
+    expect((await snapshots.latest('GRANT', grantId, getReducer('GRANT').stateVersion))?.streamVersion).toBe(4);
+
+    await store.append(encumber(grantId, '20000', true));
+    await store.append(testEvent('GRANT', grantId, 'GRANT_SUSPENDED', { grantId, reasonCode: 'AUDIT_FINDING' }));
+    await store.append(encumber(grantId, '5000', false));
+
+    const fromSnapshot = await loader.load<GrantState>('GRANT', grantId);
+    const fromGenesis = await new AggregateLoader(store).load<GrantState>('GRANT', grantId);
+    expect(fromSnapshot?.version).toBe(7);
+    expect(canonicalStateJson(fromSnapshot?.state)).toBe(canonicalStateJson(fromGenesis?.state));
+    expect(fromSnapshot?.state.metadata?.status).toBe('SUSPENDED');
+    expect(fromSnapshot?.state.get('LIRP')?.encumberedCents).toBe(20000n);
+
+    await store.append(encumber(grantId, '1000', false));
+    expect(await loader.verify('GRANT', grantId)).toEqual({
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      snapshotVersion: 7,
+      version: 8,
+      matches: true,
+    });
+  });
+
+  test('allocator code sets survive the snapshot encoding', async () => {
+    const store = new InMemoryEventStore();
+    const loader = new AggregateLoader(store, new InMemorySnapshotStore(), { everyNEvents: 1 });
+    const allocatorId = EventStore.newEventId();
+    await store.append(testEvent('ALLOCATOR', allocatorId, 'VOUCHER_CODE_ALLOCATOR_INITIALIZED', { grantCycleId: 'FY2026', countyCode: 'KANAWHA' }));
+    await store.append(testEvent('ALLOCATOR', allocatorId, 'VOUCHER_CODE_ALLOCATED', { voucherCode: 'WVSNP-KANAWHA-2026-0001-O' }));
+    await loader.load('ALLOCATOR', allocatorId);
+    await store.append(testEvent('ALLOCATOR', allocatorId, 'VOUCHER_CODE_ALLOCATED', { voucherCode: 'WVSNP-KANAWHA-2026-0002-M' }));
+
+    expect((await loader.verify('ALLOCATOR', allocatorId)).matches).toBe(true);
+    const allocator = await loader.load<{ allocatedCodes: Set<string>; nextSequence: number }>('ALLOCATOR', allocatorId);
+    expect(allocator?.state.allocatedCodes).toEqual(new Set(['WVSNP-KANAWHA-2026-0001-O', 'WVSNP-KANAWHA-2026-0002-M']));
+    expect(allocator?.state.nextSequence).toBe(3);
+  });
+
+  test('snapshots stop at the commit horizon and the tail resumes from the snapshot version', async () => {
+    let horizon = new Date(8.64e15);
+    let tick = Date.parse('2026-01-05T12:00:00.000Z');
+    const store = new class extends InMemoryEventStore {
+      async commitHorizon(): Promise<Date> { return horizon; }
+    }(() => new Date(tick += 1000));
+    const snapshots = new InMemorySnapshotStore();
+    const loader = new AggregateLoader(store, snapshots, { everyNEvents: 2 });
+    const grantId = EventStore.newEventId();
+
+    await seedGrant(store, grantId);
+    const [, , activated] = await store.loadStream('GRANT', grantId);
+    horizon = new Date(activated.ingestedAt.getTime() + 1);
+    await store.append(encumber(grantId, '10000', false));
+    await store.append(encumber(grantId, '20000', true));
+
+    const loaded = await loader.load<GrantState>('GRANT', grantId);
+    expect(loaded?.version).toBe(5);
+    expect(loaded?.state.get('LIRP')?.encumberedCents).toBe(20000n);
+    const saved = await snapshots.latest('GRANT', grantId, getReducer('GRANT').stateVersion);
+    expect(saved?.streamVersion).toBe(3);
+    expect((saved?.state as GrantState).get('LIRP')?.encumberedCents).toBe(0n);
+    expect(await loader.verify('GRANT', grantId)).toMatchObject({ snapshotVersion: 3, version: 5, matches: true });
+  });
+
+  test('a snapshot past the end of the stream is rejected', async () => {
+    const store = new InMemoryEventStore();
+    const snapshots = new InMemorySnapshotStore();
+    const loader = new AggregateLoader(store, snapshots);
+    const grantId = EventStore.newEventId();
+    await seedGrant(store, grantId);
+    const events = await store.loadStream('GRANT', grantId);
+    await snapshots.save({
+      aggregateType: 'GRANT',
+      aggregateId: grantId,
+      streamVersion: 4,
+      reducerVersion: getReducer('GRANT').stateVersion,
+      state: new Map(),
+      watermark: Watermark.from(events[2]),
+    });
+
+    await expect(loader.load('GRANT', grantId)).rejects.toThrow('SNAPSHOT_STREAM_MISMATCH');
+  });
+
+  test('snapshots from another reducer version are discarded; corrupted ones fail verification', async () => {
+    const store = new InMemoryEventStore();
+    const snapshots = new InMemorySnapshotStore();
+    const loader = new AggregateLoader(store, snapshots, { everyNEvents: 100 });
+    const grantId = EventStore.newEventId();
+    await seedGrant(store, grantId);
+    const [first] = await store.loadStream('GRANT', grantId);
+    const stale = { aggregateType: 'GRANT', aggregateId: grantId, streamVersion: 1, state: new Map(), watermark: Watermark.from(first) };
+    const reducerVersion = getReducer('GRANT').stateVersion;
+
+    await snapshots.save({ ...stale, reducerVersion: reducerVersion - 1 });
+    const loaded = await loader.load<GrantState>('GRANT', grantId);
+    expect(loaded?.state.metadata?.status).toBe('ACTIVE');
+    expect((await loader.verify('GRANT', grantId)).snapshotVersion).toBeNull();
+
+    await snapshots.save({ ...stale, reducerVersion });
+    expect((await loader.verify('GRANT', grantId)).matches).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * COUNTY ALLOCATORS — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import { WV_COUNTY_CODES, isWvCountyCode, toWvCountyCode } from '../../src/domain/county/county-registry';
+import {
+  applyAllocatorEvent,
+  createInitialAllocatorState,
+  generateVoucherCode,
+} from '../../src/domain/voucher/voucher-code-allocator';
+import { Allocator } from '../../src/domain-types';
+
+describe('West Virginia county registry', () => {
+  test('lists all 55 counties once', () => {
+    expect(WV_COUNTY_CODES).toHaveLength(55);
+    expect(new Set(WV_COUNTY_CODES).size).toBe(55);
+  });
+
+  test('normalizes county names to codes and rejects anything else', () => {
+    expect(toWvCountyCode('Kanawha')).toBe('KANAWHA');
+    expect(toWvCountyCode(' McDowell ')).toBe('MCDOWELL');
+    expect(isWvCountyCode('kanawha')).toBe(false);
+    expect(() => toWvCountyCode('COUNTY')).toThrow('COUNTY_CODE_INVALID');
+    expect(() => toWvCountyCode('')).toThrow('COUNTY_CODE_INVALID');
+  });
+});
+
+describe('Per-county voucher code allocators', () => {
+  test('allocator ids differ per county and codes carry the county', () => {
+    expect(Allocator.createId('FY2026', 'KANAWHA')).toBe(Allocator.createId('FY2026', 'KANAWHA'));
+    expect(Allocator.createId('FY2026', 'KANAWHA')).not.toBe(Allocator.createId('FY2026', 'CABELL'));
+
+    const state = createInitialAllocatorState(Allocator.createId('FY2026', 'KANAWHA'));
+    applyAllocatorEvent(state, { eventType: 'VOUCHER_CODE_ALLOCATOR_INITIALIZED', eventData: { grantCycleId: 'FY2026', countyCode: 'KANAWHA' } });
+    const voucherCode = generateVoucherCode('FY2026', state.countyCode!, state.nextSequence, '2026');
+    applyAllocatorEvent(state, { eventType: 'VOUCHER_CODE_ALLOCATED', eventData: { voucherCode } });
+
+    expect(voucherCode).toBe('WVSNP-KANAWHA-2026-0001-O');
+    expect(state).toMatchObject({ grantCycleId: 'FY2026', countyCode: 'KANAWHA', nextSequence: 2 });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Shared fixtures for the unit tests (no database)
+ */
+
+import * as crypto from 'crypto';
+import { EventStore, DomainEvent } from '../../src/event-store';
+import { GrantState, applyGrantEvent, createInitialGrantState } from '../../src/domain/grant/grant-logic';
+
+export type UnappendedEvent = Omit<DomainEvent, 'ingestedAt'>;
+
+export function testEvent(aggregateType: string, aggregateId: string, eventType: string, eventData: Record<string, unknown>): UnappendedEvent {
+  return {
+    eventId: EventStore.newEventId(),
+    aggregateType,
+    aggregateId,
+    eventType,
+    eventData,
+    occurredAt: new Date('2026-01-05T12:00:00.000Z'),
+    grantCycleId: 'FY2026',
+    correlationId: crypto.randomUUID(),
+    causationId: null,
+    actorId: crypto.randomUUID() as any,
+    actorType: 'ADMIN',
+  };
+}
+
+// GRANT_CREATED payload: a $10,000 award with a 25% match (rate 10,000 / 12,500), no LIRP bucket
+export function grantCreatedData(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    grantId: 'grant-1',
+    granteeId: 'grantee-1',
+    awardedAmountCents: '1000000',
+    matchCommitmentCents: '250000',
+    rateNumeratorCents: '1000000',
+    rateDenominatorCents: '1250000',
+    lirpEnabled: false,
+    ...overrides,
+  };
+}
+
+export function grantCreatedEvent(grantId: string, overrides: Record<string, unknown> = {}): UnappendedEvent {
+  return testEvent('GRANT', grantId, 'GRANT_CREATED', grantCreatedData({ grantId, ...overrides }));
+}
+
+export function createdGrantState(overrides: Record<string, unknown> = {}): GrantState {
+  const state = createInitialGrantState();
+  applyGrantEvent(state, { eventType: 'GRANT_CREATED', eventData: grantCreatedData(overrides) });
+  return state;
+}
@@ -0,0 +1,86 @@
+/**
+ * GRANT BUDGET CHANGES — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import {
+  GrantState,
+  applyGrantEvent,
+  assertAwardAmendment,
+  assertBucketReallocation,
+  checkGrantInvariant,
+  rateForClaimSubmittedAt,
+} from '../../src/domain/grant/grant-logic';
+import { Money } from '../../src/domain-types';
+import { createdGrantState } from './fixtures';
+
+function lirpGrant(): GrantState {
+  const state = createdGrantState({ lirpEnabled: true, lirpAllocationCents: '200000' });
+  applyGrantEvent(state, { eventType: 'GRANT_FUNDS_ENCUMBERED', eventData: { amountCents: '150000', isLIRP: true } });
+  return state;
+}
+
+describe('Grant award amendments', () => {
+  test('move each bucket by the difference and reprice claims from the amendment on', () => {
+    const state = lirpGrant();
+    const rate = assertAwardAmendment(state, {
+      awardedAmountCents: Money.fromBigInt(1200000n),
+      matchCommitmentCents: Money.fromBigInt(300000n),
+      lirpAllocationCents: Money.fromBigInt(150000n),
+    });
+    expect(rate).toEqual({ numeratorCents: 1200000n, denominatorCents: 1500000n });
+
+    applyGrantEvent(state, {
+      eventType: 'GRANT_AWARD_AMENDED',
+      eventData: {
+        awardedAmountCents: '1200000',
+        matchCommitmentCents: '300000',
+        lirpAllocationCents: '150000',
+        rateNumeratorCents: '1200000',
+        rateDenominatorCents: '1500000',
+        rateEffectiveFrom: '2026-03-01T12:00:00.000Z',
+      },
+    });
+    checkGrantInvariant(state);
+    expect(state.get('GENERAL')).toMatchObject({ awardedCents: 1050000n, availableCents: 1050000n, matchingCommittedCents: 300000n });
+    // Bucket rates keep the award rate; the amended rate only applies by submission time
+    expect(state.get('LIRP')).toMatchObject({ awardedCents: 150000n, availableCents: 0n, encumberedCents: 150000n, rateNumeratorCents: 1000000n });
+
+    expect(rateForClaimSubmittedAt(state, new Date('2026-02-28T00:00:00.000Z'))).toEqual({ numeratorCents: 1000000n, denominatorCents: 1250000n });
+    expect(rateForClaimSubmittedAt(state, new Date('2026-03-01T12:00:00.000Z'))).toEqual({ numeratorCents: 1200000n, denominatorCents: 1500000n });
+  });
+
+  test('reject amendments below committed funds, mismatched LIRP, or no change', () => {
+    const state = lirpGrant();
+    const amend = (awarded: bigint, lirp: bigint | null, match = 250000n) => () => assertAwardAmendment(state, {
+      awardedAmountCents: Money.fromBigInt(awarded),
+      matchCommitmentCents: Money.fromBigInt(match),
+      lirpAllocationCents: lirp === null ? null : Money.fromBigInt(lirp),
+    });
+
+    expect(amend(1000000n, 100000n)).toThrow('GRANT_AMENDMENT_BELOW_COMMITTED');
+    expect(amend(1000000n, null)).toThrow('GRANT_LIRP_ALLOCATION_INVALID');
+    expect(amend(100000n, 150000n)).toThrow('GRANT_LIRP_ALLOCATION_INVALID');
+    expect(amend(1000000n, 200000n)).toThrow('GRANT_AMENDMENT_NO_CHANGE');
+    expect(amend(1000000n, 200000n, 300000n)).not.toThrow();
+
+    applyGrantEvent(state, { eventType: 'GRANT_CLOSED', eventData: {} });
+    expect(amend(1200000n, 200000n)).toThrow('GRANT_CLOSED');
+  });
+});
+
+describe('Grant bucket reallocation', () => {
+  test('moves only available dollars and keeps the invariant', () => {
+    const state = lirpGrant();
+    expect(() => assertBucketReallocation(state, 'LIRP', 'GENERAL', Money.fromBigInt(50001n))).toThrow('GRANT_REALLOCATION_EXCEEDS_AVAILABLE');
+    expect(() => assertBucketReallocation(state, 'LIRP', 'LIRP', Money.fromBigInt(1n))).toThrow('GRANT_REALLOCATION_INVALID');
+    expect(() => assertBucketReallocation(state, 'LIRP', 'GENERAL', Money.fromBigInt(0n))).toThrow('GRANT_REALLOCATION_INVALID');
+    assertBucketReallocation(state, 'LIRP', 'GENERAL', Money.fromBigInt(50000n));
+
+    applyGrantEvent(state, { eventType: 'GRANT_BUCKET_REALLOCATED', eventData: { fromBucket: 'LIRP', toBucket: 'GENERAL', amountCents: '50000' } });
+    checkGrantInvariant(state);
+    expect(state.get('LIRP')).toMatchObject({ awardedCents: 150000n, availableCents: 0n });
+    expect(state.get('GENERAL')).toMatchObject({ awardedCents: 850000n, availableCents: 850000n });
+    expect(rateForClaimSubmittedAt(state, new Date())).toEqual({ numeratorCents: 1000000n, denominatorCents: 1250000n });
+  });
+});
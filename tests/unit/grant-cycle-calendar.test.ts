@@ -0,0 +1,79 @@
+/**
+ * GRANT CYCLE CALENDAR — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import {
+  GRANT_CYCLE_TIME_ZONE,
+  GrantCycleCalendar,
+  applyGrantCycleEvent,
+  assertGrantCycleCalendarValid,
+  createInitialGrantCycleState,
+  dueGrantCycleDeadlines,
+  fiscalYearCalendar,
+  localDayEndsAt,
+  localDayStartsAt,
+} from '../../src/domain/grant-cycle/calendar-logic';
+
+const FY2026: GrantCycleCalendar = {
+  periodStart: '2025-07-01',
+  periodEnd: '2026-06-30',
+  claimsDeadline: '2026-11-15',
+  invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 1 },
+  fundCodes: ['WVSNP'],
+  timeZone: GRANT_CYCLE_TIME_ZONE,
+};
+
+describe('Grant cycle calendar', () => {
+  test('New York day boundaries follow daylight saving time', () => {
+    expect(localDayStartsAt('2026-01-15', GRANT_CYCLE_TIME_ZONE).toISOString()).toBe('2026-01-15T05:00:00.000Z');
+    expect(localDayStartsAt('2026-07-15', GRANT_CYCLE_TIME_ZONE).toISOString()).toBe('2026-07-15T04:00:00.000Z');
+
+    // March 8 2026 is 23 hours long, November 1 2026 is 25
+    expect(localDayStartsAt('2026-03-08', GRANT_CYCLE_TIME_ZONE).toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(localDayEndsAt('2026-03-08', GRANT_CYCLE_TIME_ZONE).toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect(localDayStartsAt('2026-11-01', GRANT_CYCLE_TIME_ZONE).toISOString()).toBe('2026-11-01T04:00:00.000Z');
+    expect(localDayEndsAt('2026-11-01', GRANT_CYCLE_TIME_ZONE).toISOString()).toBe('2026-11-02T05:00:00.000Z');
+
+    // Month and year rollover
+    expect(localDayEndsAt('2026-12-31', GRANT_CYCLE_TIME_ZONE).toISOString()).toBe('2027-01-01T05:00:00.000Z');
+  });
+
+  test('deadlines fall due at the end of their day and are reported once', () => {
+    const state = createInitialGrantCycleState('FY2026');
+    expect(dueGrantCycleDeadlines(state, new Date('2030-01-01T00:00:00.000Z'))).toEqual([]);
+
+    applyGrantCycleEvent(state, { eventType: 'GRANT_CYCLE_CREATED', eventData: { grantCycleId: 'FY2026', ...FY2026 }, ingestedAt: new Date() });
+    expect(dueGrantCycleDeadlines(state, new Date('2026-07-01T03:59:59.999Z'))).toEqual([]);
+    expect(dueGrantCycleDeadlines(state, new Date('2026-07-01T04:00:00.000Z'))).toEqual(['GRANT_PERIOD_ENDED']);
+    expect(dueGrantCycleDeadlines(state, new Date('2026-11-16T05:00:00.000Z')))
+      .toEqual(['GRANT_PERIOD_ENDED', 'GRANT_CLAIMS_DEADLINE_PASSED']);
+
+    applyGrantCycleEvent(state, { eventType: 'GRANT_PERIOD_ENDED', eventData: { boundaryAt: '2026-07-01T04:00:00.000Z' } });
+    expect(state.periodEndedAt?.toISOString()).toBe('2026-07-01T04:00:00.000Z');
+    expect(dueGrantCycleDeadlines(state, new Date('2026-11-16T05:00:00.000Z'))).toEqual(['GRANT_CLAIMS_DEADLINE_PASSED']);
+  });
+
+  test('rejects calendars that are out of order or malformed', () => {
+    expect(() => assertGrantCycleCalendarValid(FY2026)).not.toThrow();
+    const invalid: Array<Partial<GrantCycleCalendar>> = [
+      { periodEnd: '2025-06-30' },
+      { claimsDeadline: '2026-06-29' },
+      { periodEnd: '2026-02-30' },
+      { invoiceSchedule: { frequency: 'MONTHLY', dayOfMonth: 31 } },
+      { fundCodes: [] },
+      { fundCodes: ['WVSNP', 'WVSNP'] },
+      { timeZone: 'America/Nowhere' },
+    ];
+    for (const change of invalid) {
+      expect(() => assertGrantCycleCalendarValid({ ...FY2026, ...change })).toThrow('GRANT_CYCLE_CALENDAR_INVALID');
+    }
+  });
+
+  test('FYyyyy cycles default to the July-June fiscal year', () => {
+    expect(fiscalYearCalendar('FY2026')).toEqual(FY2026);
+    expect(fiscalYearCalendar('FY2025')?.periodStart).toBe('2024-07-01');
+    expect(fiscalYearCalendar('PII-1a2b3c4d')).toBeNull();
+    expect(fiscalYearCalendar('FY26')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * GRANT BUDGET FORECAST — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import { BudgetMovement, WEEK_MS, expiringVoucherEncumbrances, forecastBucket, weeklyVelocity } from '../../src/domain/grant/forecast-logic';
+import { Money } from '../../src/domain-types';
+
+const now = new Date('2026-03-01T00:00:00.000Z');
+const weeksAgo = (weeks: number) => new Date(now.getTime() - weeks * WEEK_MS);
+const weeksAhead = (weeks: number) => new Date(now.getTime() + weeks * WEEK_MS);
+const cents = (amount: bigint) => Money.fromBigInt(amount);
+
+const movements: BudgetMovement[] = [
+  { bucketType: 'GENERAL', kind: 'ENCUMBERED', amountCents: cents(400000n), occurredAt: weeksAgo(1) },
+  { bucketType: 'GENERAL', kind: 'ENCUMBERED', amountCents: cents(400000n), occurredAt: weeksAgo(7) },
+  { bucketType: 'GENERAL', kind: 'ENCUMBERED', amountCents: cents(999999n), occurredAt: weeksAgo(9) },
+  { bucketType: 'GENERAL', kind: 'RELEASED', amountCents: cents(160000n), occurredAt: weeksAgo(2) },
+  { bucketType: 'GENERAL', kind: 'LIQUIDATED', amountCents: cents(240000n), occurredAt: weeksAgo(3) },
+  { bucketType: 'LIRP', kind: 'ENCUMBERED', amountCents: cents(80000n), occurredAt: weeksAgo(1) },
+];
+
+describe('Grant budget forecast', () => {
+  test('velocity averages the trailing eight weeks', () => {
+    expect(weeklyVelocity(movements.filter((m) => m.bucketType === 'GENERAL'), 'ENCUMBERED', now)).toBe(100000n);
+    expect(weeklyVelocity(movements.filter((m) => m.bucketType === 'GENERAL'), 'RELEASED', now)).toBe(20000n);
+    expect(weeklyVelocity(movements.filter((m) => m.bucketType === 'GENERAL'), 'LIQUIDATED', now)).toBe(30000n);
+  });
+
+  test('exhaustion projects available plus soon-expiring encumbrances at the net draw', () => {
+    const forecast = forecastBucket('GENERAL', cents(720000n), movements, [
+      { bucketType: 'GENERAL', amountCents: cents(80000n), expiresAt: weeksAhead(2) },
+      { bucketType: 'GENERAL', amountCents: cents(50000n), expiresAt: weeksAhead(30) },
+    ], now, weeksAhead(20));
+
+    // (720000 + 80000) / (100000 - 20000) = 10 weeks
+    expect(forecast.expiringBeforePeriodEndCents).toBe(80000n);
+    expect(forecast.projectedExhaustionAt).toEqual(weeksAhead(10));
+    expect(forecast.atRiskOfLapsing).toBe(false);
+  });
+
+  test('LIRP vouchers return their must-honor fallback to GENERAL when they expire', () => {
+    const expiring = [
+      ...expiringVoucherEncumbrances(true, cents(50000n), cents(20000n), weeksAhead(2)),
+      ...expiringVoucherEncumbrances(true, cents(40000n), cents(0n), weeksAhead(3)),
+      ...expiringVoucherEncumbrances(false, cents(30000n), cents(0n), weeksAhead(4)),
+    ];
+    expect(expiring).toEqual([
+      { bucketType: 'LIRP', amountCents: 30000n, expiresAt: weeksAhead(2) },
+      { bucketType: 'GENERAL', amountCents: 20000n, expiresAt: weeksAhead(2) },
+      { bucketType: 'LIRP', amountCents: 40000n, expiresAt: weeksAhead(3) },
+      { bucketType: 'GENERAL', amountCents: 30000n, expiresAt: weeksAhead(4) },
+    ]);
+
+    expect(forecastBucket('LIRP', cents(0n), [], expiring, now, weeksAhead(20)).expiringBeforePeriodEndCents).toBe(70000n);
+    expect(forecastBucket('GENERAL', cents(0n), [], expiring, now, weeksAhead(20)).expiringBeforePeriodEndCents).toBe(50000n);
+  });
+
+  test('money left at the period end at the current pace is at risk of lapsing', () => {
+    const slow = forecastBucket('LIRP', cents(200000n), movements, [], now, weeksAhead(4));
+    expect(slow.projectedExhaustionAt).toEqual(weeksAhead(20));
+    expect(slow.atRiskOfLapsing).toBe(true);
+
+    const idle = forecastBucket('LIRP', cents(200000n), [], [], now, weeksAhead(4));
+    expect(idle.projectedExhaustionAt).toBeNull();
+    expect(idle.atRiskOfLapsing).toBe(true);
+
+    expect(forecastBucket('LIRP', cents(0n), movements, [], now, weeksAhead(4))).toMatchObject({ projectedExhaustionAt: now, atRiskOfLapsing: false });
+    expect(forecastBucket('LIRP', cents(200000n), [], [], now, weeksAgo(1)).atRiskOfLapsing).toBe(false);
+    expect(forecastBucket('LIRP', cents(200000n), [], [], now, null).atRiskOfLapsing).toBe(false);
+  });
+});
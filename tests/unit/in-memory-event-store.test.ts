@@ -0,0 +1,199 @@
+/**
+ * IN-MEMORY EVENT STORE — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import * as crypto from 'crypto';
+import { EventStore, Watermark, ConcurrencyConflictError } from '../../src/event-store';
+import { InMemoryEventStore } from '../../src/in-memory-event-store';
+import { AggregateLoader } from '../../src/application/aggregate-loader';
+import { replayAllProjections } from '../../src/projections/rebuild';
+import { sweepExpiredTentatives } from '../../src/jobs/sweep-expired-tentatives';
+import { grantCreatedEvent, testEvent } from './fixtures';
+
+const grantCreated = (grantId: string) => grantCreatedEvent(grantId, { awardedAmountCents: '500000', matchCommitmentCents: '125000' });
+const encumbered = (grantId: string, amountCents: string) =>
+  testEvent('GRANT', grantId, 'GRANT_FUNDS_ENCUMBERED', { voucherId: crypto.randomUUID(), amountCents, isLIRP: false });
+
+describe('InMemoryEventStore', () => {
+  test('rejects what PostgresEventStore rejects at append', async () => {
+    const store = new InMemoryEventStore();
+    const grantId = EventStore.newEventId();
+
+    await expect(store.append({ ...grantCreated(grantId), eventId: crypto.randomUUID() as any }))
+      .rejects.toThrow('UUID_V7_REQUIRED:eventId');
+    await expect(store.append({ ...grantCreated(grantId), eventData: { awardedAmountCents: 500000n } }))
+      .rejects.toThrow('EVENT_DATA_BIGINT_FORBIDDEN:eventData.awardedAmountCents');
+    await expect(store.append({ ...grantCreated(grantId), eventData: { lirpEnabled: false } }))
+      .rejects.toThrow('EVENT_DATA_SCHEMA_INVALID:GRANT_CREATED');
+
+    const created = await store.append(grantCreated(grantId));
+    await expect(store.append({ ...grantCreated(grantId), eventId: created.eventId })).rejects.toThrow('event_log_pkey');
+    expect(await store.getStreamVersion('GRANT', grantId)).toBe(1);
+  });
+
+  test('checks payloads of events the reducers consume beyond the grant stream', async () => {
+    const store = new InMemoryEventStore();
+    const malformed: Array<[string, string, Record<string, unknown>]> = [
+      ['CLAIM', 'CLAIM_ADJUSTED', { newAmountCents: 1500 }],
+      ['VOUCHER', 'VOUCHER_ISSUED_CONFIRMED', { voucherCode: 'WVSNP-KANAWHA-2026-0001-O' }],
+      ['INVOICE', 'INVOICE_GENERATED', { clinicId: crypto.randomUUID(), periodStart: '2026-01-01', periodEnd: '2026-01-31', claimIds: [] }],
+      ['PAYMENT', 'PAYMENT_RECORDED', { invoiceId: crypto.randomUUID(), amountCents: '-100', paymentChannel: 'ACH' }],
+      ['APPLICATION', 'APPLICATION_SUBMITTED', { requestedAmountCents: '1000', matchCommitmentCents: '250' }],
+      ['OASIS_EXPORT_BATCH', 'OASIS_EXPORT_BATCH_REJECTED', { rejectionCode: 'E01' }],
+      ['VET_CLINIC', 'VET_CLINIC_REGISTERED', {}],
+      ['GRANT_CYCLE_CLOSEOUT', 'GRANT_CYCLE_CLOSEOUT_PREFLIGHT_COMPLETED', { status: 'PASSED' }],
+    ];
+    for (const [aggregateType, eventType, eventData] of malformed) {
+      await expect(store.append({ ...grantCreated(EventStore.newEventId()), aggregateType, eventType, eventData }))
+        .rejects.toThrow(`EVENT_DATA_SCHEMA_INVALID:${eventType}`);
+    }
+  });
+
+  test('stamps ingestedAt itself and orders by (ingestedAt, eventId)', async () => {
+    let now = new Date('2026-02-01T00:00:00.000Z');
+    const store = new InMemoryEventStore(() => now);
+    const grantId = EventStore.newEventId();
+
+    const first = await store.append(grantCreated(grantId));
+    expect(first.ingestedAt).toEqual(now);
+    expect(first.occurredAt).toEqual(new Date('2026-01-05T12:00:00.000Z'));
+
+    // Same millisecond: event_id breaks the tie
+    const later = { ...encumbered(grantId, '1000'), eventId: 'ffffffff-ffff-7fff-bfff-ffffffffffff' as any };
+    const earlier = { ...encumbered(grantId, '2000'), eventId: '00000000-0000-7000-8000-000000000001' as any };
+    now = new Date('2026-02-01T00:00:01.000Z');
+    await store.append(later);
+    await store.append(earlier);
+
+    const all = await store.fetchSince(Watermark.ZERO);
+    expect(all.map((event) => event.eventId)).toEqual([first.eventId, earlier.eventId, later.eventId]);
+
+    // Exclusive watermark, limit respected
+    const tail = await store.fetchSince(Watermark.from(all[1]), 10);
+    expect(tail.map((event) => event.eventId)).toEqual([later.eventId]);
+    expect(await store.fetchSince(Watermark.ZERO, 2)).toHaveLength(2);
+
+    // Reads are copies: callers cannot rewrite the log
+    all[0].eventData.awardedAmountCents = '1';
+    expect((await store.loadStream('GRANT', grantId))[0].eventData.awardedAmountCents).toBe('500000');
+  });
+
+  test('enforces expectedVersion like the Postgres stream lock', async () => {
+    const store = new InMemoryEventStore();
+    const grantId = EventStore.newEventId();
+
+    await store.append(grantCreated(grantId), { expectedVersion: 0 });
+    await expect(store.append(encumbered(grantId, '1000'), { expectedVersion: 0 }))
+      .rejects.toBeInstanceOf(ConcurrencyConflictError);
+    await expect(store.append(encumbered(grantId, '1000'), { expectedVersion: -1 }))
+      .rejects.toThrow('EXPECTED_VERSION_INVALID');
+    await store.append(encumbered(grantId, '1000'), { expectedVersion: 1 });
+  });
+});
+
+describe('Reducers and projections over the in-memory store', () => {
+  test('AggregateLoader replays grant state and point-in-time state', async () => {
+    const store = new InMemoryEventStore();
+    const loader = new AggregateLoader(store);
+    const grantId = EventStore.newEventId();
+
+    const created = await store.append(grantCreated(grantId));
+    await store.append(encumbered(grantId, '100000'));
+
+    const latest = await loader.load<any>('GRANT', grantId);
+    expect(latest?.version).toBe(2);
+    expect(latest?.state.get('GENERAL').availableCents).toBe(400000n);
+
+    const asOfCreation = await loader.loadAsOf<any>('GRANT', grantId, Watermark.from(created));
+    expect(asOfCreation?.state.get('GENERAL').availableCents).toBe(500000n);
+  });
+
+  test('replayAllProjections computes projection rows without a database', async () => {
+    const store = new InMemoryEventStore();
+    const grantId = EventStore.newEventId();
+    await store.append(grantCreated(grantId));
+    await store.append(encumbered(grantId, '25000'));
+
+    const replay = await replayAllProjections(store);
+    expect(replay.eventsReplayed).toBe(2);
+    expect(replay.state.grants.get(grantId)?.get('GENERAL')).toMatchObject({
+      awardedCents: 500000n,
+      availableCents: 475000n,
+      encumberedCents: 25000n,
+    });
+
+    // Page size must not change the outcome
+    expect((await replayAllProjections(store, { batchSize: 1 })).state).toEqual(replay.state);
+    await expect(replayAllProjections(store, { batchSize: 0 })).rejects.toThrow('REPLAY_BATCH_SIZE_INVALID');
+  });
+
+  test('replayed invoices derive their status from recorded payments', async () => {
+    const store = new InMemoryEventStore();
+    const invoiceId = EventStore.newEventId();
+    const invoiceEvent = (eventType: string, eventData: Record<string, unknown>) => testEvent('INVOICE', invoiceId, eventType, eventData);
+    await store.append(invoiceEvent('INVOICE_GENERATED', {
+      clinicId: crypto.randomUUID(),
+      periodStart: '2026-01-01',
+      periodEnd: '2026-01-31',
+      totalAmountCents: '30000',
+      claimIds: [],
+      adjustmentIds: [],
+    }));
+    await store.append(invoiceEvent('INVOICE_SUBMITTED', {}));
+    await store.append({
+      ...invoiceEvent('PAYMENT_RECORDED', { invoiceId, amountCents: '30000', paymentChannel: 'ACH' }),
+      aggregateType: 'PAYMENT',
+      aggregateId: EventStore.newEventId(),
+    });
+
+    const inserted: Array<{ sql: string; params: unknown[] }> = [];
+    const client = { query: async (sql: string, params: unknown[] = []) => { inserted.push({ sql, params }); return { rows: [] }; } };
+    await (await replayAllProjections(store)).insertInto(client as any);
+
+    const invoice = inserted.find((query) => query.sql.startsWith('INSERT INTO invoices_projection'))!;
+    const columns = invoice.sql.slice(invoice.sql.indexOf('(') + 1, invoice.sql.indexOf(')')).split(', ');
+    expect(invoice.params[columns.indexOf('status')]).toBe('PAID');
+    expect(invoice.params[columns.indexOf('grant_cycle_id')]).toBe('FY2026');
+  });
+
+  test('sweepExpiredTentatives rejects an expired tentative voucher', async () => {
+    const store = new InMemoryEventStore();
+    const voucherId = EventStore.newEventId();
+    const tentative = await store.append(testEvent('VOUCHER', voucherId, 'VOUCHER_ISSUED_TENTATIVE', {
+      maxReimbursementCents: '20000',
+      tentativeExpiresAt: '2026-01-01T00:00:00.000Z',
+    }));
+
+    // vouchers_projection is the only table the sweep touches directly
+    type VoucherRow = { voucher_id: string; grant_id: string; max_reimbursement_cents: string; status: string };
+    const voucherRows = new Map<string, VoucherRow>([
+      [voucherId, { voucher_id: voucherId, grant_id: crypto.randomUUID(), max_reimbursement_cents: '20000', status: 'TENTATIVE' }],
+    ]);
+    const client = {
+      query: async (sql: string, params: unknown[] = []) => {
+        if (/FROM vouchers_projection\s+WHERE status = 'TENTATIVE'/.test(sql)) {
+          return { rows: [...voucherRows.values()].filter((row) => row.status === 'TENTATIVE') };
+        }
+        if (sql.startsWith('SELECT status FROM vouchers_projection')) {
+          const row = voucherRows.get(params[0] as string);
+          return { rows: row ? [{ status: row.status }] : [] };
+        }
+        if (sql.startsWith('UPDATE vouchers_projection')) {
+          voucherRows.get(params[1] as string)!.status = params[0] as string;
+        }
+        return { rows: [] };
+      },
+      release: () => {},
+    };
+    const pool = { connect: async () => client } as any;
+
+    await sweepExpiredTentatives(pool, store);
+
+    const stream = await store.loadStream('VOUCHER', voucherId);
+    expect(stream.map((event) => event.eventType)).toEqual(['VOUCHER_ISSUED_TENTATIVE', 'VOUCHER_ISSUED_REJECTED']);
+    expect(stream[1].causationId).toBe(tentative.eventId);
+    expect(stream[1].eventData).toEqual({ reason: 'TENTATIVE_EXPIRED' });
+    expect(voucherRows.get(voucherId)!.status).toBe('VOIDED');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * LIRP MUST-HONOR — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import {
+  GrantState,
+  applyGrantEvent,
+  assertLirpMustHonorDecision,
+  assertLirpMustHonorEnforceable,
+  checkGrantInvariant,
+  createInitialGrantState,
+  planLirpEncumbrance,
+  splitLirpLiquidation,
+} from '../../src/domain/grant/grant-logic';
+import { Money } from '../../src/domain-types';
+import { createdGrantState } from './fixtures';
+
+const cents = (amount: bigint) => Money.fromBigInt(amount);
+
+function lirpGrant(): GrantState {
+  return createdGrantState({ lirpEnabled: true, lirpAllocationCents: '60000' });
+}
+
+describe('LIRP must-honor', () => {
+  test('a short LIRP bucket falls back to GENERAL only once must-honor is enforced', () => {
+    const state = lirpGrant();
+    expect(planLirpEncumbrance(state, cents(60000n))).toEqual({ lirpCents: 60000n, generalFallbackCents: 0n });
+    expect(() => planLirpEncumbrance(state, cents(100000n))).toThrow('INSUFFICIENT_FUNDS');
+
+    assertLirpMustHonorEnforceable(state);
+    applyGrantEvent(state, { eventType: 'LIRP_MUST_HONOR_ENFORCED', eventData: { grantId: 'grant-1', reason: 'directive' } });
+    expect(() => assertLirpMustHonorEnforceable(state)).toThrow('LIRP_MUST_HONOR_ALREADY_ENFORCED');
+    expect(planLirpEncumbrance(state, cents(100000n))).toEqual({ lirpCents: 60000n, generalFallbackCents: 40000n });
+    expect(() => planLirpEncumbrance(state, cents(1000001n))).toThrow('INSUFFICIENT_FUNDS');
+
+    applyGrantEvent(state, { eventType: 'GRANT_FUNDS_ENCUMBERED', eventData: { voucherId: 'v-1', amountCents: '60000', isLIRP: true } });
+    applyGrantEvent(state, { eventType: 'GRANT_FUNDS_ENCUMBERED', eventData: { voucherId: 'v-1', amountCents: '40000', isLIRP: false, lirpFallback: true } });
+    applyGrantEvent(state, { eventType: 'GRANT_FUNDS_LIQUIDATED', eventData: { claimId: 'c-1', amountCents: '60000', isLIRP: true } });
+    applyGrantEvent(state, { eventType: 'GRANT_FUNDS_LIQUIDATED', eventData: { claimId: 'c-1', amountCents: '30000', isLIRP: false, lirpFallback: true } });
+    checkGrantInvariant(state);
+    expect(state.metadata?.lirpFallback).toEqual({ voucherCount: 1, encumberedCents: 40000n, claimCount: 1, liquidatedCents: 30000n, releasedCents: 0n });
+  });
+
+  test('grants without a LIRP bucket cannot enforce must-honor', () => {
+    expect(() => assertLirpMustHonorEnforceable(createdGrantState())).toThrow('LIRP_NOT_ENABLED');
+    expect(() => assertLirpMustHonorEnforceable(createInitialGrantState())).toThrow('GRANT_NOT_FOUND');
+  });
+
+  test('LIRP claims are neither denied nor under-paid under must-honor', () => {
+    const state = lirpGrant();
+    const decide = (decision: 'APPROVE' | 'DENY', approved?: bigint) => () => assertLirpMustHonorDecision(
+      state, decision, cents(45000n), cents(40000n), approved === undefined ? undefined : cents(approved)
+    );
+    expect(decide('DENY')).not.toThrow();
+    expect(decide('APPROVE', 1n)).not.toThrow();
+
+    applyGrantEvent(state, { eventType: 'LIRP_MUST_HONOR_ENFORCED', eventData: { grantId: 'grant-1', reason: 'directive' } });
+    expect(decide('DENY')).toThrow('LIRP_MUST_HONOR_DENIAL_FORBIDDEN');
+    expect(decide('APPROVE', 39999n)).toThrow('LIRP_MUST_HONOR_UNDERPAYMENT');
+    expect(decide('APPROVE', 40000n)).not.toThrow();
+  });
+
+  test('liquidation draws the LIRP encumbrance before the GENERAL fallback', () => {
+    expect(splitLirpLiquidation(cents(100000n), cents(40000n), cents(90000n))).toEqual({ lirpCents: 60000n, generalFallbackCents: 30000n });
+    expect(splitLirpLiquidation(cents(100000n), cents(40000n), cents(50000n))).toEqual({ lirpCents: 50000n, generalFallbackCents: 0n });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * MATCHING FUNDS — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import {
+  GrantState,
+  applyGrantEvent,
+  assertMatchingFundsAdjustment,
+  assertMatchingFundsReport,
+  createInitialGrantState,
+  matchToDate,
+} from '../../src/domain/grant/grant-logic';
+import { Money } from '../../src/domain-types';
+import { currentSchemaVersion, upcastEventData } from '../../src/event-schemas';
+import { createdGrantState } from './fixtures';
+
+function grant(): GrantState {
+  return createdGrantState();
+}
+
+const report = (reportId: string, matchType: 'CASH' | 'IN_KIND', amountCents: string, evidenceArtifactIds: string[]) => ({
+  eventType: 'MATCHING_FUNDS_REPORTED',
+  eventData: { reportId, matchType, periodStart: '2025-07-01', periodEnd: '2025-09-30', amountCents, evidenceArtifactIds },
+});
+
+describe('Matching funds', () => {
+  test('match to date splits cash and in-kind and follows adjustments', () => {
+    const state = grant();
+    expect(state.metadata?.granteeId).toBe('grantee-1');
+
+    applyGrantEvent(state, report('r-1', 'CASH', '100000', ['bank-statement']));
+    applyGrantEvent(state, report('r-2', 'IN_KIND', '60000', ['volunteer-hours', 'bank-statement']));
+    expect(matchToDate(state)).toEqual({
+      committedCents: 250000n,
+      reportedCents: 160000n,
+      shortfallCents: 90000n,
+      surplusCents: 0n,
+      cashCents: 100000n,
+      inKindCents: 60000n,
+      evidenceArtifactIds: ['bank-statement', 'volunteer-hours'],
+    });
+
+    applyGrantEvent(state, {
+      eventType: 'MATCHING_FUNDS_ADJUSTED',
+      eventData: { reportId: 'r-1', previousAmountCents: '100000', adjustedAmountCents: '300000', evidenceArtifactIds: ['audited-ledger'], reason: 'Ledger audited' },
+    });
+    expect(matchToDate(state)).toMatchObject({ reportedCents: 360000n, shortfallCents: 0n, surplusCents: 110000n, cashCents: 300000n });
+    expect(matchToDate(state).evidenceArtifactIds).toEqual(['audited-ledger', 'volunteer-hours', 'bank-statement']);
+    expect(state.metadata?.matchingReports[0].status).toBe('ADJUSTED');
+  });
+
+  test('reports need a positive amount, an ordered period and evidence', () => {
+    const state = grant();
+    const valid = { reportId: 'r-1', periodStart: '2025-07-01', periodEnd: '2025-09-30', amountCents: Money.fromBigInt(1n), evidenceArtifactIds: ['a'] };
+    expect(() => assertMatchingFundsReport(state, valid)).not.toThrow();
+    expect(() => assertMatchingFundsReport(state, { ...valid, amountCents: Money.fromBigInt(0n) })).toThrow('MATCHING_FUNDS_AMOUNT_INVALID');
+    expect(() => assertMatchingFundsReport(state, { ...valid, periodEnd: '2025-06-30' })).toThrow('MATCHING_FUNDS_PERIOD_INVALID');
+    expect(() => assertMatchingFundsReport(state, { ...valid, evidenceArtifactIds: [] })).toThrow('MATCHING_FUNDS_EVIDENCE_REQUIRED');
+    expect(() => assertMatchingFundsReport(createInitialGrantState(), valid)).toThrow('GRANT_NOT_FOUND');
+
+    applyGrantEvent(state, report('r-1', 'CASH', '1', ['a']));
+    expect(() => assertMatchingFundsReport(state, valid)).toThrow('MATCHING_FUNDS_REPORT_EXISTS');
+    expect(() => assertMatchingFundsAdjustment(state, 'r-2', Money.fromBigInt(5n))).toThrow('MATCHING_FUNDS_REPORT_NOT_FOUND');
+    expect(() => assertMatchingFundsAdjustment(state, 'r-1', Money.fromBigInt(1n))).toThrow('MATCHING_FUNDS_ADJUSTMENT_NO_CHANGE');
+    expect(assertMatchingFundsAdjustment(state, 'r-1', Money.fromBigInt(0n)).amountCents).toBe(1n);
+  });
+
+  test('legacy reports without evidence and v1 increment adjustments still load', () => {
+    const state = grant();
+    applyGrantEvent(state, { eventType: 'MATCHING_FUNDS_REPORTED', eventData: { amountCents: '20000' } });
+    expect(currentSchemaVersion('MATCHING_FUNDS_ADJUSTED')).toBe(2);
+    applyGrantEvent(state, { eventType: 'MATCHING_FUNDS_ADJUSTED', eventData: upcastEventData('MATCHING_FUNDS_ADJUSTED', 1, { amountCents: '5000' }) });
+
+    expect(matchToDate(state)).toMatchObject({ reportedCents: 25000n, shortfallCents: 225000n, evidenceArtifactIds: [] });
+    expect(state.metadata?.matchingReports[0]).toMatchObject({ amountCents: 20000n, evidenceArtifactIds: [], status: 'REPORTED' });
+
+    const current = { reportId: 'r-1', previousAmountCents: '100', adjustedAmountCents: '80', reason: 'Receipt corrected' };
+    expect(upcastEventData('MATCHING_FUNDS_ADJUSTED', 1, current)).toEqual(current);
+  });
+});
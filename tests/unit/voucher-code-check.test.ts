@@ -0,0 +1,45 @@
+/**
+ * VOUCHER CODE CHECK CHARACTERS — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import { checkVoucherCode, generateVoucherCode, voucherCheckCharacter } from '../../src/domain/voucher/voucher-code-allocator';
+
+describe('Voucher code check characters', () => {
+  test('issued codes end with a check character and validate in any case', () => {
+    const voucherCode = generateVoucherCode('FY2026', 'KANAWHA', 1, '2026');
+    expect(voucherCode).toBe('WVSNP-KANAWHA-2026-0001-O');
+    expect(checkVoucherCode(` ${voucherCode.toLowerCase()} `)).toEqual({ status: 'VALID', voucherCode });
+  });
+
+  test('every single-character typo and neighbour swap in the sequence is caught', () => {
+    const body = 'KANAWHA-2026-0417';
+    const check = voucherCheckCharacter(body);
+    for (let pos = 13; pos < body.length; pos++) {
+      for (const digit of '0123456789') {
+        if (digit === body[pos]) continue;
+        const typo = body.slice(0, pos) + digit + body.slice(pos + 1);
+        expect(voucherCheckCharacter(typo)).not.toBe(check);
+      }
+    }
+    expect(voucherCheckCharacter('KANAWHA-2026-0147')).not.toBe(check);
+    expect(voucherCheckCharacter('KANAWHA-2026-0471')).not.toBe(check);
+  });
+
+  test('a failed check suggests codes one typo away', () => {
+    const typed = checkVoucherCode('WVSNP-KANAWHA-2026-0002-O');
+    expect(typed.status).toBe('CHECK_FAILED');
+    expect(typed.status === 'CHECK_FAILED' && typed.candidates).toEqual(expect.arrayContaining([
+      'WVSNP-KANAWHA-2026-0001-O',
+      'WVSNP-KANAWHA-2026-0002-M',
+    ]));
+
+    const swapped = checkVoucherCode('WVSNP-KANAWHA-2026-0010-O');
+    expect(swapped.status === 'CHECK_FAILED' && swapped.candidates).toContain('WVSNP-KANAWHA-2026-0001-O');
+  });
+
+  test('codes issued before check characters are looked up verbatim', () => {
+    expect(checkVoucherCode('WVSNP-KANAWHA-2026-0001')).toEqual({ status: 'UNCHECKED', voucherCode: 'WVSNP-KANAWHA-2026-0001' });
+    expect(checkVoucherCode('WVSNP-TEST-001')).toEqual({ status: 'UNCHECKED', voucherCode: 'WVSNP-TEST-001' });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * VOUCHER VOID — unit tests (no database)
+ * Run with: npm run test:unit
+ */
+
+import {
+  VoucherState,
+  applyVoucherEvent,
+  assertVoucherVoidable,
+  createInitialVoucherState,
+  planVoucherRelease,
+} from '../../src/domain/voucher/voucher-logic';
+import { applyGrantEvent, createInitialGrantState } from '../../src/domain/grant/grant-logic';
+
+function issuedVoucher(eventData: Record<string, unknown>): VoucherState {
+  const state = createInitialVoucherState('voucher-1', 'grant-1');
+  applyVoucherEvent(state, {
+    eventType: 'VOUCHER_ISSUED',
+    eventData: { voucherCode: 'WVSNP-KANAWHA-2026-0001-O', maxReimbursementCents: '50000', expiresAt: '2026-12-31T00:00:00.000Z', ...eventData },
+    ingestedAt: new Date('2026-06-01T00:00:00.000Z'),
+  });
+  return state;
+}
+
+describe('Voucher void', () => {
+  test('releases the full encumbrance, splitting out the must-honor GENERAL fallback', () => {
+    expect(planVoucherRelease(issuedVoucher({ isLIRP: false }))).toEqual([
+      { bucket: 'GENERAL', amountCents: 50000n, lirpFallback: false },
+    ]);
+    expect(planVoucherRelease(issuedVoucher({ isLIRP: true }))).toEqual([
+      { bucket: 'LIRP', amountCents: 50000n, lirpFallback: false },
+    ]);
+    expect(planVoucherRelease(issuedVoucher({ isLIRP: true, lirpFallbackCents: '40000' }))).toEqual([
+      { bucket: 'LIRP', amountCents: 10000n, lirpFallback: false },
+      { bucket: 'GENERAL', amountCents: 40000n, lirpFallback: true },
+    ]);
+    expect(planVoucherRelease(createInitialVoucherState('voucher-2', 'grant-1'))).toEqual([]);
+  });
+
+  test('rejects redeemed, expired or voided vouchers and unknown reason codes', () => {
+    const state = issuedVoucher({ isLIRP: false });
+    expect(() => assertVoucherVoidable(state, 'CHANGED_MIND')).toThrow('VOUCHER_VOID_REASON_CODE_INVALID');
+    expect(() => assertVoucherVoidable(state, 'ISSUED_IN_ERROR')).not.toThrow();
+
+    applyVoucherEvent(state, { eventType: 'VOUCHER_VOIDED', eventData: { reasonCode: 'ISSUED_IN_ERROR', releasedCents: '50000' } });
+    expect(() => assertVoucherVoidable(state, 'ISSUED_IN_ERROR')).toThrow('VOUCHER_ALREADY_VOIDED');
+
+    const redeemed = issuedVoucher({ isLIRP: false });
+    applyVoucherEvent(redeemed, { eventType: 'VOUCHER_REDEEMED', eventData: {} });
+    expect(() => assertVoucherVoidable(redeemed, 'ISSUED_IN_ERROR')).toThrow('VOUCHER_ALREADY_REDEEMED');
+
+    const expired = issuedVoucher({ isLIRP: false });
+    applyVoucherEvent(expired, { eventType: 'VOUCHER_EXPIRED', eventData: {} });
+    expect(expired.status).toBe('EXPIRED');
+    expect(() => assertVoucherVoidable(expired, 'ISSUED_IN_ERROR')).toThrow('VOUCHER_EXPIRED');
+  });
+
+  test('fallback releases are tracked on the grant', () => {
+    const grant = createInitialGrantState();
+    applyGrantEvent(grant, {
+      eventType: 'GRANT_CREATED',
+      eventData: {
+        awardedAmountCents: '1000000',
+        matchCommitmentCents: '0',
+        rateNumeratorCents: '1',
+        rateDenominatorCents: '1',
+        lirpEnabled: true,
+        lirpAllocationCents: '10000',
+      },
+    });
+    applyGrantEvent(grant, { eventType: 'GRANT_FUNDS_ENCUMBERED', eventData: { voucherId: 'voucher-1', amountCents: '40000', isLIRP: false, lirpFallback: true } });
+    applyGrantEvent(grant, { eventType: 'GRANT_FUNDS_RELEASED', eventData: { voucherId: 'voucher-1', amountCents: '40000', isLIRP: false, lirpFallback: true } });
+
+    expect(grant.metadata?.lirpFallback).toMatchObject({ encumberedCents: 40000n, releasedCents: 40000n });
+    expect(grant.get('GENERAL')).toMatchObject({ availableCents: 990000n, encumberedCents: 0n, releasedCents: 40000n });
+  });
+});